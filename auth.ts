@@ -0,0 +1,323 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import {
+  passwordSchema,
+  changePasswordSchema,
+  requestPasswordResetSchema,
+  confirmPasswordResetSchema
+} from "@shared/credentials";
+import { comparePasswords, generateResetToken, hashResetToken } from "./services/password";
+import { loginAttempts } from "./services/login-attempts";
+import { getNotifier } from "./services/notifier";
+import { auditEntity, auditTrail } from "./services/audit";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// ethics_officer is the only role allowed to see who filed an anonymous complaint
+export type UserRole = "employee" | "hr_manager" | "counselor" | "ethics_officer";
+
+export const STAFF_ROLES: UserRole[] = ["hr_manager", "counselor", "ethics_officer"];
+
+// Staff who work cases: they carry a caseload and use scenarios, calendars and
+// analytics. Ethics officers review complaints but do none of these.
+export const CASEWORKER_ROLES: UserRole[] = ["hr_manager", "counselor"];
+
+// Strip credentials before a user record leaves the server
+export function sanitizeUser(user: SelectUser) {
+  const { password: _, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+}
+
+export function hasRole(user: Express.User | undefined, ...roles: UserRole[]): boolean {
+  return !!user && roles.includes(user.role as UserRole);
+}
+
+export function isStaff(user: Express.User | undefined): boolean {
+  return hasRole(user, ...STAFF_ROLES);
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user, ...roles)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development only: sessions will not survive a restart
+  return randomBytes(32).toString("hex");
+}
+
+// Signs the user in on a new session id, so an id planted in the browser
+// before login (session fixation) never becomes an authenticated session
+function loginWithNewSession(req: Request, user: SelectUser, done: (err?: unknown) => void) {
+  req.session.regenerate(regenerateErr => {
+    if (regenerateErr) return done(regenerateErr);
+    req.login(user, done);
+  });
+}
+
+let sessionMiddleware: RequestHandler | undefined;
+
+// Resolves the logged-in user for requests that bypass Express, such as
+// WebSocket upgrades, from the same session cookie
+export async function sessionUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  if (!sessionMiddleware) return undefined;
+  const request = req as Request;
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware!(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve()));
+  });
+
+  const userId = (request.session as { passport?: { user?: string } } | undefined)?.passport?.user;
+  if (!userId) return undefined;
+  const user = await storage.getUser(userId);
+  return user && user.isActive ? user : undefined;
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  app.set("trust proxy", 1);
+  sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(auditTrail);
+
+  passport.use(
+    new LocalStrategy({ usernameField: "phone" }, async (phone, password, done) => {
+      try {
+        const user = await storage.getUserByPhone(phone);
+        if (!user || !user.isActive || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deactivated account loses its existing sessions too
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const { phone, password } = req.body;
+
+    if (!phone || !password) {
+      return res.status(400).json({ message: "Phone number and password are required" });
+    }
+
+    const lockedFor = loginAttempts.lockedFor(phone);
+    if (lockedFor > 0) {
+      const retryAfter = Math.ceil(lockedFor / 1000);
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        message: `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.`,
+      });
+    }
+
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) {
+        console.error("Login error:", err);
+        return res.status(500).json({ message: "Login failed" });
+      }
+      if (!user) {
+        loginAttempts.recordFailure(phone);
+        return res.status(401).json({ message: "Invalid phone number or password" });
+      }
+      loginAttempts.reset(phone);
+
+      loginWithNewSession(req, user, async (loginErr) => {
+        if (loginErr) {
+          console.error("Login error:", loginErr);
+          return res.status(500).json({ message: "Login failed" });
+        }
+
+        try {
+          // Update last login
+          const updated = await storage.updateUser(user.id, { lastLogin: new Date() });
+          auditEntity(res, { action: "auth.login", entityType: "user", entityId: user.id });
+          res.json({ user: sanitizeUser(updated ?? user), message: "Login successful" });
+        } catch (error) {
+          console.error("Login error:", error);
+          res.status(500).json({ message: "Login failed" });
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      // Self-registration always creates an employee; staff accounts are
+      // provisioned by an HR manager through POST /api/users
+      const userData = insertUserSchema.parse({ ...req.body, role: "employee" });
+      passwordSchema.parse(userData.password);
+
+      // Check if phone number already exists
+      const users = await storage.getUsers();
+      const existingUser = users.find(u => u.phone === userData.phone || u.email === userData.email);
+
+      if (existingUser) {
+        return res.status(400).json({
+          message: existingUser.phone === userData.phone
+            ? "Phone number already registered"
+            : "Email already registered"
+        });
+      }
+
+      const user = await storage.createUser(userData);
+      auditEntity(res, { action: "user.register", entityType: "user", entityId: user.id, after: sanitizeUser(user) });
+
+      loginWithNewSession(req, user, (loginErr) => {
+        if (loginErr) {
+          console.error("Registration login error:", loginErr);
+          return res.status(500).json({ message: "Registration failed" });
+        }
+        res.status(201).json({ user: sanitizeUser(user), message: "Registration successful" });
+      });
+    } catch (error: any) {
+      console.error("Registration error:", error);
+      res.status(400).json({ message: "Registration failed" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logout successful" });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json({ user: sanitizeUser(req.user!) });
+  });
+
+  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      if (!(await comparePasswords(currentPassword, req.user!.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(req.user!.id, { password: newPassword });
+      auditEntity(res, { action: "user.password.change", entityType: "user", entityId: req.user!.id });
+      res.json({ message: "Password changed" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid request" });
+      }
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/request", async (req, res) => {
+    try {
+      const { phone } = requestPasswordResetSchema.parse(req.body);
+      const user = await storage.getUserByPhone(phone);
+
+      if (user && user.isActive) {
+        const { token, tokenHash } = generateResetToken();
+        await storage.createPasswordResetToken({
+          userId: user.id,
+          tokenHash,
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        });
+        await getNotifier().send(user, {
+          subject: "Password reset",
+          body: `Use this code to reset your password: ${token}\nIt expires in one hour.`,
+        });
+      }
+
+      // Same response either way so the endpoint can't be used to probe for accounts
+      res.json({ message: "If that phone number is registered, a reset code has been sent" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Phone number is required" });
+      }
+      console.error("Password reset request error:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const { token, newPassword } = confirmPasswordResetSchema.parse(req.body);
+      const resetToken = await storage.getPasswordResetToken(hashResetToken(token));
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() < Date.now()) {
+        return res.status(400).json({ message: "Reset code is invalid or has expired" });
+      }
+
+      const user = await storage.updateUser(resetToken.userId, { password: newPassword });
+      await storage.markPasswordResetTokenUsed(resetToken.id);
+      if (user) {
+        loginAttempts.reset(user.phone);
+        auditEntity(res, { action: "user.password.reset", entityType: "user", entityId: user.id });
+      }
+
+      res.json({ message: "Password has been reset" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid request" });
+      }
+      console.error("Password reset confirm error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+}
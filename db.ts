@@ -0,0 +1,31 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+import * as credentials from "@shared/credentials";
+import * as workflow from "@shared/workflow";
+import * as messages from "@shared/messages";
+import * as attachments from "@shared/attachments";
+import * as staffing from "@shared/staffing";
+import * as meetingCalendar from "@shared/meetings";
+import * as notificationDelivery from "@shared/notifications";
+import * as audit from "@shared/audit";
+import * as activity from "@shared/activity";
+import * as analytics from "@shared/analytics";
+import * as reports from "@shared/reports";
+import * as ai from "@shared/ai";
+import * as policies from "@shared/policies";
+import * as chat from "@shared/chat";
+
+neonConfig.webSocketConstructor = ws;
+
+// Every table the app stores, for the query builder and schema pushes
+export const tables = { ...schema, ...credentials, ...workflow, ...messages, ...attachments, ...staffing, ...meetingCalendar, ...notificationDelivery, ...audit, ...activity, ...analytics, ...reports, ...ai, ...policies, ...chat };
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema: tables });
+  return { pool, db };
+}
+
+export type Database = ReturnType<typeof createDatabase>["db"];
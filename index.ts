@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSlaMonitor } from "./services/sla";
+import { startDeliveryWorker } from "./services/delivery";
+import { startAiJobWorker } from "./services/ai-jobs";
+import { startAnalyticsRollup } from "./services/analytics";
+import { startReportScheduler } from "./services/reports";
+import { startChatRetentionSweep } from "./services/chat";
 
 const app = express();
 app.use(express.json());
@@ -68,4 +74,11 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startSlaMonitor();
+  startDeliveryWorker();
+  startAnalyticsRollup();
+  startReportScheduler();
+  startAiJobWorker();
+  startChatRetentionSweep();
 })();
@@ -0,0 +1,69 @@
+import type { Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { sessionUser } from "./auth";
+import { storage } from "./storage";
+import { notificationHub } from "./services/notifications";
+
+export const NOTIFICATIONS_WS_PATH = "/ws/notifications";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Live notification push for logged-in users, authenticated with the same
+// session cookie as the API. Other upgrade requests (e.g. Vite HMR in
+// development) are left to their own handlers.
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== NOTIFICATIONS_WS_PATH) return;
+
+    try {
+      const user = await sessionUser(req);
+      if (!user) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, user.id));
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.end("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n");
+    }
+  });
+
+  wss.on("connection", async (ws: WebSocket, userId: string) => {
+    alive.set(ws, true);
+    ws.on("pong", () => alive.set(ws, true));
+
+    const unsubscribe = notificationHub.subscribe(userId, event => ws.send(JSON.stringify(event)));
+    ws.on("close", unsubscribe);
+    ws.on("error", unsubscribe);
+
+    try {
+      const unreadCount = await storage.countUnreadNotifications(userId);
+      ws.send(JSON.stringify({ type: "ready", unreadCount }));
+    } catch (error) {
+      console.error("WebSocket setup error:", error);
+      ws.close(1011);
+    }
+  });
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead proxies)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
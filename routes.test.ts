@@ -0,0 +1,323 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { InsertUser, User } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Runs the API over HTTP against the in-memory store, signing in as each
+// role the way the client does
+
+const PASSWORD = "correct horse battery staple";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+let sequence = 0;
+
+async function createUser(overrides: Partial<InsertUser>): Promise<User> {
+  sequence++;
+  return storage.createUser({
+    username: `routes.user${sequence}`,
+    password: PASSWORD,
+    email: `routes.user${sequence}@company.com`,
+    phone: `+1555100${String(sequence).padStart(4, "0")}`,
+    name: `Routes User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+    ...overrides,
+  });
+}
+
+interface Session {
+  request(method: string, path: string, body?: unknown): Promise<{ status: number; text: string; json: any }>;
+}
+
+async function signIn(user: User): Promise<Session> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone: user.phone, password: PASSWORD }),
+  });
+  expect(response.status).toBe(200);
+  const cookie = response.headers.get("set-cookie")!.split(";")[0];
+  return {
+    async request(method, path, body) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { Cookie: cookie, ...(body === undefined ? {} : { "Content-Type": "application/json" }) },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      const isJson = response.headers.get("content-type")?.includes("application/json");
+      return { status: response.status, text, json: isJson ? JSON.parse(text) : undefined };
+    },
+  };
+}
+
+describe("sign-in sessions", () => {
+  async function post(path: string, body: unknown, cookie?: string) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function whoIs(cookie: string) {
+    const response = await fetch(`${baseUrl}/api/auth/me`, { headers: { Cookie: cookie } });
+    return response.status === 200 ? (await response.json()).user.id : response.status;
+  }
+
+  it("issues a new session id on login and registration, retiring the one sent", async () => {
+    const first = await createUser({});
+    const second = await createUser({});
+    const planted = (await post("/api/auth/login", { phone: first.phone, password: PASSWORD })).headers.get("set-cookie")!.split(";")[0];
+
+    const login = await post("/api/auth/login", { phone: second.phone, password: PASSWORD }, planted);
+    const loginCookie = login.headers.get("set-cookie")!.split(";")[0];
+    const registration = await post("/api/auth/register", {
+      username: "routes.registered",
+      password: PASSWORD,
+      email: "routes.registered@company.com",
+      phone: "+15551009999",
+      name: "Routes Registered",
+      department: "Engineering",
+    }, loginCookie);
+    const registrationCookie = registration.headers.get("set-cookie")!.split(";")[0];
+
+    expect(login.status).toBe(200);
+    expect(registration.status).toBe(201);
+    expect(new Set([planted, loginCookie, registrationCookie]).size).toBe(3);
+    expect(await whoIs(planted)).toBe(401);
+    expect(await whoIs(loginCookie)).toBe(401);
+    expect(await whoIs(registrationCookie)).toBe((await registration.json()).user.id);
+  });
+});
+
+describe("anonymous complaints", () => {
+  let reporter: User;
+  let counselor: User;
+  let hrManager: User;
+  let ethicsOfficer: User;
+  let complaintId: string;
+  let meetingId: string;
+
+  // Anything that would tell staff who the reporter is
+  function identifying(): string[] {
+    return [reporter.id, reporter.name, reporter.username, reporter.email, reporter.phone];
+  }
+
+  function expectNoReporterIdentity(text: string) {
+    for (const value of identifying()) {
+      expect(text).not.toContain(value);
+    }
+  }
+
+  beforeAll(async () => {
+    reporter = await createUser({ name: "Rita Okafor", department: "Warehouse" });
+    counselor = await createUser({ name: "Colin Marsh", role: "counselor", department: "Human Resources" });
+    hrManager = await createUser({ name: "Hana Berg", role: "hr_manager", department: "Human Resources" });
+    ethicsOfficer = await createUser({ name: "Eli Stone", role: "ethics_officer", department: "Compliance" });
+
+    const asReporter = await signIn(reporter);
+    const asManager = await signIn(hrManager);
+
+    const filed = await asReporter.request("POST", "/api/complaints", {
+      title: "Shift lead shouting on the floor",
+      description: "The shift lead shouts at the night team and threatens to cut hours.",
+      category: "harassment",
+      priority: "high",
+      isAnonymous: true,
+    });
+    expect(filed.status).toBe(201);
+    complaintId = filed.json.id;
+
+    const assigned = await asManager.request("POST", `/api/complaints/${complaintId}/assign`, { assigneeId: counselor.id });
+    expect(assigned.status).toBe(200);
+
+    const replied = await asReporter.request("POST", `/api/complaints/${complaintId}/messages`, {
+      body: "It happened again last night.",
+    });
+    expect(replied.status).toBe(201);
+
+    const scheduledDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    scheduledDate.setUTCHours(10, 0, 0, 0);
+    const booked = await asReporter.request("POST", "/api/meetings", {
+      title: "Follow-up on my report",
+      scheduledDate: scheduledDate.toISOString(),
+      duration: 30,
+      attendeeIds: [counselor.id],
+      type: "one_on_one",
+      relatedComplaintId: complaintId,
+    });
+    expect(booked.status).toBe(201);
+    meetingId = booked.json.id;
+  });
+
+  describe.each([
+    ["the assigned counselor", () => counselor],
+    ["an HR manager", () => hrManager],
+  ])("seen by %s", (_role, viewer) => {
+    let session: Session;
+
+    beforeAll(async () => {
+      session = await signIn(viewer());
+    });
+
+    it("lists the complaint under a pseudonym", async () => {
+      const list = await session.request("GET", "/api/complaints");
+
+      const item = list.json.items.find((complaint: { id: string }) => complaint.id === complaintId);
+      expect(item).toMatchObject({ submitterId: null, submitterPseudonym: expect.stringMatching(/^Reporter-/) });
+      expectNoReporterIdentity(list.text);
+    });
+
+    it("shows the complaint detail, history and messages under a pseudonym", async () => {
+      const detail = await session.request("GET", `/api/complaints/${complaintId}`);
+      const history = await session.request("GET", `/api/complaints/${complaintId}/history`);
+      const messages = await session.request("GET", `/api/complaints/${complaintId}/messages`);
+
+      expect(detail.json).toMatchObject({ submitterId: null, submitterPseudonym: expect.stringMatching(/^Reporter-/) });
+      expect(messages.text).toContain(detail.json.submitterPseudonym);
+      for (const response of [detail, history, messages]) {
+        expectNoReporterIdentity(response.text);
+      }
+    });
+
+    it("replaces the reporter in meetings linked to the complaint", async () => {
+      const pseudonym = (await session.request("GET", `/api/complaints/${complaintId}`)).json.submitterPseudonym;
+      const detail = await session.request("GET", `/api/meetings/${meetingId}`);
+      const list = await session.request("GET", "/api/meetings");
+      const rsvps = await session.request("GET", `/api/meetings/${meetingId}/rsvps`);
+      const ics = await session.request("GET", `/api/meetings/${meetingId}/ics`);
+
+      expect(detail.json.organizerId).toBe(pseudonym);
+      for (const response of [detail, list, rsvps, ics]) {
+        expect(response.status).toBe(200);
+        expectNoReporterIdentity(response.text);
+      }
+    });
+  });
+
+  it("names the reporter by pseudonym in staff notifications", async () => {
+    const session = await signIn(counselor);
+    const pseudonym = (await session.request("GET", `/api/complaints/${complaintId}`)).json.submitterPseudonym;
+
+    const notifications = await session.request("GET", "/api/notifications");
+
+    const messages = notifications.json.items.map((notification: { message: string }) => notification.message);
+    expect(messages).toContainEqual(expect.stringContaining(`${pseudonym} replied`));
+    expectNoReporterIdentity(notifications.text);
+  });
+
+  it("shows the reporter to the ethics officer", async () => {
+    const session = await signIn(ethicsOfficer);
+
+    const detail = await session.request("GET", `/api/complaints/${complaintId}`);
+
+    expect(detail.json.submitterId).toBe(reporter.id);
+    expect(detail.json.submitterPseudonym).toBeUndefined();
+  });
+
+  it("shows the reporter their own complaint", async () => {
+    const session = await signIn(reporter);
+
+    const detail = await session.request("GET", `/api/complaints/${complaintId}`);
+
+    expect(detail.json.submitterId).toBe(reporter.id);
+  });
+});
+
+describe("audit copies of anonymous complaints", () => {
+  // The entry is written once the response has gone out
+  async function createdEntry(complaintId: string) {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const [entry] = await storage.getAuditEntries({ action: "complaint.create", entityId: complaintId, limit: 1 });
+      if (entry) return entry;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`No audit entry for complaint ${complaintId}`);
+  }
+
+  it("records the reporter's pseudonym instead of their id", async () => {
+    const reporter = await createUser({ department: "Warehouse" });
+    const session = await signIn(reporter);
+
+    const anonymous = await session.request("POST", "/api/complaints", {
+      title: "Unsafe racking",
+      description: "The racking in aisle 4 is bent and nobody has fixed it.",
+      category: "safety",
+      isAnonymous: true,
+    });
+    const named = await session.request("POST", "/api/complaints", {
+      title: "Locker broken",
+      description: "My locker will not lock.",
+      category: "other",
+    });
+
+    const anonymousEntry = await createdEntry(anonymous.json.id);
+    expect(anonymousEntry.changes).toMatchObject({ submitterPseudonym: { from: null, to: expect.stringMatching(/^Reporter-/) } });
+    expect(JSON.stringify(anonymousEntry.changes)).not.toContain(reporter.id);
+    expect((await createdEntry(named.json.id)).changes).toMatchObject({ submitterId: { from: null, to: reporter.id } });
+  });
+
+  it("records the pseudonym for complaints escalated from the assistant", async () => {
+    const reporter = await createUser({ department: "Warehouse" });
+    const session = await signIn(reporter);
+    const conversation = await storage.createChatConversation({
+      userId: reporter.id,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+
+    const escalated = await session.request("POST", `/api/ai/conversations/${conversation.id}/escalate`, {
+      title: "Bullying on nights",
+      description: "My supervisor mocks me in front of the team.",
+      category: "harassment",
+      isAnonymous: true,
+    });
+
+    expect(escalated.status).toBe(201);
+    const entry = await createdEntry(escalated.json.id);
+    expect(entry.changes).toMatchObject({ submitterPseudonym: { to: expect.stringMatching(/^Reporter-/) } });
+    expect(JSON.stringify(entry.changes)).not.toContain(reporter.id);
+  });
+});
+
+describe("complaint analysis jobs", () => {
+  it("lets the submitter follow the job they were handed, and no one else outside staff", async () => {
+    const submitter = await createUser({});
+    const colleague = await createUser({});
+    const counselor = await createUser({ role: "counselor", department: "Human Resources" });
+    const asSubmitter = await signIn(submitter);
+
+    const filed = await asSubmitter.request("POST", "/api/complaints", {
+      title: "Unpaid overtime",
+      description: "My overtime for March was never paid.",
+      category: "compensation",
+      priority: "low",
+    });
+    const jobs = await asSubmitter.request("GET", `/api/complaints/${filed.json.id}/ai-jobs`);
+    const asColleague = await (await signIn(colleague)).request("GET", `/api/complaints/${filed.json.id}/ai-jobs`);
+    const asCounselor = await (await signIn(counselor)).request("GET", `/api/complaints/${filed.json.id}/ai-jobs`);
+
+    expect(jobs.status).toBe(200);
+    expect(jobs.json.map((job: { id: string }) => job.id)).toContain(filed.json.analysisJob.id);
+    expect(Object.keys(jobs.json[0]).sort()).toEqual(["completedAt", "createdAt", "id", "status"]);
+    expect(asColleague.status).toBe(404);
+    expect(asCounselor.json[0]).toHaveProperty("attempts");
+  });
+});
@@ -1,277 +1,1421 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
 import { 
   insertComplaintSchema, 
   insertMeetingSchema, 
   insertScenarioSchema,
-  insertUserSchema 
+  insertUserSchema
 } from "@shared/schema";
-import { analyzeComplaint, generateScenarioResponse, generateHRResponse } from "./services/openai";
+import { updateComplaintSchema } from "@shared/workflow";
+import { postComplaintMessageSchema } from "@shared/messages";
+import { assignComplaintSchema, updateStaffProfileSchema } from "@shared/staffing";
+import {
+  freeSlotsQuerySchema,
+  importCalendarSchema,
+  scheduleMeetingOptionsSchema,
+  updateMeetingSchema,
+  cancelMeetingSchema,
+  meetingRsvpSchema,
+  recordMeetingOutcomeSchema
+} from "@shared/meetings";
+import { reanalyzeComplaintSchema } from "@shared/ai";
+import { queueAiAnalysis } from "./services/ai-jobs";
+import { setupAuth, requireAuth, requireRole, isStaff, hasRole, sanitizeUser, STAFF_ROLES, CASEWORKER_ROLES } from "./auth";
+import {
+  canTransition,
+  allowedTransitions,
+  transitionComplaint,
+  recordComplaintFiled,
+  isActiveStatus
+} from "./services/complaint-workflow";
+import {
+  redactComplaint,
+  auditedComplaint,
+  redactStatusHistory,
+  redactMessage,
+  redactMeeting,
+  redactMeetings,
+  redactAttachment
+} from "./services/anonymity";
+import { getMessageThreads, postComplaintMessage } from "./services/complaint-messages";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  isAllowedMimeType,
+  matchesSignature,
+  canUploadEvidence,
+  canDownloadEvidence,
+  storeAttachment,
+  readAttachment
+} from "./services/attachments";
+import { evaluateSla, getSlaBreachCounts } from "./services/sla";
+import { autoAssignComplaint, assignComplaintTo, getStaffWorkloads, getAccusedDepartment } from "./services/assignment";
+import { findFreeSlots, DEFAULT_WORKING_HOURS } from "./services/scheduling";
+import {
+  buildCalendar,
+  buildUserFeed,
+  downloadMethod,
+  getFeedUser,
+  importCalendar,
+  issueFeedToken
+} from "./services/calendar";
+import {
+  isMeetingParticipant,
+  canManageMeeting,
+  scheduleMeeting,
+  updateMeetingDetails,
+  cancelMeeting,
+  hasOccurrence,
+  updateOccurrence,
+  cancelOccurrence,
+  respondToMeeting,
+  getAttendeeResponses,
+  recordMeetingOutcome
+} from "./services/meetings";
+import {
+  notificationListQuerySchema,
+  updateNotificationPreferencesSchema,
+  deliveryListQuerySchema
+} from "@shared/notifications";
+import { auditQuerySchema, auditExportSchema } from "@shared/audit";
+import { activityQuerySchema } from "@shared/activity";
+import {
+  complaintListQuerySchema,
+  meetingListQuerySchema,
+  scenarioListQuerySchema,
+  userListQuerySchema
+} from "@shared/listing";
+import {
+  analyticsTrendQuerySchema,
+  analyticsHotspotQuerySchema,
+  analyticsRebuildSchema
+} from "@shared/analytics";
+import {
+  reportKinds,
+  reportExportQuerySchema,
+  createReportScheduleSchema,
+  updateReportScheduleSchema,
+  type ReportKind
+} from "@shared/reports";
+import {
+  listNotifications,
+  notificationHub,
+  publishUnreadCount
+} from "./services/notifications";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  retryDelivery
+} from "./services/delivery";
+import {
+  auditEntity,
+  auditEntriesMatching,
+  auditCsvHeader,
+  auditCsvRow,
+  verifyAuditChain
+} from "./services/audit";
+import { listActivity } from "./services/activity";
+import { listComplaints, listMeetings, listScenarios, listUsers } from "./services/listing";
+import {
+  getComplaintTrends,
+  getRepeatIssueHotspots,
+  rebuildDailyStats,
+  countResolvedThisMonth
+} from "./services/analytics";
+import {
+  canExportReport,
+  defaultReportPeriod,
+  parseReportFilters,
+  buildReport,
+  createReportSchedule,
+  updateReportSchedule,
+  generateScheduledReport,
+  readGeneratedReport,
+  describeGeneratedReport
+} from "./services/reports";
+import { uploadPolicySchema, policySearchQuerySchema } from "@shared/policies";
+import {
+  MAX_POLICY_BYTES,
+  storePolicyDocument,
+  deletePolicyDocument,
+  readPolicyDocument,
+  describePolicyDocument,
+  searchPolicies
+} from "./services/policies";
+import {
+  createChatConversationSchema,
+  updateChatConversationSchema,
+  postChatMessageSchema,
+  escalateChatConversationSchema,
+  updateChatPreferencesSchema
+} from "@shared/chat";
+import {
+  getChatPreferences,
+  updateChatPreferences,
+  startConversation,
+  askInConversation,
+  complaintDraft
+} from "./services/chat";
+import { setupRealtime } from "./realtime";
 import { z } from "zod";
 
+const evidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_UPLOAD },
+}).array("files", MAX_ATTACHMENTS_PER_UPLOAD);
+
+const policyUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_POLICY_BYTES, files: 1 },
+}).single("file");
+
+const calendarBody = express.text({ type: "text/calendar", limit: "1mb" });
+
+function sendCalendar(res: Response, fileName: string, content: string) {
+  res.set({
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+  });
+  res.send(content);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
   
   // Users
-  app.get("/api/users/:id", async (req, res) => {
+  // Paginated; pass nextCursor back as ?cursor= for the next page
+  app.get("/api/users", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const query = userListQuerySchema.parse(req.query);
+      const page = await listUsers(query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      res.json({ items: page.items!.map(sanitizeUser), nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
     try {
+      if (req.params.id !== req.user!.id && !isStaff(req.user)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(sanitizeUser(user));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", requireRole("hr_manager"), async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
       const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      auditEntity(res, { action: "user.create", entityType: "user", entityId: user.id, after: sanitizeUser(user) });
+      res.status(201).json(sanitizeUser(user));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid user data" });
+    }
+  });
+
+  // Staff workload and routing profiles
+  app.get("/api/staff/workload", requireRole("hr_manager"), async (req, res) => {
+    try {
+      res.json(await getStaffWorkloads());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch staff workload" });
+    }
+  });
+
+  app.get("/api/staff/:userId/profile", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const profile = await storage.getStaffProfile(req.params.userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Staff profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch staff profile" });
+    }
+  });
+
+  // Staff may update their own availability; HR managers may update anyone's profile
+  app.put("/api/staff/:userId/profile", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      if (req.params.userId !== req.user!.id && !hasRole(req.user, "hr_manager")) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const staff = await storage.getUser(req.params.userId);
+      if (!staff || !isStaff(staff)) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      const updates = updateStaffProfileSchema.parse(req.body);
+      const before = await storage.getStaffProfile(staff.id);
+      const profile = await storage.upsertStaffProfile({ userId: staff.id, ...updates });
+      auditEntity(res, { action: "staff_profile.update", entityType: "staff_profile", entityId: staff.id, before, after: profile });
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid staff profile", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update staff profile" });
+    }
+  });
+
+  // Complaints
+  // Paginated; pass nextCursor back as ?cursor= for the next page
+  app.get("/api/complaints", requireAuth, async (req, res) => {
+    try {
+      const query = complaintListQuerySchema.parse(req.query);
+      const page = await listComplaints(req.user!, query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      auditEntity(res, { action: "complaint.list", entityType: "complaint" });
+      res.json({
+        items: await Promise.all(page.items!.map(complaint => redactComplaint(complaint, req.user!))),
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch complaints" });
+    }
+  });
+
+  app.get("/api/complaints/:id", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      auditEntity(res, { action: "complaint.view", entityType: "complaint", entityId: complaint.id });
+      res.json(await redactComplaint(complaint, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch complaint" });
+    }
+  });
+
+  app.post("/api/complaints", requireAuth, async (req, res) => {
+    try {
+      const complaintData = insertComplaintSchema.parse({
+        ...req.body,
+        submitterId: req.user!.id,
+        status: "open",
+        assignedTo: null,
+      });
+      const { accusedDepartment } = z.object({
+        accusedDepartment: z.string().trim().min(1).optional(),
+      }).parse(req.body);
+      const complaint = await storage.createComplaint(complaintData);
+      await recordComplaintFiled(complaint, req.user!.id);
+      
+      let assigned: typeof complaint | undefined;
+      try {
+        assigned = await autoAssignComplaint(complaint, accusedDepartment);
+      } catch (assignError) {
+        console.error("Automatic assignment failed:", assignError);
+      }
+
+      // Analysis runs in the background and notifies the assignee when done
+      const job = await queueAiAnalysis("complaint", complaint.id);
+
+      auditEntity(res, { action: "complaint.create", entityType: "complaint", entityId: complaint.id, after: auditedComplaint(complaint) });
+      res.status(201).json({ ...(assigned ?? complaint), analysisJob: { id: job.id, status: job.status } });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid complaint data" });
+    }
+  });
+
+  app.patch("/api/complaints/:id", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const { status, note, assignedTo, ...updates } = updateComplaintSchema.parse(req.body);
+      let complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const before = complaint;
+
+      // Both changes are checked before either is applied, so a rejected
+      // status change leaves the assignment (and its notification) alone
+      const transition = status && status !== complaint.status;
+      if (transition && !canTransition(complaint.status, status)) {
+        return res.status(409).json({
+          message: `Cannot move complaint from ${complaint.status} to ${status}`,
+          allowedTransitions: allowedTransitions(complaint.status),
+        });
+      }
+
+      if (assignedTo !== undefined && assignedTo !== complaint.assignedTo) {
+        const assignment = await assignComplaintTo(complaint, assignedTo, req.user!, note);
+        if (assignment.error) {
+          return res.status(422).json({ message: assignment.error });
+        }
+        complaint = assignment.complaint ?? complaint;
+      }
+
+      if (transition) {
+        const updated = await transitionComplaint(complaint, status, req.user!.id, note, updates);
+        auditEntity(res, { action: "complaint.update", entityType: "complaint", entityId: complaint.id, before, after: updated });
+        return res.json(updated && await redactComplaint(updated, req.user!));
+      }
+
+      const updated = await storage.updateComplaint(complaint.id, updates);
+      auditEntity(res, { action: "complaint.update", entityType: "complaint", entityId: complaint.id, before, after: updated });
+      res.json(updated && await redactComplaint(updated, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid complaint update", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update complaint" });
+    }
+  });
+
+  app.get("/api/complaints/:id/history", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const history = await storage.getComplaintStatusHistory(complaint.id);
+      auditEntity(res, { action: "complaint.history.view", entityType: "complaint", entityId: complaint.id });
+      res.json(redactStatusHistory(history, complaint, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch complaint history" });
+    }
+  });
+
+  // Every AI provider call made for the complaint, newest first
+  app.get("/api/complaints/:id/ai-runs", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      res.json(await storage.getAiRuns("complaint", complaint.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI runs" });
+    }
+  });
+
+  // Analysis jobs queued for the complaint, newest first. The submitter can
+  // follow the job they were handed on filing, but sees only its progress,
+  // not who asked for it or why an attempt failed.
+  app.get("/api/complaints/:id/ai-jobs", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const jobs = await storage.getAiJobs("complaint", complaint.id);
+      if (!isStaff(req.user)) {
+        return res.json(jobs.map(({ id, status, createdAt, completedAt }) => ({ id, status, createdAt, completedAt })));
+      }
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI jobs" });
+    }
+  });
+
+  app.post("/api/complaints/:id/reanalyze", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const { retriage } = reanalyzeComplaintSchema.parse(req.body ?? {});
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const job = await queueAiAnalysis("complaint", complaint.id, req.user!.id, retriage);
+      auditEntity(res, { action: "complaint.reanalyze", entityType: "complaint", entityId: complaint.id, after: job });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid re-analysis request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to queue analysis" });
+    }
+  });
+
+  // Manual override of the assignment engine; omit assigneeId to re-run it
+  app.post("/api/complaints/:id/assign", requireRole("hr_manager"), async (req, res) => {
+    try {
+      const { assigneeId, reason } = assignComplaintSchema.parse(req.body);
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+
+      if (!assigneeId) {
+        const updated = await autoAssignComplaint(complaint, await getAccusedDepartment(complaint.id));
+        auditEntity(res, { action: "complaint.assign", entityType: "complaint", entityId: complaint.id, before: complaint, after: updated });
+        return res.json(await redactComplaint(updated, req.user!));
+      }
+
+      const assignment = await assignComplaintTo(complaint, assigneeId, req.user!, reason);
+      if (assignment.error) {
+        return res.status(422).json({ message: assignment.error });
+      }
+      auditEntity(res, {
+        action: "complaint.assign",
+        entityType: "complaint",
+        entityId: complaint.id,
+        before: complaint,
+        after: assignment.complaint,
+      });
+      res.json(assignment.complaint && await redactComplaint(assignment.complaint, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign complaint" });
+    }
+  });
+
+  app.get("/api/complaints/:id/assignments", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      auditEntity(res, { action: "complaint.assignments.view", entityType: "complaint", entityId: complaint.id });
+      res.json(await storage.getComplaintAssignments(complaint.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch assignments" });
+    }
+  });
+
+  app.get("/api/complaints/:id/sla", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const sla = await evaluateSla(complaint);
+      const escalations = await storage.getComplaintEscalations(complaint.id);
+      auditEntity(res, { action: "complaint.sla.view", entityType: "complaint", entityId: complaint.id });
+      res.json({ ...sla, escalations });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch complaint SLA" });
+    }
+  });
+
+  // Complaint messages: shared replies between the submitter and HR staff,
+  // plus internal case notes that only staff can see. On anonymous complaints
+  // staff only ever see the reporter's pseudonym.
+  app.get("/api/complaints/:id/messages", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      auditEntity(res, { action: "complaint.messages.view", entityType: "complaint", entityId: complaint.id });
+      res.json(await getMessageThreads(complaint, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/complaints/:id/messages", requireAuth, async (req, res) => {
+    try {
+      const input = postComplaintMessageSchema.parse(req.body);
+      const complaint = await storage.getComplaint(req.params.id);
+      const fromReporter = complaint?.submitterId === req.user!.id;
+      if (!complaint || (!isStaff(req.user) && !fromReporter)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (input.visibility === "internal" && (fromReporter || !isStaff(req.user))) {
+        return res.status(403).json({ message: "Only HR staff can add internal notes" });
+      }
+
+      let parent;
+      if (input.parentId) {
+        parent = await storage.getComplaintMessage(input.parentId);
+        if (!parent || parent.complaintId !== complaint.id ||
+            (parent.visibility === "internal" && !isStaff(req.user))) {
+          return res.status(400).json({ message: "Message being replied to was not found" });
+        }
+        if (parent.visibility === "internal" && input.visibility !== "internal") {
+          return res.status(400).json({ message: "Replies to internal notes must also be internal" });
+        }
+      }
+
+      const message = await postComplaintMessage(complaint, req.user!, input, parent);
+      auditEntity(res, { action: "complaint.message.create", entityType: "complaint_message", entityId: message.id, after: message });
+      res.status(201).json(redactMessage(message, complaint, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to post message" });
+    }
+  });
+
+  // Complaint evidence. Anyone who can view the complaint sees the file list;
+  // only the submitter and the assigned HR staff member can upload or download.
+  app.get("/api/complaints/:id/attachments", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const attachments = await storage.getComplaintAttachments(complaint.id);
+      auditEntity(res, { action: "complaint.attachments.view", entityType: "complaint", entityId: complaint.id });
+      res.json(attachments.map(attachment => redactAttachment(attachment, complaint, req.user!)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/complaints/:id/attachments", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!canUploadEvidence(complaint, req.user!)) {
+        return res.status(403).json({ message: "Only the submitter and assigned HR staff can add evidence" });
+      }
+
+      evidenceUpload(req, res, async (uploadError: unknown) => {
+        if (uploadError instanceof multer.MulterError) {
+          const status = uploadError.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+          return res.status(status).json({ message: uploadError.message });
+        }
+        if (uploadError) {
+          return res.status(400).json({ message: "Invalid upload" });
+        }
+
+        try {
+          const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+          if (files.length === 0) {
+            return res.status(400).json({ message: "No files uploaded" });
+          }
+
+          // Validate the whole batch before storing any of it
+          for (const file of files) {
+            if (!isAllowedMimeType(file.mimetype)) {
+              return res.status(415).json({ message: `File type ${file.mimetype} is not allowed` });
+            }
+            if (!matchesSignature(file.mimetype, file.buffer)) {
+              return res.status(415).json({ message: `${file.originalname} does not match its declared type` });
+            }
+          }
+
+          const attachments = [];
+          for (const file of files) {
+            attachments.push(await storeAttachment(complaint, req.user!, file));
+          }
+          auditEntity(res, {
+            action: "complaint.attachment.upload",
+            entityType: "complaint",
+            entityId: complaint.id,
+            after: { attachments: attachments.map(({ id, fileName, checksum }) => ({ id, fileName, checksum })) },
+          });
+          res.status(201).json(attachments.map(attachment => redactAttachment(attachment, complaint, req.user!)));
+        } catch (error) {
+          console.error("Attachment upload failed:", error);
+          res.status(500).json({ message: "Failed to store attachments" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to store attachments" });
+    }
+  });
+
+  app.get("/api/complaints/:id/attachments/:attachmentId/download", requireAuth, async (req, res) => {
+    try {
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint || (!isStaff(req.user) && complaint.submitterId !== req.user!.id)) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const attachment = await storage.getComplaintAttachment(req.params.attachmentId);
+      if (!attachment || attachment.complaintId !== complaint.id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (!canDownloadEvidence(complaint, req.user!)) {
+        return res.status(403).json({ message: "Only the submitter and assigned HR staff can download evidence" });
+      }
+
+      const data = await readAttachment(attachment);
+      auditEntity(res, { action: "complaint.attachment.download", entityType: "complaint_attachment", entityId: attachment.id });
+      res.attachment(attachment.fileName);
+      res.set({
+        "Content-Type": attachment.mimeType,
+        "X-Content-Type-Options": "nosniff",
+        "X-Content-SHA256": attachment.checksum,
+      });
+      res.send(data);
+    } catch (error) {
+      console.error("Attachment download failed:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  // Meetings
+  // Paginated; with ?from=&to= recurring series are expanded into their occurrences
+  app.get("/api/meetings", requireAuth, async (req, res) => {
+    try {
+      const query = meetingListQuerySchema.parse(req.query);
+      const page = await listMeetings(req.user!, query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      res.json({ items: await redactMeetings(page.items!, req.user!), nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch meetings" });
+    }
+  });
+
+  // Proposes times within working hours when the requester and every attendee are free
+  app.get("/api/meetings/free-slots", requireAuth, async (req, res) => {
+    try {
+      const query = freeSlotsQuerySchema.parse(req.query);
+      const from = query.from ?? new Date();
+      const to = query.to ?? new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+      // Employees may look at their own calendar and HR staff's, not colleagues'
+      if (!isStaff(req.user)) {
+        for (const attendeeId of query.attendeeIds.filter(id => id !== req.user!.id)) {
+          const attendee = await storage.getUser(attendeeId);
+          if (!attendee || !isStaff(attendee)) {
+            return res.status(403).json({ message: "You can only check the availability of HR staff" });
+          }
+        }
+      }
+
+      const { slots, error } = await findFreeSlots({
+        participantIds: [req.user!.id, ...query.attendeeIds],
+        durationMinutes: query.duration,
+        from,
+        to,
+        workingHours: { ...DEFAULT_WORKING_HOURS, timezone: query.timezone ?? DEFAULT_WORKING_HOURS.timezone },
+        limit: query.limit,
+      });
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      res.json(slots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid free slot query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to find free slots" });
+    }
+  });
+
+  app.get("/api/meetings/:id", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      const recurrence = await storage.getMeetingRecurrence(meeting.id);
+      res.json({
+        ...await redactMeeting(meeting, req.user!),
+        recurrence: recurrence?.rrule ?? null,
+        exceptions: recurrence ? await storage.getMeetingExceptions(meeting.id) : [],
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch meeting" });
+    }
+  });
+
+  app.get("/api/meetings/:id/ics", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      const ics = await buildCalendar([meeting], req.user!, { method: downloadMethod(meeting) });
+      sendCalendar(res, `meeting-${meeting.id}.ics`, ics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export meeting" });
+    }
+  });
+
+  app.post("/api/meetings", requireAuth, async (req, res) => {
+    try {
+      console.log("Meeting creation request body:", JSON.stringify(req.body, null, 2));
+      
+      // Convert scheduledDate string to Date object if it's a string
+      if (req.body.scheduledDate && typeof req.body.scheduledDate === 'string') {
+        console.log("Converting scheduledDate from string to Date:", req.body.scheduledDate);
+        req.body.scheduledDate = new Date(req.body.scheduledDate);
+        console.log("Converted scheduledDate:", req.body.scheduledDate, "Type:", typeof req.body.scheduledDate);
+      }
+      
+      const meetingData = insertMeetingSchema.parse({
+        ...req.body,
+        organizerId: req.user!.id,
+      });
+      const options = scheduleMeetingOptionsSchema.parse(req.body);
+      console.log("Parsed meeting data:", JSON.stringify(meetingData, null, 2));
+
+      const result = await scheduleMeeting(meetingData, options);
+      if (result.error) {
+        return res.status(409).json({ message: result.error, conflicts: result.conflicts });
+      }
+      auditEntity(res, { action: "meeting.create", entityType: "meeting", entityId: result.meeting!.id, after: result.meeting });
+      res.status(201).json({
+        ...await redactMeeting(result.meeting!, req.user!),
+        recurrence: options.recurrence ?? null,
+      });
+    } catch (error: any) {
+      console.error("Meeting validation error:", error);
+      if (error.errors) {
+        console.error("Validation errors:", error.errors);
+      }
+      res.status(400).json({ message: "Invalid meeting data", error: error.message });
+    }
+  });
+
+  app.patch("/api/meetings/:id", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!canManageMeeting(meeting, req.user!)) {
+        return res.status(403).json({ message: "Only the organizer can change this meeting" });
+      }
+
+      const changes = updateMeetingSchema.parse(req.body);
+      const result = await updateMeetingDetails(meeting, changes, req.user!);
+      if (result.error) {
+        return res.status(409).json({ message: result.error, conflicts: result.conflicts });
+      }
+      auditEntity(res, { action: "meeting.update", entityType: "meeting", entityId: meeting.id, before: meeting, after: result.meeting });
+      res.json(await redactMeeting(result.meeting!, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting update", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update meeting" });
+    }
+  });
+
+  // Cancels rather than deletes, so the meeting stays on record
+  app.delete("/api/meetings/:id", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      if (!canManageMeeting(meeting, req.user!)) {
+        return res.status(403).json({ message: "Only the organizer can cancel this meeting" });
+      }
+
+      const { reason } = cancelMeetingSchema.parse(req.body ?? {});
+      const result = await cancelMeeting(meeting, req.user!, reason);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      auditEntity(res, { action: "meeting.cancel", entityType: "meeting", entityId: meeting.id, before: meeting, after: result.meeting });
+      res.json(await redactMeeting(result.meeting!, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to cancel meeting" });
+    }
+  });
+
+  // Single occurrences of a recurring series, addressed by their original start time
+  app.patch("/api/meetings/:id/occurrences/:start", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      const originalStart = new Date(req.params.start);
+      if (isNaN(originalStart.getTime()) || !(await hasOccurrence(meeting, originalStart))) {
+        return res.status(404).json({ message: "Occurrence not found" });
+      }
+      if (!canManageMeeting(meeting, req.user!)) {
+        return res.status(403).json({ message: "Only the organizer can change this meeting" });
+      }
+
+      const changes = updateMeetingSchema.parse(req.body);
+      const result = await updateOccurrence(meeting, originalStart, changes, req.user!);
+      if (result.error) {
+        return res.status(409).json({ message: result.error, conflicts: result.conflicts });
+      }
+      res.json(await redactMeeting(result.meeting!, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting update", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update occurrence" });
+    }
+  });
+
+  app.delete("/api/meetings/:id/occurrences/:start", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      const originalStart = new Date(req.params.start);
+      if (isNaN(originalStart.getTime()) || !(await hasOccurrence(meeting, originalStart))) {
+        return res.status(404).json({ message: "Occurrence not found" });
+      }
+      if (!canManageMeeting(meeting, req.user!)) {
+        return res.status(403).json({ message: "Only the organizer can cancel this meeting" });
+      }
+
+      const { reason } = cancelMeetingSchema.parse(req.body ?? {});
+      const result = await cancelOccurrence(meeting, originalStart, req.user!, reason);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(await redactMeeting(result.meeting!, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to cancel occurrence" });
+    }
+  });
+
+  app.get("/api/meetings/:id/rsvps", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+      res.json(await getAttendeeResponses(meeting, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch responses" });
+    }
+  });
+
+  app.post("/api/meetings/:id/rsvp", requireAuth, async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting || (!isStaff(req.user) && !isMeetingParticipant(meeting, req.user!))) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      const { response, comment } = meetingRsvpSchema.parse(req.body);
+      const result = await respondToMeeting(meeting, req.user!, response, comment);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.rsvp);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid response", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record response" });
+    }
+  });
+
+  // Outcomes are HR records; the complaint's case file gets a copy
+  app.get("/api/meetings/:id/outcome", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const outcome = await storage.getMeetingOutcome(req.params.id);
+      if (!outcome) {
+        return res.status(404).json({ message: "No outcome recorded" });
+      }
+      res.json(outcome);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch outcome" });
+    }
+  });
+
+  app.post("/api/meetings/:id/outcome", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting) {
+        return res.status(404).json({ message: "Meeting not found" });
+      }
+
+      const input = recordMeetingOutcomeSchema.parse(req.body);
+      const result = await recordMeetingOutcome(meeting, req.user!, input);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      auditEntity(res, { action: "meeting.outcome.record", entityType: "meeting", entityId: meeting.id, after: result.outcome });
+      res.status(201).json(result.outcome);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meeting outcome", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record outcome" });
+    }
+  });
+
+  // Calendar feeds. Calendar apps cannot log in, so the subscribable feed
+  // is addressed by a secret token; issuing a new one revokes the old URL.
+  app.post("/api/calendar/feed-token", requireAuth, async (req, res) => {
+    try {
+      const token = await issueFeedToken(req.user!.id);
+      res.status(201).json({
+        token,
+        url: `${req.protocol}://${req.get("host")}/api/calendar/feed/${token}.ics`,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to issue calendar feed token" });
+    }
+  });
+
+  app.get("/api/calendar/feed.ics", requireAuth, async (req, res) => {
+    try {
+      sendCalendar(res, "meetings.ics", await buildUserFeed(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/feed/:token.ics", async (req, res) => {
+    try {
+      const user = await getFeedUser(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      sendCalendar(res, "meetings.ics", await buildUserFeed(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  // Accepts a raw text/calendar body or JSON { ics, timezone?, relatedComplaintId? }
+  app.post("/api/calendar/import", requireRole(...CASEWORKER_ROLES), calendarBody, async (req, res) => {
+    try {
+      const input = importCalendarSchema.parse(
+        typeof req.body === "string" ? { ...req.query, ics: req.body } : req.body,
+      );
+      if (input.relatedComplaintId && !(await storage.getComplaint(input.relatedComplaintId))) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      const result = await importCalendar(input.ics, req.user!, input);
+      res.json({
+        created: await redactMeetings(result.created, req.user!),
+        updated: await redactMeetings(result.updated, req.user!),
+        cancelled: await redactMeetings(result.cancelled, req.user!),
+        skipped: result.skipped,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calendar import", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to import calendar" });
+    }
+  });
+
+  // Scenarios
+  // Paginated; pass nextCursor back as ?cursor= for the next page
+  app.get("/api/scenarios", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const query = scenarioListQuerySchema.parse(req.query);
+      const page = await listScenarios(query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      res.json({ items: page.items, nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch scenarios" });
+    }
+  });
+
+  app.get("/api/scenarios/:id", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const scenario = await storage.getScenario(req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json(scenario);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scenario" });
+    }
+  });
+
+  app.get("/api/scenarios/:id/ai-runs", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const scenario = await storage.getScenario(req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json(await storage.getAiRuns("scenario", scenario.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch AI runs" });
+    }
+  });
+
+  app.post("/api/scenarios", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const scenarioData = insertScenarioSchema.parse({
+        ...req.body,
+        createdBy: req.user!.id,
+      });
+      const scenario = await storage.createScenario(scenarioData);
+      
+      const job = await queueAiAnalysis("scenario", scenario.id);
+      res.status(201).json({ ...scenario, analysisJob: { id: job.id, status: job.status } });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid scenario data" });
+    }
+  });
+
+  // AI Chat endpoint. Continues the given conversation or starts a new one,
+  // whose id comes back for follow-up questions.
+  app.post("/api/ai/chat", requireAuth, async (req, res) => {
+    try {
+      const { question, conversationId } = z.object({
+        question: z.string().trim().min(1).max(4000),
+        conversationId: z.string().min(1).optional(),
+      }).parse(req.body);
+      const conversation = conversationId
+        ? await storage.getChatConversation(conversationId)
+        : await startConversation(req.user!.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const result = await askInConversation(conversation, question);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      const answer = result.turns![1];
+      res.json({
+        response: answer.content,
+        grounded: answer.grounded,
+        citations: answer.citations,
+        provider: answer.provider,
+        model: answer.model,
+        latencyMs: answer.latencyMs,
+        conversationId: conversation.id,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(502).json({ message: "The assistant is unavailable" });
+    }
+  });
+
+  // Conversations with the assistant, visible only to their owner
+  app.get("/api/ai/conversations", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getChatConversations(req.user!.id));
     } catch (error) {
-      res.status(400).json({ message: "Invalid user data" });
+      res.status(500).json({ message: "Failed to fetch conversations" });
     }
   });
 
-  // Complaints
-  app.get("/api/complaints", async (req, res) => {
+  app.post("/api/ai/conversations", requireAuth, async (req, res) => {
     try {
-      const complaints = await storage.getComplaints();
-      res.json(complaints);
+      const { title } = createChatConversationSchema.parse(req.body);
+      res.status(201).json(await startConversation(req.user!.id, title));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch complaints" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to start conversation" });
     }
   });
 
-  app.get("/api/complaints/:id", async (req, res) => {
+  // How long the user's conversations are kept after their last exchange
+  app.get("/api/ai/conversations/settings", requireAuth, async (req, res) => {
     try {
-      const complaint = await storage.getComplaint(req.params.id);
-      if (!complaint) {
-        return res.status(404).json({ message: "Complaint not found" });
-      }
-      res.json(complaint);
+      res.json(await getChatPreferences(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch complaint" });
+      res.status(500).json({ message: "Failed to fetch chat settings" });
     }
   });
 
-  app.post("/api/complaints", async (req, res) => {
+  app.put("/api/ai/conversations/settings", requireAuth, async (req, res) => {
     try {
-      const complaintData = insertComplaintSchema.parse(req.body);
-      const complaint = await storage.createComplaint(complaintData);
-      
-      // Analyze complaint with AI
-      try {
-        const analysis = await analyzeComplaint(complaint.title, complaint.description);
-        await storage.updateComplaint(complaint.id, {
-          category: analysis.category,
-          priority: analysis.priority,
-          aiAnalysis: analysis.summary,
-          aiRecommendations: JSON.stringify(analysis.recommendations),
-          sentimentScore: analysis.sentiment,
-          confidenceScore: analysis.confidence,
-        });
-      } catch (aiError) {
-        console.error("AI analysis failed:", aiError);
-        // Continue without AI analysis
-      }
-      
-      res.status(201).json(complaint);
+      const updates = updateChatPreferencesSchema.parse(req.body);
+      res.json(await updateChatPreferences(req.user!.id, updates));
     } catch (error) {
-      res.status(400).json({ message: "Invalid complaint data" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid chat settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update chat settings" });
     }
   });
 
-  app.patch("/api/complaints/:id", async (req, res) => {
+  app.get("/api/ai/conversations/:id", requireAuth, async (req, res) => {
     try {
-      const updates = req.body;
-      const complaint = await storage.updateComplaint(req.params.id, updates);
-      if (!complaint) {
-        return res.status(404).json({ message: "Complaint not found" });
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      res.json(complaint);
+      res.json({ ...conversation, turns: await storage.getChatTurns(conversation.id) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update complaint" });
+      res.status(500).json({ message: "Failed to fetch conversation" });
     }
   });
 
-  // Meetings
-  app.get("/api/meetings", async (req, res) => {
+  app.patch("/api/ai/conversations/:id", requireAuth, async (req, res) => {
     try {
-      const meetings = await storage.getMeetings();
-      res.json(meetings);
+      const updates = updateChatConversationSchema.parse(req.body);
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(await storage.updateChatConversation(conversation.id, updates));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch meetings" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update conversation" });
     }
   });
 
-  app.get("/api/meetings/:id", async (req, res) => {
+  app.delete("/api/ai/conversations/:id", requireAuth, async (req, res) => {
     try {
-      const meeting = await storage.getMeeting(req.params.id);
-      if (!meeting) {
-        return res.status(404).json({ message: "Meeting not found" });
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      res.json(meeting);
+      await storage.deleteChatConversation(conversation.id);
+      res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch meeting" });
+      res.status(500).json({ message: "Failed to delete conversation" });
     }
   });
 
-  app.post("/api/meetings", async (req, res) => {
+  // Asks a question in the conversation. With "Accept: text/event-stream" the
+  // answer streams as "delta" events, then "done" carries the stored turns;
+  // its answer replaces the streamed text if the two differ.
+  app.post("/api/ai/conversations/:id/messages", requireAuth, async (req, res) => {
+    let streaming = false;
     try {
-      console.log("Meeting creation request body:", JSON.stringify(req.body, null, 2));
-      
-      // Convert scheduledDate string to Date object if it's a string
-      if (req.body.scheduledDate && typeof req.body.scheduledDate === 'string') {
-        console.log("Converting scheduledDate from string to Date:", req.body.scheduledDate);
-        req.body.scheduledDate = new Date(req.body.scheduledDate);
-        console.log("Converted scheduledDate:", req.body.scheduledDate, "Type:", typeof req.body.scheduledDate);
+      const { question } = postChatMessageSchema.parse(req.body);
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      const meetingData = insertMeetingSchema.parse(req.body);
-      console.log("Parsed meeting data:", JSON.stringify(meetingData, null, 2));
-      const meeting = await storage.createMeeting(meetingData);
-      res.status(201).json(meeting);
-    } catch (error: any) {
-      console.error("Meeting validation error:", error);
-      if (error.errors) {
-        console.error("Validation errors:", error.errors);
+
+      streaming = req.accepts(["application/json", "text/event-stream"]) === "text/event-stream";
+      if (!streaming) {
+        const result = await askInConversation(conversation, question);
+        if (result.error) {
+          return res.status(409).json({ message: result.error });
+        }
+        return res.status(201).json({ conversation: result.conversation, turns: result.turns });
       }
-      res.status(400).json({ message: "Invalid meeting data", error: error.message });
-    }
-  });
 
-  // Scenarios
-  app.get("/api/scenarios", async (req, res) => {
-    try {
-      const scenarios = await storage.getScenarios();
-      res.json(scenarios);
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+      const send = (event: string, data: unknown) => {
+        if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const result = await askInConversation(conversation, question, text => send("delta", { text }));
+      if (result.error) {
+        send("error", { message: result.error });
+      } else {
+        send("done", { conversation: result.conversation, turns: result.turns });
+      }
+      res.end();
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch scenarios" });
+      if (streaming) {
+        if (!res.writableEnded) {
+          res.write(`event: error\ndata: ${JSON.stringify({ message: "The assistant is unavailable" })}\n\n`);
+          res.end();
+        }
+        return;
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(502).json({ message: "The assistant is unavailable" });
     }
   });
 
-  app.get("/api/scenarios/:id", async (req, res) => {
+  // The complaint escalating the conversation would file, for the employee
+  // to review and edit first
+  app.get("/api/ai/conversations/:id/complaint-draft", requireAuth, async (req, res) => {
     try {
-      const scenario = await storage.getScenario(req.params.id);
-      if (!scenario) {
-        return res.status(404).json({ message: "Scenario not found" });
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      res.json(scenario);
+      res.json(await complaintDraft(conversation));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch scenario" });
+      res.status(500).json({ message: "Failed to draft complaint" });
     }
   });
 
-  app.post("/api/scenarios", async (req, res) => {
+  // Files a formal complaint from the conversation, with anything left out
+  // of the body taken from the draft
+  app.post("/api/ai/conversations/:id/escalate", requireAuth, async (req, res) => {
     try {
-      const scenarioData = insertScenarioSchema.parse(req.body);
-      const scenario = await storage.createScenario(scenarioData);
-      
-      // Generate AI response
-      try {
-        const aiResult = await generateScenarioResponse(scenario.scenario);
-        await storage.updateScenario(scenario.id, {
-          aiResponse: aiResult.response,
-          recommendedActions: JSON.stringify(aiResult.recommendedActions),
-          riskLevel: aiResult.riskLevel,
+      const { accusedDepartment, ...overrides } = escalateChatConversationSchema.parse(req.body);
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.escalatedComplaintId) {
+        return res.status(409).json({
+          message: "This conversation has already been escalated",
+          complaintId: conversation.escalatedComplaintId,
         });
-      } catch (aiError) {
-        console.error("AI scenario analysis failed:", aiError);
       }
-      
-      res.status(201).json(scenario);
+      const draft = await complaintDraft(conversation);
+      const description = overrides.description ?? draft.description;
+      if (!description) {
+        return res.status(400).json({ message: "Describe the complaint or ask the assistant about it first" });
+      }
+      const complaintData = insertComplaintSchema.parse({
+        ...draft,
+        ...overrides,
+        description,
+        submitterId: req.user!.id,
+        status: "open",
+        assignedTo: null,
+      });
+      const complaint = await storage.createComplaint(complaintData);
+      await recordComplaintFiled(complaint, req.user!.id);
+      await storage.updateChatConversation(conversation.id, { escalatedComplaintId: complaint.id });
+
+      let assigned: typeof complaint | undefined;
+      try {
+        assigned = await autoAssignComplaint(complaint, accusedDepartment);
+      } catch (assignError) {
+        console.error("Automatic assignment failed:", assignError);
+      }
+      const job = await queueAiAnalysis("complaint", complaint.id);
+
+      auditEntity(res, { action: "complaint.create", entityType: "complaint", entityId: complaint.id, after: auditedComplaint(complaint) });
+      res.status(201).json({ ...(assigned ?? complaint), analysisJob: { id: job.id, status: job.status } });
     } catch (error) {
-      res.status(400).json({ message: "Invalid scenario data" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid complaint data", errors: error.errors });
+      }
+      console.error("Conversation escalation failed:", error);
+      res.status(500).json({ message: "Failed to escalate conversation" });
     }
   });
 
-  // AI Chat endpoint
-  app.post("/api/ai/chat", async (req, res) => {
+  // Policy knowledge base: HR managers upload handbooks and policies that
+  // ground the assistant's answers; everyone can read them
+  app.get("/api/policies", requireAuth, async (req, res) => {
     try {
-      const { question } = z.object({ question: z.string() }).parse(req.body);
-      const response = await generateHRResponse(question);
-      res.json({ response });
+      const documents = await storage.getPolicyDocuments();
+      res.json(documents.map(describePolicyDocument));
     } catch (error) {
-      res.status(400).json({ message: "Invalid request" });
+      res.status(500).json({ message: "Failed to fetch policies" });
     }
   });
 
-  // Authentication
-  app.post("/api/auth/login", async (req, res) => {
+  app.get("/api/policies/search", requireAuth, async (req, res) => {
     try {
-      const { phone, password } = req.body;
-      
-      if (!phone || !password) {
-        return res.status(400).json({ message: "Phone number and password are required" });
+      const { q, limit } = policySearchQuerySchema.parse(req.query);
+      const passages = await searchPolicies(q, limit);
+      res.json(passages.map(({ chunk, document, score }) => ({
+        documentId: document.id,
+        title: document.title,
+        section: chunk.section,
+        content: chunk.content,
+        score,
+      })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to search policies" });
+    }
+  });
 
-      const users = await storage.getUsers();
-      const user = users.find(u => u.phone === phone && u.password === password);
-      
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: "Invalid phone number or password" });
+  app.post("/api/policies", requireRole("hr_manager"), (req, res) => {
+    policyUpload(req, res, async (uploadError: unknown) => {
+      if (uploadError instanceof multer.MulterError) {
+        const status = uploadError.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        return res.status(status).json({ message: uploadError.message });
+      }
+      if (uploadError) {
+        return res.status(400).json({ message: "Invalid upload" });
       }
 
-      // Update last login
-      await storage.updateUser(user.id, { lastLogin: new Date() });
-      
-      // Store user session (in a real app, use proper session management)
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword, message: "Login successful" });
-    } catch (error: any) {
-      console.error("Login error:", error);
-      res.status(500).json({ message: "Login failed" });
-    }
+      try {
+        const { title } = uploadPolicySchema.parse(req.body);
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        const result = await storePolicyDocument(req.user!, req.file, title);
+        if (result.error) {
+          return res.status(422).json({ message: result.error });
+        }
+        auditEntity(res, { action: "policy.upload", entityType: "policy_document", entityId: result.document!.id, after: describePolicyDocument(result.document!) });
+        res.status(201).json(describePolicyDocument(result.document!));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid policy data", errors: error.errors });
+        }
+        console.error("Policy upload failed:", error);
+        res.status(500).json({ message: "Failed to store policy" });
+      }
+    });
   });
 
-  app.post("/api/auth/register", async (req, res) => {
+  app.get("/api/policies/:id", requireAuth, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      
-      // Check if phone number already exists
-      const users = await storage.getUsers();
-      const existingUser = users.find(u => u.phone === userData.phone || u.email === userData.email);
-      
-      if (existingUser) {
-        return res.status(400).json({ 
-          message: existingUser.phone === userData.phone 
-            ? "Phone number already registered" 
-            : "Email already registered" 
-        });
+      const document = await storage.getPolicyDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Policy not found" });
       }
-
-      const user = await storage.createUser(userData);
-      
-      const { password: _, ...userWithoutPassword } = user;
-      res.status(201).json({ user: userWithoutPassword, message: "Registration successful" });
-    } catch (error: any) {
-      console.error("Registration error:", error);
-      res.status(400).json({ message: "Registration failed" });
+      const chunks = await storage.getPolicyChunks(document.id);
+      res.json({ ...describePolicyDocument(document), sections: Array.from(new Set(chunks.map(chunk => chunk.section))) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch policy" });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    res.json({ message: "Logout successful" });
+  app.get("/api/policies/:id/download", requireAuth, async (req, res) => {
+    try {
+      const document = await storage.getPolicyDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      const data = await readPolicyDocument(document);
+      res.attachment(document.fileName);
+      res.set({ "Content-Type": document.contentType, "X-Content-Type-Options": "nosniff" });
+      res.send(data);
+    } catch (error) {
+      console.error("Policy download failed:", error);
+      res.status(500).json({ message: "Failed to download policy" });
+    }
   });
 
-  app.get("/api/auth/me", async (req, res) => {
-    // For development, return a default user
-    // In production, implement proper session management
-    res.json({ 
-      user: { 
-        id: "default-user-id", 
-        name: "Demo User", 
-        role: "hr_manager", 
-        phone: "+1234567890" 
-      } 
-    });
+  app.delete("/api/policies/:id", requireRole("hr_manager"), async (req, res) => {
+    try {
+      const document = await storage.getPolicyDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+      await deletePolicyDocument(document);
+      auditEntity(res, { action: "policy.delete", entityType: "policy_document", entityId: document.id, before: describePolicyDocument(document) });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete policy" });
+    }
   });
 
   // Admin endpoints (HR Manager only)
-  app.get("/api/admin/stats", async (req, res) => {
+  app.get("/api/admin/stats", requireRole("hr_manager"), async (req, res) => {
     try {
       const users = await storage.getUsers();
       const complaints = await storage.getComplaints();
@@ -280,7 +1424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const stats = {
         totalUsers: users.length,
         totalComplaints: complaints.length,
-        activeComplaints: complaints.filter(c => c.status === "open" || c.status === "in_progress").length,
+        activeComplaints: complaints.filter(c => isActiveStatus(c.status)).length,
         totalMeetings: meetings.filter(m => m.status === "scheduled").length,
         pendingReviews: complaints.filter(c => c.status === "open").length,
         resolvedComplaints: complaints.filter(c => c.status === "resolved").length,
@@ -294,35 +1438,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/activity", async (req, res) => {
+  app.get("/api/admin/activity", requireRole("hr_manager"), async (req, res) => {
     try {
-      // Mock activity data for now
-      const activity = [
-        { title: "New complaint submitted", time: "2 hours ago" },
-        { title: "Meeting scheduled", time: "4 hours ago" },
-        { title: "User registered", time: "6 hours ago" },
-      ];
-      res.json(activity);
+      const query = activityQuerySchema.parse(req.query);
+      const page = await listActivity(query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      res.json({ items: page.items, nextCursor: page.nextCursor });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch activity" });
     }
   });
 
   // Analytics endpoints
-  app.get("/api/analytics/stats", async (req, res) => {
+  app.get("/api/analytics/stats", requireRole(...CASEWORKER_ROLES), async (req, res) => {
     try {
       const complaints = await storage.getComplaints();
       const meetings = await storage.getMeetings();
       
-      const activeIssues = complaints.filter(c => c.status === "open" || c.status === "in_progress").length;
-      const resolvedThisMonth = complaints.filter(c => {
-        const createdDate = new Date(c.createdAt!);
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
-        return c.status === "resolved" && 
-               createdDate.getMonth() === currentMonth && 
-               createdDate.getFullYear() === currentYear;
-      }).length;
+      const activeIssues = complaints.filter(c => isActiveStatus(c.status)).length;
+      const resolvedThisMonth = await countResolvedThisMonth();
       
       const upcomingMeetings = meetings.filter(m => {
         const meetingDate = new Date(m.scheduledDate);
@@ -331,21 +1470,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }).length;
       
       const aiRecommendations = complaints.filter(c => c.aiRecommendations).length;
+      const slaBreaches = await getSlaBreachCounts();
       
       res.json({
         activeIssues,
         resolvedThisMonth,
         upcomingMeetings,
-        aiRecommendations
+        aiRecommendations,
+        slaBreaches
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch analytics" });
     }
   });
 
+  // Served from the daily rollups (UTC days); see services/analytics
+  app.get("/api/analytics/trends", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const query = analyticsTrendQuerySchema.parse(req.query);
+      const { error, ...trends } = await getComplaintTrends(query);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      res.json(trends);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch trends" });
+    }
+  });
+
+  app.get("/api/analytics/hotspots", requireRole(...CASEWORKER_ROLES), async (req, res) => {
+    try {
+      const query = analyticsHotspotQuerySchema.parse(req.query);
+      const { error, hotspots } = await getRepeatIssueHotspots(query);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      res.json(hotspots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch hotspots" });
+    }
+  });
+
+  // Recomputes the rollups for past days, e.g. after importing complaints
+  app.post("/api/analytics/rebuild", requireRole("hr_manager"), async (req, res) => {
+    try {
+      const { from, to } = analyticsRebuildSchema.parse(req.body);
+      const rows = await rebuildDailyStats(from, to);
+      res.json({ from, to, rows });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to rebuild analytics" });
+    }
+  });
+
   // Notifications
-  app.get("/api/notifications/:userId", async (req, res) => {
+  // Paginated newest first; pass nextCursor back as ?cursor= for the next page
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const query = notificationListQuerySchema.parse(req.query);
+      const page = await listNotifications(req.user!.id, query);
+      if (page.error) {
+        return res.status(400).json({ message: page.error });
+      }
+      res.json({ items: page.items, nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", requireAuth, async (req, res) => {
+    try {
+      res.json({ unreadCount: await storage.countUnreadNotifications(req.user!.id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  // Server-Sent Events alternative to the /ws/notifications WebSocket
+  app.get("/api/notifications/stream", requireAuth, async (req, res) => {
+    const userId = req.user!.id;
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    const unsubscribe = notificationHub.subscribe(userId, event => send(event.type, event));
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 30 * 1000);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      send("ready", { type: "ready", unreadCount: await storage.countUnreadNotifications(userId) });
+    } catch (error) {
+      console.error("Notification stream error:", error);
+      res.end();
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || notification.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (!notification.isRead) {
+        await storage.markNotificationRead(notification.id);
+        await publishUnreadCount(req.user!.id);
+      }
+      res.json({ ...notification, isRead: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const marked = await storage.markAllNotificationsRead(req.user!.id);
+      if (marked > 0) {
+        await publishUnreadCount(req.user!.id);
+      }
+      res.json({ marked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  // Email/SMS copies: which channels, which types stay in-app, quiet hours
+  app.get("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      res.json(await getNotificationPreferences(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const updates = updateNotificationPreferencesSchema.parse(req.body);
+      res.json(await updateNotificationPreferences(req.user!.id, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  app.get("/api/notifications/:userId", requireAuth, async (req, res) => {
     try {
+      // Strictly self-only: another user's notifications could reveal who
+      // filed an anonymous complaint
+      if (req.params.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
       const notifications = await storage.getNotifications(req.params.userId);
       res.json(notifications);
     } catch (error) {
@@ -353,6 +1648,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Outbound delivery log; status=dead lists the dead letters
+  app.get("/api/notification-deliveries", requireRole("hr_manager"), async (req, res) => {
+    try {
+      const query = deliveryListQuerySchema.parse(req.query);
+      res.json(await storage.getNotificationDeliveries(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch deliveries" });
+    }
+  });
+
+  app.post("/api/notification-deliveries/:id/retry", requireRole("hr_manager"), async (req, res) => {
+    try {
+      const delivery = await storage.getNotificationDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      const result = await retryDelivery(delivery);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.delivery);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retry delivery" });
+    }
+  });
+
+  // Audit log. Entries name the actor behind every action, including the
+  // filers of anonymous complaints, so only ethics officers may read them.
+  app.get("/api/audit", requireRole("ethics_officer"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const items = await storage.getAuditEntries(query);
+      auditEntity(res, { action: "audit.view", entityType: "audit_log" });
+      res.json({ items, nextCursor: items.length === query.limit ? items[items.length - 1].sequence : null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/audit/export", requireRole("ethics_officer"), async (req, res) => {
+    try {
+      const { format, ...filters } = auditExportSchema.parse(req.query);
+      auditEntity(res, { action: "audit.export", entityType: "audit_log" });
+      res.attachment(`audit-log.${format}`);
+      res.type(format === "csv" ? "text/csv" : "application/json");
+
+      // Streamed page by page so large exports are not held in memory
+      let first = true;
+      res.write(format === "csv" ? auditCsvHeader() : "[");
+      for await (const entry of auditEntriesMatching(filters)) {
+        res.write(format === "csv" ? auditCsvRow(entry) : `${first ? "" : ","}\n${JSON.stringify(entry)}`);
+        first = false;
+      }
+      res.end(format === "csv" ? "" : "\n]\n");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      console.error("Audit export failed:", error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  // Recomputes the hash chain; any edited or deleted entry shows up as a break
+  app.get("/api/audit/verify", requireRole("ethics_officer"), async (req, res) => {
+    try {
+      auditEntity(res, { action: "audit.verify", entityType: "audit_log" });
+      res.json(await verifyAuditChain());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
+  // Reports. Schedules and their generated files belong to the user who
+  // created them, since each report is redacted for its owner.
+  app.get("/api/reports/schedules", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      res.json(await storage.getReportSchedules(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch report schedules" });
+    }
+  });
+
+  app.post("/api/reports/schedules", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const input = createReportScheduleSchema.parse(req.body);
+      if (!canExportReport(req.user!, input.kind)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const schedule = await createReportSchedule(req.user!, input);
+      auditEntity(res, { action: "report.schedule.create", entityType: "report_schedule", entityId: schedule.id, after: schedule });
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create report schedule" });
+    }
+  });
+
+  app.patch("/api/reports/schedules/:id", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const updates = updateReportScheduleSchema.parse(req.body);
+      const schedule = await storage.getReportSchedule(req.params.id);
+      if (!schedule || schedule.ownerId !== req.user!.id) {
+        return res.status(404).json({ message: "Report schedule not found" });
+      }
+      if (updates.active && !canExportReport(req.user!, schedule.kind as ReportKind)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const updated = await updateReportSchedule(schedule, updates);
+      auditEntity(res, { action: "report.schedule.update", entityType: "report_schedule", entityId: schedule.id, before: schedule, after: updated });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update report schedule" });
+    }
+  });
+
+  // Generates the report for the last completed period without waiting for the scheduler
+  app.post("/api/reports/schedules/:id/run", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const schedule = await storage.getReportSchedule(req.params.id);
+      if (!schedule || schedule.ownerId !== req.user!.id) {
+        return res.status(404).json({ message: "Report schedule not found" });
+      }
+      const result = await generateScheduledReport(schedule);
+      if (result.error) {
+        return res.status(403).json({ message: result.error });
+      }
+      res.status(201).json(describeGeneratedReport(result.report!));
+    } catch (error) {
+      console.error("Report generation failed:", error);
+      res.status(500).json({ message: "Failed to generate report" });
+    }
+  });
+
+  app.get("/api/reports/generated", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const reports = await storage.getGeneratedReports(req.user!.id);
+      res.json(reports.map(describeGeneratedReport));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.get("/api/reports/generated/:id/download", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const report = await storage.getGeneratedReport(req.params.id);
+      if (!report || report.ownerId !== req.user!.id) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      // The owner's role may have changed since the report was generated
+      if (!canExportReport(req.user!, report.kind as ReportKind)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const data = await readGeneratedReport(report);
+      auditEntity(res, { action: "report.download", entityType: "generated_report", entityId: report.id });
+      res.attachment(report.fileName);
+      res.set({ "Content-Type": report.contentType, "X-Content-Type-Options": "nosniff" });
+      res.send(data);
+    } catch (error) {
+      console.error("Report download failed:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
+  // On-demand export, e.g. /api/reports/complaints?format=xlsx&from=2025-01-01&status=resolved.
+  // Declared after the routes above so "schedules" and "generated" are not read as a kind.
+  app.get("/api/reports/:kind", requireRole(...STAFF_ROLES), async (req, res) => {
+    try {
+      const kind = req.params.kind as ReportKind;
+      if (!reportKinds.includes(kind)) {
+        return res.status(404).json({ message: "Unknown report" });
+      }
+      if (!canExportReport(req.user!, kind)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const { format, from, to, ...filters } = req.query;
+      const range = reportExportQuerySchema.parse({ format, from, to });
+      const report = await buildReport(req.user!, kind, range.format, parseReportFilters(kind, filters), defaultReportPeriod(range));
+      auditEntity(res, { action: "report.export", entityType: "report", entityId: kind });
+      res.attachment(report.fileName);
+      res.set({ "Content-Type": report.contentType, "X-Content-Type-Options": "nosniff" });
+      res.send(report.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report query", errors: error.errors });
+      }
+      console.error("Report export failed:", error);
+      res.status(500).json({ message: "Failed to export report" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
@@ -0,0 +1,99 @@
+import type { ActivityEvent, ActivityEventType, ActivityQuery } from "@shared/activity";
+import { storage } from "../storage";
+
+const EVENT_TITLES: Record<ActivityEventType, string> = {
+  "complaint.filed": "New complaint submitted",
+  "complaint.status_changed": "Complaint status changed",
+  "meeting.scheduled": "Meeting scheduled",
+  "user.registered": "User registered",
+  "scenario.run": "Scenario analysed",
+};
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+const relativeTime = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+// "just now", "5 minutes ago", "yesterday", "3 weeks ago"
+export function formatRelativeTime(date: Date, now = new Date()): string {
+  const seconds = Math.round((now.getTime() - date.getTime()) / 1000);
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) {
+      return relativeTime.format(-Math.floor(seconds / size), unit);
+    }
+  }
+  return "just now";
+}
+
+export interface ActivityItem {
+  id: string;
+  type: string;
+  title: string;
+  summary: string;
+  actorId: string | null;
+  actorName: string | null;
+  department: string | null;
+  entityType: string;
+  entityId: string;
+  createdAt: Date;
+  // Relative to when the page was served
+  time: string;
+}
+
+function encodeCursor(event: ActivityEvent): string {
+  return Buffer.from(`${event.createdAt.toISOString()}|${event.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const date = new Date(createdAt);
+  return id && !Number.isNaN(date.getTime()) ? { createdAt: date, id } : null;
+}
+
+export interface ActivityPage {
+  items?: ActivityItem[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+export async function listActivity(query: ActivityQuery): Promise<ActivityPage> {
+  const before = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (before === null) {
+    return { error: "Invalid cursor" };
+  }
+
+  // One extra row tells whether another page follows
+  const rows = await storage.getActivityEvents({
+    limit: query.limit + 1,
+    before,
+    type: query.type,
+    actorId: query.userId,
+    department: query.department,
+  });
+  const events = rows.slice(0, query.limit);
+
+  const actorIds = Array.from(new Set(events.map(event => event.actorId).filter((id): id is string => !!id)));
+  const actors = new Map(await Promise.all(actorIds.map(async id => [id, await storage.getUser(id)] as const)));
+  const now = new Date();
+  const items = events.map(event => ({
+    id: event.id,
+    type: event.type,
+    title: EVENT_TITLES[event.type as ActivityEventType] ?? event.type,
+    summary: event.summary,
+    actorId: event.actorId,
+    actorName: event.actorId ? actors.get(event.actorId)?.name ?? null : null,
+    department: event.department,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    createdAt: event.createdAt,
+    time: formatRelativeTime(event.createdAt, now),
+  }));
+
+  return { items, nextCursor: rows.length > query.limit ? encodeCursor(events[events.length - 1]) : null };
+}
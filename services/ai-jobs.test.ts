@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { processAiJobs, queueAiAnalysis } from "./ai-jobs";
+
+const MINUTE_MS = 60 * 1000;
+
+let sequence = 0;
+
+async function fileComplaint() {
+  sequence++;
+  const submitter = await storage.createUser({
+    username: `jobs.user${sequence}`,
+    password: "correct horse battery staple",
+    email: `jobs.user${sequence}@company.com`,
+    phone: `+1555400${String(sequence).padStart(4, "0")}`,
+    name: `Jobs User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+  });
+  return storage.createComplaint({
+    title: "Unpaid overtime",
+    description: "My overtime for March was never paid.",
+    category: "compensation",
+    priority: "low",
+    submitterId: submitter.id,
+  });
+}
+
+// A job in the queue that is not picked up by the call queueAiAnalysis makes
+async function createJob(entityId: string, nextAttemptAt: Date) {
+  return storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId, nextAttemptAt });
+}
+
+describe("processAiJobs", () => {
+  it("skips a job another worker is attempting", async () => {
+    const now = new Date("2032-01-01T12:00:00Z");
+    const complaint = await fileComplaint();
+    const job = await createJob(complaint.id, now);
+    await storage.claimAiJob(job.id, now, new Date(now.getTime() + 10 * MINUTE_MS));
+
+    expect(await processAiJobs(new Date(now.getTime() + MINUTE_MS))).toBe(0);
+    expect(await storage.getAiRuns("complaint", complaint.id)).toEqual([]);
+  });
+
+  it("takes over a job whose worker stopped part way", async () => {
+    const now = new Date("2031-01-01T12:00:00Z");
+    const complaint = await fileComplaint();
+    const job = await createJob(complaint.id, now);
+    await storage.claimAiJob(job.id, now, new Date(now.getTime() + 10 * MINUTE_MS));
+
+    expect(await processAiJobs(new Date(now.getTime() + 11 * MINUTE_MS))).toBe(1);
+    expect(await storage.getAiJob(job.id)).toMatchObject({ status: "done", attempts: 2 });
+    expect(await storage.getAiRuns("complaint", complaint.id)).toHaveLength(1);
+  });
+});
+
+describe("queueAiAnalysis", () => {
+  it("joins a job that is still waiting", async () => {
+    const complaint = await fileComplaint();
+    const waiting = await createJob(complaint.id, new Date(Date.now() + 60 * MINUTE_MS));
+
+    const queued = await queueAiAnalysis("complaint", complaint.id, undefined, true);
+
+    expect(queued).toMatchObject({ id: waiting.id, status: "pending", retriage: true });
+  });
+
+  it("queues a new job rather than changing one already running", async () => {
+    const complaint = await fileComplaint();
+    const now = new Date();
+    const running = await createJob(complaint.id, now);
+    await storage.claimAiJob(running.id, now, new Date(now.getTime() + 10 * MINUTE_MS));
+
+    const queued = await queueAiAnalysis("complaint", complaint.id, undefined, true);
+
+    expect(queued.id).not.toBe(running.id);
+    expect(queued.retriage).toBe(true);
+    expect(await storage.getAiJob(running.id)).toMatchObject({ status: "running", retriage: false });
+    await vi.waitFor(async () => expect(await storage.getAiJob(queued.id)).toMatchObject({ status: "done" }));
+  });
+});
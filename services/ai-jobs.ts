@@ -0,0 +1,145 @@
+import type { AiJob, AiTask } from "@shared/ai";
+import { storage } from "../storage";
+import { analyzeComplaint, analyzeScenario } from "./ai";
+import { createNotification } from "./notifications";
+
+const SECOND_MS = 1000;
+const DEFAULT_WORKER_INTERVAL_MS = 30 * SECOND_MS;
+const BATCH_SIZE = 20;
+// Attempts before a job fails; waits double from RETRY_BASE_MS. Only the last
+// attempt may fall back to the offline rules.
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30 * SECOND_MS;
+// How long a worker holds a job it is attempting; one that stops part way
+// leaves the job to be taken over once this runs out
+const LEASE_MS = 10 * 60 * SECOND_MS;
+
+export type AnalysisEntityType = "complaint" | "scenario";
+
+const TASKS: Record<AnalysisEntityType, AiTask> = {
+  complaint: "complaint_analysis",
+  scenario: "scenario_analysis",
+};
+
+// Queues an analysis and starts on it straight away. A job still waiting
+// for the same record is returned instead of queueing a second one, taking
+// on the request to retriage if there is one. A running job has already read
+// the record and its options, so a request made meanwhile queues a new job.
+export async function queueAiAnalysis(
+  entityType: AnalysisEntityType,
+  entityId: string,
+  requestedBy?: string,
+  retriage = false,
+): Promise<AiJob> {
+  let job = (await storage.getAiJobs(entityType, entityId)).find(pending => pending.status === "pending");
+  if (job && retriage && !job.retriage) {
+    job = await storage.updateAiJob(job.id, { retriage }) ?? job;
+  }
+  job ??= await storage.createAiJob({
+    task: TASKS[entityType],
+    entityType,
+    entityId,
+    requestedBy: requestedBy ?? null,
+    retriage,
+    nextAttemptAt: new Date(),
+  });
+  setImmediate(() => {
+    processAiJobs().catch(error => console.error("AI job processing failed:", error));
+  });
+  return job;
+}
+
+// Runs the analysis and returns who should hear about it (the complaint's
+// assignee or the scenario's author), or null when the record is gone
+async function analyze(job: AiJob, fallback: boolean): Promise<{ recipient?: string | null; title: string } | null> {
+  if (job.entityType === "complaint") {
+    const complaint = await storage.getComplaint(job.entityId);
+    if (!complaint) return null;
+    const analyzed = await analyzeComplaint(complaint, { fallback, retriage: job.retriage });
+    return { recipient: analyzed?.assignedTo, title: complaint.title };
+  }
+  const scenario = await storage.getScenario(job.entityId);
+  if (!scenario) return null;
+  await analyzeScenario(scenario, { fallback });
+  return { recipient: scenario.createdBy, title: scenario.title };
+}
+
+async function attemptJob(job: AiJob, now: Date) {
+  const { attempts } = job;
+  try {
+    const result = await analyze(job, attempts >= MAX_ATTEMPTS);
+    if (!result) {
+      await storage.updateAiJob(job.id, { status: "failed", attempts, lastError: `The ${job.entityType} no longer exists` });
+      return;
+    }
+    await storage.updateAiJob(job.id, { status: "done", attempts, lastError: null, completedAt: new Date() });
+    if (result.recipient) {
+      await createNotification({
+        userId: result.recipient,
+        title: "Analysis ready",
+        message: `The AI analysis of "${result.title}" is ready`,
+        type: "analysis_ready",
+        relatedEntityId: job.entityId,
+        relatedEntityType: job.entityType,
+      });
+    }
+  } catch (error) {
+    const lastError = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`AI job ${job.id} (${job.task}) failed:`, lastError);
+      await storage.updateAiJob(job.id, { status: "failed", attempts, lastError });
+    } else {
+      await storage.updateAiJob(job.id, {
+        status: "pending",
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+      });
+    }
+  }
+}
+
+let processing = false;
+let requested = false;
+
+// Works through every job that is due. Each job is claimed before it is
+// attempted, so other server processes skip it. A call made while another is
+// running in this process returns 0 straight away, and the running call
+// checks again once it is done so newly queued jobs are not left for the
+// next tick.
+export async function processAiJobs(now?: Date): Promise<number> {
+  if (processing) {
+    requested = true;
+    return 0;
+  }
+  processing = true;
+  let processed = 0;
+  try {
+    do {
+      requested = false;
+      const due = await storage.getDueAiJobs(now ?? new Date(), BATCH_SIZE);
+      for (const { id } of due) {
+        const claimedAt = now ?? new Date();
+        const job = await storage.claimAiJob(id, claimedAt, new Date(claimedAt.getTime() + LEASE_MS));
+        if (!job) continue;
+        await attemptJob(job, claimedAt);
+        processed++;
+      }
+    } while (requested);
+    return processed;
+  } finally {
+    processing = false;
+  }
+}
+
+export function startAiJobWorker(intervalMs = Number(process.env.AI_JOB_INTERVAL_MS) || DEFAULT_WORKER_INTERVAL_MS) {
+  const timer = setInterval(async () => {
+    try {
+      await processAiJobs();
+    } catch (error) {
+      console.error("AI job processing failed:", error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,153 @@
+import OpenAI from "openai";
+import {
+  complaintCategories,
+  riskLevels,
+  type AiProviderName,
+  type AiTask,
+  type AiTaskInputs,
+  type ChatExchange,
+} from "@shared/ai";
+import { complaintPriorities } from "@shared/workflow";
+
+// A source of AI output. Providers return raw JSON; the caller validates it
+// against the task's schema and records the run.
+export interface AiProvider {
+  name: AiProviderName;
+  model: string;
+  run<T extends AiTask>(task: T, input: AiTaskInputs[T]): Promise<unknown>;
+  // Answers hr_chat as plain text, passing each piece to onText as it is
+  // generated, and resolves to the same shape as run(). Providers without it
+  // answer in one piece.
+  streamChat?(input: AiTaskInputs["hr_chat"], onText: (text: string) => void): Promise<unknown>;
+}
+
+interface Prompt {
+  system: string;
+  // Earlier exchanges, sent as alternating user and assistant messages
+  history?: ChatExchange[];
+  user: string;
+}
+
+// Inline passage markers such as [S1]
+const CITATION_MARKER = /\[(S\d+)\]/g;
+
+const PLACEHOLDERS = "Personal details have been replaced with placeholders such as [PERSON_1] or [EMAIL_1]. " +
+  "Refer to them by the same placeholders and do not guess what they stand for.";
+
+const PROMPTS: { [T in AiTask]: (input: AiTaskInputs[T]) => Prompt } = {
+  complaint_analysis: ({ title, description }) => ({
+    system: [
+      "You are an HR analyst triaging workplace complaints.",
+      "Reply with a JSON object with these keys:",
+      `"category": one of ${complaintCategories.join(", ")};`,
+      `"priority": one of ${complaintPriorities.join(", ")}, urgent only for threats to someone's safety;`,
+      `"summary": two or three neutral sentences;`,
+      `"recommendations": up to five concrete next steps for HR;`,
+      `"sentiment": a number from -1 (very negative) to 1 (very positive);`,
+      `"confidence": a number from 0 to 1 for how sure you are of the category and priority.`,
+      PLACEHOLDERS,
+    ].join("\n"),
+    user: `Title: ${title}\n\nDescription:\n${description}`,
+  }),
+  scenario_analysis: ({ scenario }) => ({
+    system: [
+      "You are an experienced HR advisor coaching HR staff through a hypothetical workplace scenario.",
+      "Reply with a JSON object with these keys:",
+      `"response": how HR should handle the scenario, in a few paragraphs;`,
+      `"recommendedActions": up to seven concrete steps;`,
+      `"riskLevel": one of ${riskLevels.join(", ")}, for the legal and wellbeing risk if it is mishandled.`,
+      PLACEHOLDERS,
+    ].join("\n"),
+    user: scenario,
+  }),
+  hr_chat: input => hrChatPrompt(input, "json"),
+};
+
+// Earlier answers in the history cited passages of their own turn, so only
+// the passages given with the latest question may be cited
+function hrChatPrompt({ question, passages, history }: AiTaskInputs["hr_chat"], format: "json" | "text"): Prompt {
+  return {
+    system: [
+      "You are an HR assistant answering employees' questions about workplace policies and procedures.",
+      "Answer only from the numbered policy passages provided with the latest question, never from general knowledge.",
+      "Earlier messages are there to tell you what the question refers to.",
+      "Cite the passages you rely on inline as [S1], [S2] and so on.",
+      "If the passages do not answer the question, say so briefly and cite nothing.",
+      "Be accurate and supportive, and suggest contacting HR directly for anything specific to the employee.",
+      format === "json"
+        ? `Reply with a JSON object with the keys "answer" and "citations" (the ids of the passages cited, e.g. ["S1"]).`
+        : "Reply in plain text.",
+      PLACEHOLDERS,
+    ].join("\n"),
+    history,
+    user: [
+      ...passages.map(passage => `[${passage.id}] ${passage.document} — ${passage.section || "General"}\n${passage.text}`),
+      `Question: ${question}`,
+    ].join("\n\n"),
+  };
+}
+
+function chatMessages(prompt: Prompt): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    { role: "system", content: prompt.system },
+    ...(prompt.history ?? []).flatMap(exchange => [
+      { role: "user" as const, content: exchange.question },
+      { role: "assistant" as const, content: exchange.answer },
+    ]),
+    { role: "user", content: prompt.user },
+  ];
+}
+
+// OpenAI itself, or any server exposing the OpenAI chat completions API
+// (Ollama, vLLM, LM Studio, ...) when given a base URL
+export class ChatCompletionProvider implements AiProvider {
+  private client: OpenAI;
+
+  constructor(
+    public name: AiProviderName,
+    public model: string,
+    options: { apiKey: string; baseURL?: string; timeoutMs: number },
+  ) {
+    // Failed calls fall back to another provider instead of being retried
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, timeout: options.timeoutMs, maxRetries: 0 });
+  }
+
+  async run<T extends AiTask>(task: T, input: AiTaskInputs[T]): Promise<unknown> {
+    const prompt = (PROMPTS[task] as (input: AiTaskInputs[T]) => Prompt)(input);
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: chatMessages(prompt),
+      response_format: { type: "json_object" },
+      temperature: 0.2,
+    });
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("Empty completion");
+    }
+    return JSON.parse(content);
+  }
+
+  // The citations are read from the inline markers, since plain text has no
+  // separate list
+  async streamChat(input: AiTaskInputs["hr_chat"], onText: (text: string) => void): Promise<unknown> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: chatMessages(hrChatPrompt(input, "text")),
+      temperature: 0.2,
+      stream: true,
+    });
+    let answer = "";
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        answer += text;
+        onText(text);
+      }
+    }
+    if (!answer.trim()) {
+      throw new Error("Empty completion");
+    }
+    const citations = Array.from(new Set(Array.from(answer.matchAll(CITATION_MARKER), match => match[1])));
+    return { answer, citations: citations.slice(0, 10) };
+  }
+}
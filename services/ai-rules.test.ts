@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { aiOutputSchemas, aiTasks, type AiTaskInputs } from "@shared/ai";
+import { analyzeComplaintByRules, answerByRules, rulesProvider } from "./ai-rules";
+
+const INPUTS: AiTaskInputs = {
+  complaint_analysis: {
+    title: "Unpaid overtime",
+    description: "I worked 20 hours of overtime last month and none of it was paid.",
+  },
+  scenario_analysis: {
+    scenario: "An employee reports that a colleague keeps making sexual comments and touched her without consent.",
+  },
+  hr_chat: {
+    question: "How much annual leave do I get?",
+    passages: [{ id: "S1", document: "Handbook", section: "Leave", text: "Full-time staff get 25 days of annual leave. It renews each January." }],
+    history: [],
+  },
+};
+
+describe("rulesProvider", () => {
+  it.each(aiTasks)("returns %s output that passes its schema", async task => {
+    const output = await rulesProvider.run(task, INPUTS[task]);
+
+    expect(() => aiOutputSchemas[task].parse(output)).not.toThrow();
+  });
+
+  it("is deterministic", async () => {
+    const first = await rulesProvider.run("complaint_analysis", INPUTS.complaint_analysis);
+    const second = await rulesProvider.run("complaint_analysis", INPUTS.complaint_analysis);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe("analyzeComplaintByRules", () => {
+  it("files conduct by a manager under the conduct rather than the manager", () => {
+    const analysis = analyzeComplaintByRules({
+      title: "Harassment by manager",
+      description: "My manager keeps yelling at me in front of the team. My manager says I am useless.",
+    });
+
+    expect(analysis.category).toBe("harassment");
+    expect(analysis.priority).toBe("high");
+  });
+
+  it("does not read everyday phrases as keywords", () => {
+    const analysis = analyzeComplaintByRules({
+      title: "Follow-up",
+      description: "I raised a concern last week and was told someone would get in touch.",
+    });
+
+    expect(analysis.category).toBe("other");
+  });
+
+  it("matches keyword phrases as whole words", () => {
+    const analysis = analyzeComplaintByRules({
+      title: "Promised pay raise",
+      description: "My pay raise was agreed in March but has not appeared in my salary.",
+    });
+
+    expect(analysis.category).toBe("compensation");
+  });
+
+  it("puts threats of violence first", () => {
+    const analysis = analyzeComplaintByRules({
+      title: "Threat in the car park",
+      description: "A colleague said he would kill me if I reported him.",
+    });
+
+    expect(analysis.priority).toBe("urgent");
+    expect(analysis.sentiment).toBeLessThan(0);
+  });
+
+  it("is less sure with fewer matches", () => {
+    const weak = analyzeComplaintByRules({ title: "Rota", description: "My shift changed." });
+    const strong = analyzeComplaintByRules({
+      title: "Harassment",
+      description: "I am harassed and bullied every day, and the insults are humiliating.",
+    });
+
+    expect(weak.confidence).toBeLessThan(strong.confidence);
+    expect(strong.confidence).toBeLessThanOrEqual(0.7);
+  });
+});
+
+describe("answerByRules", () => {
+  it("quotes and cites the best passage", () => {
+    const answer = answerByRules(INPUTS.hr_chat);
+
+    expect(answer.answer).toContain("25 days of annual leave");
+    expect(answer.citations).toEqual(["S1"]);
+  });
+
+  it("cites nothing without passages", () => {
+    expect(answerByRules({ ...INPUTS.hr_chat, passages: [] }).citations).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import type {
+  AiTask,
+  AiTaskInputs,
+  ComplaintAnalysis,
+  HrAnswer,
+  ScenarioAnalysis,
+} from "@shared/ai";
+import type { AiProvider } from "./ai-providers";
+
+// Deterministic keyword classifier that needs no network or model, so the
+// pipeline keeps working offline and tests get stable output. A single-word
+// keyword is matched as a word prefix, so "harass" also counts "harassed";
+// one of several words matches those whole words in sequence, so "pay raise"
+// does not count "raised a concern".
+
+type Category = ComplaintAnalysis["category"];
+type Priority = ComplaintAnalysis["priority"];
+
+const CATEGORY_KEYWORDS: Record<Exclude<Category, "other">, string[]> = {
+  harassment: [
+    "harass", "bully", "intimidat", "threat", "inappropriate", "touched me", "touching me", "touch me", "unwanted",
+    "stalk", "sexual", "abus", "insult", "humiliat", "yell", "shout", "scream",
+  ],
+  discrimination: ["discriminat", "racis", "sexis", "gender", "race", "religio", "disabilit", "pregnan", "ageis", "unequal", "bias"],
+  workplace_safety: ["unsafe", "safety", "injur", "hazard", "accident", "danger", "equipment", "chemical", "ppe"],
+  compensation: [
+    "pay", "unpaid", "salary", "wage", "overtime", "bonus", "paid", "payroll", "compensation", "expense", "pay raise",
+    "pay rise", "a raise",
+  ],
+  management: ["manager", "supervisor", "boss", "lead", "micromanag", "favourit", "favorit", "unfair", "ignored"],
+  workload: ["workload", "hours", "burnout", "overwork", "deadline", "exhaust", "stress", "understaff", "weekend", "shift"],
+  policy_violation: [
+    "policy", "fraud", "theft", "steal", "brib", "conflict of interest", "conflicts of interest", "confidential",
+    "leak", "falsif", "violat",
+  ],
+};
+
+// Each match counts this many times. Conduct and safety outweigh who was
+// involved or how busy things are, so "harassment by my manager" is filed
+// as harassment even though the manager is mentioned more often.
+const CATEGORY_WEIGHTS: Record<Exclude<Category, "other">, number> = {
+  harassment: 3,
+  discrimination: 3,
+  workplace_safety: 3,
+  policy_violation: 2,
+  compensation: 2,
+  management: 1,
+  workload: 1,
+};
+
+// The first level whose keywords appear decides the priority
+const PRIORITY_KEYWORDS: [Priority, string[]][] = [
+  ["urgent", ["assault", "violen", "threat", "weapon", "suicid", "self-harm", "kill", "rape", "immediate danger"]],
+  ["high", ["harass", "discriminat", "injur", "unsafe", "retaliat", "sexual", "fraud", "abus", "stalk"]],
+  ["medium", ["unfair", "bully", "overtime", "unpaid", "stress", "ignored", "hostile", "intimidat"]],
+];
+
+const NEGATIVE_WORDS = [
+  "angry", "upset", "afraid", "scared", "fear", "hurt", "unfair", "terrible", "awful", "hostile", "stress",
+  "anxious", "humiliat", "threat", "worried", "frustrat", "unsafe", "abus", "hate", "cry", "sick", "ignored",
+];
+const POSITIVE_WORDS = ["thank", "appreciat", "good", "great", "happy", "resolved", "helpful", "support", "fair", "glad"];
+
+const RECOMMENDATIONS: Record<Category, string[]> = {
+  harassment: [
+    "Acknowledge the report and confirm the employee's protection from retaliation",
+    "Open a confidential investigation and interview the people involved",
+    "Consider interim measures such as changing reporting lines or seating",
+    "Offer the employee access to counselling support",
+  ],
+  discrimination: [
+    "Review the decisions or treatment described against the equal opportunities policy",
+    "Open a confidential investigation and gather relevant records",
+    "Check whether comparable employees were treated differently",
+    "Keep the employee informed and protected from retaliation",
+  ],
+  workplace_safety: [
+    "Assess the hazard and restrict access until it is made safe",
+    "Record the incident in the safety log and notify the safety officer",
+    "Check that training and protective equipment are adequate",
+  ],
+  compensation: [
+    "Review payroll records for the periods concerned",
+    "Confirm the pay or overtime terms in the employee's contract",
+    "Correct any shortfall and explain the outcome to the employee",
+  ],
+  management: [
+    "Meet the employee to understand the specific incidents",
+    "Speak with the manager and review expectations and conduct",
+    "Consider mediation between the employee and the manager",
+  ],
+  workload: [
+    "Review the employee's workload and hours with their manager",
+    "Agree priorities and redistribute work where needed",
+    "Point the employee to wellbeing and counselling resources",
+  ],
+  policy_violation: [
+    "Secure any relevant records or evidence",
+    "Escalate to compliance or the ethics officer",
+    "Investigate confidentially and limit knowledge to those who need it",
+  ],
+  other: [
+    "Contact the employee to clarify the concern",
+    "Decide whether the matter falls under an existing policy",
+  ],
+};
+
+const NO_ANSWER = "The policy documents do not cover this.";
+// Longest excerpt quoted from a passage
+const EXCERPT_LENGTH = 600;
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9'-]+/).filter(Boolean);
+}
+
+// Number of keyword occurrences in the text
+function countMatches(text: string, keywords: string[]): number {
+  const tokens = words(text);
+  return keywords.reduce((count, keyword) => {
+    const phrase = words(keyword);
+    if (phrase.length === 1) {
+      return count + tokens.filter(token => token.startsWith(keyword)).length;
+    }
+    return count + tokens.filter((_, start) => phrase.every((word, offset) => tokens[start + offset] === word)).length;
+  }, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// The category with the highest weighted score and how many of its keywords
+// matched; ties go to the category listed first
+function classify(text: string): { category: Category; hits: number } {
+  let best: { category: Category; hits: number; score: number } = { category: "other", hits: 0, score: 0 };
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS) as [Exclude<Category, "other">, string[]][]) {
+    const hits = countMatches(text, keywords);
+    const score = hits * CATEGORY_WEIGHTS[category];
+    if (score > best.score) best = { category, hits, score };
+  }
+  return { category: best.category, hits: best.hits };
+}
+
+function priorityOf(text: string): Priority {
+  return PRIORITY_KEYWORDS.find(([, keywords]) => countMatches(text, keywords) > 0)?.[0] ?? "low";
+}
+
+function sentimentOf(text: string): number {
+  const negative = countMatches(text, NEGATIVE_WORDS);
+  const positive = countMatches(text, POSITIVE_WORDS);
+  // Complaints lean negative even without loaded words
+  return round(Math.max(-1, Math.min(1, (positive - negative) / (positive + negative + 2) - 0.2)));
+}
+
+function summarize(title: string, description: string): string {
+  const firstSentence = description.trim().split(/(?<=[.!?])\s+/)[0] ?? "";
+  const excerpt = firstSentence.length > 280 ? `${firstSentence.slice(0, 277)}...` : firstSentence;
+  return excerpt ? `${title.trim()}: ${excerpt}` : title.trim();
+}
+
+export function analyzeComplaintByRules({ title, description }: AiTaskInputs["complaint_analysis"]): ComplaintAnalysis {
+  const text = `${title}\n${description}`;
+  const { category, hits } = classify(text);
+  return {
+    category,
+    priority: priorityOf(text),
+    summary: summarize(title, description),
+    recommendations: RECOMMENDATIONS[category],
+    sentiment: sentimentOf(text),
+    // Keyword matching is never very sure of itself
+    confidence: round(Math.min(0.7, 0.3 + hits * 0.1)),
+  };
+}
+
+export function analyzeScenarioByRules({ scenario }: AiTaskInputs["scenario_analysis"]): ScenarioAnalysis {
+  const { category } = classify(scenario);
+  const priority = priorityOf(scenario);
+  const riskLevel = priority === "urgent" || priority === "high" ? "high" : priority === "medium" ? "medium" : "low";
+  const area = category === "other" ? "a general employee relations matter" : `a ${category.replace(/_/g, " ")} matter`;
+  return {
+    response: `This scenario reads as ${area} with ${riskLevel} risk. Listen to the people involved without prejudging, ` +
+      "record what is said, apply the relevant policy consistently and keep everyone informed of next steps.",
+    recommendedActions: RECOMMENDATIONS[category],
+    riskLevel,
+  };
+}
+
+// Quotes the opening of the best passage; retrieval has already ranked them
+export function answerByRules({ passages }: AiTaskInputs["hr_chat"]): HrAnswer {
+  const [best] = passages;
+  if (!best) {
+    return { answer: NO_ANSWER, citations: [] };
+  }
+  const excerpt = best.text.trim().split(/(?<=[.!?])\s+/).slice(0, 3).join(" ");
+  const quoted = excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH - 3)}...` : excerpt;
+  const source = best.section ? `${best.document}, ${best.section}` : best.document;
+  return { answer: `${source}: ${quoted} [${best.id}]`, citations: [best.id] };
+}
+
+const HANDLERS: { [T in AiTask]: (input: AiTaskInputs[T]) => unknown } = {
+  complaint_analysis: analyzeComplaintByRules,
+  scenario_analysis: analyzeScenarioByRules,
+  hr_chat: answerByRules,
+};
+
+export const rulesProvider: AiProvider = {
+  name: "rules",
+  model: "keywords-v1",
+  async run<T extends AiTask>(task: T, input: AiTaskInputs[T]) {
+    return (HANDLERS[task] as (input: AiTaskInputs[T]) => unknown)(input);
+  },
+};
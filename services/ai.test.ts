@@ -0,0 +1,196 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { Complaint } from "@shared/schema";
+import { storage } from "../storage";
+import { analyzeComplaint, runAiTask } from "./ai";
+
+// The whole pipeline runs offline: the rules need no network and the
+// "local" provider points at a stand-in OpenAI-compatible server
+
+let server: Server;
+// What the stand-in model replies with; an Error makes it fail
+let reply: unknown;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      if (reply instanceof Error) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: reply.message } }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        id: "chatcmpl-test",
+        object: "chat.completion",
+        created: 0,
+        model: "test-model",
+        choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(reply) } }],
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  delete process.env.OPENAI_API_KEY;
+  process.env.LOCAL_AI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  process.env.LOCAL_AI_MODEL = "test-model";
+});
+
+afterEach(() => {
+  delete process.env.AI_PROVIDER_COMPLAINT_ANALYSIS;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const VALID_ANALYSIS = {
+  category: "compensation",
+  priority: "medium",
+  summary: "Overtime has not been paid",
+  recommendations: ["Review payroll records"],
+  sentiment: -0.4,
+  confidence: 0.9,
+};
+
+let sequence = 0;
+
+async function fileComplaint(overrides: Partial<Complaint> = {}): Promise<Complaint> {
+  sequence++;
+  const submitter = await storage.createUser({
+    username: `ai.user${sequence}`,
+    password: "correct horse battery staple",
+    email: `ai.user${sequence}@company.com`,
+    phone: `+1555200${String(sequence).padStart(4, "0")}`,
+    name: `Ai User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+  });
+  return storage.createComplaint({
+    title: "Unpaid overtime",
+    description: "My overtime for March was never paid.",
+    category: "compensation",
+    priority: "low",
+    submitterId: submitter.id,
+    ...overrides,
+  });
+}
+
+describe("runAiTask", () => {
+  it("answers with the rules when no provider is configured and records the run", async () => {
+    const result = await runAiTask(
+      "complaint_analysis",
+      { title: "Unpaid overtime", description: "My overtime was never paid." },
+      { entityType: "complaint", entityId: "offline-1" },
+    );
+
+    expect(result).toMatchObject({ provider: "rules", model: "keywords-v1", fallback: false });
+    expect(result.output.category).toBe("compensation");
+    const [run] = await storage.getAiRuns("complaint", "offline-1");
+    expect(run).toMatchObject({ id: result.runId, provider: "rules", status: "succeeded", latencyMs: result.latencyMs });
+  });
+
+  it("redacts personal data before the provider sees it and records only the categories", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = VALID_ANALYSIS;
+
+    const result = await runAiTask(
+      "complaint_analysis",
+      { title: "Payslip", description: "Please email me at jo.bloggs@example.com about my payslip." },
+      { entityType: "complaint", entityId: "offline-2" },
+    );
+
+    expect(result).toMatchObject({ provider: "local", model: "test-model", fallback: false, redactions: { email: 1 } });
+    expect(Object.values(result.tokens)).toContain("jo.bloggs@example.com");
+    const [run] = await storage.getAiRuns("complaint", "offline-2");
+    expect(run.redactions).toEqual({ email: 1 });
+    expect(JSON.stringify(run)).not.toContain("jo.bloggs@example.com");
+  });
+
+  it("falls back to the rules when the provider's output fails validation", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = { ...VALID_ANALYSIS, category: "parking", confidence: 3 };
+
+    const result = await runAiTask(
+      "complaint_analysis",
+      { title: "Unpaid overtime", description: "My overtime was never paid." },
+      { entityType: "complaint", entityId: "offline-3" },
+    );
+
+    expect(result).toMatchObject({ provider: "rules", fallback: true });
+    const runs = await storage.getAiRuns("complaint", "offline-3");
+    const failed = runs.find(run => run.provider === "local");
+    expect(runs.find(run => run.provider === "rules")?.status).toBe("succeeded");
+    expect(failed?.status).toBe("failed");
+    expect(failed?.error).toMatch(/^Invalid output: category .*; confidence /);
+  });
+
+  it("falls back to the rules when the provider errors", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = new Error("model not loaded");
+
+    const result = await runAiTask("complaint_analysis", { title: "Pay", description: "My salary is late." });
+
+    expect(result).toMatchObject({ provider: "rules", fallback: true });
+  });
+
+  it("throws instead of falling back when fallback is off", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = { summary: "missing everything else" };
+
+    await expect(runAiTask(
+      "complaint_analysis",
+      { title: "Pay", description: "My salary is late." },
+      undefined,
+      { fallback: false },
+    )).rejects.toThrow(/^No AI provider completed complaint_analysis: Invalid output/);
+  });
+});
+
+describe("analyzeComplaint", () => {
+  it("triages a new complaint and stores the analysis", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = VALID_ANALYSIS;
+    const complaint = await fileComplaint({ category: "other" });
+
+    const analyzed = await analyzeComplaint(complaint);
+
+    expect(analyzed).toMatchObject({
+      category: "compensation",
+      priority: "medium",
+      aiAnalysis: "Overtime has not been paid",
+      aiRecommendations: JSON.stringify(["Review payroll records"]),
+      confidenceScore: 0.9,
+    });
+  });
+
+  it("keeps the submitter's category when the analysis is unsure of its own", async () => {
+    const complaint = await fileComplaint({
+      title: "Rota",
+      description: "I was moved to nights without being asked.",
+      category: "workload",
+    });
+
+    const analyzed = await analyzeComplaint(complaint);
+
+    expect(analyzed!.confidenceScore).toBeLessThan(0.5);
+    expect(analyzed!.category).toBe("workload");
+  });
+
+  it("leaves category and priority alone on re-analysis unless asked to retriage", async () => {
+    process.env.AI_PROVIDER_COMPLAINT_ANALYSIS = "local";
+    reply = VALID_ANALYSIS;
+    const complaint = await fileComplaint({ category: "other" });
+    await analyzeComplaint(complaint);
+    // Staff correct the triage
+    const corrected = (await storage.updateComplaint(complaint.id, { category: "management", priority: "high" }))!;
+    reply = { ...VALID_ANALYSIS, summary: "Overtime from March is still unpaid" };
+
+    const reanalyzed = await analyzeComplaint(corrected);
+    const retriaged = await analyzeComplaint(reanalyzed!, { retriage: true });
+
+    expect(reanalyzed).toMatchObject({ category: "management", priority: "high", aiAnalysis: "Overtime from March is still unpaid" });
+    expect(retriaged).toMatchObject({ category: "compensation", priority: "medium" });
+  });
+});
@@ -0,0 +1,314 @@
+import type { Complaint, Scenario } from "@shared/schema";
+import {
+  aiOutputSchemas,
+  aiProviders,
+  type AiProviderName,
+  type AiTask,
+  type AiTaskInputs,
+  type AiTaskOutputs,
+  type ChatExchange,
+  type PiiCounts,
+  type PolicyCitation,
+} from "@shared/ai";
+import { z } from "zod";
+import { storage } from "../storage";
+import { ChatCompletionProvider, type AiProvider } from "./ai-providers";
+import { rulesProvider } from "./ai-rules";
+import { createPiiRedactor, restorePii, PiiStreamRestorer, type PiiRedactor } from "./pii";
+import { searchPolicies, type PolicyPassage } from "./policies";
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+// Policy passages offered to the model per question
+const MAX_PASSAGES = 4;
+// Below this the category the submitter chose is kept; the offline rules
+// reach it with two keyword matches
+const MIN_CATEGORY_CONFIDENCE = 0.5;
+const NOT_FOUND_ANSWER = "I couldn't find anything in the HR policy documents that answers this. " +
+  "Please contact HR directly, who can advise on your situation.";
+
+// AI_PROVIDER picks the provider for every task and AI_PROVIDER_<TASK>
+// (e.g. AI_PROVIDER_COMPLAINT_ANALYSIS=local) overrides it for one. Without
+// either, OpenAI is used when OPENAI_API_KEY is set and the offline rules
+// otherwise. A provider that fails or returns invalid output falls back to
+// the rules.
+function configuredProvider(task: AiTask): AiProviderName {
+  const value = process.env[`AI_PROVIDER_${task.toUpperCase()}`] || process.env.AI_PROVIDER;
+  if (value && (aiProviders as readonly string[]).includes(value)) {
+    return value as AiProviderName;
+  }
+  if (value) {
+    console.warn(`[ai] Unknown provider "${value}" for ${task}; expected one of ${aiProviders.join(", ")}`);
+  }
+  return process.env.OPENAI_API_KEY ? "openai" : "rules";
+}
+
+function createProvider(name: AiProviderName): AiProvider | null {
+  const timeoutMs = Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  switch (name) {
+    case "openai":
+      return process.env.OPENAI_API_KEY
+        ? new ChatCompletionProvider("openai", process.env.OPENAI_MODEL || "gpt-4o", { apiKey: process.env.OPENAI_API_KEY, timeoutMs })
+        : null;
+    case "local":
+      // Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1
+      return process.env.LOCAL_AI_BASE_URL
+        ? new ChatCompletionProvider("local", process.env.LOCAL_AI_MODEL || "llama3.1", {
+          apiKey: process.env.LOCAL_AI_API_KEY || "not-needed",
+          baseURL: process.env.LOCAL_AI_BASE_URL,
+          timeoutMs,
+        })
+        : null;
+    case "rules":
+      return rulesProvider;
+  }
+}
+
+const providers = new Map<AiProviderName, AiProvider | null>();
+
+function getProvider(name: AiProviderName): AiProvider | null {
+  if (!providers.has(name)) {
+    providers.set(name, createProvider(name));
+  }
+  return providers.get(name)!;
+}
+
+export interface AiResult<T extends AiTask> {
+  output: AiTaskOutputs[T];
+  provider: AiProviderName;
+  model: string;
+  latencyMs: number;
+  // Whether the configured provider failed and the rules answered instead
+  fallback: boolean;
+  runId: string;
+  // Output text may contain these placeholders for redacted personal data
+  tokens: Record<string, string>;
+  redactions: PiiCounts;
+}
+
+export interface AiSubject {
+  entityType: string;
+  entityId: string;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return `Invalid output: ${error.errors.map(issue => `${issue.path.join(".") || "output"} ${issue.message}`).join("; ")}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export interface AiTaskOptions {
+  // Whether the rules may answer when the configured provider fails
+  // (default true). The job queue turns this off until its last attempt so
+  // that a passing outage is retried rather than settled by the rules.
+  fallback?: boolean;
+  // Receives an hr_chat answer piece by piece from providers that can stream
+  // it, still with its placeholders, together with the values behind them
+  onText?: (text: string, tokens: Record<string, string>) => void;
+}
+
+// Every string in the input, including those nested in lists of passages
+function redactInput<V>(value: V, redactor: PiiRedactor): V {
+  if (typeof value === "string") return redactor.redact(value) as V;
+  if (Array.isArray(value)) return value.map(item => redactInput(item, redactor)) as V;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactInput(item, redactor)])) as V;
+  }
+  return value;
+}
+
+// Runs the task on its configured provider, falling back to the rules, and
+// records every attempt with its provider, model, latency and the categories
+// of personal data redacted from the input
+export async function runAiTask<T extends AiTask>(
+  task: T,
+  input: AiTaskInputs[T],
+  subject?: AiSubject,
+  options: AiTaskOptions = {},
+): Promise<AiResult<T>> {
+  const redactor = await createPiiRedactor();
+  const redactedInput = redactInput(input, redactor);
+  const redactions = redactor.categories;
+  const tokens = redactor.tokenMap;
+  const configured = configuredProvider(task);
+  const chain: AiProviderName[] = configured === "rules" || options.fallback === false ? [configured] : [configured, "rules"];
+
+  let lastError: unknown;
+  for (const name of chain) {
+    const provider = getProvider(name);
+    if (!provider) {
+      console.warn(`[ai] Provider "${name}" is not configured`);
+      lastError = new Error(`Provider "${name}" is not configured`);
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      const { onText } = options;
+      const raw = onText && task === "hr_chat" && provider.streamChat
+        ? await provider.streamChat(redactedInput as AiTaskInputs["hr_chat"], text => onText(text, tokens))
+        : await provider.run(task, redactedInput);
+      const output = aiOutputSchemas[task].parse(raw) as AiTaskOutputs[T];
+      const latencyMs = Date.now() - started;
+      const run = await storage.createAiRun({
+        task,
+        provider: provider.name,
+        model: provider.model,
+        entityType: subject?.entityType,
+        entityId: subject?.entityId,
+        status: "succeeded",
+        latencyMs,
+        output,
+        redactions,
+      });
+      return {
+        output,
+        provider: provider.name,
+        model: provider.model,
+        latencyMs,
+        fallback: name !== configured,
+        runId: run.id,
+        tokens,
+        redactions,
+      };
+    } catch (error) {
+      lastError = error;
+      console.error(`[ai] ${task} failed on ${name}:`, errorMessage(error));
+      await storage.createAiRun({
+        task,
+        provider: provider.name,
+        model: provider.model,
+        entityType: subject?.entityType,
+        entityId: subject?.entityId,
+        status: "failed",
+        error: errorMessage(error).slice(0, 1000),
+        latencyMs: Date.now() - started,
+        redactions,
+      });
+    }
+  }
+  throw new Error(`No AI provider completed ${task}: ${errorMessage(lastError)}`);
+}
+
+export interface ComplaintAnalysisOptions extends AiTaskOptions {
+  // Set the category and priority again on a complaint analysed before
+  retriage?: boolean;
+}
+
+// The analysis is stored with its placeholders; the values behind them are
+// kept separately and restored only for viewers allowed to see them. The
+// first analysis triages the complaint; later ones leave its category and
+// priority, which staff may have corrected since, unless asked to retriage.
+// A category the analysis is unsure of never replaces the one chosen.
+export async function analyzeComplaint(complaint: Complaint, options?: ComplaintAnalysisOptions): Promise<Complaint | undefined> {
+  const { output, tokens } = await runAiTask(
+    "complaint_analysis",
+    { title: complaint.title, description: complaint.description },
+    { entityType: "complaint", entityId: complaint.id },
+    options,
+  );
+  await storage.upsertAiPiiTokens({ entityType: "complaint", entityId: complaint.id, tokens });
+  const triage = !complaint.aiAnalysis || options?.retriage;
+  return storage.updateComplaint(complaint.id, {
+    ...(triage && {
+      category: output.confidence >= MIN_CATEGORY_CONFIDENCE ? output.category : complaint.category,
+      priority: output.priority,
+    }),
+    aiAnalysis: output.summary,
+    aiRecommendations: JSON.stringify(output.recommendations),
+    sentimentScore: output.sentiment,
+    confidenceScore: output.confidence,
+  });
+}
+
+// Scenarios are hypothetical and only seen by the HR staff who write them,
+// so the analysis is stored with the details restored
+export async function analyzeScenario(scenario: Scenario, options?: AiTaskOptions): Promise<Scenario | undefined> {
+  const { output, tokens } = await runAiTask(
+    "scenario_analysis",
+    { scenario: scenario.scenario },
+    { entityType: "scenario", entityId: scenario.id },
+    options,
+  );
+  return storage.updateScenario(scenario.id, {
+    aiResponse: restorePii(output.response, tokens),
+    recommendedActions: JSON.stringify(output.recommendedActions.map(action => restorePii(action, tokens))),
+    riskLevel: output.riskLevel,
+  });
+}
+
+export interface HrChatAnswer {
+  answer: string;
+  // False when no policy passage answered the question
+  grounded: boolean;
+  citations: PolicyCitation[];
+  // Absent when nothing relevant was found and no provider was asked
+  provider?: AiProviderName;
+  model?: string;
+  latencyMs?: number;
+}
+
+export interface HrChatOptions {
+  // Earlier exchanges in the conversation, oldest first
+  history?: ChatExchange[];
+  // Receives the answer as it is generated, from providers that can stream.
+  // The streamed text is provisional: an answer that cites nothing is
+  // replaced by the refusal once it is complete.
+  onText?: (text: string) => void;
+}
+
+// A follow-up such as "what about part-timers?" rarely matches anything on
+// its own, so it is also searched together with the previous question.
+// Passages matching the question alone rank first.
+async function findPassages(question: string, history: ChatExchange[]): Promise<PolicyPassage[]> {
+  const found = await searchPolicies(question, MAX_PASSAGES);
+  const previous = history[history.length - 1]?.question;
+  if (!previous || found.length >= MAX_PASSAGES) {
+    return found;
+  }
+  const seen = new Set(found.map(({ chunk }) => chunk.id));
+  const related = await searchPolicies(`${previous}\n${question}`, MAX_PASSAGES);
+  return [...found, ...related.filter(({ chunk }) => !seen.has(chunk.id))].slice(0, MAX_PASSAGES);
+}
+
+// Answers from the policy passages that best match the question, with
+// citations to their documents and sections. Questions the policies do not
+// cover get a fixed refusal rather than an answer from general knowledge.
+// The answer goes back to the person who asked, so their details are restored.
+export async function answerHRQuestion(question: string, options: HrChatOptions = {}): Promise<HrChatAnswer> {
+  const history = options.history ?? [];
+  const found = await findPassages(question, history);
+  if (found.length === 0) {
+    return { answer: NOT_FOUND_ANSWER, grounded: false, citations: [] };
+  }
+
+  const passages = found.map(({ chunk, document }, index) => ({
+    id: `S${index + 1}`,
+    document: document.title,
+    section: chunk.section,
+    text: chunk.content,
+  }));
+  const restorer = options.onText && new PiiStreamRestorer(options.onText);
+  const result = await runAiTask("hr_chat", { question, passages, history }, undefined, {
+    onText: restorer ? (text, tokens) => restorer.write(text, tokens) : undefined,
+  });
+  restorer?.end(result.tokens);
+  const meta = { provider: result.provider, model: result.model, latencyMs: result.latencyMs };
+
+  // Passages cited inline count even if the model left them out of the list
+  const answer = restorePii(result.output.answer, result.tokens);
+  const cited = new Set([...result.output.citations, ...Array.from(answer.matchAll(/\[(S\d+)\]/g), match => match[1])]);
+  const citations = found
+    .map(({ chunk, document }, index) => ({
+      id: `S${index + 1}`,
+      documentId: document.id,
+      title: document.title,
+      section: chunk.section,
+      excerpt: chunk.content.length > 300 ? `${chunk.content.slice(0, 297)}...` : chunk.content,
+    }))
+    .filter(citation => cited.has(citation.id));
+  if (citations.length === 0) {
+    return { answer: NOT_FOUND_ANSWER, grounded: false, citations: [], ...meta };
+  }
+  return { answer, grounded: true, citations, ...meta };
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Complaint, User } from "@shared/schema";
+import { analyticsHotspotQuerySchema, analyticsTrendQuerySchema } from "@shared/analytics";
+import { storage } from "../storage";
+import { getComplaintTrends, getRepeatIssueHotspots, refreshDailyStats } from "./analytics";
+
+// The store stamps rows with the current time, so the clock is moved to
+// file, respond to and resolve complaints on chosen days. Each test works in
+// a later month than the one before, as the rollup only moves forward.
+
+let engineer: User;
+let accountant: User;
+let manager: User;
+
+function at(time: string) {
+  vi.setSystemTime(new Date(time));
+}
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  at("2030-01-01T00:00:00Z");
+  let sequence = 0;
+  const user = (username: string, department: string, role = "employee") => storage.createUser({
+    username,
+    password: "correct horse battery staple",
+    email: `${username}@company.com`,
+    phone: `+1555110${String(++sequence).padStart(4, "0")}`,
+    name: username,
+    role,
+    department,
+  });
+  engineer = await user("analytics.engineer", "Engineering");
+  accountant = await user("analytics.accountant", "Finance");
+  manager = await user("analytics.manager", "Human Resources", "hr_manager");
+});
+
+afterEach(() => {
+  at("2030-01-01T00:00:00Z");
+});
+
+async function file(time: string, submitter: User, category: string, overrides: Partial<Complaint> = {}): Promise<Complaint> {
+  at(time);
+  return storage.createComplaint({
+    title: "Complaint",
+    description: "Details",
+    category,
+    priority: "medium",
+    submitterId: submitter.id,
+    ...overrides,
+  });
+}
+
+async function resolve(time: string, complaint: Complaint) {
+  at(time);
+  await storage.createComplaintStatusHistory({
+    complaintId: complaint.id,
+    fromStatus: "open",
+    toStatus: "resolved",
+    actorId: manager.id,
+    note: null,
+  });
+}
+
+// Reads as of the given time, with the rollup run then
+async function trendsAt(time: string, query: Record<string, string>) {
+  at(time);
+  await refreshDailyStats(new Date(time));
+  return getComplaintTrends(analyticsTrendQuerySchema.parse(query));
+}
+
+describe("complaint analytics", () => {
+  it("counts filings, first responses and resolutions on the day each happened", async () => {
+    const complaint = await file("2031-01-05T09:00:00Z", engineer, "workload");
+    await storage.updateComplaint(complaint.id, { sentimentScore: -0.5 });
+    await file("2031-01-05T10:00:00Z", accountant, "compensation");
+    at("2031-01-06T09:00:00Z");
+    await storage.createComplaintStatusHistory({ complaintId: complaint.id, fromStatus: "open", toStatus: "in_progress", actorId: manager.id, note: null });
+    await resolve("2031-01-07T09:00:00Z", complaint);
+
+    const trends = await trendsAt("2031-01-08T12:00:00Z", { from: "2031-01-05", to: "2031-01-07" });
+
+    expect(trends.series!.map(({ period, filed, resolved }) => [period, filed, resolved])).toEqual([
+      ["2031-01-05", 2, 0],
+      ["2031-01-06", 0, 0],
+      ["2031-01-07", 0, 1],
+    ]);
+    expect(trends.totals).toEqual({
+      filed: 2,
+      resolved: 1,
+      meanHoursToFirstResponse: 24,
+      meanHoursToResolution: 48,
+      meanSentiment: -0.5,
+    });
+    expect(trends.byCategory!.map(({ category, filed }) => [category, filed]).sort()).toEqual([["compensation", 1], ["workload", 1]]);
+  });
+
+  it("keeps anonymous complaints out of the department breakdown and hotspots", async () => {
+    for (const day of ["2031-02-03", "2031-02-04", "2031-02-05"]) {
+      await file(`${day}T09:00:00Z`, engineer, "harassment", { isAnonymous: true });
+    }
+    await file("2031-02-03T10:00:00Z", engineer, "harassment");
+    await file("2031-02-04T10:00:00Z", accountant, "harassment");
+
+    const trends = await trendsAt("2031-02-06T12:00:00Z", { from: "2031-02-01", to: "2031-02-06" });
+    const { hotspots } = await getRepeatIssueHotspots(analyticsHotspotQuerySchema.parse({ from: "2031-02-01", to: "2031-02-06" }));
+    const engineering = await getComplaintTrends(analyticsTrendQuerySchema.parse({ from: "2031-02-01", to: "2031-02-06", department: "Engineering" }));
+
+    const [anonymous, ...named] = trends.byDepartment!;
+    expect(anonymous).toMatchObject({ department: null, filed: 3 });
+    expect(named.map(({ department, filed }) => [department, filed]).sort()).toEqual([["Engineering", 1], ["Finance", 1]]);
+    expect(hotspots).toEqual([expect.objectContaining({ department: null, category: "harassment", filed: 3, daysWithFilings: 3, lastFiledOn: "2031-02-05" })]);
+    expect(engineering.totals!.filed).toBe(1);
+  });
+
+  it("recomputes the newest rolled-up days and leaves older ones as they were", async () => {
+    const older = await file("2031-03-02T09:00:00Z", engineer, "workload");
+    const recent = await file("2031-03-04T09:00:00Z", engineer, "workload");
+    await trendsAt("2031-03-05T12:00:00Z", { from: "2031-03-01", to: "2031-03-05" });
+
+    // Sentiment arrives after both days were rolled up; only the 4th is
+    // within the two days that every rollup recomputes
+    await storage.updateComplaint(older.id, { sentimentScore: -1 });
+    await storage.updateComplaint(recent.id, { sentimentScore: 0.5 });
+    const trends = await trendsAt("2031-03-05T12:30:00Z", { from: "2031-03-01", to: "2031-03-05" });
+
+    expect(trends.series!.filter(day => day.filed > 0).map(({ period, meanSentiment }) => [period, meanSentiment])).toEqual([
+      ["2031-03-02", null],
+      ["2031-03-04", 0.5],
+    ]);
+  });
+
+  it("buckets weeks from Monday and months from the 1st, keeping empty periods", async () => {
+    await file("2031-04-06T09:00:00Z", accountant, "safety"); // Sunday
+    await file("2031-04-07T09:00:00Z", accountant, "safety"); // Monday
+    await file("2031-04-30T09:00:00Z", accountant, "safety");
+    await file("2031-05-01T09:00:00Z", accountant, "safety");
+    const range = { from: "2031-04-01", to: "2031-05-06", category: "safety" };
+
+    const weeks = await trendsAt("2031-05-06T12:00:00Z", { ...range, interval: "week" });
+    const months = await getComplaintTrends(analyticsTrendQuerySchema.parse({ ...range, interval: "month" }));
+
+    expect(weeks.series!.map(({ period, filed }) => [period, filed])).toEqual([
+      ["2031-03-31", 1],
+      ["2031-04-07", 1],
+      ["2031-04-14", 0],
+      ["2031-04-21", 0],
+      ["2031-04-28", 2],
+      ["2031-05-05", 0],
+    ]);
+    expect(months.series!.map(({ period, filed }) => [period, filed])).toEqual([["2031-04-01", 3], ["2031-05-01", 1]]);
+  });
+
+  it("rejects reversed and overlong ranges", async () => {
+    at("2031-05-06T12:00:00Z");
+
+    expect(await getComplaintTrends({ from: "2031-05-02", to: "2031-05-01", interval: "day" }))
+      .toEqual({ error: "from must not be after to" });
+    expect(await getRepeatIssueHotspots({ from: "2020-01-01", to: "2031-05-01", minComplaints: 3, limit: 10 }))
+      .toEqual({ error: "Ranges are limited to 1830 days" });
+  });
+});
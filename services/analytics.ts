@@ -0,0 +1,370 @@
+import type { Complaint } from "@shared/schema";
+import type {
+  AnalyticsHotspotQuery,
+  AnalyticsInterval,
+  AnalyticsTrendQuery,
+  ComplaintDailyStats,
+  InsertComplaintDailyStats,
+} from "@shared/analytics";
+import { storage } from "../storage";
+import { firstResponseAt } from "./sla";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 5 * 366;
+const DEFAULT_ROLLUP_INTERVAL_MS = 15 * 60 * 1000;
+// Reads roll up recent activity first unless a rollup ran this recently
+const FRESH_FOR_MS = 60 * 1000;
+// AI sentiment can land after the filing day has been rolled up, so the
+// newest rolled-up days are always recomputed
+const RECOMPUTED_DAYS = 2;
+
+type DailyRow = Required<Omit<InsertComplaintDailyStats, "department">> & { department: string | null };
+
+// Analytics days are UTC
+export function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function startOfDay(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+export function addDays(day: string, days: number): string {
+  return dayOf(new Date(startOfDay(day).getTime() + days * DAY_MS));
+}
+
+// Recomputes the rollup rows for every day in the inclusive range from the
+// raw complaints, status history and messages
+async function computeDailyStats(fromDay: string, toDay: string) {
+  const from = startOfDay(fromDay);
+  const to = startOfDay(addDays(toDay, 1));
+  const within = (date: Date | null | undefined): date is Date => !!date && date >= from && date < to;
+
+  const [filed, history, messages, users] = await Promise.all([
+    storage.getComplaintsCreatedBetween(from, to),
+    storage.getComplaintStatusHistoryBetween(from, to),
+    storage.getComplaintMessagesBetween(from, to),
+    storage.getUsers(),
+  ]);
+  const departments = new Map(users.map(user => [user.id, user.department]));
+
+  // Complaints that may have had their first response in the range
+  const responded = new Set([
+    ...history.filter(entry => entry.fromStatus !== null).map(entry => entry.complaintId),
+    ...messages.filter(message => !message.fromReporter && message.visibility !== "internal").map(message => message.complaintId),
+  ]);
+  const resolutions = history.filter(entry => entry.toStatus === "resolved");
+
+  const complaints = new Map(filed.map(complaint => [complaint.id, complaint]));
+  for (const id of Array.from(new Set([...Array.from(responded), ...resolutions.map(entry => entry.complaintId)]))) {
+    if (complaints.has(id)) continue;
+    const complaint = await storage.getComplaint(id);
+    if (complaint) complaints.set(id, complaint);
+  }
+
+  const rows = new Map<string, DailyRow>();
+  const rowFor = (date: Date, complaint: Complaint): DailyRow => {
+    // Counting anonymous complaints by department could identify the filer
+    const department = complaint.isAnonymous ? null : departments.get(complaint.submitterId) ?? null;
+    const key = JSON.stringify([dayOf(date), department, complaint.category]);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        day: dayOf(date),
+        department,
+        category: complaint.category,
+        filed: 0,
+        resolved: 0,
+        firstResponses: 0,
+        firstResponseHours: 0,
+        resolutionHours: 0,
+        sentimentCount: 0,
+        sentimentTotal: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+  const hoursSinceFiled = (complaint: Complaint, date: Date) =>
+    (date.getTime() - complaint.createdAt!.getTime()) / HOUR_MS;
+
+  for (const complaint of Array.from(complaints.values())) {
+    if (within(complaint.createdAt)) {
+      const row = rowFor(complaint.createdAt, complaint);
+      row.filed++;
+      if (complaint.sentimentScore !== null) {
+        row.sentimentCount++;
+        row.sentimentTotal += complaint.sentimentScore;
+      }
+    }
+    if (responded.has(complaint.id)) {
+      const respondedAt = await firstResponseAt(complaint);
+      if (within(respondedAt)) {
+        const row = rowFor(respondedAt, complaint);
+        row.firstResponses++;
+        row.firstResponseHours += hoursSinceFiled(complaint, respondedAt);
+      }
+    }
+  }
+
+  for (const entry of resolutions) {
+    const complaint = complaints.get(entry.complaintId);
+    if (!complaint || !entry.createdAt) continue;
+    const row = rowFor(entry.createdAt, complaint);
+    row.resolved++;
+    row.resolutionHours += hoursSinceFiled(complaint, entry.createdAt);
+  }
+
+  return Array.from(rows.values());
+}
+
+let rollups: Promise<unknown> = Promise.resolve();
+
+// Rollups run one at a time so two never replace the same days at once
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = rollups.then(task);
+  rollups = result.catch(() => undefined);
+  return result;
+}
+
+export function rebuildDailyStats(fromDay: string, toDay: string): Promise<number> {
+  return serialized(async () => {
+    const rows = await computeDailyStats(fromDay, toDay);
+    await storage.replaceComplaintDailyStats(fromDay, toDay, rows);
+    return rows.length;
+  });
+}
+
+let lastRefreshAt = 0;
+
+// Rolls up from the newest rolled-up days through today; the first run
+// backfills from the oldest complaint
+export async function refreshDailyStats(now = new Date()) {
+  const latest = await storage.getLatestComplaintStatsDay();
+  let fromDay = latest ? addDays(latest, 1 - RECOMPUTED_DAYS) : undefined;
+  if (!fromDay) {
+    const oldest = (await storage.getComplaints()).pop();
+    fromDay = dayOf(oldest?.createdAt ?? now);
+  }
+  const today = dayOf(now);
+  await rebuildDailyStats(fromDay < today ? fromDay : today, today);
+  lastRefreshAt = now.getTime();
+}
+
+async function ensureFresh() {
+  if (Date.now() - lastRefreshAt > FRESH_FOR_MS) {
+    await refreshDailyStats();
+  }
+}
+
+export interface ComplaintMetrics {
+  filed: number;
+  resolved: number;
+  meanHoursToFirstResponse: number | null;
+  meanHoursToResolution: number | null;
+  // Mean AI sentiment score of the complaints filed
+  meanSentiment: number | null;
+}
+
+interface MetricTotals {
+  filed: number;
+  resolved: number;
+  firstResponses: number;
+  firstResponseHours: number;
+  resolutionHours: number;
+  sentimentCount: number;
+  sentimentTotal: number;
+}
+
+function emptyTotals(): MetricTotals {
+  return { filed: 0, resolved: 0, firstResponses: 0, firstResponseHours: 0, resolutionHours: 0, sentimentCount: 0, sentimentTotal: 0 };
+}
+
+function addRow(totals: MetricTotals, row: ComplaintDailyStats) {
+  totals.filed += row.filed;
+  totals.resolved += row.resolved;
+  totals.firstResponses += row.firstResponses;
+  totals.firstResponseHours += row.firstResponseHours;
+  totals.resolutionHours += row.resolutionHours;
+  totals.sentimentCount += row.sentimentCount;
+  totals.sentimentTotal += row.sentimentTotal;
+}
+
+function mean(total: number, count: number): number | null {
+  return count > 0 ? Math.round((total / count) * 100) / 100 : null;
+}
+
+function toMetrics(totals: MetricTotals): ComplaintMetrics {
+  return {
+    filed: totals.filed,
+    resolved: totals.resolved,
+    meanHoursToFirstResponse: mean(totals.firstResponseHours, totals.firstResponses),
+    meanHoursToResolution: mean(totals.resolutionHours, totals.resolved),
+    meanSentiment: mean(totals.sentimentTotal, totals.sentimentCount),
+  };
+}
+
+function groupBy(rows: ComplaintDailyStats[], key: (row: ComplaintDailyStats) => string | null) {
+  const groups = new Map<string | null, MetricTotals>();
+  for (const row of rows) {
+    const group = key(row);
+    if (!groups.has(group)) groups.set(group, emptyTotals());
+    addRow(groups.get(group)!, row);
+  }
+  return groups;
+}
+
+// First day of the week (Monday) or month containing the day
+function periodStart(day: string, interval: AnalyticsInterval): string {
+  if (interval === "month") return `${day.slice(0, 7)}-01`;
+  if (interval === "week") return addDays(day, -((startOfDay(day).getUTCDay() + 6) % 7));
+  return day;
+}
+
+interface DayRange {
+  fromDay?: string;
+  toDay?: string;
+  error?: string;
+}
+
+function resolveRange(query: { from?: string; to?: string }): DayRange {
+  const toDay = query.to ?? dayOf(new Date());
+  const fromDay = query.from ?? addDays(toDay, 1 - DEFAULT_RANGE_DAYS);
+  if (fromDay > toDay) {
+    return { error: "from must not be after to" };
+  }
+  if ((startOfDay(toDay).getTime() - startOfDay(fromDay).getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+    return { error: `Ranges are limited to ${MAX_RANGE_DAYS} days` };
+  }
+  return { fromDay, toDay };
+}
+
+async function statsInRange(query: { department?: string; category?: string }, fromDay: string, toDay: string) {
+  await ensureFresh();
+  return (await storage.getComplaintDailyStats(fromDay, toDay)).filter(row =>
+    (!query.department || row.department === query.department) &&
+    (!query.category || row.category === query.category));
+}
+
+function byFiled(a: ComplaintMetrics, b: ComplaintMetrics) {
+  return b.filed - a.filed;
+}
+
+export interface ComplaintTrends {
+  from?: string;
+  to?: string;
+  interval?: AnalyticsInterval;
+  totals?: ComplaintMetrics;
+  // One entry per period in the range, including empty ones
+  series?: (ComplaintMetrics & { period: string })[];
+  byCategory?: (ComplaintMetrics & { category: string })[];
+  // department is null for anonymous complaints and submitters without one
+  byDepartment?: (ComplaintMetrics & { department: string | null })[];
+  error?: string;
+}
+
+export async function getComplaintTrends(query: AnalyticsTrendQuery): Promise<ComplaintTrends> {
+  const { fromDay, toDay, error } = resolveRange(query);
+  if (error || !fromDay || !toDay) {
+    return { error };
+  }
+
+  const rows = await statsInRange(query, fromDay, toDay);
+  const periods = groupBy(rows, row => periodStart(row.day, query.interval));
+  const series: (ComplaintMetrics & { period: string })[] = [];
+  for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+    const period = periodStart(day, query.interval);
+    if (series[series.length - 1]?.period === period) continue;
+    series.push({ period, ...toMetrics(periods.get(period) ?? emptyTotals()) });
+  }
+
+  const totals = emptyTotals();
+  rows.forEach(row => addRow(totals, row));
+  return {
+    from: fromDay,
+    to: toDay,
+    interval: query.interval,
+    totals: toMetrics(totals),
+    series,
+    byCategory: Array.from(groupBy(rows, row => row.category))
+      .map(([category, categoryTotals]) => ({ category: category!, ...toMetrics(categoryTotals) }))
+      .sort(byFiled),
+    byDepartment: Array.from(groupBy(rows, row => row.department))
+      .map(([department, departmentTotals]) => ({ department, ...toMetrics(departmentTotals) }))
+      .sort(byFiled),
+  };
+}
+
+export interface Hotspot extends ComplaintMetrics {
+  department: string | null;
+  category: string;
+  // Days in the range on which at least one such complaint was filed
+  daysWithFilings: number;
+  lastFiledOn: string;
+}
+
+// Department/category pairs that keep producing complaints
+export async function getRepeatIssueHotspots(query: AnalyticsHotspotQuery): Promise<{ hotspots?: Hotspot[]; error?: string }> {
+  const { fromDay, toDay, error } = resolveRange(query);
+  if (error || !fromDay || !toDay) {
+    return { error };
+  }
+
+  const rows = await statsInRange(query, fromDay, toDay);
+  const pairs = new Map<string, { department: string | null; category: string; rows: ComplaintDailyStats[] }>();
+  for (const row of rows) {
+    const key = JSON.stringify([row.department, row.category]);
+    if (!pairs.has(key)) pairs.set(key, { department: row.department, category: row.category, rows: [] });
+    pairs.get(key)!.rows.push(row);
+  }
+
+  const hotspots = Array.from(pairs.values()).map(({ department, category, rows: pairRows }) => {
+    const totals = emptyTotals();
+    pairRows.forEach(row => addRow(totals, row));
+    const filingDays = pairRows.filter(row => row.filed > 0).map(row => row.day);
+    return {
+      department,
+      category,
+      ...toMetrics(totals),
+      daysWithFilings: new Set(filingDays).size,
+      lastFiledOn: filingDays.sort().pop() ?? "",
+    };
+  });
+
+  return {
+    hotspots: hotspots
+      .filter(hotspot => hotspot.filed >= query.minComplaints)
+      .sort((a, b) => b.filed - a.filed || b.daysWithFilings - a.daysWithFilings)
+      .slice(0, query.limit),
+  };
+}
+
+// Resolutions recorded so far this calendar month (UTC)
+export async function countResolvedThisMonth(now = new Date()): Promise<number> {
+  const today = dayOf(now);
+  const rows = await statsInRange({}, periodStart(today, "month"), today);
+  return rows.reduce((sum, row) => sum + row.resolved, 0);
+}
+
+export function startAnalyticsRollup(intervalMs = Number(process.env.ANALYTICS_ROLLUP_INTERVAL_MS) || DEFAULT_ROLLUP_INTERVAL_MS) {
+  let running = false;
+  const run = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await refreshDailyStats();
+    } catch (error) {
+      console.error("Analytics rollup failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+  // Backfill straight away instead of waiting for the first tick
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
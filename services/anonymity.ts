@@ -0,0 +1,116 @@
+import { createHmac, randomBytes } from "crypto";
+import type { Complaint, Meeting } from "@shared/schema";
+import type { ComplaintStatusHistory } from "@shared/workflow";
+import type { ComplaintMessage } from "@shared/messages";
+import type { ComplaintAttachment } from "@shared/attachments";
+import { hasRole } from "../auth";
+import { storage } from "../storage";
+import { restoreComplaintAnalysis } from "./pii";
+
+// Pseudonyms must be stable across restarts in production, so they are
+// keyed on a configured secret rather than derived from the complaint id alone
+const pseudonymKey = process.env.ANONYMITY_SECRET || process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+export function reporterPseudonym(complaintId: string): string {
+  const digest = createHmac("sha256", pseudonymKey).update(complaintId).digest("hex");
+  return `Reporter-${digest.slice(0, 6).toUpperCase()}`;
+}
+
+// Only the submitter and a designated ethics officer may see who filed an
+// anonymous complaint
+export function canSeeReporter(complaint: Complaint, viewer: Express.User): boolean {
+  return !complaint.isAnonymous ||
+    complaint.submitterId === viewer.id ||
+    hasRole(viewer, "ethics_officer");
+}
+
+export type RedactedComplaint = Omit<Complaint, "submitterId"> & {
+  submitterId: string | null;
+  submitterPseudonym?: string;
+};
+
+// Also restores the personal details behind the AI analysis's placeholders
+// for viewers allowed to see them
+export async function redactComplaint(complaint: Complaint, viewer: Express.User): Promise<RedactedComplaint> {
+  const restored = await restoreComplaintAnalysis(complaint, viewer);
+  if (canSeeReporter(complaint, viewer)) {
+    return restored;
+  }
+  return {
+    ...restored,
+    submitterId: null,
+    submitterPseudonym: reporterPseudonym(complaint.id),
+  };
+}
+
+// The copy of a new complaint kept in the audit log. The filer is the only
+// viewer at that point, so an anonymous reporter is replaced here rather
+// than by redactComplaint.
+export function auditedComplaint(complaint: Complaint): Complaint | RedactedComplaint {
+  if (!complaint.isAnonymous) {
+    return complaint;
+  }
+  return { ...complaint, submitterId: null, submitterPseudonym: reporterPseudonym(complaint.id) };
+}
+
+export function redactStatusHistory(
+  entries: ComplaintStatusHistory[],
+  complaint: Complaint,
+  viewer: Express.User,
+) {
+  if (canSeeReporter(complaint, viewer)) {
+    return entries;
+  }
+  const pseudonym = reporterPseudonym(complaint.id);
+  return entries.map(entry => entry.actorId === complaint.submitterId
+    ? { ...entry, actorId: null, actorPseudonym: pseudonym }
+    : entry);
+}
+
+export function redactMessage(message: ComplaintMessage, complaint: Complaint, viewer: Express.User) {
+  if (!message.fromReporter || canSeeReporter(complaint, viewer)) {
+    return message;
+  }
+  return { ...message, authorId: null, authorPseudonym: reporterPseudonym(complaint.id) };
+}
+
+export function redactAttachment(attachment: ComplaintAttachment, complaint: Complaint, viewer: Express.User) {
+  // Storage keys are internal and never leave the server
+  const { storageKey: _, ...metadata } = attachment;
+  if (attachment.uploaderId !== complaint.submitterId || canSeeReporter(complaint, viewer)) {
+    return metadata;
+  }
+  return { ...metadata, uploaderId: null, uploaderPseudonym: reporterPseudonym(complaint.id) };
+}
+
+// Meetings linked to an anonymous complaint would otherwise reveal the
+// reporter through the organizer or attendee list
+export async function redactMeeting(meeting: Meeting, viewer: Express.User): Promise<Meeting> {
+  if (!meeting.relatedComplaintId) {
+    return meeting;
+  }
+  const complaint = await storage.getComplaint(meeting.relatedComplaintId);
+  if (!complaint || canSeeReporter(complaint, viewer)) {
+    return meeting;
+  }
+  const pseudonym = reporterPseudonym(complaint.id);
+  const mask = (userId: string) => userId === complaint.submitterId ? pseudonym : userId;
+  return {
+    ...meeting,
+    organizerId: mask(meeting.organizerId),
+    attendeeIds: meeting.attendeeIds?.map(mask) ?? null,
+  };
+}
+
+export function redactMeetings(meetings: Meeting[], viewer: Express.User): Promise<Meeting[]> {
+  return Promise.all(meetings.map(meeting => redactMeeting(meeting, viewer)));
+}
+
+// How the reporter is named to staff in notifications and message labels
+export async function reporterLabel(complaint: Complaint): Promise<string> {
+  if (complaint.isAnonymous) {
+    return reporterPseudonym(complaint.id);
+  }
+  const submitter = await storage.getUser(complaint.submitterId);
+  return submitter?.name ?? "The employee";
+}
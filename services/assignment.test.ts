@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { InsertUser, User } from "@shared/schema";
+import { storage } from "../storage";
+import { assignComplaintTo, autoAssignComplaint, rankAssignees } from "./assignment";
+
+let sequence = 0;
+
+async function createUser(overrides: Partial<InsertUser>): Promise<User> {
+  sequence++;
+  return storage.createUser({
+    username: `assign.user${sequence}`,
+    password: "correct horse battery staple",
+    email: `assign.user${sequence}@company.com`,
+    phone: `+1555500${String(sequence).padStart(4, "0")}`,
+    name: `Assign User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+    ...overrides,
+  });
+}
+
+async function fileComplaint(submitter: User, category = "compensation") {
+  return storage.createComplaint({
+    title: "Unpaid overtime",
+    description: "My overtime for March was never paid.",
+    category,
+    priority: "low",
+    submitterId: submitter.id,
+  });
+}
+
+describe("assignComplaintTo", () => {
+  it("assigns to HR managers and counselors", async () => {
+    const manager = await createUser({ role: "hr_manager", department: "Human Resources" });
+    const counselor = await createUser({ role: "counselor", department: "Human Resources" });
+    const complaint = await fileComplaint(await createUser({}));
+
+    const result = await assignComplaintTo(complaint, counselor.id, manager);
+
+    expect(result.error).toBeUndefined();
+    expect(result.complaint?.assignedTo).toBe(counselor.id);
+    expect((await storage.getComplaintAssignments(complaint.id)).at(-1)).toMatchObject({ method: "manual", assignedBy: manager.id });
+  });
+
+  it("refuses roles without a caseload, as automatic assignment does", async () => {
+    const manager = await createUser({ role: "hr_manager", department: "Human Resources" });
+    const ethicsOfficer = await createUser({ role: "ethics_officer", department: "Compliance" });
+    const employee = await createUser({});
+    const complaint = await fileComplaint(await createUser({}));
+
+    expect(await assignComplaintTo(complaint, ethicsOfficer.id, manager)).toEqual({ error: expect.any(String) });
+    expect(await assignComplaintTo(complaint, employee.id, manager)).toEqual({ error: expect.any(String) });
+    expect((await rankAssignees(complaint)).map(candidate => candidate.userId)).not.toContain(ethicsOfficer.id);
+    expect((await storage.getComplaint(complaint.id))?.assignedTo).toBeNull();
+  });
+
+  it("gives the same answer for the submitter as for any other ineligible choice", async () => {
+    const manager = await createUser({ role: "hr_manager", department: "Human Resources" });
+    const reportingCounselor = await createUser({ role: "counselor", department: "Human Resources" });
+    const ethicsOfficer = await createUser({ role: "ethics_officer", department: "Compliance" });
+    const complaint = await fileComplaint(reportingCounselor);
+
+    const own = await assignComplaintTo(complaint, reportingCounselor.id, manager);
+    const wrongRole = await assignComplaintTo(complaint, ethicsOfficer.id, manager);
+
+    expect(own.error).toBeDefined();
+    expect(own).toEqual(wrongRole);
+  });
+});
+
+describe("autoAssignComplaint", () => {
+  it("prefers expertise in the category and skips the accused department", async () => {
+    const expert = await createUser({ role: "counselor", department: "Human Resources" });
+    const accused = await createUser({ role: "counselor", department: "Warehouse" });
+    await storage.upsertStaffProfile({ userId: expert.id, expertise: ["workplace_safety"] });
+    await storage.upsertStaffProfile({ userId: accused.id, expertise: ["workplace_safety"] });
+    const complaint = await fileComplaint(await createUser({}), "workplace_safety");
+
+    const assigned = await autoAssignComplaint(complaint, "Warehouse");
+
+    expect(assigned.assignedTo).toBe(expert.id);
+  });
+});
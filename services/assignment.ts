@@ -0,0 +1,187 @@
+import type { Complaint, User } from "@shared/schema";
+import type { StaffProfile } from "@shared/staffing";
+import { CASEWORKER_ROLES, type UserRole } from "../auth";
+import { storage } from "../storage";
+import { isActiveStatus } from "./complaint-workflow";
+import { createNotification } from "./notifications";
+
+const DEFAULT_MAX_CASELOAD = 15;
+// Every rejected manual assignment gets the same message. A specific reason
+// such as "their own complaint" would let whoever tries each staff member in
+// turn identify an anonymous reporter.
+const INELIGIBLE_ASSIGNEE = "This staff member is not eligible for this complaint";
+const EXPERTISE_WEIGHT = 10;
+const LOAD_WEIGHT = 10;
+
+export interface StaffWorkload {
+  userId: string;
+  name: string;
+  role: string;
+  department: string | null;
+  expertise: string[];
+  maxCaseload: number;
+  openCases: number;
+  available: boolean;
+}
+
+export interface AssignmentCandidate extends StaffWorkload {
+  score: number;
+  reasons: string[];
+}
+
+function isSameDepartment(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function isAvailable(profile: StaffProfile | undefined, now: Date): boolean {
+  if (!profile) return true;
+  if (profile.unavailableUntil && new Date(profile.unavailableUntil) > now) return false;
+  return profile.isAvailable;
+}
+
+export async function getStaffWorkloads(now = new Date()): Promise<StaffWorkload[]> {
+  const [users, profiles, complaints] = await Promise.all([
+    storage.getUsers(),
+    storage.getStaffProfiles(),
+    storage.getComplaints(),
+  ]);
+  const profileByUser = new Map(profiles.map(profile => [profile.userId, profile]));
+
+  return users
+    .filter(user => user.isActive && CASEWORKER_ROLES.includes(user.role as UserRole))
+    .map(user => {
+      const profile = profileByUser.get(user.id);
+      return {
+        userId: user.id,
+        name: user.name,
+        role: user.role,
+        department: user.department,
+        expertise: profile?.expertise ?? [],
+        maxCaseload: profile?.maxCaseload ?? DEFAULT_MAX_CASELOAD,
+        openCases: complaints.filter(c => c.assignedTo === user.id && isActiveStatus(c.status)).length,
+        available: isAvailable(profile, now),
+      };
+    });
+}
+
+// Staff may not handle their own complaint or one against their department
+export function isEligibleAssignee(
+  complaint: Complaint,
+  staff: Pick<User, "id" | "department">,
+  accusedDepartment?: string | null,
+): boolean {
+  return staff.id !== complaint.submitterId && !isSameDepartment(staff.department, accusedDepartment);
+}
+
+// Eligible staff, best first: expertise in the category, then lightest relative load
+export async function rankAssignees(
+  complaint: Complaint,
+  accusedDepartment?: string | null,
+  options: { roles?: UserRole[]; excludeUserIds?: string[]; ignoreCapacity?: boolean } = {},
+): Promise<AssignmentCandidate[]> {
+  const roles = options.roles ?? CASEWORKER_ROLES;
+  const workloads = await getStaffWorkloads();
+
+  const candidates: AssignmentCandidate[] = [];
+  for (const staff of workloads) {
+    if (!roles.includes(staff.role as UserRole)) continue;
+    if (options.excludeUserIds?.includes(staff.userId)) continue;
+    if (!isEligibleAssignee(complaint, { id: staff.userId, department: staff.department }, accusedDepartment)) continue;
+    if (!staff.available) continue;
+    if (!options.ignoreCapacity && staff.openCases >= staff.maxCaseload) continue;
+
+    const reasons: string[] = [];
+    let score = 0;
+    if (staff.expertise.includes(complaint.category)) {
+      score += EXPERTISE_WEIGHT;
+      reasons.push(`expertise in ${complaint.category}`);
+    }
+    const load = staff.maxCaseload > 0 ? staff.openCases / staff.maxCaseload : 1;
+    score -= load * LOAD_WEIGHT;
+    reasons.push(`${staff.openCases}/${staff.maxCaseload} open cases`);
+
+    candidates.push({ ...staff, score, reasons });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score || a.openCases - b.openCases);
+}
+
+async function notifyAssignee(complaint: Complaint, assigneeId: string) {
+  await createNotification({
+    userId: assigneeId,
+    title: "Complaint assigned to you",
+    message: `You have been assigned "${complaint.title}"`,
+    type: "complaint_assigned",
+    relatedEntityId: complaint.id,
+    relatedEntityType: "complaint",
+  });
+}
+
+// The accused department recorded with the most recent assignment, if any
+export async function getAccusedDepartment(complaintId: string): Promise<string | null> {
+  const assignments = await storage.getComplaintAssignments(complaintId);
+  return assignments.filter(assignment => assignment.accusedDepartment).pop()?.accusedDepartment ?? null;
+}
+
+// Picks and applies the best assignee. Leaves the complaint unassigned when
+// nobody is eligible, so an HR manager can route it by hand.
+export async function autoAssignComplaint(
+  complaint: Complaint,
+  accusedDepartment?: string | null,
+): Promise<Complaint> {
+  const [best] = await rankAssignees(complaint, accusedDepartment);
+
+  await storage.createComplaintAssignment({
+    complaintId: complaint.id,
+    assigneeId: best?.userId ?? null,
+    method: "automatic",
+    assignedBy: null,
+    accusedDepartment: accusedDepartment ?? null,
+    reason: best ? best.reasons.join("; ") : "No eligible staff available",
+  });
+  if (!best) {
+    return complaint;
+  }
+
+  const updated = await storage.updateComplaint(complaint.id, { assignedTo: best.userId });
+  await notifyAssignee(complaint, best.userId);
+  return updated ?? complaint;
+}
+
+// Manual override by an HR manager. Returns an error message when the
+// chosen person cannot take the case; like automatic assignment, only roles
+// that carry a caseload can own one.
+export async function assignComplaintTo(
+  complaint: Complaint,
+  assigneeId: string | null,
+  actor: Express.User,
+  reason?: string,
+): Promise<{ complaint?: Complaint; error?: string }> {
+  const accusedDepartment = await getAccusedDepartment(complaint.id);
+
+  if (assigneeId) {
+    const assignee = await storage.getUser(assigneeId);
+    if (
+      !assignee ||
+      !assignee.isActive ||
+      !CASEWORKER_ROLES.includes(assignee.role as UserRole) ||
+      !isEligibleAssignee(complaint, assignee, accusedDepartment)
+    ) {
+      return { error: INELIGIBLE_ASSIGNEE };
+    }
+  }
+
+  const updated = await storage.updateComplaint(complaint.id, { assignedTo: assigneeId });
+  await storage.createComplaintAssignment({
+    complaintId: complaint.id,
+    assigneeId,
+    method: "manual",
+    assignedBy: actor.id,
+    accusedDepartment,
+    reason: reason ?? null,
+  });
+  if (assigneeId && assigneeId !== complaint.assignedTo) {
+    await notifyAssignee(complaint, assigneeId);
+  }
+  return { complaint: updated };
+}
@@ -0,0 +1,82 @@
+import { createHash, randomUUID } from "crypto";
+import path from "path";
+import type { Complaint } from "@shared/schema";
+import type { ComplaintAttachment } from "@shared/attachments";
+import { storage } from "../storage";
+import { fileStore } from "./file-storage";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+// Accepted evidence types, with the leading bytes binary formats must start with
+const ALLOWED_TYPES: Record<string, Buffer[] | null> = {
+  "image/png": [Buffer.from([0x89, 0x50, 0x4e, 0x47])],
+  "image/jpeg": [Buffer.from([0xff, 0xd8, 0xff])],
+  "image/gif": [Buffer.from("GIF87a"), Buffer.from("GIF89a")],
+  "image/webp": [Buffer.from("RIFF")],
+  "application/pdf": [Buffer.from("%PDF")],
+  "text/plain": null,
+  "message/rfc822": null,
+};
+
+export function isAllowedMimeType(mimeType: string): boolean {
+  return mimeType in ALLOWED_TYPES;
+}
+
+// Rejects files whose content does not match the declared type
+export function matchesSignature(mimeType: string, data: Buffer): boolean {
+  const signatures = ALLOWED_TYPES[mimeType];
+  if (signatures === undefined) return false;
+  if (signatures === null) return true;
+  return signatures.some(signature => data.subarray(0, signature.length).equals(signature));
+}
+
+export function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function canUploadEvidence(complaint: Complaint, user: Express.User): boolean {
+  return complaint.submitterId === user.id || complaint.assignedTo === user.id;
+}
+
+// Evidence bytes are only released to the submitter and the assigned HR staff member
+export function canDownloadEvidence(complaint: Complaint, user: Express.User): boolean {
+  return canUploadEvidence(complaint, user);
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export async function storeAttachment(
+  complaint: Complaint,
+  uploader: Express.User,
+  file: UploadedFile,
+): Promise<ComplaintAttachment> {
+  const id = randomUUID();
+  const storageKey = path.posix.join("complaints", complaint.id, id);
+  await fileStore.save(storageKey, file.buffer);
+
+  return storage.createComplaintAttachment({
+    complaintId: complaint.id,
+    uploaderId: uploader.id,
+    fileName: path.basename(file.originalname),
+    mimeType: file.mimetype,
+    size: file.size,
+    checksum: sha256(file.buffer),
+    storageKey,
+  });
+}
+
+// Reads the stored bytes back, refusing to serve them if they no longer
+// match the checksum recorded at upload
+export async function readAttachment(attachment: ComplaintAttachment): Promise<Buffer> {
+  const data = await fileStore.read(attachment.storageKey);
+  if (sha256(data) !== attachment.checksum) {
+    throw new Error(`Checksum mismatch for attachment ${attachment.id}`);
+  }
+  return data;
+}
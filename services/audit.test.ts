@@ -0,0 +1,124 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuditEntry, AuditQuery } from "@shared/audit";
+import type { IStorage } from "../storage";
+import { testBackends } from "../test-storage";
+import { computeAuditHash, recordAudit, verifyAuditChain } from "./audit";
+
+// The audit service works on the storage singleton; these tests point it at
+// each backend in turn, and can change what the log reads back as an attacker
+// with database access would
+const store = vi.hoisted(() => ({
+  current: undefined as unknown as IStorage,
+  readBack: undefined as ((entries: AuditEntry[]) => AuditEntry[]) | undefined,
+}));
+
+vi.mock("../storage", async importOriginal => ({
+  ...await importOriginal<typeof import("../storage")>(),
+  storage: new Proxy({}, {
+    get(_target, key: keyof IStorage) {
+      if (key === "getAuditEntries" && store.readBack) {
+        return async (query: AuditQuery) => store.readBack!(await store.current.getAuditEntries(query));
+      }
+      const value = store.current[key];
+      return typeof value === "function" ? value.bind(store.current) : value;
+    },
+  }),
+}));
+
+function record(action: string) {
+  return recordAudit({ action, entityType: "complaint", entityId: "c1", metadata: { method: "GET", path: "/api/complaints/c1", statusCode: 200 } });
+}
+
+describe.each(testBackends)("audit chain on %s", (_name, makeBackend) => {
+  const backend = makeBackend();
+
+  beforeEach(async () => {
+    store.current = await backend.create();
+    store.readBack = undefined;
+  }, 60_000);
+
+  afterAll(async () => {
+    await backend.close?.();
+  });
+
+  it("links each entry to the one before and verifies as stored", async () => {
+    const first = await record("complaint.view");
+    const second = await recordAudit({
+      actorId: null,
+      action: "complaint.update",
+      entityType: "complaint",
+      entityId: "c1",
+      // Key order changes through jsonb must not break the hash
+      changes: { status: { from: "open", to: "in_progress" }, assignedTo: { from: null, to: "u1" } },
+      metadata: { method: "PATCH", path: "/api/complaints/c1", statusCode: 200, params: { id: "c1" } },
+    });
+
+    expect(second).toMatchObject({ sequence: 2, prevHash: first.hash });
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 2, headHash: second.hash });
+  });
+
+  it("detects an entry whose contents were changed", async () => {
+    for (const action of ["a", "b", "c"]) await record(action);
+    store.readBack = entries => entries.map(entry => entry.sequence === 2 ? { ...entry, entityId: "c2" } : entry);
+
+    expect(await verifyAuditChain()).toMatchObject({ valid: false, checked: 1, brokenAt: 2, reason: "Entry contents do not match its hash" });
+  });
+
+  it("detects a deleted entry", async () => {
+    for (const action of ["a", "b", "c"]) await record(action);
+    store.readBack = entries => entries.filter(entry => entry.sequence !== 2);
+
+    expect(await verifyAuditChain()).toMatchObject({ valid: false, checked: 1, brokenAt: 3, reason: "Entry 2 is missing" });
+  });
+
+  it("detects a deleted entry even when the later ones are renumbered", async () => {
+    for (const action of ["a", "b", "c"]) await record(action);
+    store.readBack = entries => entries
+      .filter(entry => entry.sequence !== 2)
+      .map(entry => entry.sequence === 3 ? { ...entry, sequence: 2 } : entry);
+
+    expect(await verifyAuditChain()).toMatchObject({ valid: false, brokenAt: 2, reason: "Previous hash does not match" });
+  });
+
+  it("detects reordered entries", async () => {
+    for (const action of ["a", "b", "c"]) await record(action);
+    store.readBack = ([first, second, third]) => [first, { ...third, sequence: 2 }, { ...second, sequence: 3 }];
+
+    expect(await verifyAuditChain()).toMatchObject({ valid: false, checked: 1, brokenAt: 2, reason: "Previous hash does not match" });
+  });
+
+  it("keeps the chain whole under concurrent appends", async () => {
+    const entries = await Promise.all(Array.from({ length: 20 }, (_, index) => record(`action ${index}`)));
+
+    expect(entries.map(entry => entry.sequence).sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, index) => index + 1));
+    expect(await verifyAuditChain()).toMatchObject({ valid: true, checked: 20 });
+  });
+
+  it("chains onto an entry another process appended first", async () => {
+    await record("a");
+    const storage = store.current;
+    const getLatest = storage.getLatestAuditEntry.bind(storage);
+    let raced = false;
+    // The other process appends between this one reading the head and writing
+    vi.spyOn(storage, "getLatestAuditEntry").mockImplementation(async () => {
+      const latest = await getLatest();
+      if (!raced) {
+        raced = true;
+        const entry = {
+          action: "other process",
+          metadata: { method: "POST", path: "/api/meetings", statusCode: 201 },
+          sequence: latest!.sequence + 1,
+          prevHash: latest!.hash,
+          createdAt: new Date(),
+        };
+        await storage.appendAuditEntry({ ...entry, hash: computeAuditHash(entry) });
+      }
+      return latest;
+    });
+
+    const appended = await record("b");
+
+    expect(appended.sequence).toBe(3);
+    expect(await verifyAuditChain()).toMatchObject({ valid: true, checked: 3 });
+  });
+});
@@ -0,0 +1,192 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { AuditChanges, AuditEntry, AuditMetadata, AuditQuery, InsertAuditEntry } from "@shared/audit";
+import { storage } from "../storage";
+import { csvRow } from "./csv";
+
+// prevHash of the first entry
+const GENESIS_HASH = "0".repeat(64);
+const MAX_APPEND_ATTEMPTS = 3;
+const PAGE_SIZE = 500;
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+// Values of these fields are never copied into the log
+const SENSITIVE_FIELD = /password|token|secret/i;
+const REDACTED = "[redacted]";
+
+// What a route touched. Routes attach it with auditEntity(); auditTrail
+// writes it together with the request metadata once the response is sent.
+export interface AuditAnnotation {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+export function auditEntity(res: Response, annotation: AuditAnnotation) {
+  res.locals.audit = annotation;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, canonicalize(record[key])]));
+  }
+  return value;
+}
+
+// JSON with sorted keys, so a value hashes the same after a round trip
+// through jsonb (which reorders keys)
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(canonicalize(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+function toPlain(value: object | null | undefined): Record<string, unknown> {
+  return value ? JSON.parse(JSON.stringify(value)) : {};
+}
+
+// Field-level before/after of two versions of a record; null when nothing changed
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges | null {
+  const from = toPlain(before);
+  const to = toPlain(after);
+  const changes: AuditChanges = {};
+  for (const key of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+    if (canonicalJson(from[key]) === canonicalJson(to[key])) continue;
+    changes[key] = SENSITIVE_FIELD.test(key)
+      ? { from: key in from ? REDACTED : null, to: key in to ? REDACTED : null }
+      : { from: from[key] ?? null, to: to[key] ?? null };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+export function computeAuditHash(entry: Omit<InsertAuditEntry, "hash">): string {
+  return createHash("sha256").update(canonicalJson({
+    sequence: entry.sequence,
+    createdAt: new Date(entry.createdAt!).toISOString(),
+    actorId: entry.actorId ?? null,
+    actorRole: entry.actorRole ?? null,
+    action: entry.action,
+    entityType: entry.entityType ?? null,
+    entityId: entry.entityId ?? null,
+    changes: entry.changes ?? null,
+    metadata: entry.metadata,
+    prevHash: entry.prevHash,
+  })).digest("hex");
+}
+
+type AuditRecord = Omit<InsertAuditEntry, "sequence" | "prevHash" | "hash" | "createdAt">;
+
+async function appendEntry(record: AuditRecord): Promise<AuditEntry> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await storage.getLatestAuditEntry();
+    const entry = {
+      ...record,
+      sequence: (latest?.sequence ?? 0) + 1,
+      prevHash: latest?.hash ?? GENESIS_HASH,
+      createdAt: new Date(),
+    };
+    try {
+      return await storage.appendAuditEntry({ ...entry, hash: computeAuditHash(entry) });
+    } catch (error) {
+      // Another server process took this sequence number; chain onto its entry
+      if (attempt >= MAX_APPEND_ATTEMPTS) throw error;
+    }
+  }
+}
+
+let appending: Promise<unknown> = Promise.resolve();
+
+// Appends are serialized so each entry links to the one before it
+export function recordAudit(record: AuditRecord): Promise<AuditEntry> {
+  const appended = appending.then(() => appendEntry(record));
+  appending = appended.catch(() => undefined);
+  return appended;
+}
+
+// Logs every mutating API request, and any read a route annotated with
+// auditEntity(). Must run after passport so the actor is known.
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api/")) return next();
+  // Captured now because logout clears req.user before the response ends
+  const actor = req.user;
+
+  res.on("finish", () => {
+    const annotation = res.locals.audit as AuditAnnotation | undefined;
+    if (!annotation && !MUTATING_METHODS.has(req.method)) return;
+
+    const user = req.user ?? actor;
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.path;
+    const metadata: AuditMetadata = {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      statusCode: res.statusCode,
+      params: Object.keys(req.params ?? {}).length > 0 ? { ...req.params } : undefined,
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    };
+    recordAudit({
+      actorId: user?.id ?? null,
+      actorRole: user?.role ?? null,
+      action: annotation?.action ?? `${req.method} ${route}`,
+      entityType: annotation?.entityType ?? null,
+      entityId: annotation?.entityId ?? null,
+      changes: annotation ? diffRecords(annotation.before, annotation.after) : null,
+      metadata: toPlain(metadata) as unknown as AuditMetadata,
+    }).catch(error => console.error("Failed to write audit entry:", error));
+  });
+  next();
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // Hash of the newest entry; keep a copy elsewhere to detect truncation
+  headHash: string;
+  brokenAt?: number;
+  reason?: string;
+}
+
+// Walks the whole chain, recomputing every hash
+export async function verifyAuditChain(): Promise<AuditVerification> {
+  let prevHash = GENESIS_HASH;
+  let checked = 0;
+  let after: number | undefined;
+
+  for (;;) {
+    const page = await storage.getAuditEntries({ after, limit: PAGE_SIZE });
+    for (const entry of page) {
+      const broken = (reason: string) => ({ valid: false, checked, headHash: prevHash, brokenAt: entry.sequence, reason });
+      if (entry.sequence !== checked + 1) return broken(`Entry ${checked + 1} is missing`);
+      if (entry.prevHash !== prevHash) return broken("Previous hash does not match");
+      if (computeAuditHash(entry) !== entry.hash) return broken("Entry contents do not match its hash");
+      prevHash = entry.hash;
+      checked++;
+    }
+    if (page.length < PAGE_SIZE) return { valid: true, checked, headHash: prevHash };
+    after = page[page.length - 1].sequence;
+  }
+}
+
+export async function* auditEntriesMatching(query: Omit<AuditQuery, "after" | "limit">): AsyncGenerator<AuditEntry> {
+  let after: number | undefined;
+  for (;;) {
+    const page = await storage.getAuditEntries({ ...query, after, limit: PAGE_SIZE });
+    yield* page;
+    if (page.length < PAGE_SIZE) return;
+    after = page[page.length - 1].sequence;
+  }
+}
+
+const CSV_COLUMNS = [
+  "sequence", "createdAt", "actorId", "actorRole", "action", "entityType", "entityId",
+  "changes", "metadata", "prevHash", "hash",
+] as const;
+
+export function auditCsvHeader(): string {
+  return csvRow([...CSV_COLUMNS]);
+}
+
+export function auditCsvRow(entry: AuditEntry): string {
+  return csvRow(CSV_COLUMNS.map(column => entry[column]));
+}
@@ -0,0 +1,412 @@
+import type { Meeting, User } from "@shared/schema";
+import { isValidTimezone, type MeetingCalendarEntry, type MeetingRsvp } from "@shared/meetings";
+import { formatRecurrenceRule, parseRecurrenceRule } from "@shared/recurrence";
+import { storage } from "../storage";
+import { redactMeeting } from "./anonymity";
+import { getNotifier } from "./notifier";
+import { generateResetToken, hashResetToken } from "./password";
+import { DEFAULT_WORKING_HOURS, meetingEnd } from "./scheduling";
+import { expandRecurrence, getMeetingSeries } from "./recurrence";
+import {
+  buildVTimezone,
+  dateTimeProperty,
+  escapeText,
+  formatUtc,
+  getProperties,
+  getProperty,
+  isUtc,
+  parseCalendar,
+  parseDateTime,
+  parseDuration,
+  serializeCalendar,
+  unescapeText,
+  type ICalComponent,
+} from "./icalendar";
+
+const PRODUCT_ID = "-//HR Brain//Meetings//EN";
+const UID_DOMAIN = process.env.CALENDAR_UID_DOMAIN || "hrbrain.local";
+const DEFAULT_IMPORT_DURATION_MINUTES = 30;
+// How far ahead timezone rules are written out for open-ended series
+const SERIES_TIMEZONE_YEARS = 5;
+
+// PUBLISH for downloads, REQUEST for invites, CANCEL to withdraw them.
+// Subscription feeds carry no method.
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+// The meeting's calendar identity, created on first use for meetings booked here
+export async function getCalendarEntry(meeting: Meeting, timezone?: string): Promise<MeetingCalendarEntry> {
+  const existing = await storage.getMeetingCalendarEntry(meeting.id);
+  if (existing && !timezone) {
+    return existing;
+  }
+  return storage.upsertMeetingCalendarEntry({
+    meetingId: meeting.id,
+    uid: existing?.uid ?? `${meeting.id}@${UID_DOMAIN}`,
+    sequence: existing?.sequence ?? 0,
+    timezone: timezone ?? existing?.timezone ?? DEFAULT_WORKING_HOURS.timezone,
+    source: existing?.source ?? "internal",
+  });
+}
+
+// Attendees only replace their copy of an event when SEQUENCE goes up, so
+// call this on every reschedule or cancellation
+export async function bumpCalendarSequence(meeting: Meeting): Promise<MeetingCalendarEntry> {
+  const entry = await getCalendarEntry(meeting);
+  return storage.upsertMeetingCalendarEntry({
+    meetingId: entry.meetingId,
+    uid: entry.uid,
+    sequence: entry.sequence + 1,
+    timezone: entry.timezone,
+    source: entry.source,
+  });
+}
+
+function calendarAddress(name: string, email: string | null): string {
+  const address = email ? `mailto:${email}` : "invalid:nomail";
+  return `CN="${name.replace(/"/g, "'")}":${address}`;
+}
+
+function participantAddress(userId: string, users: Map<string, User>): string {
+  const user = users.get(userId);
+  // Redacted reporters appear under their pseudonym with no address
+  return user ? calendarAddress(user.name, user.email) : calendarAddress(userId, null);
+}
+
+const PARTICIPATION_STATUS: Record<string, string> = {
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+};
+
+interface EventRecurrence {
+  rrule: string;
+  // Occurrences that were cancelled or detached into their own meeting
+  exdates: Date[];
+  lastStart: Date;
+}
+
+interface CalendarEvent {
+  // As the viewer may see it
+  meeting: Meeting;
+  attendeeIds: string[];
+  entry: MeetingCalendarEntry;
+  rsvps: MeetingRsvp[];
+  recurrence?: EventRecurrence;
+}
+
+async function eventRecurrence(meeting: Meeting): Promise<EventRecurrence | undefined> {
+  const series = await getMeetingSeries(meeting);
+  if (!series) return undefined;
+  const start = new Date(meeting.scheduledDate);
+  const horizon = new Date(start);
+  horizon.setUTCFullYear(horizon.getUTCFullYear() + SERIES_TIMEZONE_YEARS);
+  const starts = expandRecurrence(series.rule, start, series.timezone, start, horizon);
+  const exceptions = await storage.getMeetingExceptions(meeting.id);
+  return {
+    rrule: series.rrule,
+    exdates: exceptions.map(exception => new Date(exception.originalStart)),
+    lastStart: starts[starts.length - 1] ?? start,
+  };
+}
+
+function eventLines(
+  { meeting, attendeeIds, entry, rsvps, recurrence }: CalendarEvent,
+  users: Map<string, User>,
+  method?: CalendarMethod,
+): string[] {
+  const cancelled = method === "CANCEL" || meeting.status === "cancelled";
+  const start = new Date(meeting.scheduledDate);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}`,
+    `SEQUENCE:${entry.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    dateTimeProperty("DTSTART", start, entry.timezone),
+    dateTimeProperty("DTEND", meetingEnd(meeting), entry.timezone),
+    `SUMMARY:${escapeText(meeting.title)}`,
+  ];
+  if (recurrence) {
+    lines.push(`RRULE:${recurrence.rrule}`);
+    for (const exdate of recurrence.exdates) {
+      lines.push(dateTimeProperty("EXDATE", exdate, entry.timezone));
+    }
+  }
+  if (meeting.description) {
+    lines.push(`DESCRIPTION:${escapeText(meeting.description)}`);
+  }
+  if (meeting.meetingLink) {
+    lines.push(`LOCATION:${escapeText(meeting.meetingLink)}`);
+    if (/^https?:\/\//.test(meeting.meetingLink)) {
+      lines.push(`URL:${meeting.meetingLink}`);
+    }
+  }
+  lines.push(`ORGANIZER;${participantAddress(meeting.organizerId, users)}`);
+  // attendeeIds are the real ids, meeting.attendeeIds the (possibly redacted) ones shown
+  attendeeIds.forEach((attendeeId, i) => {
+    const response = rsvps.find(rsvp => rsvp.userId === attendeeId)?.response;
+    const partstat = (response && PARTICIPATION_STATUS[response]) ?? "NEEDS-ACTION";
+    const shownId = meeting.attendeeIds?.[i] ?? attendeeId;
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat};RSVP=TRUE;${participantAddress(shownId, users)}`);
+  });
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`);
+  if (meeting.createdAt) {
+    lines.push(`CREATED:${formatUtc(new Date(meeting.createdAt))}`);
+  }
+  if (entry.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(entry.updatedAt))}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function timezoneLines(events: CalendarEvent[]): string[] {
+  const lines: string[] = [];
+  const zones = Array.from(new Set(events.map(event => event.entry.timezone).filter(zone => !isUtc(zone))));
+  for (const zone of zones) {
+    const inZone = events.filter(event => event.entry.timezone === zone);
+    const starts = inZone.map(event => new Date(event.meeting.scheduledDate).getTime());
+    const ends = inZone.map(event => meetingEnd({
+      ...event.meeting,
+      scheduledDate: event.recurrence?.lastStart ?? event.meeting.scheduledDate,
+    }).getTime());
+    lines.push(...buildVTimezone(zone, new Date(Math.min(...starts)), new Date(Math.max(...ends))));
+  }
+  return lines;
+}
+
+// An iCalendar document for the meetings as the viewer is allowed to see them
+export async function buildCalendar(
+  meetings: Meeting[],
+  viewer: Express.User,
+  options: { method?: CalendarMethod; name?: string } = {},
+): Promise<string> {
+  const events: CalendarEvent[] = await Promise.all(meetings.map(async meeting => ({
+    meeting: await redactMeeting(meeting, viewer),
+    attendeeIds: meeting.attendeeIds ?? [],
+    entry: await getCalendarEntry(meeting),
+    rsvps: await storage.getMeetingRsvps(meeting.id),
+    recurrence: await eventRecurrence(meeting),
+  })));
+  const users = new Map((await storage.getUsers()).map(user => [user.id, user]));
+
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN"];
+  if (options.method) {
+    lines.push(`METHOD:${options.method}`);
+  }
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  lines.push(...timezoneLines(events));
+  for (const event of events) {
+    lines.push(...eventLines(event, users, options.method));
+  }
+  lines.push("END:VCALENDAR");
+  return serializeCalendar(lines);
+}
+
+export function downloadMethod(meeting: Meeting): CalendarMethod {
+  return meeting.status === "cancelled" ? "CANCEL" : "PUBLISH";
+}
+
+// Emails each attendee their own copy of the invite (or its cancellation).
+// Attendees dropped from a meeting are passed explicitly with CANCEL; body
+// replaces the default wording when the change needs explaining.
+export async function sendMeetingInvites(
+  meeting: Meeting,
+  method: "REQUEST" | "CANCEL",
+  options: { recipientIds?: string[]; body?: string } = {},
+) {
+  const notifier = getNotifier();
+  const recipientIds = options.recipientIds ?? meeting.attendeeIds ?? [];
+  const isUpdate = (await getCalendarEntry(meeting)).sequence > 0;
+  const when = new Date(meeting.scheduledDate).toUTCString();
+  const subject = method === "CANCEL" ? "Cancelled" : isUpdate ? "Updated invitation" : "Invitation";
+  const body = options.body ?? (method === "CANCEL"
+    ? `The meeting "${meeting.title}" on ${when} has been cancelled.`
+    : isUpdate
+      ? `"${meeting.title}" has changed and is now on ${when}.`
+      : `You have been invited to "${meeting.title}" on ${when}.`);
+
+  for (const attendeeId of recipientIds) {
+    const attendee = await storage.getUser(attendeeId);
+    if (!attendee || attendee.id === meeting.organizerId) continue;
+
+    const content = await buildCalendar([meeting], attendee, { method });
+    await notifier.send(attendee, {
+      subject: `${subject}: ${meeting.title}`,
+      body,
+      attachments: [{
+        fileName: "invite.ics",
+        contentType: `text/calendar; method=${method}; charset=UTF-8`,
+        content,
+      }],
+    });
+  }
+}
+
+// Issues a new feed secret, revoking the user's previous feed URL
+export async function issueFeedToken(userId: string): Promise<string> {
+  const { token, tokenHash } = generateResetToken();
+  await storage.setCalendarFeedToken({ userId, tokenHash });
+  return token;
+}
+
+export async function getFeedUser(token: string): Promise<User | undefined> {
+  const feedToken = await storage.getCalendarFeedToken(hashResetToken(token));
+  if (!feedToken) return undefined;
+  const user = await storage.getUser(feedToken.userId);
+  return user?.isActive ? user : undefined;
+}
+
+// Cancelled meetings stay in the feed so subscribed calendars drop them
+export async function buildUserFeed(user: Express.User): Promise<string> {
+  const meetings = await storage.getMeetingsByUser(user.id);
+  return buildCalendar(meetings, user, { name: `HR meetings - ${user.name}` });
+}
+
+export interface CalendarImportResult {
+  created: Meeting[];
+  updated: Meeting[];
+  cancelled: Meeting[];
+  skipped: { uid: string | null; reason: string }[];
+}
+
+function emailOf(value: string): string | null {
+  const match = /^mailto:(.+)$/i.exec(value.trim());
+  return match ? match[1].trim().toLowerCase() : null;
+}
+
+function eventDuration(event: ICalComponent, start: Date, fallbackTimezone: string): number {
+  const dtstart = getProperty(event, "DTSTART")!;
+  const dtend = getProperty(event, "DTEND");
+  const end = dtend && parseDateTime(dtend, fallbackTimezone);
+  if (end) {
+    return Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000));
+  }
+  const duration = getProperty(event, "DURATION");
+  const minutes = duration && parseDuration(duration.value);
+  if (minutes && minutes > 0) {
+    return Math.round(minutes);
+  }
+  // All-day events without an end last the day
+  return dtstart.params.VALUE === "DATE" ? 24 * 60 : DEFAULT_IMPORT_DURATION_MINUTES;
+}
+
+// Brings external bookings in as "external" meetings. Events are matched by
+// UID, so re-importing an updated file applies changes and cancellations
+// instead of duplicating them. Older revisions (lower SEQUENCE) are ignored.
+// Recurring events keep their RRULE, with EXDATEs as cancelled occurrences.
+export async function importCalendar(
+  ics: string,
+  importer: Express.User,
+  options: { timezone?: string; relatedComplaintId?: string } = {},
+): Promise<CalendarImportResult> {
+  const result: CalendarImportResult = { created: [], updated: [], cancelled: [], skipped: [] };
+  const fallbackTimezone = options.timezone ?? DEFAULT_WORKING_HOURS.timezone;
+  const usersByEmail = new Map((await storage.getUsers()).map(user => [user.email.toLowerCase(), user]));
+
+  for (const calendar of parseCalendar(ics).filter(component => component.type === "VCALENDAR")) {
+    const method = getProperty(calendar, "METHOD")?.value.toUpperCase();
+
+    for (const event of calendar.components.filter(component => component.type === "VEVENT")) {
+      const uid = getProperty(event, "UID")?.value ?? null;
+      if (!uid) {
+        result.skipped.push({ uid, reason: "Event has no UID" });
+        continue;
+      }
+      if (getProperty(event, "RECURRENCE-ID")) {
+        result.skipped.push({ uid, reason: "Changes to single occurrences are not supported" });
+        continue;
+      }
+
+      const sequence = Number(getProperty(event, "SEQUENCE")?.value) || 0;
+      const existingEntry = await storage.getMeetingCalendarEntryByUid(uid);
+      if (existingEntry && existingEntry.source !== "import") {
+        result.skipped.push({ uid, reason: "Event belongs to a meeting booked here" });
+        continue;
+      }
+      if (existingEntry && sequence < existingEntry.sequence) {
+        result.skipped.push({ uid, reason: "A newer revision was already imported" });
+        continue;
+      }
+
+      const existing = existingEntry && await storage.getMeeting(existingEntry.meetingId);
+      const isCancellation = method === "CANCEL" || getProperty(event, "STATUS")?.value.toUpperCase() === "CANCELLED";
+      if (isCancellation) {
+        if (!existing) {
+          result.skipped.push({ uid, reason: "Cancellation for an event that was never imported" });
+          continue;
+        }
+        const meeting = await storage.updateMeeting(existing.id, { status: "cancelled" });
+        await storage.upsertMeetingCalendarEntry({ ...existingEntry!, sequence });
+        result.cancelled.push(meeting!);
+        continue;
+      }
+
+      const dtstart = getProperty(event, "DTSTART");
+      const start = dtstart && parseDateTime(dtstart, fallbackTimezone);
+      if (!dtstart || !start) {
+        result.skipped.push({ uid, reason: "Event has no valid start time" });
+        continue;
+      }
+
+      const organizerEmail = emailOf(getProperty(event, "ORGANIZER")?.value ?? "");
+      const organizerId = (organizerEmail && usersByEmail.get(organizerEmail)?.id) || importer.id;
+      // Participants without an account here are left off the meeting
+      const attendeeIds = Array.from(new Set(
+        getProperties(event, "ATTENDEE")
+          .map(attendee => usersByEmail.get(emailOf(attendee.value) ?? "")?.id)
+          .filter((id): id is string => !!id && id !== organizerId),
+      ));
+      const details = {
+        title: unescapeText(getProperty(event, "SUMMARY")?.value ?? "") || "External meeting",
+        description: getProperty(event, "DESCRIPTION") ? unescapeText(getProperty(event, "DESCRIPTION")!.value) : null,
+        scheduledDate: start,
+        duration: eventDuration(event, start, fallbackTimezone),
+        attendeeIds,
+        meetingLink: getProperty(event, "URL")?.value ?? (getProperty(event, "LOCATION") ? unescapeText(getProperty(event, "LOCATION")!.value) : null),
+      };
+      const tzid = dtstart.params.TZID;
+      const timezone = tzid && isValidTimezone(tzid) ? tzid : fallbackTimezone;
+      const rrule = getProperty(event, "RRULE");
+      const rule = rrule && parseRecurrenceRule(rrule.value);
+      if (rrule && !rule) {
+        result.skipped.push({ uid, reason: "Unsupported recurrence rule" });
+        continue;
+      }
+
+      let meeting: Meeting;
+      if (existing) {
+        meeting = (await storage.updateMeeting(existing.id, { ...details, status: "scheduled" }))!;
+        await storage.upsertMeetingCalendarEntry({ ...existingEntry!, sequence, timezone });
+        result.updated.push(meeting);
+      } else {
+        meeting = await storage.createMeeting({
+          ...details,
+          organizerId,
+          relatedComplaintId: options.relatedComplaintId ?? null,
+          type: "external",
+          status: "scheduled",
+        });
+        await storage.upsertMeetingCalendarEntry({ meetingId: meeting.id, uid, sequence, timezone, source: "import" });
+        result.created.push(meeting);
+      }
+
+      if (rule) {
+        await storage.upsertMeetingRecurrence({ meetingId: meeting.id, rrule: formatRecurrenceRule(rule) });
+        // EXDATE may list several comma-separated times
+        for (const exdate of getProperties(event, "EXDATE")) {
+          for (const value of exdate.value.split(",")) {
+            const originalStart = parseDateTime({ ...exdate, value }, timezone);
+            if (originalStart) {
+              await storage.upsertMeetingException({ seriesId: meeting.id, originalStart, meetingId: null, cancelled: true });
+            }
+          }
+        }
+      } else if (existing) {
+        await storage.deleteMeetingRecurrence(meeting.id);
+      }
+    }
+  }
+  return result;
+}
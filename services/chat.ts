@@ -0,0 +1,175 @@
+import type { ChatExchange } from "@shared/ai";
+import type {
+  ChatConversation,
+  ChatPreferences,
+  ChatTurn,
+  UpdateChatPreferences,
+} from "@shared/chat";
+import { storage } from "../storage";
+import { answerHRQuestion } from "./ai";
+import { analyzeComplaintByRules } from "./ai-rules";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_RETENTION_DAYS = 90;
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * MINUTE_MS;
+// Earlier exchanges sent with each question: the most recent that fit in
+// both limits, dropping the oldest first
+const MAX_HISTORY_EXCHANGES = 6;
+const MAX_HISTORY_CHARS = 6000;
+// Past this a conversation has drifted too far to be useful as context
+const MAX_EXCHANGES = 100;
+const TITLE_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 20000;
+const ESCALATED_TITLE = "Raised with the HR assistant";
+
+// CHAT_RETENTION_DAYS sets how long conversations are kept for users who
+// have not chosen a period themselves
+export function defaultRetentionDays(): number {
+  return Number(process.env.CHAT_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+}
+
+function expiresAfter(from: Date, days: number): Date {
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+export async function getChatPreferences(userId: string): Promise<ChatPreferences> {
+  return (await storage.getChatPreferences(userId)) ?? {
+    userId,
+    retentionDays: defaultRetentionDays(),
+    updatedAt: null,
+  };
+}
+
+// A new period applies to existing conversations too, counted from each
+// one's last exchange, so shortening it can delete some at the next sweep
+export async function updateChatPreferences(userId: string, updates: UpdateChatPreferences): Promise<ChatPreferences> {
+  const preferences = await storage.upsertChatPreferences({ ...updates, userId });
+  for (const conversation of await storage.getChatConversations(userId)) {
+    await storage.updateChatConversation(conversation.id, {
+      expiresAt: expiresAfter(conversation.updatedAt ?? new Date(), preferences.retentionDays),
+    });
+  }
+  return preferences;
+}
+
+export async function startConversation(userId: string, title?: string): Promise<ChatConversation> {
+  const { retentionDays } = await getChatPreferences(userId);
+  return storage.createChatConversation({
+    userId,
+    title: title ?? null,
+    expiresAt: expiresAfter(new Date(), retentionDays),
+  });
+}
+
+function titleFrom(question: string): string {
+  const line = question.trim().replace(/\s+/g, " ");
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 3)}...` : line;
+}
+
+// The exchanges sent along with a new question, oldest first. Citation
+// markers are dropped because the passages they point to are not sent again.
+export function contextWindow(turns: ChatTurn[]): ChatExchange[] {
+  const exchanges: ChatExchange[] = [];
+  for (let index = 0; index + 1 < turns.length; index++) {
+    const [question, answer] = [turns[index], turns[index + 1]];
+    if (question.role === "user" && answer.role === "assistant") {
+      exchanges.push({ question: question.content, answer: answer.content.replace(/\s*\[S\d+\]/g, "") });
+    }
+  }
+
+  const window: ChatExchange[] = [];
+  let length = 0;
+  for (const exchange of exchanges.reverse()) {
+    length += exchange.question.length + exchange.answer.length;
+    if (window.length >= MAX_HISTORY_EXCHANGES || length > MAX_HISTORY_CHARS) break;
+    window.unshift(exchange);
+  }
+  return window;
+}
+
+// Answers the question in the context of the conversation and stores both
+// turns. onText receives the answer as it is generated, or all of it at once
+// when the provider cannot stream; the stored answer is the final word.
+export async function askInConversation(
+  conversation: ChatConversation,
+  question: string,
+  onText?: (text: string) => void,
+): Promise<{ conversation?: ChatConversation; turns?: ChatTurn[]; error?: string }> {
+  const turns = await storage.getChatTurns(conversation.id);
+  if (turns.length >= MAX_EXCHANGES * 2) {
+    return { error: "This conversation is too long to continue; please start a new one" };
+  }
+
+  let streamed = false;
+  const answer = await answerHRQuestion(question, {
+    history: contextWindow(turns),
+    onText: onText && (text => {
+      streamed = true;
+      onText(text);
+    }),
+  });
+  if (onText && !streamed) {
+    onText(answer.answer);
+  }
+
+  const now = new Date();
+  const { retentionDays } = await getChatPreferences(conversation.userId);
+  const appended = await storage.appendChatTurns(conversation.id, [
+    { role: "user", content: question },
+    {
+      role: "assistant",
+      content: answer.answer,
+      citations: answer.citations,
+      grounded: answer.grounded,
+      provider: answer.provider ?? null,
+      model: answer.model ?? null,
+      latencyMs: answer.latencyMs ?? null,
+    },
+  ], {
+    title: conversation.title ?? titleFrom(question),
+    updatedAt: now,
+    expiresAt: expiresAfter(now, retentionDays),
+  });
+  return { conversation: await storage.getChatConversation(conversation.id), turns: appended };
+}
+
+// A complaint filled in from the conversation: the employee's own messages
+// make up the description and the offline rules suggest a category. The
+// assistant's answers are left out; they quote policy, not what happened.
+export async function complaintDraft(conversation: ChatConversation) {
+  const turns = await storage.getChatTurns(conversation.id);
+  const title = conversation.title ?? ESCALATED_TITLE;
+  const description = turns
+    .filter(turn => turn.role === "user")
+    .map(turn => turn.content)
+    .join("\n\n")
+    .slice(0, MAX_DESCRIPTION_LENGTH);
+  const { category } = analyzeComplaintByRules({ title, description });
+  return { title, description, category };
+}
+
+export async function purgeExpiredConversations(now = new Date()): Promise<number> {
+  return storage.deleteExpiredChatConversations(now);
+}
+
+export function startChatRetentionSweep(intervalMs = Number(process.env.CHAT_RETENTION_INTERVAL_MS) || DEFAULT_SWEEP_INTERVAL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const deleted = await purgeExpiredConversations();
+      if (deleted > 0) {
+        console.log(`[chat] Deleted ${deleted} expired conversation(s)`);
+      }
+    } catch (error) {
+      console.error("Chat retention sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,102 @@
+import type { Complaint } from "@shared/schema";
+import type { ComplaintMessage, PostComplaintMessage } from "@shared/messages";
+import { isStaff } from "../auth";
+import { storage } from "../storage";
+import { redactMessage, reporterLabel } from "./anonymity";
+import { createNotification } from "./notifications";
+
+export type ThreadedMessage = ReturnType<typeof redactMessage> & {
+  replies: ThreadedMessage[];
+};
+
+// Returns the messages the viewer may see, nested under the message they reply to
+export async function getMessageThreads(complaint: Complaint, viewer: Express.User): Promise<ThreadedMessage[]> {
+  const messages = await storage.getComplaintMessages(complaint.id, {
+    includeInternal: isStaff(viewer),
+  });
+
+  const nodes = new Map<string, ThreadedMessage>();
+  for (const message of messages) {
+    nodes.set(message.id, { ...redactMessage(message, complaint, viewer), replies: [] });
+  }
+
+  const threads: ThreadedMessage[] = [];
+  for (const message of messages) {
+    const node = nodes.get(message.id)!;
+    const parent = message.parentId ? nodes.get(message.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      threads.push(node);
+    }
+  }
+  return threads;
+}
+
+// Who should hear about a new message: the submitter for shared staff replies,
+// the case owner (or every HR manager while unassigned) for reporter messages,
+// and the case owner plus the replied-to author for internal notes
+async function messageRecipients(
+  complaint: Complaint,
+  message: ComplaintMessage,
+  parent?: ComplaintMessage,
+): Promise<string[]> {
+  const recipients = new Set<string>();
+
+  if (message.visibility === "internal") {
+    if (complaint.assignedTo) recipients.add(complaint.assignedTo);
+    if (parent && !parent.fromReporter) recipients.add(parent.authorId);
+  } else if (message.fromReporter) {
+    if (complaint.assignedTo) {
+      recipients.add(complaint.assignedTo);
+    } else {
+      const users = await storage.getUsers();
+      users.filter(user => user.role === "hr_manager").forEach(user => recipients.add(user.id));
+    }
+    if (parent && !parent.fromReporter) recipients.add(parent.authorId);
+  } else {
+    recipients.add(complaint.submitterId);
+  }
+
+  recipients.delete(message.authorId);
+  return Array.from(recipients);
+}
+
+export async function postComplaintMessage(
+  complaint: Complaint,
+  author: Express.User,
+  input: PostComplaintMessage,
+  parent?: ComplaintMessage,
+): Promise<ComplaintMessage> {
+  const message = await storage.createComplaintMessage({
+    complaintId: complaint.id,
+    authorId: author.id,
+    fromReporter: complaint.submitterId === author.id,
+    visibility: input.visibility,
+    parentId: parent?.id ?? null,
+    body: input.body,
+  });
+
+  const recipients = await messageRecipients(complaint, message, parent);
+  if (recipients.length === 0) {
+    return message;
+  }
+
+  const notification = message.visibility === "internal"
+    ? { title: "New case note", message: `${author.name} added a note on "${complaint.title}"` }
+    : message.fromReporter
+      ? { title: "New reply on complaint", message: `${await reporterLabel(complaint)} replied on "${complaint.title}"` }
+      : { title: "HR replied to your complaint", message: `There is a new message on "${complaint.title}"` };
+
+  for (const userId of recipients) {
+    await createNotification({
+      userId,
+      ...notification,
+      type: "complaint_message",
+      relatedEntityId: complaint.id,
+      relatedEntityType: "complaint",
+    });
+  }
+
+  return message;
+}
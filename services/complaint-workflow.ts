@@ -0,0 +1,56 @@
+import type { Complaint } from "@shared/schema";
+import {
+  complaintStatuses,
+  complaintTransitions,
+  type ComplaintStatus
+} from "@shared/workflow";
+import { storage } from "../storage";
+
+export function isComplaintStatus(status: string): status is ComplaintStatus {
+  return (complaintStatuses as readonly string[]).includes(status);
+}
+
+export function allowedTransitions(from: string): ComplaintStatus[] {
+  return isComplaintStatus(from) ? complaintTransitions[from] : [];
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return allowedTransitions(from).includes(to as ComplaintStatus);
+}
+
+// Anything not yet resolved or closed still needs HR attention
+export function isActiveStatus(status: string): boolean {
+  return status !== "resolved" && status !== "closed";
+}
+
+export async function recordComplaintFiled(complaint: Complaint, actorId: string) {
+  await storage.createComplaintStatusHistory({
+    complaintId: complaint.id,
+    fromStatus: null,
+    toStatus: complaint.status,
+    actorId,
+    note: null,
+  });
+}
+
+// Applies a status change and appends it to the complaint's timeline.
+// Callers must check canTransition() first.
+export async function transitionComplaint(
+  complaint: Complaint,
+  toStatus: ComplaintStatus,
+  actorId: string,
+  note?: string,
+  updates: Partial<Complaint> = {},
+): Promise<Complaint | undefined> {
+  const updated = await storage.updateComplaint(complaint.id, { ...updates, status: toStatus });
+  if (updated) {
+    await storage.createComplaintStatusHistory({
+      complaintId: complaint.id,
+      fromStatus: complaint.status,
+      toStatus,
+      actorId,
+      note: note ?? null,
+    });
+  }
+  return updated;
+}
@@ -0,0 +1,13 @@
+// RFC 4180 cells; dates are written as ISO strings and objects as JSON
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating text cells as formulas; numbers
+  // such as -0.4 stay numeric
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: unknown[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
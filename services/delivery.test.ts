@@ -0,0 +1,283 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { InsertUser, Notification, User } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  dispatchDeliveries,
+  HttpSmsChannel,
+  queueDeliveries,
+  quietHoursEnd,
+  renderMessage,
+  retryDelivery,
+  setDeliveryChannel,
+  updateNotificationPreferences,
+  type DeliveryChannel,
+  type RenderedMessage,
+} from "./delivery";
+
+const MINUTE_MS = 60 * 1000;
+
+// Email goes through a recording channel; SMS through the real HTTP channel
+// posting to a stand-in gateway
+let sent: { destination: string; message: RenderedMessage }[];
+let emailFailure: Error | null;
+const email: DeliveryChannel = {
+  name: "email",
+  destination: user => user.email || null,
+  async send(destination, message) {
+    if (emailFailure) throw emailFailure;
+    sent.push({ destination, message });
+  },
+};
+
+let gateway: Server;
+let gatewayRequests: { authorization?: string; body: unknown }[];
+let gatewayStatus: number;
+
+beforeAll(async () => {
+  gateway = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => body += chunk);
+    req.on("end", () => {
+      gatewayRequests.push({ authorization: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(gatewayStatus, { "Content-Type": "text/plain" });
+      res.end(gatewayStatus === 200 ? "queued" : "gateway unavailable");
+    });
+  });
+  await new Promise<void>(resolve => gateway.listen(0, "127.0.0.1", resolve));
+  setDeliveryChannel(email);
+  setDeliveryChannel(new HttpSmsChannel({
+    url: `http://127.0.0.1:${(gateway.address() as AddressInfo).port}/messages`,
+    token: "sms-token",
+    from: "HumanAllies",
+  }));
+});
+
+beforeEach(async () => {
+  emailFailure = null;
+  gatewayStatus = 200;
+  gatewayRequests = [];
+  // Sends whatever earlier tests left queued, so each test starts with none
+  await dispatchDeliveries(new Date("2100-01-01T00:00:00Z"));
+  sent = [];
+  gatewayRequests = [];
+});
+
+afterAll(async () => {
+  await new Promise(resolve => gateway.close(resolve));
+});
+
+let sequence = 0;
+
+async function createRecipient(overrides: Partial<InsertUser> = {}): Promise<User> {
+  sequence++;
+  return storage.createUser({
+    username: `delivery.user${sequence}`,
+    password: "correct horse battery staple",
+    email: `delivery.user${sequence}@company.com`,
+    phone: `+1555800${String(sequence).padStart(4, "0")}`,
+    name: `Delivery User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+    ...overrides,
+  });
+}
+
+function notify(user: User, type = "complaint_update"): Promise<Notification> {
+  return storage.createNotification({
+    userId: user.id,
+    type,
+    title: "Complaint updated",
+    message: "Your complaint has a new reply.",
+  });
+}
+
+describe("queueDeliveries", () => {
+  it("queues email only by default", async () => {
+    const user = await createRecipient();
+    const now = new Date("2031-03-03T12:00:00Z");
+
+    const queued = await queueDeliveries(await notify(user), now);
+
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toMatchObject({ channel: "email", status: "pending", attempts: 0, nextAttemptAt: now });
+  });
+
+  it("follows the recipient's channels and muted types", async () => {
+    const user = await createRecipient();
+    await updateNotificationPreferences(user.id, { emailEnabled: false, smsEnabled: true, mutedTypes: ["sla_breach"] });
+
+    const queued = await queueDeliveries(await notify(user));
+    const muted = await queueDeliveries(await notify(user, "sla_breach"));
+
+    expect(queued.map(delivery => delivery.channel)).toEqual(["sms"]);
+    expect(muted).toEqual([]);
+  });
+
+  it("skips channels the recipient has no address for, and inactive recipients", async () => {
+    const noPhone = await createRecipient({ phone: undefined });
+    await updateNotificationPreferences(noPhone.id, { smsEnabled: true });
+    const inactive = await createRecipient();
+    await storage.updateUser(inactive.id, { isActive: false });
+
+    expect((await queueDeliveries(await notify(noPhone))).map(delivery => delivery.channel)).toEqual(["email"]);
+    expect(await queueDeliveries(await notify(inactive))).toEqual([]);
+  });
+
+  it("holds deliveries back until quiet hours are over", async () => {
+    const user = await createRecipient();
+    await updateNotificationPreferences(user.id, { quietHoursStart: "22:00", quietHoursEnd: "07:00", timezone: "Europe/London" });
+
+    // 23:30 in London during summer time
+    const [delivery] = await queueDeliveries(await notify(user), new Date("2031-07-01T22:30:00Z"));
+
+    expect(delivery.nextAttemptAt).toEqual(new Date("2031-07-02T06:00:00Z"));
+    expect(await dispatchDeliveries(new Date("2031-07-02T05:59:00Z"))).toBe(0);
+    expect(await dispatchDeliveries(new Date("2031-07-02T06:00:00Z"))).toBe(1);
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe("dispatchDeliveries", () => {
+  it("sends due email and SMS and records where they went", async () => {
+    const user = await createRecipient();
+    await updateNotificationPreferences(user.id, { smsEnabled: true });
+    const now = new Date("2031-03-04T12:00:00Z");
+    const [emailDelivery, smsDelivery] = await queueDeliveries(await notify(user), now);
+
+    expect(await dispatchDeliveries(now)).toBe(2);
+
+    expect(sent).toEqual([{
+      destination: user.email,
+      message: { subject: "Complaint updated", body: expect.stringContaining(`Hello ${user.name},\n\nYour complaint has a new reply.`) },
+    }]);
+    expect(gatewayRequests).toEqual([{
+      authorization: "Bearer sms-token",
+      body: { to: user.phone, from: "HumanAllies", body: "HumanAllies: Complaint updated. Your complaint has a new reply." },
+    }]);
+    expect(await storage.getNotificationDelivery(emailDelivery.id)).toMatchObject({ status: "sent", attempts: 1, destination: user.email, sentAt: now });
+    expect(await storage.getNotificationDelivery(smsDelivery.id)).toMatchObject({ status: "sent", attempts: 1, destination: user.phone });
+  });
+
+  it("retries failures with doubling waits, then dead-letters them", async () => {
+    const user = await createRecipient();
+    await updateNotificationPreferences(user.id, { emailEnabled: false, smsEnabled: true });
+    gatewayStatus = 503;
+    let now = new Date("2031-03-05T12:00:00Z");
+    const [delivery] = await queueDeliveries(await notify(user), now);
+
+    const waits: number[] = [];
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      expect(await dispatchDeliveries(now)).toBe(1);
+      const current = (await storage.getNotificationDelivery(delivery.id))!;
+      expect(current).toMatchObject({ attempts: attempt, lastError: "SMS gateway responded 503: gateway unavailable" });
+      if (current.status === "dead") break;
+      waits.push((new Date(current.nextAttemptAt).getTime() - now.getTime()) / MINUTE_MS);
+      now = new Date(current.nextAttemptAt);
+    }
+
+    expect(waits).toEqual([1, 2, 4, 8]);
+    expect(await storage.getNotificationDelivery(delivery.id)).toMatchObject({ status: "dead", attempts: 5 });
+    expect(await dispatchDeliveries(new Date("2031-03-06T12:00:00Z"))).toBe(0);
+  });
+
+  it("sends a retried dead letter with a fresh set of attempts", async () => {
+    const user = await createRecipient();
+    emailFailure = new Error("mailbox unavailable");
+    let now = new Date("2031-03-07T12:00:00Z");
+    const [delivery] = await queueDeliveries(await notify(user), now);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await dispatchDeliveries(now);
+      now = new Date((await storage.getNotificationDelivery(delivery.id))!.nextAttemptAt);
+    }
+    const dead = (await storage.getNotificationDelivery(delivery.id))!;
+    emailFailure = null;
+
+    const { delivery: retried } = await retryDelivery(dead);
+    await dispatchDeliveries(new Date(retried!.nextAttemptAt));
+
+    expect(dead.status).toBe("dead");
+    expect(retried).toMatchObject({ status: "pending", attempts: 0 });
+    expect(await storage.getNotificationDelivery(delivery.id)).toMatchObject({ status: "sent", attempts: 1, lastError: null });
+    expect(await retryDelivery((await storage.getNotificationDelivery(delivery.id))!))
+      .toEqual({ error: "Only dead-lettered deliveries can be retried" });
+  });
+
+  it("cancels deliveries the recipient opted out of after they were queued", async () => {
+    const user = await createRecipient();
+    const now = new Date("2031-03-08T12:00:00Z");
+    const [delivery] = await queueDeliveries(await notify(user), now);
+    await updateNotificationPreferences(user.id, { emailEnabled: false });
+
+    await dispatchDeliveries(now);
+
+    expect(sent).toEqual([]);
+    expect(await storage.getNotificationDelivery(delivery.id)).toMatchObject({ status: "cancelled", attempts: 0 });
+  });
+
+  it("waits out quiet hours that started after the delivery was queued", async () => {
+    const user = await createRecipient();
+    const now = new Date("2031-03-09T23:00:00Z");
+    const [delivery] = await queueDeliveries(await notify(user), now);
+    await updateNotificationPreferences(user.id, { quietHoursStart: "22:00", quietHoursEnd: "06:30" });
+
+    await dispatchDeliveries(now);
+
+    expect(sent).toEqual([]);
+    expect(await storage.getNotificationDelivery(delivery.id)).toMatchObject({
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date("2031-03-10T06:30:00Z"),
+    });
+    await dispatchDeliveries(new Date("2031-03-10T06:30:00Z"));
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe("renderMessage", () => {
+  it("uses the template for the notification type and truncates long SMS", async () => {
+    const user = await createRecipient();
+    const breach = { ...(await notify(user, "sla_breach")), title: "Complaint #12", message: "x".repeat(400) };
+
+    const emailMessage = renderMessage(breach, user, "email");
+    const sms = renderMessage(breach, user, "sms");
+
+    expect(emailMessage.subject).toBe("Escalated: Complaint #12");
+    expect(emailMessage.body).toContain("This complaint now needs your attention.");
+    expect(sms.body).toHaveLength(320);
+    expect(sms.body).toMatch(/^HumanAllies: Complaint #12\. x+…$/);
+  });
+});
+
+describe("quietHoursEnd", () => {
+  const preferences = {
+    userId: "u",
+    emailEnabled: true,
+    smsEnabled: false,
+    mutedTypes: [],
+    quietHoursStart: "09:00",
+    quietHoursEnd: "17:00",
+    timezone: "America/New_York",
+    updatedAt: null,
+  };
+
+  it("returns the end of a same-day window in the user's timezone", () => {
+    expect(quietHoursEnd(preferences, new Date("2031-01-15T15:00:00Z"))).toEqual(new Date("2031-01-15T22:00:00Z"));
+    expect(quietHoursEnd(preferences, new Date("2031-01-15T22:00:00Z"))).toBeNull();
+    expect(quietHoursEnd(preferences, new Date("2031-01-15T13:59:00Z"))).toBeNull();
+  });
+
+  it("handles windows that wrap past midnight", () => {
+    const overnight = { ...preferences, quietHoursStart: "22:00", quietHoursEnd: "07:00", timezone: "UTC" };
+
+    expect(quietHoursEnd(overnight, new Date("2031-01-15T23:00:00Z"))).toEqual(new Date("2031-01-16T07:00:00Z"));
+    expect(quietHoursEnd(overnight, new Date("2031-01-16T03:00:00Z"))).toEqual(new Date("2031-01-16T07:00:00Z"));
+    expect(quietHoursEnd(overnight, new Date("2031-01-16T12:00:00Z"))).toBeNull();
+  });
+
+  it("ignores unset and empty windows", () => {
+    expect(quietHoursEnd({ ...preferences, quietHoursStart: null, quietHoursEnd: null }, new Date())).toBeNull();
+    expect(quietHoursEnd({ ...preferences, quietHoursEnd: "09:00" }, new Date("2031-01-15T14:00:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,357 @@
+import type { Notification, User } from "@shared/schema";
+import {
+  deliveryChannels,
+  type DeliveryChannelName,
+  type NotificationDelivery,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+} from "@shared/notifications";
+import { storage } from "../storage";
+import { fromWallTime, toWallTime } from "./icalendar";
+import { sendMail, type SmtpConfig } from "./smtp";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_WORKER_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 50;
+// Attempts before a delivery is dead-lettered; waits double from RETRY_BASE_MS
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = MINUTE_MS;
+const SMS_MAX_LENGTH = 320;
+const SMS_TIMEOUT_MS = 15 * 1000;
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+// An outbound provider. destination() returns null when the user cannot be
+// reached this way (e.g. no phone number on file).
+export interface DeliveryChannel {
+  name: DeliveryChannelName;
+  destination(user: User): string | null;
+  send(destination: string, message: RenderedMessage): Promise<void>;
+}
+
+export class SmtpEmailChannel implements DeliveryChannel {
+  name = "email" as const;
+
+  constructor(private config: SmtpConfig) {}
+
+  destination(user: User): string | null {
+    return user.email || null;
+  }
+
+  async send(destination: string, message: RenderedMessage): Promise<void> {
+    await sendMail(this.config, { to: destination, subject: message.subject, text: message.body });
+  }
+}
+
+// Posts { to, from, body } as JSON to a generic SMS gateway; any non-2xx
+// response counts as a failed attempt
+export class HttpSmsChannel implements DeliveryChannel {
+  name = "sms" as const;
+
+  constructor(private options: { url: string; token?: string; from?: string }) {}
+
+  destination(user: User): string | null {
+    return user.phone || null;
+  }
+
+  async send(destination: string, message: RenderedMessage): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {}),
+      },
+      body: JSON.stringify({ to: destination, from: this.options.from, body: message.body }),
+      signal: AbortSignal.timeout(SMS_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      throw new Error(`SMS gateway responded ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+  }
+}
+
+function channelsFromEnv(): DeliveryChannel[] {
+  const configured: DeliveryChannel[] = [];
+  if (process.env.SMTP_HOST) {
+    const secure = process.env.SMTP_SECURE === "true";
+    configured.push(new SmtpEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || "HumanAllies <no-reply@localhost>",
+    }));
+  }
+  if (process.env.SMS_GATEWAY_URL) {
+    configured.push(new HttpSmsChannel({
+      url: process.env.SMS_GATEWAY_URL,
+      token: process.env.SMS_GATEWAY_TOKEN,
+      from: process.env.SMS_FROM,
+    }));
+  }
+  return configured;
+}
+
+// Unconfigured channels are skipped, so without SMTP_HOST / SMS_GATEWAY_URL
+// notifications stay in-app only
+const channels = new Map<DeliveryChannelName, DeliveryChannel>(
+  channelsFromEnv().map(channel => [channel.name, channel]),
+);
+
+export function setDeliveryChannel(channel: DeliveryChannel) {
+  channels.set(channel.name, channel);
+}
+
+export function removeDeliveryChannel(name: DeliveryChannelName) {
+  channels.delete(name);
+}
+
+export interface MessageTemplate {
+  // Unused for SMS
+  subject: string;
+  body: string;
+}
+
+// Keyed by notification type, with "default" as the fallback
+export type TemplateSet = Record<string, Partial<Record<DeliveryChannelName, MessageTemplate>>>;
+
+const DEFAULT_TEMPLATES: TemplateSet = {
+  default: {
+    email: {
+      subject: "{{title}}",
+      body: "Hello {{name}},\n\n{{message}}\n\nSign in to HumanAllies to see the details.\n",
+    },
+    sms: { subject: "{{title}}", body: "HumanAllies: {{title}}. {{message}}" },
+  },
+  sla_breach: {
+    email: {
+      subject: "Escalated: {{title}}",
+      body: "Hello {{name}},\n\n{{message}}\n\nThis complaint now needs your attention.\n",
+    },
+  },
+};
+
+// NOTIFICATION_TEMPLATES may hold a JSON object shaped like TemplateSet; its
+// entries override the defaults per notification type and channel
+function loadTemplates(): TemplateSet {
+  if (!process.env.NOTIFICATION_TEMPLATES) {
+    return DEFAULT_TEMPLATES;
+  }
+  try {
+    const overrides = JSON.parse(process.env.NOTIFICATION_TEMPLATES) as TemplateSet;
+    const templates: TemplateSet = { ...DEFAULT_TEMPLATES };
+    for (const [type, byChannel] of Object.entries(overrides)) {
+      templates[type] = { ...templates[type], ...byChannel };
+    }
+    return templates;
+  } catch (error) {
+    console.error("Ignoring invalid NOTIFICATION_TEMPLATES:", error);
+    return DEFAULT_TEMPLATES;
+  }
+}
+
+export const notificationTemplates = loadTemplates();
+
+// Replaces {{name}} placeholders; unknown names render empty
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? "");
+}
+
+export function renderMessage(notification: Notification, user: User, channel: DeliveryChannelName): RenderedMessage {
+  const template = notificationTemplates[notification.type]?.[channel] ?? notificationTemplates.default[channel]!;
+  const values = {
+    name: user.name,
+    title: notification.title,
+    message: notification.message,
+    type: notification.type,
+  };
+  const subject = renderTemplate(template.subject, values);
+  let body = renderTemplate(template.body, values);
+  if (channel === "sms" && body.length > SMS_MAX_LENGTH) {
+    body = `${body.slice(0, SMS_MAX_LENGTH - 1)}…`;
+  }
+  return { subject, body };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// When the user's quiet hours are in force at the given instant, the
+// instant they end; otherwise null. Windows may wrap past midnight.
+export function quietHoursEnd(preferences: NotificationPreferences, at: Date): Date | null {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return null;
+  const start = minutesOfDay(preferences.quietHoursStart);
+  const end = minutesOfDay(preferences.quietHoursEnd);
+  if (start === end) return null;
+
+  const local = toWallTime(at, preferences.timezone);
+  const now = local.hour * 60 + local.minute;
+  const inside = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) return null;
+
+  // The window ends later today, or tomorrow if it wraps and we are before midnight
+  const endsTomorrow = start > end && now >= start;
+  const day = new Date(Date.UTC(local.year, local.month - 1, local.day) + (endsTomorrow ? DAY_MS : 0));
+  return fromWallTime({
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate(),
+    hour: Math.floor(end / 60),
+    minute: end % 60,
+    second: 0,
+  }, preferences.timezone);
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  return (await storage.getNotificationPreferences(userId)) ?? {
+    userId,
+    emailEnabled: true,
+    smsEnabled: false,
+    mutedTypes: [],
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: "UTC",
+    updatedAt: null,
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: UpdateNotificationPreferences,
+): Promise<NotificationPreferences> {
+  const { updatedAt: _, ...current } = await getNotificationPreferences(userId);
+  return storage.upsertNotificationPreferences({ ...current, ...updates, userId });
+}
+
+function channelEnabled(preferences: NotificationPreferences, channel: DeliveryChannelName): boolean {
+  return channel === "email" ? preferences.emailEnabled : preferences.smsEnabled;
+}
+
+// Queues one delivery per configured channel the recipient has enabled,
+// held back until their quiet hours are over
+export async function queueDeliveries(notification: Notification, now = new Date()): Promise<NotificationDelivery[]> {
+  const user = await storage.getUser(notification.userId);
+  if (!user || !user.isActive) return [];
+  const preferences = await getNotificationPreferences(user.id);
+  if (preferences.mutedTypes.includes(notification.type)) return [];
+
+  const nextAttemptAt = quietHoursEnd(preferences, now) ?? now;
+  const queued: NotificationDelivery[] = [];
+  for (const name of deliveryChannels) {
+    const channel = channels.get(name);
+    if (!channel || !channelEnabled(preferences, name) || !channel.destination(user)) continue;
+    queued.push(await storage.createNotificationDelivery({
+      notificationId: notification.id,
+      userId: user.id,
+      channel: name,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt,
+    }));
+  }
+  return queued;
+}
+
+async function attemptDelivery(delivery: NotificationDelivery, now: Date) {
+  const [notification, user] = await Promise.all([
+    storage.getNotification(delivery.notificationId),
+    storage.getUser(delivery.userId),
+  ]);
+  const channel = channels.get(delivery.channel as DeliveryChannelName);
+  if (!notification || !user || !channel) {
+    await storage.updateNotificationDelivery(delivery.id, {
+      status: "dead",
+      lastError: !channel ? `Channel "${delivery.channel}" is not configured` : "Notification or recipient no longer exists",
+    });
+    return;
+  }
+
+  // Preferences may have changed since the delivery was queued
+  const preferences = await getNotificationPreferences(user.id);
+  const destination = channel.destination(user);
+  if (!user.isActive || !channelEnabled(preferences, channel.name) || preferences.mutedTypes.includes(notification.type) || !destination) {
+    await storage.updateNotificationDelivery(delivery.id, { status: "cancelled" });
+    return;
+  }
+  const quietUntil = quietHoursEnd(preferences, now);
+  if (quietUntil) {
+    await storage.updateNotificationDelivery(delivery.id, { nextAttemptAt: quietUntil });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  try {
+    await channel.send(destination, renderMessage(notification, user, channel.name));
+    await storage.updateNotificationDelivery(delivery.id, {
+      status: "sent",
+      attempts,
+      destination,
+      sentAt: now,
+      lastError: null,
+    });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`Notification delivery ${delivery.id} (${channel.name}) dead-lettered:`, lastError);
+      await storage.updateNotificationDelivery(delivery.id, { status: "dead", attempts, destination, lastError });
+    } else {
+      await storage.updateNotificationDelivery(delivery.id, {
+        attempts,
+        destination,
+        lastError,
+        nextAttemptAt: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+      });
+    }
+  }
+}
+
+let dispatching = false;
+
+// Sends every delivery that is due. Returns how many were attempted; a call
+// made while another is still running returns 0 straight away.
+export async function dispatchDeliveries(now = new Date()): Promise<number> {
+  if (dispatching) return 0;
+  dispatching = true;
+  try {
+    const due = await storage.getDueNotificationDeliveries(now, BATCH_SIZE);
+    for (const delivery of due) {
+      await attemptDelivery(delivery, now);
+    }
+    return due.length;
+  } finally {
+    dispatching = false;
+  }
+}
+
+// Puts a dead-lettered delivery back in the queue with a fresh set of attempts
+export async function retryDelivery(delivery: NotificationDelivery): Promise<{ delivery?: NotificationDelivery; error?: string }> {
+  if (delivery.status !== "dead") {
+    return { error: "Only dead-lettered deliveries can be retried" };
+  }
+  const updated = await storage.updateNotificationDelivery(delivery.id, {
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+  });
+  return { delivery: updated };
+}
+
+export function startDeliveryWorker(intervalMs = Number(process.env.DELIVERY_INTERVAL_MS) || DEFAULT_WORKER_INTERVAL_MS) {
+  const timer = setInterval(async () => {
+    try {
+      await dispatchDeliveries();
+    } catch (error) {
+      console.error("Notification delivery failed:", error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+
+// Where uploaded evidence bytes live. Keys are opaque, server-generated paths.
+export interface FileStore {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // wx: never overwrite existing evidence
+    await fs.promises.writeFile(filePath, data, { flag: "wx", mode: 0o600 });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStore: FileStore = new LocalFileStore(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads"),
+);
@@ -0,0 +1,311 @@
+// Minimal RFC 5545 reader/writer for the meeting calendar features
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function toWallTime(date: Date, timezone: string): WallTime {
+  const parts = formatterFor(timezone).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// Minutes east of UTC in effect at the given instant
+export function timezoneOffset(date: Date, timezone: string): number {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallTimeAsUtc(toWallTime(new Date(instant), timezone)) - instant) / MINUTE_MS);
+}
+
+// The instant a wall-clock time in the zone refers to. Times skipped by a
+// DST jump resolve forward; ambiguous times take the earlier offset.
+export function fromWallTime(wall: WallTime, timezone: string): Date {
+  const guess = wallTimeAsUtc(wall);
+  const firstOffset = timezoneOffset(new Date(guess), timezone);
+  let instant = guess - firstOffset * MINUTE_MS;
+  const secondOffset = timezoneOffset(new Date(instant), timezone);
+  if (secondOffset !== firstOffset) {
+    instant = guess - secondOffset * MINUTE_MS;
+  }
+  return new Date(instant);
+}
+
+interface OffsetTransition {
+  at: Date;
+  from: number;
+  to: number;
+}
+
+function findTransitions(timezone: string, start: Date, end: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let previous = start.getTime();
+  let previousOffset = timezoneOffset(start, timezone);
+
+  for (let t = previous + DAY_MS; t <= end.getTime() + DAY_MS; t += DAY_MS) {
+    const offset = timezoneOffset(new Date(t), timezone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previous;
+      let high = t;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (timezoneOffset(new Date(mid), timezone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset });
+    }
+    previous = t;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, "0");
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+function formatWallTime(wall: WallTime): string {
+  return `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+export function formatUtc(date: Date): string {
+  return formatWallTime(toWallTime(date, "UTC")) + "Z";
+}
+
+export function isUtc(timezone: string): boolean {
+  return timezone === "UTC" || timezone === "Etc/UTC";
+}
+
+// A VTIMEZONE describing every offset change between start and end
+export function buildVTimezone(timezone: string, start: Date, end: Date): string[] {
+  const rangeStart = new Date(Date.UTC(start.getUTCFullYear(), 0, 1));
+  const rangeEnd = new Date(Date.UTC(end.getUTCFullYear() + 1, 0, 1));
+  const transitions = findTransitions(timezone, rangeStart, rangeEnd);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(timezoneOffset(rangeStart, timezone));
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD",
+    );
+  }
+
+  for (const transition of transitions) {
+    const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+    // Observance onsets are written in the local time in force before the change
+    const onset = new Date(transition.at.getTime() + transition.from * MINUTE_MS);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWallTime(toWallTime(onset, "UTC"))}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`,
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// DTSTART/DTEND style property for an instant shown in the given zone
+export function dateTimeProperty(name: string, date: Date, timezone: string): string {
+  if (isUtc(timezone)) {
+    return `${name}:${formatUtc(date)}`;
+  }
+  return `${name};TZID=${timezone}:${formatWallTime(toWallTime(date, timezone))}`;
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+// Lines longer than 75 octets are folded onto continuation lines
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, "utf8");
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+export function serializeCalendar(lines: string[]): string {
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq === -1) continue;
+    params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+export function parseCalendar(text: string): ICalComponent[] {
+  const lines = text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const component: ICalComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      if (stack.length > 0) stack[stack.length - 1].components.push(component);
+      else roots.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+  return roots;
+}
+
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+export function getProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter(property => property.name === name);
+}
+
+// Reads DATE, floating, UTC and TZID date-times. Floating times are taken
+// in the fallback zone.
+export function parseDateTime(property: ICalProperty, fallbackTimezone = "UTC"): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0", utc] = match;
+  const wall: WallTime = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+  if (utc) {
+    return new Date(wallTimeAsUtc(wall));
+  }
+
+  const timezone = property.params.TZID || fallbackTimezone;
+  try {
+    return fromWallTime(wall, timezone);
+  } catch {
+    // Unknown TZID (often a Windows zone name): treat as the fallback zone
+    return fromWallTime(wall, fallbackTimezone);
+  }
+}
+
+// ISO 8601 durations as used by DURATION, e.g. PT1H30M or P1D
+export function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Number(seconds ?? 0) / 60;
+  return sign === "-" ? -total : total;
+}
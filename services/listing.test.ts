@@ -0,0 +1,172 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Complaint, User } from "@shared/schema";
+import { complaintListQuerySchema, userListQuerySchema } from "@shared/listing";
+import type { IStorage } from "../storage";
+import { testBackends } from "../test-storage";
+import { listComplaints, listUsers, type ListPage } from "./listing";
+
+// Paging must return every row exactly once, in order, however the rows tie
+// on the sort field; the listings run on each backend in turn
+const store = vi.hoisted(() => ({ current: undefined as unknown as IStorage }));
+
+vi.mock("../storage", async importOriginal => ({
+  ...await importOriginal<typeof import("../storage")>(),
+  storage: new Proxy({}, {
+    get(_target, key: keyof IStorage) {
+      const value = store.current[key];
+      return typeof value === "function" ? value.bind(store.current) : value;
+    },
+  }),
+}));
+
+// Follows nextCursor to the end, collecting the ids of every page
+async function walk<T extends { id: string }>(fetchPage: (cursor?: string) => Promise<ListPage<T>>): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    expect(page.error).toBeUndefined();
+    pages.push(page.items!.map(item => item.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && pages.length < 50);
+  expect(cursor).toBeUndefined();
+  return pages;
+}
+
+describe.each(testBackends)("keyset listing on %s", (_name, makeBackend) => {
+  const backend = makeBackend();
+  let manager: User;
+  let employee: User;
+  let complaints: Complaint[];
+
+  beforeEach(async () => {
+    store.current = await backend.create();
+    let sequence = 0;
+    const user = (role: string, name: string) => {
+      sequence++;
+      return store.current.createUser({
+        username: `listing.user${sequence}`,
+        password: "correct horse battery staple",
+        email: `listing.user${sequence}@company.com`,
+        phone: `+1555900${String(sequence).padStart(4, "0")}`,
+        name,
+        role,
+        department: "Engineering",
+      });
+    };
+    manager = await user("hr_manager", "Morgan Reed");
+    employee = await user("employee", "Alex Kim");
+    // Titles and priorities repeat (differing only in case for "pay"), and
+    // rows created together may share a timestamp
+    const rows = [
+      ["Pay", "high"], ["pay", "high"], ["Rota", "low"], ["pay", "urgent"], ["Bullying", "high"],
+      ["rota", "medium"], ["Overtime", "low"], ["Pay", "medium"], ["bullying", "high"], ["Leave", "low"],
+      ["Overtime", "urgent"],
+    ];
+    complaints = [];
+    for (let index = 0; index < rows.length; index++) {
+      const [title, priority] = rows[index];
+      complaints.push(await store.current.createComplaint({
+        title,
+        description: `Complaint ${index}`,
+        category: "other",
+        priority,
+        submitterId: index % 3 === 0 ? employee.id : manager.id,
+      }));
+    }
+  }, 60_000);
+
+  afterAll(async () => {
+    await backend.close?.();
+  });
+
+  const complaintSorts = [
+    ["title", "asc"], ["title", "desc"], ["priority", "asc"], ["priority", "desc"],
+    ["createdAt", "asc"], ["createdAt", "desc"], ["updatedAt", "desc"],
+  ] as const;
+
+  it.each(complaintSorts)("pages complaints by %s %s without gaps or repeats", async (sort, order) => {
+    const list = (limit: number) => (cursor?: string) =>
+      listComplaints(manager, complaintListQuerySchema.parse({ sort, order, limit, cursor }));
+    const [everything] = await walk(list(100));
+
+    for (const limit of [1, 2, 3, 4]) {
+      const pages = await walk(list(limit));
+      expect(pages.flat()).toEqual(everything);
+      expect(pages.slice(0, -1).every(page => page.length === limit)).toBe(true);
+    }
+    expect(everything).toHaveLength(complaints.length);
+  });
+
+  it("orders ties on the sort value by id", async () => {
+    const { items } = await listComplaints(manager, complaintListQuerySchema.parse({ sort: "title", limit: 100 }));
+
+    const titles = items!.map(item => item.title.toLowerCase());
+    expect(titles).toEqual(["bullying", "bullying", "leave", "overtime", "overtime", "pay", "pay", "pay", "pay", "rota", "rota"]);
+    const pays = items!.filter(item => item.title.toLowerCase() === "pay").map(item => item.id);
+    expect(pays).toEqual([...pays].sort());
+  });
+
+  it("sorts priority by severity", async () => {
+    const { items } = await listComplaints(manager, complaintListQuerySchema.parse({ sort: "priority", limit: 100 }));
+
+    expect(items!.map(item => item.priority)).toEqual([
+      "urgent", "urgent", "high", "high", "high", "high", "medium", "medium", "low", "low", "low",
+    ]);
+  });
+
+  it("keeps its place when rows are added or changed between pages", async () => {
+    const list = (limit: number) => (cursor?: string) =>
+      listComplaints(manager, complaintListQuerySchema.parse({ sort: "title", limit, cursor }));
+    const first = await list(4)();
+    const seen = first.items!.map(item => item.id);
+
+    // One row lands before the cursor, one after, and the last row seen moves
+    // to the end
+    const early = await store.current.createComplaint({ title: "Appraisal", description: "New", category: "other", priority: "low", submitterId: manager.id });
+    await store.current.createComplaint({ title: "Travel", description: "New", category: "other", priority: "low", submitterId: manager.id });
+    await store.current.updateComplaint(seen[3], { title: "Zzz" });
+    const rest = await walk(cursor => list(4)(cursor ?? first.nextCursor!));
+    const [everything] = await walk(list(100));
+
+    expect(rest.flat()).toEqual(everything.filter(id => id !== early.id && (!seen.includes(id) || id === seen[3])));
+    expect(rest.flat().pop()).toBe(seen[3]);
+  });
+
+  it("pages only the complaints an employee filed", async () => {
+    const pages = await walk(cursor => listComplaints(employee, complaintListQuerySchema.parse({ limit: 2, cursor })));
+
+    const own = complaints.filter(complaint => complaint.submitterId === employee.id).map(complaint => complaint.id);
+    expect(pages.flat().sort()).toEqual([...own].sort());
+  });
+
+  it("pages filtered results", async () => {
+    const pages = await walk(cursor =>
+      listComplaints(manager, complaintListQuerySchema.parse({ priority: "high", sort: "title", limit: 1, cursor })));
+
+    expect(pages).toHaveLength(4);
+    expect(pages.flat().sort()).toEqual(complaints.filter(complaint => complaint.priority === "high").map(complaint => complaint.id).sort());
+  });
+
+  it("rejects cursors that are malformed or from another sort", async () => {
+    const { nextCursor } = await listComplaints(manager, complaintListQuerySchema.parse({ sort: "title", limit: 1 }));
+
+    expect(await listComplaints(manager, complaintListQuerySchema.parse({ sort: "createdAt", cursor: nextCursor })))
+      .toEqual({ error: "Invalid cursor" });
+    expect(await listComplaints(manager, complaintListQuerySchema.parse({ cursor: "not-a-cursor" })))
+      .toEqual({ error: "Invalid cursor" });
+    const forged = Buffer.from(JSON.stringify(["priority", "high", "x"])).toString("base64url");
+    expect(await listComplaints(manager, complaintListQuerySchema.parse({ sort: "priority", cursor: forged })))
+      .toEqual({ error: "Invalid cursor" });
+  });
+
+  it("pages users by name, username and creation time", async () => {
+    for (const sort of ["name", "username", "createdAt"] as const) {
+      const [everything] = await walk(cursor => listUsers(userListQuerySchema.parse({ sort, limit: 100, cursor })));
+      const pages = await walk(cursor => listUsers(userListQuerySchema.parse({ sort, limit: 1, cursor })));
+
+      expect(pages.flat()).toEqual(everything);
+      expect(everything).toHaveLength((await store.current.getUsers()).length);
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import type { Complaint, Scenario, User } from "@shared/schema";
+import {
+  pageRows,
+  sortValueOf,
+  type ComplaintListQuery,
+  type ListPageOptions,
+  type MeetingListQuery,
+  type ScenarioListQuery,
+  type SortOrder,
+  type SortValue,
+  type UserListQuery,
+} from "@shared/listing";
+import { isStaff } from "../auth";
+import { storage } from "../storage";
+import { expandMeetings, type ListedMeeting } from "./recurrence";
+
+const DATE_FIELDS = new Set(["createdAt", "updatedAt", "scheduledDate"]);
+const DESCENDING_BY_DEFAULT = new Set(["createdAt", "updatedAt", "priority"]);
+
+interface PageQuery<S extends string> {
+  sort: S;
+  order?: SortOrder;
+  cursor?: string;
+  limit: number;
+  search?: string;
+}
+
+export interface ListPage<T> {
+  items?: T[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+// Cursors name their sort field, so one cannot be replayed under another sort
+function encodeCursor(sort: string, row: { id: string }): string {
+  return Buffer.from(JSON.stringify([sort, sortValueOf(row, sort), row.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: string): { value: SortValue; id: string } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed[0] !== sort || typeof parsed[2] !== "string") return null;
+  const [, value, id] = parsed;
+  if (DATE_FIELDS.has(sort)) {
+    const date = new Date(value);
+    return typeof value === "string" && !Number.isNaN(date.getTime()) ? { value: date, id } : null;
+  }
+  if (sort === "priority") return typeof value === "number" ? { value, id } : null;
+  return typeof value === "string" ? { value, id } : null;
+}
+
+function pageOptions<S extends string>(query: PageQuery<S>): ListPageOptions<S> | null {
+  const after = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+  if (after === null) return null;
+  return {
+    sort: query.sort,
+    order: query.order ?? (DESCENDING_BY_DEFAULT.has(query.sort) ? "desc" : "asc"),
+    // One extra row tells whether another page follows
+    limit: query.limit + 1,
+    after,
+    search: query.search,
+  };
+}
+
+function toPage<T extends { id: string }>(rows: T[], query: PageQuery<string>): ListPage<T> {
+  const items = rows.slice(0, query.limit);
+  return { items, nextCursor: rows.length > query.limit ? encodeCursor(query.sort, items[items.length - 1]) : null };
+}
+
+export async function listComplaints(viewer: Express.User, query: ComplaintListQuery): Promise<ListPage<Complaint>> {
+  const page = pageOptions(query);
+  if (!page) {
+    return { error: "Invalid cursor" };
+  }
+  const rows = await storage.searchComplaints({
+    ...page,
+    statuses: query.status,
+    priorities: query.priority,
+    categories: query.category,
+    assignedTo: query.assignedTo === "unassigned" ? null : query.assignedTo,
+    // Employees only ever see the complaints they filed
+    submitterId: isStaff(viewer) ? undefined : viewer.id,
+    createdFrom: query.from,
+    createdTo: query.to,
+  });
+  return toPage(rows, query);
+}
+
+export async function listMeetings(viewer: Express.User, query: MeetingListQuery): Promise<ListPage<ListedMeeting>> {
+  const page = pageOptions(query);
+  if (!page) {
+    return { error: "Invalid cursor" };
+  }
+  const filters = {
+    statuses: query.status,
+    types: query.type,
+    participantId: isStaff(viewer) ? undefined : viewer.id,
+    search: query.search,
+  };
+  if (!query.from || !query.to) {
+    const rows = await storage.searchMeetings({ ...page, ...filters, scheduledFrom: query.from, scheduledTo: query.to });
+    return toPage(rows, query);
+  }
+
+  // Occurrences of a series share its id, so only their start keeps them apart
+  if (query.sort !== "scheduledDate") {
+    return { error: "Meetings in a from/to range can only be sorted by scheduledDate" };
+  }
+  // A series that began before the range may still recur inside it, so only
+  // the end of the range narrows the stored meetings
+  const meetings = await storage.searchMeetings({ ...filters, sort: "scheduledDate", order: "asc", scheduledTo: query.to });
+  const occurrences = await expandMeetings(meetings, query.from, query.to);
+  return toPage(pageRows(occurrences, page), query);
+}
+
+export async function listScenarios(query: ScenarioListQuery): Promise<ListPage<Scenario>> {
+  const page = pageOptions(query);
+  if (!page) {
+    return { error: "Invalid cursor" };
+  }
+  const rows = await storage.searchScenarios({
+    ...page,
+    riskLevels: query.riskLevel,
+    createdBy: query.createdBy,
+    createdFrom: query.from,
+    createdTo: query.to,
+  });
+  return toPage(rows, query);
+}
+
+export async function listUsers(query: UserListQuery): Promise<ListPage<User>> {
+  const page = pageOptions(query);
+  if (!page) {
+    return { error: "Invalid cursor" };
+  }
+  const rows = await storage.searchUsers({
+    ...page,
+    roles: query.role,
+    department: query.department,
+    isActive: query.active,
+  });
+  return toPage(rows, query);
+}
@@ -0,0 +1,50 @@
+const MAX_FAILED_ATTEMPTS = 5;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+interface AttemptRecord {
+  failures: number;
+  firstFailureAt: number;
+  lockedUntil: number | null;
+}
+
+// Tracks failed logins per phone number and locks the number out after
+// too many failures inside the window
+export class LoginAttemptTracker {
+  private attempts = new Map<string, AttemptRecord>();
+
+  constructor(
+    private maxFailures = MAX_FAILED_ATTEMPTS,
+    private windowMs = ATTEMPT_WINDOW_MS,
+    private lockoutMs = LOCKOUT_MS,
+  ) {}
+
+  // Milliseconds until the phone number may try again, or 0 if not locked
+  lockedFor(phone: string, now = Date.now()): number {
+    const record = this.attempts.get(phone);
+    if (!record?.lockedUntil) return 0;
+    if (record.lockedUntil <= now) {
+      this.attempts.delete(phone);
+      return 0;
+    }
+    return record.lockedUntil - now;
+  }
+
+  recordFailure(phone: string, now = Date.now()) {
+    let record = this.attempts.get(phone);
+    if (!record || now - record.firstFailureAt > this.windowMs) {
+      record = { failures: 0, firstFailureAt: now, lockedUntil: null };
+    }
+    record.failures += 1;
+    if (record.failures >= this.maxFailures) {
+      record.lockedUntil = now + this.lockoutMs;
+    }
+    this.attempts.set(phone, record);
+  }
+
+  reset(phone: string) {
+    this.attempts.delete(phone);
+  }
+}
+
+export const loginAttempts = new LoginAttemptTracker();
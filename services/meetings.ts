@@ -0,0 +1,427 @@
+import type { Meeting, InsertMeeting } from "@shared/schema";
+import type {
+  MeetingOutcome,
+  MeetingRsvp,
+  RecordMeetingOutcome,
+  RsvpResponse,
+  UpdateMeeting,
+} from "@shared/meetings";
+import { parseRecurrenceRule } from "@shared/recurrence";
+import { hasRole } from "../auth";
+import { storage } from "../storage";
+import { canSeeReporter, redactMeeting, reporterPseudonym } from "./anonymity";
+import { bumpCalendarSequence, getCalendarEntry, sendMeetingInvites } from "./calendar";
+import { createNotification } from "./notifications";
+import { DEFAULT_WORKING_HOURS, findConflicts, type MeetingConflict } from "./scheduling";
+import { expandRecurrence, getMeetingSeries, isOccurrence } from "./recurrence";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Recurring bookings are checked for clashes this far ahead
+const SERIES_CONFLICT_HORIZON_DAYS = 180;
+
+export interface MeetingChangeResult {
+  meeting?: Meeting;
+  error?: string;
+  conflicts?: MeetingConflict[];
+}
+
+export function isMeetingParticipant(meeting: Meeting, user: Express.User): boolean {
+  return meeting.organizerId === user.id || (meeting.attendeeIds?.includes(user.id) ?? false);
+}
+
+// Organizers manage their own meetings; HR managers can manage any
+export function canManageMeeting(meeting: Meeting, user: Express.User): boolean {
+  return meeting.organizerId === user.id || hasRole(user, "hr_manager");
+}
+
+async function notifyUsers(meeting: Meeting, userIds: string[], title: string, message: string, type: string) {
+  for (const userId of Array.from(new Set(userIds))) {
+    await createNotification({
+      userId,
+      title,
+      message,
+      type,
+      relatedEntityId: meeting.id,
+      relatedEntityType: "meeting",
+    });
+  }
+}
+
+function participantIds(meeting: Meeting): string[] {
+  return [meeting.organizerId, ...(meeting.attendeeIds ?? [])];
+}
+
+// Clashes for a one-off booking, or for each occurrence of a series within
+// the horizon
+async function checkConflicts(
+  participants: string[],
+  start: Date,
+  duration: number,
+  options: { rrule?: string | null; timezone: string; excludeMeetingId?: string },
+): Promise<MeetingConflict[]> {
+  const rule = options.rrule ? parseRecurrenceRule(options.rrule) : null;
+  const starts = rule
+    ? expandRecurrence(rule, start, options.timezone, start, new Date(start.getTime() + SERIES_CONFLICT_HORIZON_DAYS * DAY_MS))
+    : [start];
+
+  const conflicts: MeetingConflict[] = [];
+  for (const occurrence of starts) {
+    conflicts.push(...await findConflicts(participants, occurrence, duration, options.excludeMeetingId));
+  }
+  return conflicts;
+}
+
+// Books a meeting (or the first occurrence of a series) and invites attendees
+export async function scheduleMeeting(
+  data: InsertMeeting,
+  options: { timezone?: string; recurrence?: string } = {},
+): Promise<MeetingChangeResult> {
+  const timezone = options.timezone ?? DEFAULT_WORKING_HOURS.timezone;
+  const conflicts = await checkConflicts(
+    [data.organizerId, ...(data.attendeeIds ?? [])],
+    data.scheduledDate,
+    data.duration ?? 30,
+    { rrule: options.recurrence, timezone },
+  );
+  if (conflicts.length > 0) {
+    return { error: "One or more participants are already booked at that time", conflicts };
+  }
+
+  const meeting = await storage.createMeeting(data);
+  await getCalendarEntry(meeting, timezone);
+  if (options.recurrence) {
+    await storage.upsertMeetingRecurrence({ meetingId: meeting.id, rrule: options.recurrence });
+  }
+  await sendMeetingInvites(meeting, "REQUEST");
+  return { meeting };
+}
+
+// Applies edits to a scheduled meeting, or to every occurrence of a series.
+// Moving it (time, duration or recurrence) clears earlier RSVPs; attendees
+// get updated invites and removed ones a cancellation.
+export async function updateMeetingDetails(
+  meeting: Meeting,
+  changes: UpdateMeeting,
+  actor: Express.User,
+): Promise<MeetingChangeResult> {
+  if (meeting.status !== "scheduled") {
+    return { error: `A ${meeting.status} meeting cannot be changed` };
+  }
+
+  const { timezone, recurrence, ...updates } = changes;
+  const series = await getMeetingSeries(meeting);
+  const rrule = recurrence === undefined ? series?.rrule ?? null : recurrence;
+  const start = updates.scheduledDate ?? new Date(meeting.scheduledDate);
+  const duration = updates.duration ?? meeting.duration ?? 30;
+  const rescheduled = start.getTime() !== new Date(meeting.scheduledDate).getTime() ||
+    duration !== meeting.duration ||
+    rrule !== (series?.rrule ?? null);
+  const previousAttendees = meeting.attendeeIds ?? [];
+  const attendeeIds = updates.attendeeIds ?? previousAttendees;
+  const added = attendeeIds.filter(id => !previousAttendees.includes(id));
+  const removed = previousAttendees.filter(id => !attendeeIds.includes(id));
+
+  if (rescheduled || added.length > 0) {
+    const conflicts = await checkConflicts([meeting.organizerId, ...attendeeIds], start, duration, {
+      rrule,
+      timezone: timezone ?? (await getCalendarEntry(meeting)).timezone,
+      excludeMeetingId: meeting.id,
+    });
+    if (conflicts.length > 0) {
+      return { error: "One or more participants are already booked at that time", conflicts };
+    }
+  }
+
+  const updated = (await storage.updateMeeting(meeting.id, updates))!;
+  if (timezone) {
+    await getCalendarEntry(updated, timezone);
+  }
+  if (rrule) {
+    await storage.upsertMeetingRecurrence({ meetingId: meeting.id, rrule });
+  } else if (series) {
+    await storage.deleteMeetingRecurrence(meeting.id);
+  }
+  await bumpCalendarSequence(updated);
+  if (rescheduled) {
+    await storage.clearMeetingRsvps(meeting.id);
+  }
+
+  await sendMeetingInvites(updated, "REQUEST");
+  if (removed.length > 0) {
+    await sendMeetingInvites(updated, "CANCEL", { recipientIds: removed });
+  }
+
+  const others = participantIds(updated).filter(id => id !== actor.id);
+  await notifyUsers(
+    updated,
+    others,
+    rescheduled ? "Meeting rescheduled" : "Meeting updated",
+    rescheduled
+      ? `"${updated.title}" has moved to ${start.toUTCString()}`
+      : `The details of "${updated.title}" have changed`,
+    rescheduled ? "meeting_rescheduled" : "meeting_updated",
+  );
+  await notifyUsers(
+    updated,
+    removed.filter(id => id !== actor.id),
+    "Removed from meeting",
+    `You are no longer attending "${updated.title}"`,
+    "meeting_cancelled",
+  );
+  return { meeting: updated };
+}
+
+export async function cancelMeeting(meeting: Meeting, actor: Express.User, reason?: string): Promise<MeetingChangeResult> {
+  if (meeting.status !== "scheduled") {
+    return { error: `A ${meeting.status} meeting cannot be cancelled` };
+  }
+
+  const updated = (await storage.updateMeeting(meeting.id, { status: "cancelled" }))!;
+  await bumpCalendarSequence(updated);
+  await sendMeetingInvites(updated, "CANCEL");
+
+  const suffix = reason ? `: ${reason}` : "";
+  await notifyUsers(
+    updated,
+    participantIds(updated).filter(id => id !== actor.id),
+    "Meeting cancelled",
+    `"${updated.title}" on ${new Date(updated.scheduledDate).toUTCString()} has been cancelled${suffix}`,
+    "meeting_cancelled",
+  );
+  return { meeting: updated };
+}
+
+async function findException(seriesId: string, originalStart: Date) {
+  const exceptions = await storage.getMeetingExceptions(seriesId);
+  return exceptions.find(exception => new Date(exception.originalStart).getTime() === originalStart.getTime());
+}
+
+// Whether the series has an occurrence at this time (cancelled ones included)
+export async function hasOccurrence(meeting: Meeting, originalStart: Date): Promise<boolean> {
+  const series = await getMeetingSeries(meeting);
+  return !!series && isOccurrence(meeting, series, originalStart);
+}
+
+// Edits one occurrence by detaching it into a meeting of its own; later
+// edits to that occurrence go to the detached meeting. The series is
+// re-sent with the occurrence excluded.
+export async function updateOccurrence(
+  series: Meeting,
+  originalStart: Date,
+  changes: UpdateMeeting,
+  actor: Express.User,
+): Promise<MeetingChangeResult> {
+  if (series.status !== "scheduled") {
+    return { error: `A ${series.status} meeting cannot be changed` };
+  }
+  const exception = await findException(series.id, originalStart);
+  if (exception?.cancelled) {
+    return { error: "This occurrence has been cancelled" };
+  }
+  if (exception?.meetingId) {
+    const detached = await storage.getMeeting(exception.meetingId);
+    return detached ? updateMeetingDetails(detached, changes, actor) : { error: "Occurrence not found" };
+  }
+
+  const { timezone, recurrence, ...updates } = changes;
+  if (recurrence !== undefined) {
+    return { error: "Recurrence can only be changed for the whole series" };
+  }
+  const start = updates.scheduledDate ?? originalStart;
+  const duration = updates.duration ?? series.duration ?? 30;
+  const attendeeIds = updates.attendeeIds ?? series.attendeeIds ?? [];
+  const seriesTimezone = (await getCalendarEntry(series)).timezone;
+
+  // The series itself is excluded, so the occurrence does not clash with its own slot
+  const conflicts = await checkConflicts([series.organizerId, ...attendeeIds], start, duration, {
+    timezone: seriesTimezone,
+    excludeMeetingId: series.id,
+  });
+  if (conflicts.length > 0) {
+    return { error: "One or more participants are already booked at that time", conflicts };
+  }
+
+  const detached = await storage.createMeeting({
+    title: series.title,
+    description: series.description,
+    duration: series.duration,
+    organizerId: series.organizerId,
+    attendeeIds: series.attendeeIds,
+    meetingLink: series.meetingLink,
+    relatedComplaintId: series.relatedComplaintId,
+    type: series.type,
+    status: "scheduled",
+    ...updates,
+    scheduledDate: start,
+  });
+  await storage.upsertMeetingException({ seriesId: series.id, originalStart, meetingId: detached.id, cancelled: false });
+  await getCalendarEntry(detached, timezone ?? seriesTimezone);
+  await bumpCalendarSequence(series);
+
+  const when = originalStart.toUTCString();
+  await sendMeetingInvites(series, "REQUEST", {
+    body: `The occurrence of "${series.title}" on ${when} has been replaced by a separate invitation.`,
+  });
+  await sendMeetingInvites(detached, "REQUEST");
+  await notifyUsers(
+    detached,
+    participantIds(detached).filter(id => id !== actor.id),
+    "Meeting updated",
+    `The "${series.title}" meeting on ${when} has changed`,
+    "meeting_updated",
+  );
+  return { meeting: detached };
+}
+
+export async function cancelOccurrence(
+  series: Meeting,
+  originalStart: Date,
+  actor: Express.User,
+  reason?: string,
+): Promise<MeetingChangeResult> {
+  if (series.status !== "scheduled") {
+    return { error: `A ${series.status} meeting cannot be cancelled` };
+  }
+  const exception = await findException(series.id, originalStart);
+  if (exception?.cancelled) {
+    return { error: "This occurrence is already cancelled" };
+  }
+  if (exception?.meetingId) {
+    const detached = await storage.getMeeting(exception.meetingId);
+    return detached ? cancelMeeting(detached, actor, reason) : { error: "Occurrence not found" };
+  }
+
+  await storage.upsertMeetingException({ seriesId: series.id, originalStart, meetingId: null, cancelled: true });
+  await bumpCalendarSequence(series);
+
+  const when = originalStart.toUTCString();
+  const suffix = reason ? `: ${reason}` : "";
+  await sendMeetingInvites(series, "REQUEST", {
+    body: `The occurrence of "${series.title}" on ${when} has been cancelled${suffix}.`,
+  });
+  await notifyUsers(
+    series,
+    participantIds(series).filter(id => id !== actor.id),
+    "Meeting cancelled",
+    `The "${series.title}" meeting on ${when} has been cancelled${suffix}`,
+    "meeting_cancelled",
+  );
+  return { meeting: series };
+}
+
+// How an attendee is named to someone else, honouring complaint anonymity
+async function attendeeLabel(meeting: Meeting, userId: string, viewerId: string): Promise<string> {
+  const [user, viewer] = await Promise.all([storage.getUser(userId), storage.getUser(viewerId)]);
+  if (meeting.relatedComplaintId && viewer) {
+    const complaint = await storage.getComplaint(meeting.relatedComplaintId);
+    if (complaint && complaint.submitterId === userId && !canSeeReporter(complaint, viewer)) {
+      return reporterPseudonym(complaint.id);
+    }
+  }
+  return user?.name ?? "An attendee";
+}
+
+export async function respondToMeeting(
+  meeting: Meeting,
+  attendee: Express.User,
+  response: RsvpResponse,
+  comment?: string,
+): Promise<{ rsvp?: MeetingRsvp; error?: string }> {
+  if (!meeting.attendeeIds?.includes(attendee.id)) {
+    return { error: "Only invited attendees can respond" };
+  }
+  if (meeting.status !== "scheduled") {
+    return { error: `A ${meeting.status} meeting cannot be responded to` };
+  }
+
+  const rsvp = await storage.upsertMeetingRsvp({
+    meetingId: meeting.id,
+    userId: attendee.id,
+    response,
+    comment: comment ?? null,
+  });
+  if (meeting.organizerId !== attendee.id) {
+    const label = await attendeeLabel(meeting, attendee.id, meeting.organizerId);
+    await notifyUsers(meeting, [meeting.organizerId], "Meeting response", `${label} ${response} "${meeting.title}"`, "meeting_rsvp");
+  }
+  return { rsvp };
+}
+
+export interface AttendeeResponse {
+  userId: string;
+  response: RsvpResponse | "needs_action";
+  comment: string | null;
+  respondedAt: Date | null;
+}
+
+// Every invited attendee with their answer so far, ids redacted for the viewer
+export async function getAttendeeResponses(meeting: Meeting, viewer: Express.User): Promise<AttendeeResponse[]> {
+  const rsvps = await storage.getMeetingRsvps(meeting.id);
+  const shownIds = (await redactMeeting(meeting, viewer)).attendeeIds ?? [];
+  return (meeting.attendeeIds ?? []).map((userId, i) => {
+    const rsvp = rsvps.find(r => r.userId === userId);
+    return {
+      userId: shownIds[i] ?? userId,
+      response: (rsvp?.response as RsvpResponse | undefined) ?? "needs_action",
+      comment: rsvp?.comment ?? null,
+      respondedAt: rsvp?.respondedAt ?? null,
+    };
+  });
+}
+
+function outcomeNote(meeting: Meeting, outcome: MeetingOutcome): string {
+  const lines = [
+    `Meeting outcome: "${meeting.title}" (${new Date(meeting.scheduledDate).toUTCString()})`,
+    "",
+    "Minutes:",
+    outcome.minutes,
+  ];
+  if (outcome.agreedActions.length > 0) {
+    lines.push("", "Agreed actions:", ...outcome.agreedActions.map(action => `- ${action}`));
+  }
+  if (outcome.followUpDate) {
+    lines.push("", `Follow-up: ${new Date(outcome.followUpDate).toUTCString()}`);
+  }
+  return lines.join("\n");
+}
+
+// Records what happened and marks the meeting completed. For meetings about
+// a complaint the outcome is also filed on the case as an internal HR note.
+export async function recordMeetingOutcome(
+  meeting: Meeting,
+  actor: Express.User,
+  input: RecordMeetingOutcome,
+): Promise<{ outcome?: MeetingOutcome; meeting?: Meeting; error?: string }> {
+  if (meeting.status === "cancelled") {
+    return { error: "A cancelled meeting has no outcome" };
+  }
+  if (await getMeetingSeries(meeting)) {
+    return { error: "Record outcomes on a single occurrence of a recurring meeting" };
+  }
+  if (new Date(meeting.scheduledDate) > new Date()) {
+    return { error: "The meeting has not started yet" };
+  }
+
+  const outcome = await storage.upsertMeetingOutcome({
+    meetingId: meeting.id,
+    recordedBy: actor.id,
+    minutes: input.minutes,
+    agreedActions: input.agreedActions,
+    followUpDate: input.followUpDate ?? null,
+  });
+  const updated = meeting.status === "completed"
+    ? meeting
+    : (await storage.updateMeeting(meeting.id, { status: "completed" }))!;
+
+  if (meeting.relatedComplaintId && await storage.getComplaint(meeting.relatedComplaintId)) {
+    await storage.createComplaintMessage({
+      complaintId: meeting.relatedComplaintId,
+      authorId: actor.id,
+      fromReporter: false,
+      visibility: "internal",
+      parentId: null,
+      body: outcomeNote(meeting, outcome),
+    });
+  }
+  return { outcome, meeting: updated };
+}
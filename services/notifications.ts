@@ -0,0 +1,107 @@
+import type { Notification, InsertNotification } from "@shared/schema";
+import type { NotificationListQuery } from "@shared/notifications";
+import { storage } from "../storage";
+import { dispatchDeliveries, queueDeliveries } from "./delivery";
+
+export type NotificationEvent =
+  | { type: "notification"; notification: Notification; unreadCount: number }
+  | { type: "unread_count"; unreadCount: number };
+
+type Listener = (event: NotificationEvent) => void;
+
+// Fans notification events out to the live connections (WebSocket or SSE)
+// of each user in this process
+export class NotificationHub {
+  private listeners = new Map<string, Set<Listener>>();
+
+  // Returns a function that removes the listener again
+  subscribe(userId: string, listener: Listener): () => void {
+    let userListeners = this.listeners.get(userId);
+    if (!userListeners) {
+      userListeners = new Set();
+      this.listeners.set(userId, userListeners);
+    }
+    userListeners.add(listener);
+
+    return () => {
+      userListeners!.delete(listener);
+      if (userListeners!.size === 0) this.listeners.delete(userId);
+    };
+  }
+
+  hasSubscribers(userId: string): boolean {
+    return this.listeners.has(userId);
+  }
+
+  publish(userId: string, event: NotificationEvent) {
+    this.listeners.get(userId)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Notification listener error:", error);
+      }
+    });
+  }
+}
+
+export const notificationHub = new NotificationHub();
+
+// Stores a notification, pushes it to the recipient if they are connected
+// and queues its email/SMS copies. Outbound sending happens in the
+// background so a slow provider never holds up the caller.
+export async function createNotification(input: InsertNotification): Promise<Notification> {
+  const notification = await storage.createNotification(input);
+  if (notificationHub.hasSubscribers(notification.userId)) {
+    const unreadCount = await storage.countUnreadNotifications(notification.userId);
+    notificationHub.publish(notification.userId, { type: "notification", notification, unreadCount });
+  }
+
+  try {
+    const queued = await queueDeliveries(notification);
+    if (queued.length > 0) {
+      dispatchDeliveries().catch(error => console.error("Notification delivery failed:", error));
+    }
+  } catch (error) {
+    console.error("Failed to queue notification delivery:", error);
+  }
+  return notification;
+}
+
+// Keeps badges in other tabs in step after notifications are read
+export async function publishUnreadCount(userId: string) {
+  if (!notificationHub.hasSubscribers(userId)) return;
+  const unreadCount = await storage.countUnreadNotifications(userId);
+  notificationHub.publish(userId, { type: "unread_count", unreadCount });
+}
+
+function encodeCursor(notification: Notification): string {
+  return Buffer.from(`${new Date(notification.createdAt!).toISOString()}|${notification.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const date = new Date(createdAt);
+  return id && !Number.isNaN(date.getTime()) ? { createdAt: date, id } : null;
+}
+
+export interface NotificationPage {
+  items?: Notification[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+export async function listNotifications(userId: string, query: NotificationListQuery): Promise<NotificationPage> {
+  const before = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (before === null) {
+    return { error: "Invalid cursor" };
+  }
+
+  // One extra row tells whether another page follows
+  const rows = await storage.getNotificationsPage(userId, {
+    limit: query.limit + 1,
+    before,
+    unreadOnly: query.unreadOnly,
+  });
+  const items = rows.slice(0, query.limit);
+  return { items, nextCursor: rows.length > query.limit ? encodeCursor(items[items.length - 1]) : null };
+}
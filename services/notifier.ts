@@ -0,0 +1,36 @@
+import type { User } from "@shared/schema";
+
+export interface MessageAttachment {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export interface OutboundMessage {
+  subject: string;
+  body: string;
+  attachments?: MessageAttachment[];
+}
+
+// Delivers out-of-band messages (password reset links, etc.) to a user.
+// Swap the implementation with setNotifier() for a real email/SMS provider.
+export interface Notifier {
+  send(user: User, message: OutboundMessage): Promise<void>;
+}
+
+export class ConsoleNotifier implements Notifier {
+  async send(user: User, message: OutboundMessage): Promise<void> {
+    const attachments = message.attachments?.map(attachment => `\n[attachment] ${attachment.fileName} (${attachment.contentType})`) ?? [];
+    console.log(`[notifier] to ${user.phone} <${user.email}>: ${message.subject}\n${message.body}${attachments.join("")}`);
+  }
+}
+
+let notifier: Notifier = new ConsoleNotifier();
+
+export function getNotifier(): Notifier {
+  return notifier;
+}
+
+export function setNotifier(next: Notifier) {
+  notifier = next;
+}
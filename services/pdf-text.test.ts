@@ -0,0 +1,121 @@
+import { deflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { extractPdfText } from "./pdf-text";
+
+// Assembles a PDF from numbered object bodies (1 is the catalog). The xref
+// table is left out: the parser finds objects without it, as it must for
+// damaged files.
+function pdf(objects: (string | Buffer)[]): Buffer {
+  return Buffer.concat([
+    Buffer.from("%PDF-1.7\n", "latin1"),
+    ...objects.flatMap((body, index) => [
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]),
+    Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"),
+  ]);
+}
+
+function stream(dictionary: string, data: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+const FONT = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+
+// A one-page document whose page content is object 4
+function onePage(content: string | Buffer): (string | Buffer)[] {
+  return [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 5 0 R >> >> >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>",
+    typeof content === "string" ? stream("", Buffer.from(content, "latin1")) : content,
+    FONT,
+  ];
+}
+
+const LEAVE = "BT /F1 12 Tf 72 720 Td (Annual leave) Tj 0 -14 Td [(is 25 ) 10 (da) -30 (ys.)] TJ ET";
+
+describe("extractPdfText", () => {
+  it("reads text from an uncompressed content stream", () => {
+    expect(extractPdfText(pdf(onePage(LEAVE)))).toEqual(["Annual leave\nis 25 days."]);
+  });
+
+  it("inflates Flate-compressed content", () => {
+    const content = stream("/Filter /FlateDecode", deflateSync(Buffer.from(LEAVE, "latin1")));
+
+    expect(extractPdfText(pdf(onePage(content)))).toEqual(["Annual leave\nis 25 days."]);
+  });
+
+  it("reads objects packed in a compressed object stream", () => {
+    const objects = onePage(LEAVE);
+    // The page becomes object 6, which only exists inside object stream 3
+    objects[1] = "<< /Type /Pages /Kids [6 0 R] /Count 1 /Resources << /Font << /F1 5 0 R >> >> >>";
+    objects[2] = stream(
+      "/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode",
+      deflateSync(Buffer.from("6 0 << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>", "latin1")),
+    );
+
+    expect(extractPdfText(pdf(objects))).toEqual(["Annual leave\nis 25 days."]);
+  });
+
+  it("decodes escapes, hex strings and WinAnsi punctuation", () => {
+    const content = "BT /F1 12 Tf (Staff \\(full-time\\)) Tj ( \\223may\\224 ) Tj <6361727279> Tj ( over) Tj ET";
+
+    expect(extractPdfText(pdf(onePage(content)))).toEqual(["Staff (full-time) “may” carry over"]);
+  });
+
+  it("maps glyphs through a ToUnicode CMap", () => {
+    const cmap = "begincmap 1 begincodespacerange <0000> <FFFF> endcodespacerange " +
+      "2 beginbfchar <0001> <0048> <0002> <0069> endbfchar 1 beginbfrange <0010> <0011> <00E9> endbfrange endcmap";
+    const objects = onePage("BT /F1 12 Tf <0001000200100011> Tj ET");
+    objects[4] = "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 6 0 R >>";
+    objects.push(stream("", Buffer.from(cmap, "latin1")));
+
+    expect(extractPdfText(pdf(objects))).toEqual(["Hiéê"]);
+  });
+
+  it("returns the pages in page tree order", () => {
+    const file = pdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>",
+      stream("", Buffer.from("BT /F1 12 Tf (Second) Tj ET")),
+      stream("", Buffer.from("BT /F1 12 Tf (First) Tj ET")),
+      FONT,
+    ]);
+
+    expect(extractPdfText(file)).toEqual(["First", "Second"]);
+  });
+
+  it("reads what it can from damaged files", () => {
+    const complete = pdf(onePage(LEAVE));
+    // A wrong stream length and a file cut off after the content
+    const wrongLength = Buffer.from(complete.toString("latin1").replace(/\/Length \d+/, "/Length 9999"), "latin1");
+    const truncated = complete.subarray(0, complete.indexOf("5 0 obj"));
+
+    expect(extractPdfText(wrongLength)).toEqual(["Annual leave\nis 25 days."]);
+    expect(extractPdfText(truncated)).toEqual(["Annual leave\nis 25 days."]);
+  });
+
+  it("returns no text for garbage, unsupported filters and broken streams", () => {
+    const unsupported = onePage(stream("/Filter /DCTDecode", Buffer.from("not text")));
+    const corrupt = onePage(stream("/Filter /FlateDecode", Buffer.from("not deflate data")));
+
+    expect(extractPdfText(Buffer.from("%PDF-1.4\nthis is not a pdf"))).toEqual([]);
+    expect(extractPdfText(Buffer.alloc(0))).toEqual([]);
+    expect(extractPdfText(pdf(unsupported))).toEqual([""]);
+    expect(extractPdfText(pdf(corrupt))).toEqual([""]);
+  });
+
+  it("refuses streams that inflate past the size limit", () => {
+    const bomb = onePage(stream("/Filter /FlateDecode", deflateSync(Buffer.alloc(51 * 1024 * 1024))));
+
+    expect(() => extractPdfText(pdf(bomb))).toThrow("PDF streams inflate past the size limit");
+  });
+});
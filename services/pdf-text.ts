@@ -0,0 +1,508 @@
+import { inflateSync } from "zlib";
+
+// Minimal PDF text extractor for policy documents: walks the page tree
+// (including objects packed in object streams), inflates Flate-encoded
+// content and reads the text-showing operators. Fonts with a ToUnicode map
+// are decoded through it and others as WinAnsi. Scanned PDFs have no text to
+// extract and encrypted ones are not supported.
+
+class PdfName {
+  constructor(public name: string) {}
+}
+
+class PdfRef {
+  constructor(public num: number) {}
+}
+
+class PdfOperator {
+  constructor(public op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | Buffer | PdfName | PdfRef | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+// Inflated output allowed per document, across all of its streams, so a
+// small upload cannot expand into gigabytes
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set("()<>[]{}/%".split("").map(char => char.charCodeAt(0)));
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+// Reads PDF values from a buffer, in object syntax or content stream syntax
+class PdfParser {
+  pos = 0;
+
+  constructor(private data: Buffer, start = 0) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    this.skipSpace();
+    return this.pos >= this.data.length;
+  }
+
+  private skipSpace() {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment to end of line
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private word(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length && isRegular(this.data[this.pos])) this.pos++;
+    return this.data.toString("latin1", start, this.pos);
+  }
+
+  private literalString(): Buffer {
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++];
+      if (byte === 0x5c) {
+        const next = this.data[this.pos++];
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = String.fromCharCode(next);
+          while (octal.length < 3 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37) {
+            octal += String.fromCharCode(this.data[this.pos++]);
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === 0x0d) {
+          // Line continuation
+          if (this.data[this.pos] === 0x0a) this.pos++;
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private hexString(): Buffer {
+    const end = this.data.indexOf(0x3e, this.pos);
+    const hex = this.data.toString("latin1", this.pos + 1, end === -1 ? this.data.length : end).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end === -1 ? this.data.length : end + 1;
+    return Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+  }
+
+  // The next value, or an operator keyword in content streams. Indirect
+  // references ("12 0 R") are folded into a single PdfRef.
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipSpace();
+    if (this.pos >= this.data.length) return undefined;
+    const byte = this.data[this.pos];
+
+    if (byte === 0x28) return this.literalString();
+    if (byte === 0x2f) {
+      this.pos++;
+      return new PdfName(this.word().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+    }
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return this.dict();
+      }
+      return this.hexString();
+    }
+    if (byte === 0x5b) {
+      this.pos++;
+      return this.array();
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x7b || byte === 0x7d || byte === 0x29) {
+      this.pos++;
+      return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    const word = this.word();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = Number(word);
+      // Look ahead for "<num> <gen> R"
+      if (/^\d+$/.test(word)) {
+        const saved = this.pos;
+        this.skipSpace();
+        const generation = this.word();
+        this.skipSpace();
+        if (/^\d+$/.test(generation) && this.data[this.pos] === 0x52 && !isRegular(this.data[this.pos + 1] ?? 0x20)) {
+          this.pos++;
+          return new PdfRef(number);
+        }
+        this.pos = saved;
+      }
+      return number;
+    }
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    if (!word) {
+      // Stray delimiter
+      this.pos++;
+      return this.next();
+    }
+    return new PdfOperator(word);
+  }
+
+  value(): PdfValue {
+    const next = this.next();
+    return next instanceof PdfOperator || next === undefined ? null : next;
+  }
+
+  private array(): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const next = this.next();
+      if (next === undefined || (next instanceof PdfOperator && next.op === "]")) return items;
+      if (!(next instanceof PdfOperator)) items.push(next);
+    }
+  }
+
+  private dict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.data.length) return dict;
+      if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        return dict;
+      }
+      const key = this.next();
+      if (!(key instanceof PdfName)) continue;
+      dict.set(key.name, this.value());
+    }
+  }
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+class PdfFile {
+  private objects = new Map<number, PdfObject>();
+  private inflated = 0;
+
+  constructor(private data: Buffer) {
+    this.readObjects();
+    this.readObjectStreams();
+  }
+
+  // Scans for "n g obj" rather than trusting the xref table, so damaged or
+  // incrementally updated files still read; later definitions win
+  private readObjects() {
+    const text = this.data.toString("latin1");
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text))) {
+      const parser = new PdfParser(this.data, match.index + match[0].length);
+      const value = parser.value();
+      const object: PdfObject = { value };
+      const after = text.slice(parser.pos, parser.pos + 20);
+      const streamKeyword = /^\s*stream\r?\n/.exec(after);
+      if (streamKeyword && isDict(value)) {
+        const start = parser.pos + streamKeyword[0].length;
+        const length = value.get("Length");
+        const end = typeof length === "number" && text.startsWith("endstream", this.skipEol(text, start + length))
+          ? start + length
+          : text.indexOf("endstream", start);
+        object.stream = this.data.subarray(start, end === -1 ? this.data.length : end);
+        header.lastIndex = end === -1 ? this.data.length : end;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  private skipEol(text: string, pos: number): number {
+    while (text[pos] === "\r" || text[pos] === "\n" || text[pos] === " ") pos++;
+    return pos;
+  }
+
+  private readObjectStreams() {
+    for (const object of Array.from(this.objects.values())) {
+      if (!isDict(object.value) || nameOf(object.value.get("Type")) !== "ObjStm") continue;
+      const data = this.decode(object);
+      const first = object.value.get("First");
+      const count = object.value.get("N");
+      if (!data || typeof first !== "number" || typeof count !== "number") continue;
+      const header = new PdfParser(data);
+      for (let i = 0; i < count; i++) {
+        const num = header.value();
+        const offset = header.value();
+        if (typeof num !== "number" || typeof offset !== "number") break;
+        if (!this.objects.has(num)) {
+          this.objects.set(num, { value: new PdfParser(data, first + offset).value() });
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num)?.value : value;
+  }
+
+  private object(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+  }
+
+  // Stream contents with Flate decoding applied; null for other filters.
+  // Throws once the document inflates past MAX_INFLATED_BYTES.
+  decode(object: PdfObject | undefined): Buffer | null {
+    if (!object?.stream || !isDict(object.value)) return null;
+    const filter = this.resolve(object.value.get("Filter"));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(nameOf);
+    let data = object.stream;
+    for (const name of filters) {
+      if (name !== "FlateDecode") return null;
+      try {
+        data = inflateSync(data, { maxOutputLength: Math.max(1, MAX_INFLATED_BYTES - this.inflated) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error("PDF streams inflate past the size limit");
+        }
+        return null;
+      }
+      this.inflated += data.length;
+    }
+    return data;
+  }
+
+  stream(value: PdfValue | undefined): Buffer | null {
+    return this.decode(this.object(value));
+  }
+
+  // Page dictionaries in reading order, with inherited resources filled in
+  pages(): PdfDict[] {
+    const catalog = Array.from(this.objects.values()).find(object => isDict(object.value) && nameOf(object.value.get("Type")) === "Catalog");
+    const root = isDict(catalog?.value) ? this.resolve(catalog.value.get("Pages")) : undefined;
+    const pages: PdfDict[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfValue | undefined, resources: PdfValue | undefined) => {
+      if (!isDict(node) || seen.has(node)) return;
+      seen.add(node);
+      const inherited = node.get("Resources") ?? resources;
+      if (nameOf(node.get("Type")) === "Page" || !node.has("Kids")) {
+        pages.push(new Map([...Array.from(node), ["Resources", inherited ?? null]]));
+        return;
+      }
+      const kids = this.resolve(node.get("Kids"));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.resolve(kid), inherited);
+      }
+    };
+    walk(root, undefined);
+    if (pages.length > 0) return pages;
+
+    // No usable page tree: take page objects in file order
+    return Array.from(this.objects.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, object]) => object.value)
+      .filter((value): value is PdfDict => isDict(value) && nameOf(value.get("Type")) === "Page");
+  }
+}
+
+interface FontDecoder {
+  decode(bytes: Buffer): string;
+}
+
+// Where WinAnsiEncoding differs from Latin-1: quotes, dashes, bullets and
+// the euro sign in 0x80-0x9F
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€", 0x82: "‚", 0x84: "„", 0x85: "…", 0x8b: "‹", 0x91: "‘", 0x92: "’", 0x93: "“", 0x94: "”",
+  0x95: "•", 0x96: "–", 0x97: "—", 0x99: "™", 0x9b: "›",
+};
+
+const winAnsi: FontDecoder = {
+  decode: bytes => Array.from(bytes, byte => WIN_ANSI[byte] ?? String.fromCharCode(byte)).join(""),
+};
+
+function utf16(hex: string): string {
+  const buffer = Buffer.from(hex, "hex");
+  let text = "";
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    text += String.fromCharCode(buffer.readUInt16BE(i));
+  }
+  return text;
+}
+
+// Reads the bfchar and bfrange sections of a ToUnicode CMap
+function parseToUnicode(cmap: string): FontDecoder {
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const [, source, target] of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      codeBytes = Math.max(codeBytes, source.length / 2);
+      map.set(parseInt(source, 16), utf16(target));
+    }
+  }
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const [, low, high, target] of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g))) {
+      codeBytes = Math.max(codeBytes, low.length / 2);
+      const start = parseInt(low, 16);
+      const end = parseInt(high, 16);
+      if (target.startsWith("[")) {
+        const targets = Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g), ([, hex]) => utf16(hex));
+        targets.forEach((text, i) => map.set(start + i, text));
+      } else {
+        const base = Buffer.from(target.slice(1, -1), "hex");
+        if (base.length < 2) continue;
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          const shifted = Buffer.from(base);
+          shifted.writeUInt16BE((base.readUInt16BE(base.length - 2) + code - start) & 0xffff, base.length - 2);
+          map.set(code, utf16(shifted.toString("hex")));
+        }
+      }
+    }
+  }
+  return {
+    decode(bytes) {
+      let text = "";
+      for (let i = 0; i + codeBytes <= bytes.length; i += codeBytes) {
+        text += map.get(bytes.readUIntBE(i, codeBytes)) ?? "";
+      }
+      return text;
+    },
+  };
+}
+
+function fontDecoders(file: PdfFile, page: PdfDict): Map<string, FontDecoder> {
+  const decoders = new Map<string, FontDecoder>();
+  const resources = file.resolve(page.get("Resources"));
+  const fonts = isDict(resources) ? file.resolve(resources.get("Font")) : undefined;
+  if (!isDict(fonts)) return decoders;
+  for (const [name, ref] of Array.from(fonts)) {
+    const font = file.resolve(ref);
+    if (!isDict(font)) continue;
+    const cmap = file.stream(font.get("ToUnicode"));
+    if (cmap) {
+      decoders.set(name, parseToUnicode(cmap.toString("latin1")));
+    } else if (nameOf(font.get("Subtype")) === "Type0") {
+      // Glyph ids without a Unicode map cannot be read back as text
+      decoders.set(name, { decode: () => "" });
+    }
+  }
+  return decoders;
+}
+
+// Gap, in thousandths of an em, in a TJ array that reads as a word break
+const TJ_SPACE = 200;
+
+function contentText(content: Buffer, fonts: Map<string, FontDecoder>): string {
+  const parser = new PdfParser(content);
+  const operands: PdfValue[] = [];
+  let font = winAnsi;
+  let text = "";
+  let lastY: number | undefined;
+
+  const newline = () => {
+    if (text && !text.endsWith("\n")) text += "\n";
+  };
+  const show = (bytes: PdfValue) => {
+    if (Buffer.isBuffer(bytes)) text += font.decode(bytes);
+  };
+
+  while (!parser.done) {
+    const token = parser.next();
+    if (token === undefined) break;
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+    switch (token.op) {
+      case "Tf":
+        font = fonts.get(nameOf(operands[0]) ?? "") ?? winAnsi;
+        break;
+      case "Tj":
+        show(operands[0]);
+        break;
+      case "'":
+        newline();
+        show(operands[0]);
+        break;
+      case "\"":
+        newline();
+        show(operands[2]);
+        break;
+      case "TJ":
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (typeof item === "number") {
+            if (item < -TJ_SPACE && !text.endsWith(" ")) text += " ";
+          } else {
+            show(item);
+          }
+        }
+        break;
+      case "Td":
+      case "TD":
+        if (operands[1] !== 0) newline();
+        else if (typeof operands[0] === "number" && operands[0] > 0 && !text.endsWith(" ")) text += " ";
+        break;
+      case "Tm":
+        if (operands[5] !== lastY) newline();
+        lastY = typeof operands[5] === "number" ? operands[5] : undefined;
+        break;
+      case "T*":
+      case "ET":
+        newline();
+        break;
+      case "BT":
+        lastY = undefined;
+        break;
+      case "ID": {
+        // Inline image data runs to the next "EI"
+        const end = content.indexOf("EI", parser.pos);
+        parser.pos = end === -1 ? content.length : end + 2;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return text;
+}
+
+// The text of each page, in order
+export function extractPdfText(data: Buffer): string[] {
+  const file = new PdfFile(data);
+  return file.pages().map(page => {
+    const contents = file.resolve(page.get("Contents"));
+    const streams = Array.isArray(contents) ? contents : [page.get("Contents")];
+    const content = Buffer.concat(streams.flatMap(ref => {
+      const stream = file.stream(ref);
+      return stream ? [stream, Buffer.from("\n")] : [];
+    }));
+    return contentText(content, fontDecoders(file, page))
+      .split("\n")
+      .map(line => line.replace(/\s+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  });
+}
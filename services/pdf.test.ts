@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { buildPdf } from "./pdf";
+import { extractPdfText } from "./pdf-text";
+
+const GENERATED_AT = new Date("2025-03-03T12:00:00Z");
+
+describe("buildPdf", () => {
+  it("writes a file whose cross-reference table points at its objects", () => {
+    const pdf = buildPdf({ title: "Complaints report", subtitle: [], tables: [] }, GENERATED_AT);
+    const text = pdf.toString("latin1");
+
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    const startxref = Number(/startxref\n(\d+)\n%%EOF/.exec(text)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`)));
+  });
+
+  it("prints the title, subtitle, table and footer so they read back", () => {
+    const pdf = buildPdf({
+      title: "Meeting log",
+      subtitle: ["Scheduled 2025-03-01 to 2025-03-31 (UTC)"],
+      tables: [{
+        title: "Meetings",
+        columns: ["Title", "Scheduled", "Outcome recorded"],
+        rows: [["Check-in (weekly)", new Date("2025-03-03T09:00:00Z"), true]],
+      }],
+    }, GENERATED_AT);
+
+    const [page] = extractPdfText(pdf);
+
+    expect(page).toContain("Meeting log");
+    expect(page).toContain("Scheduled 2025-03-01 to 2025-03-31 (UTC)");
+    expect(page).toContain("Check-in (weekly)");
+    expect(page).toContain("2025-03-03 09:00 UTC");
+    expect(page).toContain("Yes");
+    expect(page).toContain("Page 1 of 1");
+  });
+
+  it("says when a table is empty", () => {
+    const [page] = extractPdfText(buildPdf({ title: "Report", subtitle: [], tables: [{ title: "Rows", columns: ["A"], rows: [] }] }));
+
+    expect(page).toContain("No data for this period");
+  });
+
+  it("carries long tables onto more pages and repeats the header", () => {
+    const rows = Array.from({ length: 120 }, (_, index) => [`Row ${index + 1}`]);
+
+    const pages = extractPdfText(buildPdf({ title: "Report", subtitle: [], tables: [{ title: "Rows", columns: ["Name"], rows }] }));
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.every(page => page.includes("Name"))).toBe(true);
+    expect(pages.at(-1)).toContain("Row 120");
+    expect(pages.at(-1)).toContain(`Page ${pages.length} of ${pages.length}`);
+  });
+});
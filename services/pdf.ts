@@ -0,0 +1,264 @@
+import { deflateSync } from "zlib";
+
+// Minimal PDF 1.4 writer for tabular reports: A4 landscape pages, the
+// built-in Helvetica fonts (WinAnsi, so text outside Latin-1 prints as "?"),
+// tables that wrap cells and repeat their header row across pages
+
+export type PdfCell = string | number | boolean | Date | null | undefined;
+
+export interface PdfTable {
+  title: string;
+  columns: string[];
+  rows: PdfCell[][];
+}
+
+export interface PdfDocument {
+  title: string;
+  // Lines printed under the title, e.g. the period and filters
+  subtitle: string[];
+  tables: PdfTable[];
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 24;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+const CELL_PADDING = 3;
+const MAX_CELL_LINES = 4;
+const MIN_COLUMN_WIDTH = 40;
+
+// Approximate Helvetica advance widths in thousandths of an em
+function charWidth(char: string): number {
+  if (/[il.,:;|!'`]/.test(char)) return 250;
+  if (/[fjrt ()[\]\-/]/.test(char)) return 320;
+  if (/[mwMW@%]/.test(char)) return 850;
+  if (/[A-Z]/.test(char)) return 670;
+  if (/[0-9]/.test(char)) return 556;
+  return 520;
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function cellText(value: PdfCell): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return `${value.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// Word-wraps to the width, breaking long words, and ellipsizes past maxLines
+function wrap(text: string, width: number, size: number, maxLines: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      candidate = word;
+      while (textWidth(candidate, size, bold) > width && candidate.length > 1) {
+        let fit = candidate.length - 1;
+        while (fit > 1 && textWidth(candidate.slice(0, fit), size, bold) > width) fit--;
+        lines.push(candidate.slice(0, fit));
+        candidate = candidate.slice(fit);
+      }
+      line = candidate;
+    }
+    lines.push(line);
+  }
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && textWidth(`${last}...`, size, bold) > width) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last}...`;
+  return kept;
+}
+
+function pdfString(text: string): string {
+  let escaped = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === "\\" || char === "(" || char === ")") escaped += `\\${char}`;
+    else if (code >= 32 && code < 127) escaped += char;
+    else if (code >= 160 && code <= 255) escaped += `\\${code.toString(8).padStart(3, "0")}`;
+    else if (code === 9) escaped += " ";
+    else escaped += "?";
+  }
+  return `(${escaped})`;
+}
+
+// Shares each table's width by the longest text in each column, so short
+// columns keep their natural width and long ones share what is left
+function columnWidths(table: PdfTable): number[] {
+  const natural = table.columns.map((column, index) => Math.max(
+    textWidth(column, FONT_SIZE, true),
+    ...table.rows.map(row => textWidth(cellText(row[index]), FONT_SIZE)),
+  ) + 2 * CELL_PADDING);
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  if (total <= CONTENT_WIDTH) {
+    return natural.map(width => width + (CONTENT_WIDTH - total) / natural.length);
+  }
+  const fair = CONTENT_WIDTH / natural.length;
+  const narrow = natural.filter(width => width <= fair);
+  const spare = CONTENT_WIDTH - narrow.reduce((sum, width) => sum + width, 0);
+  const wide = natural.filter(width => width > fair).reduce((sum, width) => sum + width, 0);
+  return natural.map(width => width <= fair ? width : Math.max(MIN_COLUMN_WIDTH, (width / wide) * spare));
+}
+
+class PageWriter {
+  pages: string[][] = [];
+  private ops: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= MARGIN + FOOTER_HEIGHT) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(x: number, y: number, text: string, size: number, bold = false) {
+    this.ops.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  fill(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`${gray} g ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f 0 g`);
+  }
+
+  line(x1: number, y: number, x2: number, gray: number) {
+    this.ops.push(`${gray} G 0.5 w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S 0 G`);
+  }
+}
+
+function drawRow(writer: PageWriter, cells: string[][], widths: number[], header: boolean) {
+  const height = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+  if (header) writer.fill(MARGIN, writer.y - height, CONTENT_WIDTH, height, 0.9);
+  let x = MARGIN;
+  cells.forEach((lines, index) => {
+    lines.forEach((line, lineIndex) => {
+      const baseline = writer.y - CELL_PADDING - FONT_SIZE - lineIndex * LINE_HEIGHT + 1;
+      writer.text(x + CELL_PADDING, baseline, line, FONT_SIZE, header);
+    });
+    x += widths[index];
+  });
+  writer.y -= height;
+  writer.line(MARGIN, writer.y, MARGIN + CONTENT_WIDTH, header ? 0.5 : 0.85);
+}
+
+function drawTable(writer: PageWriter, table: PdfTable) {
+  const widths = columnWidths(table);
+  const inner = widths.map(width => width - 2 * CELL_PADDING);
+  const header = table.columns.map((column, index) => wrap(column, inner[index], FONT_SIZE, 2, true));
+  const headerHeight = Math.max(...header.map(lines => lines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+
+  // Keep the title with the header and at least one row
+  writer.ensureSpace(18 + headerHeight + LINE_HEIGHT + 2 * CELL_PADDING);
+  writer.text(MARGIN, writer.y - 11, table.title, 11, true);
+  writer.y -= 18;
+  drawRow(writer, header, widths, true);
+
+  if (table.rows.length === 0) {
+    writer.text(MARGIN + CELL_PADDING, writer.y - CELL_PADDING - FONT_SIZE, "No data for this period", FONT_SIZE);
+    writer.y -= LINE_HEIGHT + 2 * CELL_PADDING;
+  }
+  for (const row of table.rows) {
+    const cells = table.columns.map((_, index) => wrap(cellText(row[index]), inner[index], FONT_SIZE, MAX_CELL_LINES));
+    const height = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+    if (writer.ensureSpace(height)) {
+      drawRow(writer, header, widths, true);
+    }
+    drawRow(writer, cells, widths, false);
+  }
+  writer.y -= 16;
+}
+
+export function buildPdf(document: PdfDocument, generatedAt = new Date()): Buffer {
+  const writer = new PageWriter();
+  writer.text(MARGIN, writer.y - 16, document.title, 16, true);
+  writer.y -= 24;
+  for (const line of document.subtitle) {
+    writer.text(MARGIN, writer.y - 9, line, 9);
+    writer.y -= 13;
+  }
+  writer.y -= 8;
+  document.tables.forEach(table => drawTable(writer, table));
+
+  const footer = `${document.title} - generated ${cellText(generatedAt)}`;
+  const pageCount = writer.pages.length;
+  const contents = writer.pages.map((ops, index) => {
+    const pageLabel = `Page ${index + 1} of ${pageCount}`;
+    return [
+      ...ops,
+      `BT /F1 8 Tf ${MARGIN} ${MARGIN} Td ${pdfString(footer)} Tj ET`,
+      `BT /F1 8 Tf ${(PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8)).toFixed(2)} ${MARGIN} Td ${pdfString(pageLabel)} Tj ET`,
+    ].join("\n");
+  });
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const objects: (string | Buffer)[] = [];
+  const pageIds = contents.map((_, index) => 6 + index * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  const stamp = generatedAt.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  objects[5] = `<< /Title ${pdfString(document.title)} /Producer (HumanAllies) /CreationDate (D:${stamp}Z) >>`;
+  contents.forEach((content, index) => {
+    const stream = deflateSync(Buffer.from(content, "latin1"));
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      stream,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    const body = objects[id];
+    const chunk = Buffer.concat([
+      Buffer.from(`${id} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    offsets[id] = offset;
+    offset += chunk.length;
+    chunks.push(chunk);
+  }
+
+  const xref = [
+    "xref",
+    `0 ${objects.length}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map(position => `${String(position).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+  return Buffer.concat(chunks);
+}
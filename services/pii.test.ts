@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { createPiiRedactor, PiiRedactor, PiiStreamRestorer, restorePii } from "./pii";
+
+function redact(text: string) {
+  const redactor = new PiiRedactor([]);
+  return { text: redactor.redact(text), redactor };
+}
+
+describe("PiiRedactor", () => {
+  it("replaces emails, phone numbers and identifiers", () => {
+    const { text, redactor } = redact(
+      "Write to jo.bloggs@example.com or call +44 20 7946 0958, (555) 123-4567 or 07700 900123. SSN 123-45-6789.",
+    );
+
+    expect(text).toBe("Write to [EMAIL_1] or call [PHONE_1], [PHONE_2] or [PHONE_3]. SSN [ID_NUMBER_1].");
+    expect(redactor.categories).toEqual({ email: 1, phone: 3, id_number: 1 });
+  });
+
+  it("gives the same value the same placeholder", () => {
+    const { text, redactor } = redact("Call 555-123-4567, I said 555-123-4567.");
+
+    expect(text).toBe("Call [PHONE_1], I said [PHONE_1].");
+    expect(redactor.categories).toEqual({ phone: 1 });
+  });
+
+  it.each([
+    "On 2024-01-15 10:30 he shouted at me.",
+    "It happened on 15/01/2024 at 09:45.",
+    "Between 2024-01-15 and 2024-02-01.",
+    "Please check invoice 12345678901.",
+    "Order number 4000123456 was refunded.",
+  ])("leaves %j alone", input => {
+    const { text, redactor } = redact(input);
+
+    expect(text).toBe(input);
+    expect(redactor.categories).toEqual({});
+  });
+
+  it("finds a phone number next to a date", () => {
+    expect(redact("On 2024-01-15 10:30 I called 0207 946 0958.").text).toBe("On 2024-01-15 10:30 I called [PHONE_1].");
+  });
+
+  it("replaces medical details but keeps protected characteristics", () => {
+    expect(redact("After my surgery and while pregnant I was given a sick note.").text)
+      .toBe("After my [MEDICAL_1] and while pregnant I was given a [MEDICAL_2].");
+  });
+
+  it("recognises the names and handles of known users", async () => {
+    await storage.createUser({
+      username: "m.okonkwo",
+      password: "correct horse battery staple",
+      email: "m.okonkwo@company.com",
+      phone: "+15553000001",
+      name: "Mira Okonkwo",
+      role: "employee",
+      department: "Finance",
+    });
+    await storage.createUser({
+      username: "will",
+      password: "correct horse battery staple",
+      email: "will@company.com",
+      phone: "+15553000002",
+      name: "Will",
+      role: "employee",
+      department: "Finance",
+    });
+    const redactor = await createPiiRedactor();
+
+    const text = redactor.redact("mira okonkwo (m.okonkwo) said Okonkwo will tell Will.");
+
+    expect(text).toBe("[PERSON_1] ([PERSON_1]) said [PERSON_1] will tell [PERSON_2].");
+    expect(redactor.tokenMap).toMatchObject({ "[PERSON_1]": "Mira Okonkwo", "[PERSON_2]": "Will" });
+  });
+});
+
+describe("restorePii", () => {
+  it("puts the values back and leaves unknown placeholders", () => {
+    const { text, redactor } = redact("Email jo@example.com about [PHONE_9].");
+
+    expect(restorePii(text, redactor.tokenMap)).toBe("Email jo@example.com about [PHONE_9].");
+  });
+
+  it("restores placeholders split across streamed pieces", () => {
+    const tokens = { "[PERSON_1]": "Mira Okonkwo" };
+    const pieces: string[] = [];
+    const restorer = new PiiStreamRestorer(text => pieces.push(text));
+
+    restorer.write("Ask [PERS", tokens);
+    restorer.write("ON_1] about it [", tokens);
+    restorer.end(tokens);
+
+    expect(pieces.join("")).toBe("Ask Mira Okonkwo about it [");
+  });
+});
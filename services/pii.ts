@@ -0,0 +1,188 @@
+import type { Complaint, User } from "@shared/schema";
+import type { PiiCategory, PiiCounts } from "@shared/ai";
+import { hasRole } from "../auth";
+import { storage } from "../storage";
+
+// Personal data is swapped for placeholders such as [PERSON_1] before any
+// text reaches an AI provider. The same value always gets the same
+// placeholder within a call, so the model can still tell people apart, and
+// the placeholder map stays on the server to restore the output for viewers
+// allowed to see it.
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// US social security numbers and letter-prefixed identifiers such as
+// passport, national insurance or employee numbers
+const ID_NUMBER = /\b(?:\d{3}-\d{2}-\d{4}|[A-Z]{1,3}\d{6,10}[A-Z]?)\b/g;
+// A run of digits and separators that does not touch a time such as 10:30
+const PHONE = /(?<![\w+(:])(?:\+|\()?\d[\d\s().-]{6,}\d(?![\w:])/g;
+// Numbers are only phones when written like one: international, with a
+// trunk prefix or in groups. A bare run such as an invoice number is not.
+const PHONE_LIKE = /^[+(0]|\d[\s().-]+\d/;
+// A date, alone or followed by a time, is never a phone
+const DATE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})(?=\s|$)/;
+// Conditions and treatments. Protected characteristics such as pregnancy or
+// disability are left in because the analysis needs them to recognise
+// discrimination.
+const MEDICAL = new RegExp(`\\b(?:${[
+  "diagnos\\w*", "cancer", "chemo\\w*", "tumou?rs?", "diabet\\w*", "hiv", "epilep\\w*", "asthma", "depression",
+  "bipolar", "schizophreni\\w*", "ptsd", "adhd", "autis\\w*", "dementia", "migraines?", "miscarriage", "surgery",
+  "medications?", "prescri\\w*", "psychiatr\\w*", "therapist", "rehab\\w*", "panic attacks?", "anxiety disorder",
+  "heart attack", "covid(?:-19)?", "sick note", "medical condition",
+].join("|")})\\b`, "gi");
+
+const PLACEHOLDER = /\[(?:PERSON|EMAIL|PHONE|ID_NUMBER|MEDICAL)_\d+\]/g;
+
+interface NamePattern {
+  key: string;
+  value: string;
+  pattern: RegExp;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordPattern(value: string, flags: string): RegExp {
+  return new RegExp(`(?<![\\w@])${escapeRegExp(value).replace(/\s+/g, "\\s+")}(?![\\w@])`, flags);
+}
+
+// Full names match in any case; single-word names and name parts only when
+// capitalized, so "Will" is caught but "will" is not. Usernames are matched
+// only when they look like handles ("j.smith", "wgates2") since a plain
+// username such as "manager" is usually an ordinary word. A part shared by
+// several users stands only for itself rather than for one of them. Longer
+// patterns run first so a full name is not split into its parts.
+function namePatterns(users: User[]): NamePattern[] {
+  const partCounts = new Map<string, number>();
+  for (const user of users) {
+    for (const part of Array.from(new Set(user.name.trim().split(/\s+/)))) {
+      partCounts.set(part, (partCounts.get(part) ?? 0) + 1);
+    }
+  }
+
+  const patterns: NamePattern[] = [];
+  for (const user of users) {
+    const name = user.name.trim();
+    if (!name) continue;
+    const key = `person:${user.id}`;
+    if (user.username.length >= 3 && /[._\d]/.test(user.username) && !/^\+?\d+$/.test(user.username)) {
+      patterns.push({ key, value: name, pattern: wordPattern(user.username, "gi") });
+    }
+    const parts = name.split(/\s+/);
+    if (parts.length === 1) {
+      patterns.push({ key, value: name, pattern: wordPattern(name[0].toUpperCase() + name.slice(1), "g") });
+      continue;
+    }
+    patterns.push({ key, value: name, pattern: wordPattern(name, "gi") });
+    for (const part of parts.filter(part => part.length >= 3)) {
+      const capitalized = part[0].toUpperCase() + part.slice(1);
+      const pattern = wordPattern(capitalized, "g");
+      patterns.push(partCounts.get(part)! > 1
+        ? { key: `person:${capitalized}`, value: capitalized, pattern }
+        : { key, value: name, pattern });
+    }
+  }
+  return patterns.sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+}
+
+export class PiiRedactor {
+  private tokens = new Map<string, string>();
+  private tokenByKey = new Map<string, string>();
+  private counts: PiiCounts = {};
+
+  constructor(private names: NamePattern[]) {}
+
+  private placeholder(category: PiiCategory, key: string, value: string): string {
+    const existing = this.tokenByKey.get(key);
+    if (existing) return existing;
+    const count = (this.counts[category] ?? 0) + 1;
+    this.counts[category] = count;
+    const token = `[${category.toUpperCase()}_${count}]`;
+    this.tokenByKey.set(key, token);
+    this.tokens.set(token, value);
+    return token;
+  }
+
+  redact(text: string): string {
+    let redacted = text
+      .replace(EMAIL, match => this.placeholder("email", `email:${match.toLowerCase()}`, match))
+      .replace(ID_NUMBER, match => this.placeholder("id_number", `id_number:${match}`, match))
+      .replace(PHONE, match => {
+        const digits = match.replace(/\D/g, "");
+        if (digits.length < 9 || digits.length > 15 || DATE.test(match) || !PHONE_LIKE.test(match)) return match;
+        return this.placeholder("phone", `phone:${digits}`, match.trim());
+      });
+    for (const { key, value, pattern } of this.names) {
+      redacted = redacted.replace(pattern, () => this.placeholder("person", key, value));
+    }
+    return redacted.replace(MEDICAL, match => this.placeholder("medical", `medical:${match.toLowerCase()}`, match));
+  }
+
+  // Distinct values replaced so far, by category
+  get categories(): PiiCounts {
+    return { ...this.counts };
+  }
+
+  get tokenMap(): Record<string, string> {
+    return Object.fromEntries(this.tokens);
+  }
+}
+
+// A redactor that also recognises the names of everyone with an account
+export async function createPiiRedactor(): Promise<PiiRedactor> {
+  return new PiiRedactor(namePatterns(await storage.getUsers()));
+}
+
+// Puts the original values back; placeholders without one are left as they are
+export function restorePii(text: string, tokens: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, token => tokens[token] ?? token);
+}
+
+// Restores text that arrives in pieces, as a streamed answer does. A piece
+// that ends part way through a placeholder is held back until the rest of
+// it arrives.
+export class PiiStreamRestorer {
+  private pending = "";
+
+  constructor(private emit: (text: string) => void) {}
+
+  write(text: string, tokens: Record<string, string>) {
+    this.pending += text;
+    const open = this.pending.lastIndexOf("[");
+    const held = open >= 0 && /^\[[A-Z_]*\d*$/.test(this.pending.slice(open)) ? this.pending.slice(open) : "";
+    const ready = this.pending.slice(0, this.pending.length - held.length);
+    this.pending = held;
+    if (ready) this.emit(restorePii(ready, tokens));
+  }
+
+  end(tokens: Record<string, string>) {
+    if (this.pending) this.emit(restorePii(this.pending, tokens));
+    this.pending = "";
+  }
+}
+
+// The submitter, the assignee, HR managers and ethics officers see the
+// analysis with the original details; other staff see the placeholders
+export function canSeeAnalysisPii(complaint: Complaint, viewer: Express.User): boolean {
+  return complaint.submitterId === viewer.id ||
+    complaint.assignedTo === viewer.id ||
+    hasRole(viewer, "hr_manager", "ethics_officer");
+}
+
+export async function restoreComplaintAnalysis<T extends Complaint>(complaint: T, viewer: Express.User): Promise<T> {
+  if ((!complaint.aiAnalysis && !complaint.aiRecommendations) || !canSeeAnalysisPii(complaint, viewer)) {
+    return complaint;
+  }
+  const stored = await storage.getAiPiiTokens("complaint", complaint.id);
+  if (!stored) {
+    return complaint;
+  }
+  const { tokens } = stored;
+  // Recommendations are stored as a JSON array, so values are escaped to fit
+  const jsonTokens = Object.fromEntries(Object.entries(tokens).map(([token, value]) => [token, JSON.stringify(value).slice(1, -1)]));
+  return {
+    ...complaint,
+    aiAnalysis: complaint.aiAnalysis && restorePii(complaint.aiAnalysis, tokens),
+    aiRecommendations: complaint.aiRecommendations && restorePii(complaint.aiRecommendations, jsonTokens),
+  };
+}
@@ -0,0 +1,253 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { PolicyDocument } from "@shared/policies";
+import { storage } from "../storage";
+import { answerHRQuestion } from "./ai";
+import { parsePolicyDocument, searchPolicies } from "./policies";
+
+const HANDBOOK = `# Employee Handbook
+
+Welcome to the company.
+
+## Leave
+
+### Annual leave
+
+Full-time staff get **25 days** of annual leave a year.
+Up to five days may be carried over.
+
+### Sick leave
+
+Tell your [manager](https://intranet/managers) by 10am on your first day of sickness.
+
+\`\`\`
+# not a heading
+\`\`\`
+
+## Expenses
+
+Claims must be submitted within 30 days with receipts.
+`;
+
+const MANUAL = `CONDUCT
+
+Treat colleagues with respect.
+
+4.2 Grievances
+Raise concerns with your line manager first.
+
+Remote working
+==============
+Ask your manager before working from home.
+`;
+
+function words(count: number, word = "policy"): string {
+  return Array.from({ length: count }, () => word).join(" ");
+}
+
+describe("parsePolicyDocument", () => {
+  it("splits Markdown into sections named by their heading path", () => {
+    expect(parsePolicyDocument("markdown", Buffer.from(HANDBOOK))).toEqual([
+      { section: "Employee Handbook", content: "Welcome to the company." },
+      { section: "Employee Handbook > Leave > Annual leave", content: "Full-time staff get 25 days of annual leave a year. Up to five days may be carried over." },
+      { section: "Employee Handbook > Leave > Sick leave", content: "Tell your manager by 10am on your first day of sickness.\n\n# not a heading" },
+      { section: "Employee Handbook > Expenses", content: "Claims must be submitted within 30 days with receipts." },
+    ]);
+  });
+
+  it("takes numbered, capitalised and underlined lines as plain text headings", () => {
+    expect(parsePolicyDocument("text", Buffer.from(MANUAL))).toEqual([
+      { section: "CONDUCT", content: "Treat colleagues with respect." },
+      { section: "4.2 Grievances", content: "Raise concerns with your line manager first." },
+      { section: "Remote working", content: "Ask your manager before working from home." },
+    ]);
+  });
+
+  it("keeps chunks within the word limit, splitting long paragraphs at sentences", () => {
+    const sentence = `${words(99)} end.`;
+    const source = `LONG SECTION\n\n${words(100, "short")}\n\n${words(100, "next")}\n\n${sentence} ${sentence} ${sentence}\n\n${words(400, "run")}`;
+
+    const chunks = parsePolicyDocument("text", Buffer.from(source));
+
+    expect(chunks.every(chunk => chunk.section === "LONG SECTION")).toBe(true);
+    expect(chunks.map(chunk => chunk.content.split(/\s+/).length)).toEqual([100, 100, 100, 100, 100, 180, 180, 40]);
+    // Paragraphs that fit together share a chunk; the hard split loses no words
+    expect(chunks.map(chunk => chunk.content).join(" ").split(/\s+/)).toHaveLength(900);
+  });
+
+  it("labels PDF sections with their page and carries headings over page breaks", () => {
+    const pages = ["LEAVE POLICY", "Annual leave is 25 days.", "Unused leave lapses in April."];
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>",
+      `BT (${pages[0]}) Tj 0 -14 Td (${pages[1]}) Tj ET`,
+      `BT (${pages[2]}) Tj ET`,
+    ].map((body, index) => index < 4 ? body : `<< /Length ${body.length} >>\nstream\n${body}\nendstream`);
+    const pdf = Buffer.from(`%PDF-1.4\n${objects.map((body, index) => `${index + 1} 0 obj\n${body}\nendobj\n`).join("")}%%EOF\n`, "latin1");
+
+    expect(parsePolicyDocument("pdf", pdf)).toEqual([
+      { section: "LEAVE POLICY (page 1)", content: "Annual leave is 25 days." },
+      { section: "LEAVE POLICY (page 2)", content: "Unused leave lapses in April." },
+    ]);
+  });
+});
+
+let sequence = 0;
+
+async function addPolicy(title: string, chunks: { section: string; content: string }[]): Promise<PolicyDocument> {
+  sequence++;
+  const uploader = await storage.createUser({
+    username: `policy.user${sequence}`,
+    password: "correct horse battery staple",
+    email: `policy.user${sequence}@company.com`,
+    phone: `+1555700${String(sequence).padStart(4, "0")}`,
+    name: `Policy User ${sequence}`,
+    role: "hr_manager",
+    department: "Human Resources",
+  });
+  return storage.createPolicyDocument({
+    title,
+    fileName: `${title.toLowerCase().replace(/\s+/g, "-")}.md`,
+    format: "markdown",
+    contentType: "text/markdown",
+    size: 100,
+    checksum: `checksum-${sequence}`,
+    storageKey: `policies/test-${sequence}`,
+    chunkCount: chunks.length,
+    uploadedBy: uploader.id,
+  }, chunks.map((chunk, position) => ({ position, ...chunk })));
+}
+
+let handbook: PolicyDocument;
+let expenses: PolicyDocument;
+
+beforeAll(async () => {
+  handbook = await addPolicy("Employee Handbook", [
+    { section: "Leave > Annual leave", content: "Full-time staff get 25 days of annual leave a year. Up to five days may be carried over." },
+    { section: "Leave > Sick leave", content: "Tell your manager by 10am on your first day of sickness." },
+    { section: "Leave > Parental leave", content: "Parents may take up to 52 weeks, of which 39 are paid." },
+  ]);
+  expenses = await addPolicy("Expenses Policy", [
+    { section: "Claims", content: "Expense claims must be submitted within 30 days with receipts attached." },
+  ]);
+});
+
+describe("searchPolicies", () => {
+  it("ranks the passage that best matches the question first", async () => {
+    const [best, ...rest] = await searchPolicies("How many days of annual leave do I get?");
+
+    expect(best).toMatchObject({ document: { id: handbook.id }, chunk: { section: "Leave > Annual leave" } });
+    expect(rest.every(passage => passage.score < best.score)).toBe(true);
+  });
+
+  it("matches different forms of a word and section headings", async () => {
+    const [claims] = await searchPolicies("submitting an expense claim");
+    const [parental] = await searchPolicies("parental");
+
+    expect(claims.document.id).toBe(expenses.id);
+    expect(parental.chunk.section).toBe("Leave > Parental leave");
+  });
+
+  it("finds nothing when too few of the question's terms match", async () => {
+    expect(await searchPolicies("company car mileage allowance for leave")).toEqual([]);
+    expect(await searchPolicies("what is the")).toEqual([]);
+  });
+
+  it("picks up documents added after the index was built", async () => {
+    expect(await searchPolicies("bicycle scheme")).toEqual([]);
+    const benefits = await addPolicy("Benefits", [{ section: "Cycle to work", content: "The bicycle scheme spreads the cost over 12 months." }]);
+
+    const [found] = await searchPolicies("bicycle scheme");
+
+    expect(found.document.id).toBe(benefits.id);
+  });
+});
+
+describe("answerHRQuestion", () => {
+  let server: Server;
+  // What the stand-in model replies with
+  let reply: unknown;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "test-model",
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(reply) } }],
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    delete process.env.OPENAI_API_KEY;
+    process.env.LOCAL_AI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    process.env.LOCAL_AI_MODEL = "test-model";
+  });
+
+  afterEach(() => {
+    delete process.env.AI_PROVIDER_HR_CHAT;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("answers from the best passage and cites it", async () => {
+    const answer = await answerHRQuestion("How do I report sickness?");
+
+    expect(answer).toMatchObject({ grounded: true, provider: "rules" });
+    expect(answer.answer).toContain("Tell your manager by 10am");
+    expect(answer.citations).toEqual([{
+      id: "S1",
+      documentId: handbook.id,
+      title: "Employee Handbook",
+      section: "Leave > Sick leave",
+      excerpt: "Tell your manager by 10am on your first day of sickness.",
+    }]);
+  });
+
+  it("keeps only the passages the model cited, inline or listed", async () => {
+    process.env.AI_PROVIDER_HR_CHAT = "local";
+    reply = { answer: "You get 25 days [S1], and parents get up to 52 weeks.", citations: ["S9"] };
+
+    const answer = await answerHRQuestion("How many days of annual leave do I get?");
+
+    expect(answer).toMatchObject({ grounded: true, provider: "local" });
+    expect(answer.citations.map(citation => [citation.id, citation.section])).toEqual([["S1", "Leave > Annual leave"]]);
+  });
+
+  it("refuses without asking a model when no passage matches", async () => {
+    process.env.AI_PROVIDER_HR_CHAT = "local";
+    reply = { answer: "Probably 20 days.", citations: [] };
+
+    const answer = await answerHRQuestion("Can I bring my dog to the office?");
+
+    expect(answer).toEqual({ answer: expect.stringMatching(/^I couldn't find anything in the HR policy documents/), grounded: false, citations: [] });
+  });
+
+  it("refuses when the model's answer cites none of the passages", async () => {
+    process.env.AI_PROVIDER_HR_CHAT = "local";
+    reply = { answer: "Most companies give 20 days of annual leave.", citations: [] };
+
+    const answer = await answerHRQuestion("How many days of annual leave do I get?");
+
+    expect(answer).toMatchObject({ grounded: false, citations: [], provider: "local" });
+    expect(answer.answer).toMatch(/^I couldn't find anything in the HR policy documents/);
+  });
+
+  it("searches a follow-up together with the previous question", async () => {
+    const answer = await answerHRQuestion("and for parents?", {
+      history: [{ question: "How much leave do I get?", answer: "You get 25 days [S1]." }],
+    });
+
+    expect(answer.grounded).toBe(true);
+    expect(answer.citations[0].section).toMatch(/^Leave > /);
+  });
+});
@@ -0,0 +1,356 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { PolicyChunk, PolicyDocument, PolicyFormat } from "@shared/policies";
+import { storage } from "../storage";
+import { sha256, type UploadedFile } from "./attachments";
+import { fileStore } from "./file-storage";
+import { extractPdfText } from "./pdf-text";
+
+export const MAX_POLICY_BYTES = 20 * 1024 * 1024;
+
+// Chunks are packed from whole paragraphs up to about this many words
+const CHUNK_WORDS = 180;
+// BM25 term saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// A passage counts as relevant only when it contains at least this share of
+// the question's distinct terms
+const MIN_TERM_COVERAGE = 0.5;
+
+const FORMATS_BY_EXTENSION: Record<string, PolicyFormat> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".text": "text",
+  ".pdf": "pdf",
+};
+
+const CONTENT_TYPES: Record<PolicyFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+// Browsers often send Markdown as text/plain or application/octet-stream, so
+// the extension decides and the MIME type is only a fallback
+export function policyFormatOf(file: UploadedFile): PolicyFormat | null {
+  const byExtension = FORMATS_BY_EXTENSION[path.extname(file.originalname).toLowerCase()];
+  if (byExtension) return byExtension;
+  if (file.mimetype === "application/pdf") return "pdf";
+  if (file.mimetype === "text/markdown" || file.mimetype === "text/x-markdown") return "markdown";
+  if (file.mimetype === "text/plain") return "text";
+  return null;
+}
+
+interface Section {
+  heading: string;
+  text: string;
+}
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|\*|_|`)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/^\s*>\s?/, "")
+    .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*$/, "")
+    .replace(/\s*\|\s*/g, " | ")
+    .replace(/^ \| | \| $/g, "");
+}
+
+function markdownSections(source: string): Section[] {
+  const sections: Section[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    sections.push({ heading: headings.filter(Boolean).join(" > "), text: lines.join("\n") });
+    lines = [];
+  };
+
+  for (const line of source.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = stripMarkdown(heading[2]);
+      continue;
+    }
+    lines.push(inFence ? line : stripMarkdown(line));
+  }
+  flush();
+  return sections;
+}
+
+// Plain text and PDF pages have no markup, so numbered headings ("4.2 Sick
+// leave") and short all-caps lines are taken as section titles
+function looksLikeHeading(line: string, next: string | undefined): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 80 || /[.,;:]$/.test(trimmed)) return false;
+  if (next !== undefined && /^\s*(=+|-+)\s*$/.test(next) && next.trim().length >= 3) return true;
+  if (/^(\d+(\.\d+)*\.?|[IVX]+\.)\s+[A-Z]/.test(trimmed)) return true;
+  return /[A-Z]{3}/.test(trimmed) && trimmed === trimmed.toUpperCase();
+}
+
+function textSections(source: string, page?: number, carried = ""): Section[] {
+  const sections: Section[] = [];
+  let heading = carried;
+  let lines: string[] = [];
+  const label = () => page === undefined ? heading : heading ? `${heading} (page ${page})` : `Page ${page}`;
+  const flush = () => {
+    sections.push({ heading: label(), text: lines.join("\n") });
+    lines = [];
+  };
+
+  const sourceLines = source.split(/\r?\n/);
+  for (let i = 0; i < sourceLines.length; i++) {
+    const line = sourceLines[i];
+    if (/^\s*(=+|-+)\s*$/.test(line) && i > 0 && looksLikeHeading(sourceLines[i - 1], line)) continue;
+    if (looksLikeHeading(line, sourceLines[i + 1])) {
+      flush();
+      heading = line.trim();
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+function pdfSections(data: Buffer): Section[] {
+  const sections: Section[] = [];
+  let heading = "";
+  extractPdfText(data).forEach((text, index) => {
+    const pageSections = textSections(text, index + 1, heading);
+    sections.push(...pageSections);
+    // A section that runs over a page break keeps its heading
+    const last = pageSections[pageSections.length - 1]?.heading.replace(/ \(page \d+\)$/, "");
+    heading = last && !/^Page \d+$/.test(last) ? last : heading;
+  });
+  return sections;
+}
+
+function sentences(paragraph: string): string[] {
+  return paragraph.split(/(?<=[.!?])\s+/);
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Splits text no paragraph or sentence boundary can bring under the limit
+function hardSplit(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const parts: string[] = [];
+  for (let start = 0; start < words.length; start += CHUNK_WORDS) {
+    parts.push(words.slice(start, start + CHUNK_WORDS).join(" "));
+  }
+  return parts;
+}
+
+function chunkSections(sections: Section[]): { section: string; content: string }[] {
+  const chunks: { section: string; content: string }[] = [];
+  for (const { heading, text } of sections) {
+    const pieces = text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s*\n\s*/g, " ").trim())
+      .filter(Boolean)
+      .flatMap(paragraph => wordCount(paragraph) <= CHUNK_WORDS
+        ? [paragraph]
+        : sentences(paragraph).flatMap(sentence => wordCount(sentence) <= CHUNK_WORDS ? [sentence] : hardSplit(sentence)));
+
+    let current: string[] = [];
+    let words = 0;
+    for (const piece of pieces) {
+      const count = wordCount(piece);
+      if (words > 0 && words + count > CHUNK_WORDS) {
+        chunks.push({ section: heading, content: current.join("\n\n") });
+        current = [];
+        words = 0;
+      }
+      current.push(piece);
+      words += count;
+    }
+    if (current.length > 0) {
+      chunks.push({ section: heading, content: current.join("\n\n") });
+    }
+  }
+  return chunks;
+}
+
+export function parsePolicyDocument(format: PolicyFormat, data: Buffer): { section: string; content: string }[] {
+  switch (format) {
+    case "markdown":
+      return chunkSections(markdownSections(data.toString("utf8")));
+    case "text":
+      return chunkSections(textSections(data.toString("utf8")));
+    case "pdf":
+      return chunkSections(pdfSections(data));
+  }
+}
+
+const STOPWORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "could", "do", "does", "for",
+  "from", "get", "had", "has", "have", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my", "of", "on",
+  "or", "our", "should", "so", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this",
+  "to", "was", "we", "were", "what", "when", "where", "which", "who", "will", "with", "would", "you", "your",
+]);
+
+// Trims common suffixes so "requests", "requested" and "requesting" all
+// match "request". Only ever compared with other stems, so "leave" becoming
+// "leav" does not matter.
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  let stemmed = word.replace(/ies$/, "y");
+  if (!stemmed.endsWith("ss")) stemmed = stemmed.replace(/(ing|ed|s)$/, "");
+  return stemmed.replace(/e$/, "").replace(/([^aeiou])\1$/, "$1");
+}
+
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export interface PolicyPassage {
+  chunk: PolicyChunk;
+  document: PolicyDocument;
+  score: number;
+}
+
+interface IndexedChunk {
+  chunk: PolicyChunk;
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+class PolicyIndex {
+  private chunks: IndexedChunk[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(public signature: string, chunks: PolicyChunk[], private documents: Map<string, PolicyDocument>) {
+    for (const chunk of chunks) {
+      // Headings are indexed with the passage so "Parental leave" finds its section
+      const chunkTerms = terms(`${chunk.section}\n${chunk.content}`);
+      const frequencies = new Map<string, number>();
+      for (const term of chunkTerms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const term of Array.from(frequencies.keys())) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      this.chunks.push({ chunk, frequencies, length: chunkTerms.length });
+    }
+    this.averageLength = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0) / (this.chunks.length || 1);
+  }
+
+  search(query: string, limit: number): PolicyPassage[] {
+    const queryTerms = Array.from(new Set(terms(query)));
+    if (queryTerms.length === 0) return [];
+    const total = this.chunks.length;
+
+    return this.chunks
+      .map(({ chunk, frequencies, length }) => {
+        let score = 0;
+        let matched = 0;
+        for (const term of queryTerms) {
+          const frequency = frequencies.get(term);
+          if (!frequency) continue;
+          matched++;
+          const containing = this.documentFrequency.get(term)!;
+          const idf = Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+          score += idf * (frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / this.averageLength));
+        }
+        return { chunk, score, coverage: matched / queryTerms.length };
+      })
+      .filter(({ score, coverage }) => score > 0 && coverage >= MIN_TERM_COVERAGE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({ chunk, document: this.documents.get(chunk.documentId)!, score: Math.round(score * 1000) / 1000 }));
+  }
+}
+
+let index: PolicyIndex | null = null;
+
+// The index is rebuilt whenever the set of documents changes, including
+// uploads handled by another server process
+async function currentIndex(): Promise<PolicyIndex> {
+  const documents = await storage.getPolicyDocuments();
+  const signature = documents.map(document => document.id).sort().join(",");
+  if (!index || index.signature !== signature) {
+    const chunks = await storage.getPolicyChunks();
+    index = new PolicyIndex(signature, chunks, new Map(documents.map(document => [document.id, document])));
+  }
+  return index;
+}
+
+// Passages relevant to the question, best first; empty when none is
+export async function searchPolicies(query: string, limit = 5): Promise<PolicyPassage[]> {
+  return (await currentIndex()).search(query, limit);
+}
+
+export async function storePolicyDocument(
+  uploader: Express.User,
+  file: UploadedFile,
+  title?: string,
+): Promise<{ document?: PolicyDocument; error?: string }> {
+  const format = policyFormatOf(file);
+  if (!format) {
+    return { error: "Upload a Markdown, plain text or PDF document" };
+  }
+  if (format === "pdf" && !file.buffer.subarray(0, 4).equals(Buffer.from("%PDF"))) {
+    return { error: `${file.originalname} is not a PDF` };
+  }
+
+  let chunks: { section: string; content: string }[];
+  try {
+    chunks = parsePolicyDocument(format, file.buffer);
+  } catch (error) {
+    console.error(`Failed to read policy document ${file.originalname}:`, error);
+    chunks = [];
+  }
+  if (chunks.length === 0) {
+    return { error: "No text could be read from the document" };
+  }
+
+  const id = randomUUID();
+  const storageKey = `policies/${id}`;
+  await fileStore.save(storageKey, file.buffer);
+  const document = await storage.createPolicyDocument({
+    id,
+    title: title ?? path.parse(file.originalname).name,
+    fileName: path.basename(file.originalname),
+    format,
+    contentType: CONTENT_TYPES[format],
+    size: file.size,
+    checksum: sha256(file.buffer),
+    storageKey,
+    chunkCount: chunks.length,
+    uploadedBy: uploader.id,
+  }, chunks.map((chunk, position) => ({ ...chunk, position })));
+  return { document };
+}
+
+export async function deletePolicyDocument(document: PolicyDocument): Promise<void> {
+  await storage.deletePolicyDocument(document.id);
+  await fileStore.delete(document.storageKey);
+}
+
+export async function readPolicyDocument(document: PolicyDocument): Promise<Buffer> {
+  return fileStore.read(document.storageKey);
+}
+
+// Storage keys are internal and never leave the server
+export function describePolicyDocument(document: PolicyDocument) {
+  const { storageKey: _, ...metadata } = document;
+  return metadata;
+}
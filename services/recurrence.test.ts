@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { parseRecurrenceRule } from "@shared/recurrence";
+import { storage } from "../storage";
+import { expandMeetings, expandRecurrence } from "./recurrence";
+
+function expand(rrule: string, start: string, from: string, to: string, timezone = "UTC") {
+  return expandRecurrence(parseRecurrenceRule(rrule)!, new Date(start), timezone, new Date(from), new Date(to))
+    .map(date => date.toISOString());
+}
+
+describe("expandRecurrence", () => {
+  it("steps daily rules by their interval and stops at the count", () => {
+    expect(expand("FREQ=DAILY;INTERVAL=2;COUNT=3", "2025-03-03T09:00:00Z", "2025-01-01T00:00:00Z", "2025-12-31T00:00:00Z"))
+      .toEqual(["2025-03-03T09:00:00.000Z", "2025-03-05T09:00:00.000Z", "2025-03-07T09:00:00.000Z"]);
+  });
+
+  it("expands weekly rules on each listed weekday until the end date", () => {
+    expect(expand("FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20250313", "2025-03-03T09:00:00Z", "2025-01-01T00:00:00Z", "2025-12-31T00:00:00Z"))
+      .toEqual([
+        "2025-03-03T09:00:00.000Z",
+        "2025-03-06T09:00:00.000Z",
+        "2025-03-10T09:00:00.000Z",
+        "2025-03-13T09:00:00.000Z",
+      ]);
+  });
+
+  it("skips months without the start's day", () => {
+    expect(expand("FREQ=MONTHLY;COUNT=3", "2025-01-31T09:00:00Z", "2025-01-01T00:00:00Z", "2025-12-31T00:00:00Z"))
+      .toEqual(["2025-01-31T09:00:00.000Z", "2025-03-31T09:00:00.000Z", "2025-05-31T09:00:00.000Z"]);
+  });
+
+  it("finds ordinal weekdays such as the last Friday", () => {
+    expect(expand("FREQ=MONTHLY;BYDAY=-1FR;COUNT=2", "2025-01-31T09:00:00Z", "2025-01-01T00:00:00Z", "2025-12-31T00:00:00Z"))
+      .toEqual(["2025-01-31T09:00:00.000Z", "2025-02-28T09:00:00.000Z"]);
+  });
+
+  it("keeps the local time across daylight saving changes", () => {
+    expect(expand("FREQ=WEEKLY;COUNT=2", "2025-03-06T14:00:00Z", "2025-03-01T00:00:00Z", "2025-03-31T00:00:00Z", "America/New_York"))
+      .toEqual(["2025-03-06T14:00:00.000Z", "2025-03-13T13:00:00.000Z"]);
+  });
+
+  it("returns only the occurrences inside the range", () => {
+    expect(expand("FREQ=DAILY", "2025-03-03T09:00:00Z", "2025-03-05T00:00:00Z", "2025-03-07T09:00:00Z"))
+      .toEqual(["2025-03-05T09:00:00.000Z", "2025-03-06T09:00:00.000Z", "2025-03-07T09:00:00.000Z"]);
+  });
+
+  it("keeps expanding an open-ended series years after it started", () => {
+    expect(expand("FREQ=DAILY", "2025-03-03T09:00:00Z", "2040-06-01T00:00:00Z", "2040-06-02T23:00:00Z"))
+      .toEqual(["2040-06-01T09:00:00.000Z", "2040-06-02T09:00:00.000Z"]);
+    expect(expand("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO", "2025-03-03T09:00:00Z", "2040-06-01T00:00:00Z", "2040-06-30T00:00:00Z"))
+      .toEqual(["2040-06-04T09:00:00.000Z", "2040-06-18T09:00:00.000Z"]);
+  });
+
+  it("counts a series' occurrences from its start even when the range is later", () => {
+    expect(expand("FREQ=DAILY;COUNT=1500", "2025-03-03T09:00:00Z", "2029-04-10T00:00:00Z", "2029-04-14T00:00:00Z"))
+      .toEqual(["2029-04-10T09:00:00.000Z"]);
+  });
+
+  it("caps the occurrences returned for one range", () => {
+    const starts = expand("FREQ=DAILY", "2025-03-03T09:00:00Z", "2025-03-03T00:00:00Z", "2035-03-03T00:00:00Z");
+
+    expect(starts).toHaveLength(1000);
+    expect(starts[0]).toBe("2025-03-03T09:00:00.000Z");
+  });
+});
+
+describe("expandMeetings", () => {
+  async function createSeries(rrule: string, scheduledDate: Date) {
+    const meeting = await storage.createMeeting({
+      title: "Weekly check-in",
+      scheduledDate,
+      duration: 60,
+      organizerId: "organizer",
+      attendeeIds: ["attendee"],
+      type: "one_on_one",
+    });
+    await storage.upsertMeetingRecurrence({ meetingId: meeting.id, rrule });
+    return meeting;
+  }
+
+  it("lists a series once per occurrence and leaves out its exceptions", async () => {
+    const series = await createSeries("FREQ=WEEKLY;COUNT=4", new Date("2025-03-03T09:00:00Z"));
+    const detached = await storage.createMeeting({
+      title: "Moved check-in",
+      scheduledDate: new Date("2025-03-18T15:00:00Z"),
+      duration: 60,
+      organizerId: "organizer",
+      type: "one_on_one",
+    });
+    await storage.upsertMeetingException({ seriesId: series.id, originalStart: new Date("2025-03-10T09:00:00Z"), cancelled: true });
+    await storage.upsertMeetingException({
+      seriesId: series.id,
+      originalStart: new Date("2025-03-17T09:00:00Z"),
+      meetingId: detached.id,
+    });
+    const oneOff = await storage.createMeeting({
+      title: "Before the range",
+      scheduledDate: new Date("2025-02-01T09:00:00Z"),
+      organizerId: "organizer",
+      type: "one_on_one",
+    });
+
+    const listed = await expandMeetings([series, detached, oneOff], new Date("2025-03-01T00:00:00Z"), new Date("2025-04-01T00:00:00Z"));
+
+    expect(listed.map(meeting => [meeting.id, new Date(meeting.scheduledDate).toISOString()])).toEqual([
+      [series.id, "2025-03-03T09:00:00.000Z"],
+      [detached.id, "2025-03-18T15:00:00.000Z"],
+      [series.id, "2025-03-24T09:00:00.000Z"],
+    ]);
+    expect(listed[0]).toMatchObject({ seriesId: series.id, originalStart: new Date("2025-03-03T09:00:00Z") });
+  });
+
+  it("includes an occurrence that started before the range and is still running", async () => {
+    const series = await createSeries("FREQ=DAILY", new Date("2025-03-03T09:00:00Z"));
+
+    const listed = await expandMeetings([series], new Date("2031-05-05T09:30:00Z"), new Date("2031-05-05T10:00:00Z"));
+
+    expect(listed.map(meeting => meeting.originalStart)).toEqual([new Date("2031-05-05T09:00:00Z")]);
+  });
+});
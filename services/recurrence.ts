@@ -0,0 +1,201 @@
+import type { Meeting } from "@shared/schema";
+import { parseRecurrenceRule, type RecurrenceRule, type WeekdayRule } from "@shared/recurrence";
+import { storage } from "../storage";
+import { fromWallTime, toWallTime } from "./icalendar";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Hard stops so a wide range or an unsatisfiable rule cannot run away: at
+// most this many occurrences are returned for one range, and at most this
+// many periods are stepped through looking for them
+const MAX_OCCURRENCES = 1000;
+const MAX_PERIODS = 5000;
+
+// A meeting as listed for a date range: recurring series appear once per
+// occurrence, carrying the series id and the occurrence's original start
+export type ListedMeeting = Meeting & { seriesId?: string; originalStart?: Date };
+
+// Calendar days are handled as UTC midnights so that day arithmetic is not
+// disturbed by DST; the wall-clock time is applied at the end
+function civilDay(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdaysInMonth(year: number, month: number, rule: WeekdayRule): number[] {
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    if (new Date(civilDay(year, month, day)).getUTCDay() === rule.weekday) days.push(day);
+  }
+  if (rule.ordinal === undefined) return days;
+  const index = rule.ordinal > 0 ? rule.ordinal - 1 : days.length + rule.ordinal;
+  return days[index] !== undefined ? [days[index]] : [];
+}
+
+function monthDays(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1));
+  } else if (rule.byDay) {
+    days = rule.byDay.flatMap(weekday => weekdaysInMonth(year, month, weekday));
+  } else {
+    // Months without the start's day (e.g. the 31st) are skipped, per RFC 5545
+    days = [defaultDay];
+  }
+  return Array.from(new Set(days.filter(day => day >= 1 && day <= length))).sort((a, b) => a - b);
+}
+
+// Candidate days (as civil days) in the n-th period after the series start
+function periodDays(rule: RecurrenceRule, start: { year: number; month: number; day: number }, period: number): number[] {
+  const startDay = civilDay(start.year, start.month, start.day);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [startDay + step * DAY_MS];
+    case "WEEKLY": {
+      const weekStart = startDay - ((new Date(startDay).getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay?.map(day => day.weekday) ?? [new Date(startDay).getUTCDay()];
+      return weekdays.map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS).sort((a, b) => a - b);
+    }
+    case "MONTHLY": {
+      const monthIndex = start.month - 1 + step;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      return monthDays(rule, year, month, start.day).map(day => civilDay(year, month, day));
+    }
+    case "YEARLY": {
+      const year = start.year + step;
+      return monthDays(rule, year, start.month, start.day).map(day => civilDay(year, start.month, day));
+    }
+  }
+}
+
+// The first period that can hold an occurrence on or after the given day,
+// give or take one for weeks and timezones
+function firstPeriodFrom(
+  rule: RecurrenceRule,
+  start: { year: number; month: number; day: number },
+  day: { year: number; month: number; day: number },
+): number {
+  let periods: number;
+  switch (rule.freq) {
+    case "DAILY":
+      periods = (civilDay(day.year, day.month, day.day) - civilDay(start.year, start.month, start.day)) / DAY_MS;
+      break;
+    case "WEEKLY":
+      periods = (civilDay(day.year, day.month, day.day) - civilDay(start.year, start.month, start.day)) / (7 * DAY_MS);
+      break;
+    case "MONTHLY":
+      periods = (day.year - start.year) * 12 + day.month - start.month;
+      break;
+    case "YEARLY":
+      periods = day.year - start.year;
+      break;
+  }
+  return Math.max(0, Math.floor(periods / rule.interval) - 1);
+}
+
+// Occurrence start times of a series between rangeStart and rangeEnd
+// (inclusive), keeping the first occurrence's local time in its timezone
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  timezone: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit = MAX_OCCURRENCES,
+): Date[] {
+  const local = toWallTime(seriesStart, timezone);
+  const firstDay = civilDay(local.year, local.month, local.day);
+  const occurrences: Date[] = [];
+  let counted = 0;
+  // Without a COUNT nothing before the range matters, so stepping starts
+  // just before it rather than at the first occurrence
+  const firstPeriod = rule.count ? 0 : firstPeriodFrom(rule, local, toWallTime(rangeStart, timezone));
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const days = periodDays(rule, local, period);
+    for (const day of days) {
+      if (day < firstDay) continue;
+      const date = new Date(day);
+      // Wall times stop at seconds; keep the series start's milliseconds so
+      // the first occurrence is not taken for one before the series
+      const start = new Date(fromWallTime({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: local.hour,
+        minute: local.minute,
+        second: local.second,
+      }, timezone).getTime() + seriesStart.getUTCMilliseconds());
+      if (start < seriesStart) continue;
+      if (rule.until && start > rule.until) return occurrences;
+      counted++;
+      if (rule.count && counted > rule.count) return occurrences;
+      if (start > rangeEnd) return occurrences;
+      if (start >= rangeStart) {
+        occurrences.push(start);
+        if (occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+  return occurrences;
+}
+
+export interface MeetingSeries {
+  rule: RecurrenceRule;
+  rrule: string;
+  timezone: string;
+}
+
+// The recurrence of a series master, or undefined for a one-off meeting
+export async function getMeetingSeries(meeting: Meeting): Promise<MeetingSeries | undefined> {
+  const recurrence = await storage.getMeetingRecurrence(meeting.id);
+  const rule = recurrence && parseRecurrenceRule(recurrence.rrule);
+  if (!rule) return undefined;
+  const entry = await storage.getMeetingCalendarEntry(meeting.id);
+  return { rule, rrule: recurrence.rrule, timezone: entry?.timezone ?? "UTC" };
+}
+
+export async function isOccurrence(meeting: Meeting, series: MeetingSeries, start: Date): Promise<boolean> {
+  const [match] = expandRecurrence(series.rule, new Date(meeting.scheduledDate), series.timezone, start, start, 1);
+  return match?.getTime() === start.getTime();
+}
+
+// Meetings overlapping [from, to), with each series replaced by its
+// occurrences. Cancelled and detached occurrences are left out; detached
+// ones are meetings of their own and are listed as such.
+export async function expandMeetings(meetings: Meeting[], from: Date, to: Date): Promise<ListedMeeting[]> {
+  const listed: ListedMeeting[] = [];
+  for (const meeting of meetings) {
+    const durationMs = (meeting.duration ?? 30) * MINUTE_MS;
+    const overlaps = (start: Date) => start < to && start.getTime() + durationMs > from.getTime();
+    const series = await getMeetingSeries(meeting);
+    if (!series) {
+      if (overlaps(new Date(meeting.scheduledDate))) listed.push(meeting);
+      continue;
+    }
+
+    const skipped = new Set(
+      (await storage.getMeetingExceptions(meeting.id)).map(exception => new Date(exception.originalStart).getTime()),
+    );
+    const starts = expandRecurrence(
+      series.rule,
+      new Date(meeting.scheduledDate),
+      series.timezone,
+      new Date(from.getTime() - durationMs),
+      to,
+    );
+    for (const start of starts) {
+      if (skipped.has(start.getTime()) || !overlaps(start)) continue;
+      listed.push({ ...meeting, scheduledDate: start, seriesId: meeting.id, originalStart: start });
+    }
+  }
+  return listed.sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { buildReport } from "./reports";
+
+describe("meeting report", () => {
+  it("lists each occurrence of a series scheduled in the period", async () => {
+    const manager = await storage.createUser({
+      username: "reports.manager",
+      password: "correct horse battery staple",
+      email: "reports.manager@company.com",
+      phone: "+15556000001",
+      name: "Report Manager",
+      role: "hr_manager",
+      department: "Human Resources",
+    });
+    const series = await storage.createMeeting({
+      title: "Weekly check-in",
+      scheduledDate: new Date("2025-02-24T09:00:00Z"),
+      duration: 30,
+      organizerId: manager.id,
+      type: "one_on_one",
+    });
+    await storage.upsertMeetingRecurrence({ meetingId: series.id, rrule: "FREQ=WEEKLY;COUNT=10" });
+    await storage.upsertMeetingException({ seriesId: series.id, originalStart: new Date("2025-03-10T09:00:00Z"), cancelled: true });
+    await storage.createMeeting({
+      title: "Exit interview",
+      scheduledDate: new Date("2025-03-05T15:00:00Z"),
+      organizerId: manager.id,
+      type: "group",
+    });
+    await storage.createMeeting({
+      title: "After the period",
+      scheduledDate: new Date("2025-03-20T15:00:00Z"),
+      organizerId: manager.id,
+      type: "one_on_one",
+    });
+
+    const report = await buildReport(manager, "meetings", "csv", { type: "one_on_one" }, { from: "2025-03-01", to: "2025-03-19" });
+
+    const rows = report.data.toString("utf8").trim().split("\r\n").slice(1).map(row => row.split(",").slice(0, 4));
+    expect(rows).toEqual([
+      ["Weekly check-in", "one_on_one", "scheduled", "2025-03-03T09:00:00.000Z"],
+      ["Weekly check-in", "one_on_one", "scheduled", "2025-03-17T09:00:00.000Z"],
+    ]);
+  });
+});
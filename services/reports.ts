@@ -0,0 +1,424 @@
+import { randomUUID } from "crypto";
+import type { User } from "@shared/schema";
+import {
+  reportFilterSchemas,
+  type AnalyticsReportFilters,
+  type ComplaintReportFilters,
+  type CreateReportSchedule,
+  type GeneratedReport,
+  type MeetingReportFilters,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportFrequency,
+  type ReportKind,
+  type ReportSchedule,
+  type UpdateReportSchedule,
+} from "@shared/reports";
+import { CASEWORKER_ROLES, hasRole, STAFF_ROLES, type UserRole } from "../auth";
+import { storage } from "../storage";
+import { canSeeReporter, redactMeeting, reporterPseudonym } from "./anonymity";
+import { addDays, dayOf, getComplaintTrends, getRepeatIssueHotspots, startOfDay, type ComplaintMetrics } from "./analytics";
+import { csvRow } from "./csv";
+import { fileStore } from "./file-storage";
+import { createNotification } from "./notifications";
+import { buildPdf } from "./pdf";
+import { expandMeetings } from "./recurrence";
+import { buildWorkbook, type CellValue } from "./xlsx";
+
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// A failed scheduled run is retried after this long
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Who may export each kind, matching the list and analytics endpoints
+const REPORT_ROLES: Record<ReportKind, UserRole[]> = {
+  complaints: STAFF_ROLES,
+  meetings: STAFF_ROLES,
+  analytics: CASEWORKER_ROLES,
+};
+
+const FORMATS: Record<ReportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  xlsx: { contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+};
+
+export function canExportReport(user: Express.User, kind: ReportKind): boolean {
+  return hasRole(user, ...REPORT_ROLES[kind]);
+}
+
+// Inclusive UTC days
+export interface ReportPeriod {
+  from: string;
+  to: string;
+}
+
+export function defaultReportPeriod(range: { from?: string; to?: string }): ReportPeriod {
+  const to = range.to ?? dayOf(new Date());
+  return { from: range.from ?? addDays(to, 1 - DEFAULT_RANGE_DAYS), to };
+}
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: CellValue[][];
+}
+
+interface ReportDocument {
+  title: string;
+  subtitle: string[];
+  tables: ReportTable[];
+}
+
+function periodBounds(period: ReportPeriod) {
+  return { start: startOfDay(period.from), end: startOfDay(addDays(period.to, 1)) };
+}
+
+function describeFilters(filters: object): string[] {
+  const applied = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return applied.length > 0 ? [`Filters: ${applied.map(([key, value]) => `${key} = ${value}`).join(", ")}`] : [];
+}
+
+async function userNames(): Promise<Map<string, User>> {
+  return new Map((await storage.getUsers()).map(user => [user.id, user]));
+}
+
+// Submitters of anonymous complaints appear as their pseudonym unless the
+// viewer may see them, exactly as in the complaint API
+async function complaintReport(viewer: Express.User, filters: ComplaintReportFilters, period: ReportPeriod): Promise<ReportDocument> {
+  const { start, end } = periodBounds(period);
+  const users = await userNames();
+  const complaints = (await storage.getComplaintsCreatedBetween(start, end)).filter(complaint =>
+    (!filters.status || complaint.status === filters.status) &&
+    (!filters.priority || complaint.priority === filters.priority) &&
+    (!filters.category || complaint.category === filters.category) &&
+    (!filters.assignedTo || complaint.assignedTo === filters.assignedTo) &&
+    (!filters.department ||
+      (!complaint.isAnonymous && users.get(complaint.submitterId)?.department === filters.department)));
+
+  const rows = complaints.map(complaint => {
+    const visible = canSeeReporter(complaint, viewer);
+    const submitter = users.get(complaint.submitterId);
+    return [
+      complaint.id,
+      complaint.title,
+      complaint.category,
+      complaint.priority,
+      complaint.status,
+      complaint.isAnonymous ?? false,
+      visible ? submitter?.name ?? complaint.submitterId : reporterPseudonym(complaint.id),
+      visible ? submitter?.department ?? null : null,
+      complaint.assignedTo ? users.get(complaint.assignedTo)?.name ?? complaint.assignedTo : null,
+      complaint.createdAt,
+      complaint.updatedAt,
+      complaint.sentimentScore,
+    ];
+  });
+
+  return {
+    title: "Complaints report",
+    subtitle: [`Filed ${period.from} to ${period.to} (UTC)`, ...describeFilters(filters), `Total: ${rows.length}`],
+    tables: [{
+      title: "Complaints",
+      columns: ["ID", "Title", "Category", "Priority", "Status", "Anonymous", "Submitter", "Department", "Assignee", "Filed", "Updated", "Sentiment"],
+      rows,
+    }],
+  };
+}
+
+async function meetingReport(viewer: Express.User, filters: MeetingReportFilters, period: ReportPeriod): Promise<ReportDocument> {
+  const { start, end } = periodBounds(period);
+  const users = await userNames();
+  // Pseudonyms from redactMeeting are not user ids and are printed as they are
+  const name = (id: string) => users.get(id)?.name ?? id;
+  // A series that began before the period may still recur inside it, so
+  // only the end of the period narrows the stored meetings; each occurrence
+  // scheduled in the period then gets its own row
+  const stored = await storage.searchMeetings({
+    statuses: filters.status ? [filters.status] : undefined,
+    types: filters.type ? [filters.type] : undefined,
+    sort: "scheduledDate",
+    order: "asc",
+    scheduledTo: end,
+  });
+  const meetings = (await expandMeetings(stored, start, end)).filter(meeting => new Date(meeting.scheduledDate) >= start);
+
+  const rows: CellValue[][] = [];
+  for (const meeting of meetings) {
+    const redacted = await redactMeeting(meeting, viewer);
+    const outcome = await storage.getMeetingOutcome(meeting.id);
+    rows.push([
+      meeting.title,
+      meeting.type,
+      meeting.status,
+      meeting.scheduledDate,
+      meeting.duration,
+      name(redacted.organizerId),
+      (redacted.attendeeIds ?? []).map(name).join(", "),
+      meeting.relatedComplaintId,
+      !!outcome,
+      outcome?.agreedActions.length ?? null,
+      outcome?.followUpDate ?? null,
+    ]);
+  }
+
+  return {
+    title: "Meeting log",
+    subtitle: [`Scheduled ${period.from} to ${period.to} (UTC)`, ...describeFilters(filters), `Total: ${rows.length}`],
+    tables: [{
+      title: "Meetings",
+      columns: ["Title", "Type", "Status", "Scheduled", "Minutes", "Organizer", "Attendees", "Related complaint", "Outcome recorded", "Agreed actions", "Follow-up"],
+      rows,
+    }],
+  };
+}
+
+const METRIC_COLUMNS = ["Filed", "Resolved", "Mean hours to first response", "Mean hours to resolution", "Mean sentiment"];
+
+function metricCells(metrics: ComplaintMetrics): CellValue[] {
+  return [metrics.filed, metrics.resolved, metrics.meanHoursToFirstResponse, metrics.meanHoursToResolution, metrics.meanSentiment];
+}
+
+async function analyticsReport(filters: AnalyticsReportFilters, period: ReportPeriod): Promise<ReportDocument> {
+  const trends = await getComplaintTrends({ ...filters, from: period.from, to: period.to });
+  const { hotspots } = await getRepeatIssueHotspots({
+    department: filters.department,
+    category: filters.category,
+    from: period.from,
+    to: period.to,
+    minComplaints: 3,
+    limit: 10,
+  });
+  if (trends.error || !trends.totals) {
+    throw new Error(trends.error ?? "Analytics unavailable");
+  }
+
+  return {
+    title: "HR analytics summary",
+    subtitle: [`${period.from} to ${period.to} (UTC), by ${filters.interval}`, ...describeFilters({ department: filters.department, category: filters.category })],
+    tables: [
+      {
+        title: "Summary",
+        columns: METRIC_COLUMNS,
+        rows: [metricCells(trends.totals)],
+      },
+      {
+        title: "Trend",
+        columns: ["Period", ...METRIC_COLUMNS],
+        rows: (trends.series ?? []).map(point => [point.period, ...metricCells(point)]),
+      },
+      {
+        title: "By category",
+        columns: ["Category", ...METRIC_COLUMNS],
+        rows: (trends.byCategory ?? []).map(group => [group.category, ...metricCells(group)]),
+      },
+      {
+        title: "By department",
+        columns: ["Department", ...METRIC_COLUMNS],
+        rows: (trends.byDepartment ?? []).map(group => [group.department ?? "Undisclosed", ...metricCells(group)]),
+      },
+      {
+        title: "Repeat-issue hotspots",
+        columns: ["Department", "Category", "Filed", "Days with filings", "Last filed", "Resolved", "Mean sentiment"],
+        rows: (hotspots ?? []).map(hotspot => [
+          hotspot.department ?? "Undisclosed",
+          hotspot.category,
+          hotspot.filed,
+          hotspot.daysWithFilings,
+          hotspot.lastFiledOn,
+          hotspot.resolved,
+          hotspot.meanSentiment,
+        ]),
+      },
+    ],
+  };
+}
+
+function render(document: ReportDocument, format: ReportFormat): Buffer {
+  if (format === "xlsx") {
+    return buildWorkbook(document.tables.map(table => ({ name: table.title, columns: table.columns, rows: table.rows })));
+  }
+  if (format === "pdf") {
+    return buildPdf(document);
+  }
+  // Several tables are separated by a blank line and a row with their title
+  const single = document.tables.length === 1;
+  return Buffer.from(document.tables.map(table => [
+    single ? "" : csvRow([table.title]),
+    csvRow(table.columns),
+    ...table.rows.map(row => csvRow(row)),
+  ].join("")).join("\r\n"), "utf8");
+}
+
+export interface RenderedReport {
+  data: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+export function parseReportFilters(kind: ReportKind, filters: unknown): ReportFilters {
+  return reportFilterSchemas[kind].parse(filters);
+}
+
+// Builds a report as the viewer would see the same records in the app
+export async function buildReport(
+  viewer: Express.User,
+  kind: ReportKind,
+  format: ReportFormat,
+  filters: ReportFilters,
+  period: ReportPeriod,
+): Promise<RenderedReport> {
+  const document = kind === "complaints"
+    ? await complaintReport(viewer, filters as ComplaintReportFilters, period)
+    : kind === "meetings"
+      ? await meetingReport(viewer, filters as MeetingReportFilters, period)
+      : await analyticsReport(filters as AnalyticsReportFilters, period);
+  const { contentType, extension } = FORMATS[format];
+  return {
+    data: render(document, format),
+    fileName: `${kind}-report-${period.from}-to-${period.to}.${extension}`,
+    contentType,
+  };
+}
+
+// The period that ended just before a run: the previous UTC day, the
+// previous Monday-to-Sunday week or the previous calendar month
+export function reportPeriodBefore(frequency: ReportFrequency, runAt: Date): ReportPeriod {
+  const today = dayOf(runAt);
+  if (frequency === "daily") {
+    const yesterday = addDays(today, -1);
+    return { from: yesterday, to: yesterday };
+  }
+  if (frequency === "weekly") {
+    const monday = addDays(today, -((runAt.getUTCDay() + 6) % 7));
+    return { from: addDays(monday, -7), to: addDays(monday, -1) };
+  }
+  const lastMonthEnd = addDays(`${today.slice(0, 7)}-01`, -1);
+  return { from: `${lastMonthEnd.slice(0, 7)}-01`, to: lastMonthEnd };
+}
+
+// Runs start at midnight UTC once the period they cover has ended
+export function nextReportRun(frequency: ReportFrequency, after: Date): Date {
+  const today = dayOf(after);
+  if (frequency === "daily") {
+    return startOfDay(addDays(today, 1));
+  }
+  if (frequency === "weekly") {
+    return startOfDay(addDays(today, 7 - ((after.getUTCDay() + 6) % 7)));
+  }
+  return startOfDay(addDays(`${today.slice(0, 7)}-01`, 32).slice(0, 7) + "-01");
+}
+
+export async function createReportSchedule(owner: Express.User, input: CreateReportSchedule): Promise<ReportSchedule> {
+  return storage.createReportSchedule({
+    name: input.name,
+    ownerId: owner.id,
+    kind: input.kind,
+    format: input.format,
+    frequency: input.frequency,
+    filters: parseReportFilters(input.kind, input.filters),
+    nextRunAt: nextReportRun(input.frequency, new Date()),
+  });
+}
+
+export async function updateReportSchedule(schedule: ReportSchedule, updates: UpdateReportSchedule) {
+  const frequency = (updates.frequency ?? schedule.frequency) as ReportFrequency;
+  return storage.updateReportSchedule(schedule.id, {
+    ...updates,
+    filters: updates.filters ? parseReportFilters(schedule.kind as ReportKind, updates.filters) : schedule.filters,
+    // Reactivating or changing frequency starts counting from now
+    nextRunAt: updates.frequency || (updates.active && !schedule.active)
+      ? nextReportRun(frequency, new Date())
+      : schedule.nextRunAt,
+    lastError: updates.active ? null : schedule.lastError,
+  });
+}
+
+// Generates the schedule's report for the period that just ended, stores
+// it for later download and tells the owner it is ready
+export async function generateScheduledReport(schedule: ReportSchedule, now = new Date()): Promise<{ report?: GeneratedReport; error?: string }> {
+  const kind = schedule.kind as ReportKind;
+  const owner = await storage.getUser(schedule.ownerId);
+  if (!owner || !owner.isActive || !canExportReport(owner, kind)) {
+    return { error: "The schedule's owner can no longer export this report" };
+  }
+
+  const period = reportPeriodBefore(schedule.frequency as ReportFrequency, now);
+  const rendered = await buildReport(owner, kind, schedule.format as ReportFormat, schedule.filters, period);
+  const storageKey = `reports/${randomUUID()}`;
+  await fileStore.save(storageKey, rendered.data);
+  const report = await storage.createGeneratedReport({
+    scheduleId: schedule.id,
+    ownerId: owner.id,
+    kind,
+    format: schedule.format,
+    fileName: rendered.fileName,
+    contentType: rendered.contentType,
+    size: rendered.data.length,
+    storageKey,
+    periodStart: period.from,
+    periodEnd: period.to,
+  });
+
+  await createNotification({
+    userId: owner.id,
+    title: "Report ready",
+    message: `"${schedule.name}" for ${period.from} to ${period.to} is ready to download`,
+    type: "report_ready",
+    relatedEntityId: report.id,
+    relatedEntityType: "report",
+  });
+  return { report };
+}
+
+export async function runDueReports(now = new Date()) {
+  for (const schedule of await storage.getDueReportSchedules(now)) {
+    try {
+      const result = await generateScheduledReport(schedule, now);
+      if (result.error) {
+        // Left inactive until the owner (or a new owner) turns it back on
+        await storage.updateReportSchedule(schedule.id, { active: false, lastError: result.error });
+        continue;
+      }
+      await storage.updateReportSchedule(schedule.id, {
+        lastRunAt: now,
+        lastError: null,
+        nextRunAt: nextReportRun(schedule.frequency as ReportFrequency, now),
+      });
+    } catch (error) {
+      console.error(`Scheduled report ${schedule.id} failed:`, error);
+      await storage.updateReportSchedule(schedule.id, {
+        lastError: error instanceof Error ? error.message : String(error),
+        nextRunAt: new Date(now.getTime() + RETRY_DELAY_MS),
+      });
+    }
+  }
+}
+
+export async function readGeneratedReport(report: GeneratedReport): Promise<Buffer> {
+  return fileStore.read(report.storageKey);
+}
+
+// Storage keys are internal and never leave the server
+export function describeGeneratedReport(report: GeneratedReport) {
+  const { storageKey: _, ...metadata } = report;
+  return metadata;
+}
+
+export function startReportScheduler(intervalMs = Number(process.env.REPORT_CHECK_INTERVAL_MS) || DEFAULT_CHECK_INTERVAL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await runDueReports();
+    } catch (error) {
+      console.error("Report scheduler failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
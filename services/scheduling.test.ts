@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { Meeting } from "@shared/schema";
+import { storage } from "../storage";
+import { findConflicts, findFreeSlots, type WorkingHours } from "./scheduling";
+
+const NINE_TO_FIVE: WorkingHours = { startHour: 9, endHour: 17, timezone: "UTC", workingDays: [1, 2, 3, 4, 5] };
+
+let sequence = 0;
+
+// Participants are plain ids; each test gets its own so bookings never leak
+function participant(): string {
+  sequence++;
+  return `scheduling-user-${sequence}`;
+}
+
+async function book(organizerId: string, start: string, duration: number, overrides: Partial<Meeting> = {}): Promise<Meeting> {
+  return storage.createMeeting({
+    title: "Booked",
+    scheduledDate: new Date(start),
+    duration,
+    organizerId,
+    type: "one_on_one",
+    ...overrides,
+  });
+}
+
+function starts(slots: { start: Date }[] | undefined): string[] {
+  return (slots ?? []).map(slot => slot.start.toISOString().slice(0, 16));
+}
+
+describe("findFreeSlots", () => {
+  it("proposes slots inside working hours around existing bookings", async () => {
+    const organizer = participant();
+    const attendee = participant();
+    await book(organizer, "2031-03-03T10:00:00Z", 60);
+    await book("someone-else", "2031-03-03T13:00:00Z", 90, { attendeeIds: [attendee] });
+    // Cancelled meetings leave their time free
+    await book(attendee, "2031-03-03T15:00:00Z", 60, { status: "cancelled" });
+
+    const { slots } = await findFreeSlots({
+      participantIds: [organizer, attendee],
+      durationMinutes: 60,
+      from: new Date("2031-03-03T07:00:00Z"),
+      to: new Date("2031-03-03T23:00:00Z"),
+      workingHours: NINE_TO_FIVE,
+      limit: 20,
+    });
+
+    expect(starts(slots)).toEqual([
+      "2031-03-03T09:00",
+      "2031-03-03T11:00", "2031-03-03T11:30", "2031-03-03T12:00",
+      "2031-03-03T14:30", "2031-03-03T15:00", "2031-03-03T15:30", "2031-03-03T16:00",
+    ]);
+    expect(slots![0].end).toEqual(new Date("2031-03-03T10:00:00Z"));
+  });
+
+  it("skips weekends and follows the working hours' timezone", async () => {
+    const { slots } = await findFreeSlots({
+      participantIds: [participant()],
+      durationMinutes: 120,
+      // Friday evening UTC to Monday evening UTC
+      from: new Date("2031-03-07T18:00:00Z"),
+      to: new Date("2031-03-10T23:00:00Z"),
+      workingHours: { ...NINE_TO_FIVE, timezone: "America/New_York" },
+      stepMinutes: 60,
+    });
+
+    // 9:00 to 17:00 in New York is 14:00 to 22:00 UTC before daylight saving
+    // time and 13:00 to 21:00 after it starts on 9 March
+    expect(starts(slots)).toEqual([
+      "2031-03-07T18:00", "2031-03-07T19:00", "2031-03-07T20:00",
+      "2031-03-10T13:00", "2031-03-10T14:00", "2031-03-10T15:00", "2031-03-10T16:00", "2031-03-10T17:00", "2031-03-10T18:00", "2031-03-10T19:00",
+    ]);
+  });
+
+  it("treats every occurrence of a recurring meeting as busy", async () => {
+    const organizer = participant();
+    const series = await book(organizer, "2031-03-03T09:00:00Z", 60);
+    await storage.upsertMeetingRecurrence({ meetingId: series.id, rrule: "FREQ=DAILY;COUNT=5" });
+    // The Wednesday occurrence was cancelled
+    await storage.upsertMeetingException({ seriesId: series.id, originalStart: new Date("2031-03-05T09:00:00Z"), cancelled: true });
+
+    const { slots } = await findFreeSlots({
+      participantIds: [organizer],
+      durationMinutes: 60,
+      from: new Date("2031-03-03T00:00:00Z"),
+      to: new Date("2031-03-08T00:00:00Z"),
+      workingHours: { ...NINE_TO_FIVE, endHour: 10 },
+    });
+
+    expect(starts(slots)).toEqual(["2031-03-05T09:00"]);
+  });
+
+  it("starts on a step boundary and stops at the limit", async () => {
+    const { slots } = await findFreeSlots({
+      participantIds: [participant()],
+      durationMinutes: 30,
+      from: new Date("2031-03-03T09:07:00Z"),
+      to: new Date("2031-03-03T17:00:00Z"),
+      workingHours: NINE_TO_FIVE,
+      stepMinutes: 15,
+      limit: 3,
+    });
+
+    expect(starts(slots)).toEqual(["2031-03-03T09:15", "2031-03-03T09:30", "2031-03-03T09:45"]);
+  });
+
+  it("validates the range", async () => {
+    const search = (from: string, to: string) => findFreeSlots({
+      participantIds: [participant()],
+      durationMinutes: 30,
+      from: new Date(from),
+      to: new Date(to),
+      workingHours: NINE_TO_FIVE,
+    });
+
+    expect(await search("2031-03-03T09:00:00Z", "2031-03-03T09:00:00Z")).toEqual({ error: "'to' must be after 'from'" });
+    expect(await search("2031-03-01T00:00:00Z", "2031-04-01T00:00:01Z")).toEqual({ error: "The range can span at most 31 days" });
+    expect((await search("2031-03-01T00:00:00Z", "2031-04-01T00:00:00Z")).slots).toHaveLength(10);
+    expect(await search("2020-03-02T00:00:00Z", "2020-03-06T00:00:00Z")).toEqual({ error: "The range has already passed" });
+  });
+
+  it("only proposes times after now when the range has begun", async () => {
+    const now = Date.now();
+    const { slots } = await findFreeSlots({
+      participantIds: [participant()],
+      durationMinutes: 30,
+      from: new Date(now - 7 * 24 * 60 * 60 * 1000),
+      to: new Date(now + 7 * 24 * 60 * 60 * 1000),
+      workingHours: { ...NINE_TO_FIVE, startHour: 0, endHour: 24, workingDays: [0, 1, 2, 3, 4, 5, 6] },
+      limit: 1,
+    });
+
+    expect(slots![0].start.getTime()).toBeGreaterThanOrEqual(now);
+    expect(slots![0].start.getTime()).toBeLessThan(now + 30 * 60 * 1000);
+  });
+});
+
+describe("findConflicts", () => {
+  it("reports each participant's overlapping bookings, touching ones excluded", async () => {
+    const organizer = participant();
+    const attendee = participant();
+    const before = await book(organizer, "2031-03-03T09:00:00Z", 60);
+    const overlapping = await book("someone-else", "2031-03-03T10:30:00Z", 30, { attendeeIds: [attendee] });
+    await book(attendee, "2031-03-03T11:00:00Z", 30);
+    await book(organizer, "2031-03-03T10:15:00Z", 30, { status: "cancelled" });
+
+    const conflicts = await findConflicts([organizer, attendee, organizer], new Date("2031-03-03T10:00:00Z"), 60);
+
+    expect(conflicts).toEqual([{
+      userId: attendee,
+      meetingId: overlapping.id,
+      start: new Date("2031-03-03T10:30:00Z"),
+      end: new Date("2031-03-03T11:00:00Z"),
+    }]);
+    expect(conflicts.some(conflict => conflict.meetingId === before.id)).toBe(false);
+  });
+
+  it("finds clashes with a later occurrence of a series and can ignore the meeting being moved", async () => {
+    const organizer = participant();
+    const series = await book(organizer, "2031-03-03T09:00:00Z", 60);
+    await storage.upsertMeetingRecurrence({ meetingId: series.id, rrule: "FREQ=WEEKLY" });
+
+    const conflicts = await findConflicts([organizer], new Date("2031-03-24T09:30:00Z"), 30);
+    const ignoringSeries = await findConflicts([organizer], new Date("2031-03-24T09:30:00Z"), 30, series.id);
+
+    expect(conflicts).toEqual([{
+      userId: organizer,
+      meetingId: series.id,
+      start: new Date("2031-03-24T09:00:00Z"),
+      end: new Date("2031-03-24T10:00:00Z"),
+    }]);
+    expect(ignoringSeries).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import type { Meeting } from "@shared/schema";
+import { storage } from "../storage";
+import { expandMeetings } from "./recurrence";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_DURATION_MINUTES = 30;
+// Longest range searched for free slots, which bounds the meetings loaded
+// and the steps walked
+const MAX_FREE_SLOT_RANGE_DAYS = 31;
+
+export interface WorkingHours {
+  startHour: number;
+  endHour: number;
+  timezone: string;
+  // 0 = Sunday ... 6 = Saturday
+  workingDays: number[];
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  startHour: Number(process.env.WORKING_HOURS_START) || 9,
+  endHour: Number(process.env.WORKING_HOURS_END) || 17,
+  timezone: process.env.WORKING_HOURS_TZ || "UTC",
+  workingDays: [1, 2, 3, 4, 5],
+};
+
+export interface MeetingConflict {
+  userId: string;
+  meetingId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export function meetingEnd(meeting: Pick<Meeting, "scheduledDate" | "duration">): Date {
+  const start = new Date(meeting.scheduledDate).getTime();
+  return new Date(start + (meeting.duration ?? DEFAULT_DURATION_MINUTES) * MINUTE_MS);
+}
+
+function overlaps(start: Date, end: Date, otherStart: Date, otherEnd: Date): boolean {
+  return start < otherEnd && otherStart < end;
+}
+
+// Cancelled meetings free up their slot
+function blocksTime(meeting: Meeting): boolean {
+  return meeting.status !== "cancelled";
+}
+
+// Each participant's bookings in the range, recurring series expanded
+async function busyTimes(participantIds: string[], from: Date, to: Date, excludeMeetingId?: string) {
+  const busy = new Map<string, Meeting[]>();
+  for (const userId of Array.from(new Set(participantIds))) {
+    const meetings = await storage.getMeetingsByUser(userId);
+    busy.set(userId, await expandMeetings(meetings.filter(m => blocksTime(m) && m.id !== excludeMeetingId), from, to));
+  }
+  return busy;
+}
+
+// Every existing booking of any participant that overlaps the proposed time
+export async function findConflicts(
+  participantIds: string[],
+  start: Date,
+  durationMinutes: number,
+  excludeMeetingId?: string,
+): Promise<MeetingConflict[]> {
+  const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+  const busy = await busyTimes(participantIds, start, end, excludeMeetingId);
+
+  const conflicts: MeetingConflict[] = [];
+  busy.forEach((meetings, userId) => {
+    for (const meeting of meetings) {
+      const meetingStart = new Date(meeting.scheduledDate);
+      const meetingFinish = meetingEnd(meeting);
+      if (overlaps(start, end, meetingStart, meetingFinish)) {
+        conflicts.push({ userId, meetingId: meeting.id, start: meetingStart, end: meetingFinish });
+      }
+    }
+  });
+  return conflicts;
+}
+
+function localTime(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return {
+    day: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: weekdays.indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function withinWorkingHours(start: Date, end: Date, hours: WorkingHours): boolean {
+  const localStart = localTime(start, hours.timezone);
+  const localEnd = localTime(end, hours.timezone);
+  return localStart.day === localEnd.day &&
+    hours.workingDays.includes(localStart.weekday) &&
+    localStart.minutes >= hours.startHour * 60 &&
+    localEnd.minutes <= hours.endHour * 60;
+}
+
+// Proposes start times, stepping through the range, at which every
+// participant is free and the whole meeting falls inside working hours. The
+// range must end in the future and span at most MAX_FREE_SLOT_RANGE_DAYS;
+// any part of it already past is skipped.
+export async function findFreeSlots(options: {
+  participantIds: string[];
+  durationMinutes: number;
+  from: Date;
+  to: Date;
+  workingHours?: WorkingHours;
+  stepMinutes?: number;
+  limit?: number;
+}): Promise<{ slots?: TimeSlot[]; error?: string }> {
+  const { to } = options;
+  if (to <= options.from) {
+    return { error: "'to' must be after 'from'" };
+  }
+  if (to.getTime() - options.from.getTime() > MAX_FREE_SLOT_RANGE_DAYS * DAY_MS) {
+    return { error: `The range can span at most ${MAX_FREE_SLOT_RANGE_DAYS} days` };
+  }
+  const now = new Date();
+  if (to <= now) {
+    return { error: "The range has already passed" };
+  }
+  const from = options.from < now ? now : options.from;
+  const hours = options.workingHours ?? DEFAULT_WORKING_HOURS;
+  const stepMs = (options.stepMinutes ?? 30) * MINUTE_MS;
+  const durationMs = options.durationMinutes * MINUTE_MS;
+  const limit = options.limit ?? 10;
+
+  const busy = Array.from((await busyTimes(options.participantIds, from, to)).values()).flat();
+
+  // Start on a step boundary so proposals land on round times
+  let cursor = Math.ceil(from.getTime() / stepMs) * stepMs;
+  const slots: TimeSlot[] = [];
+  while (cursor + durationMs <= to.getTime() && slots.length < limit) {
+    const start = new Date(cursor);
+    const end = new Date(cursor + durationMs);
+    if (withinWorkingHours(start, end, hours) &&
+        !busy.some(m => overlaps(start, end, new Date(m.scheduledDate), meetingEnd(m)))) {
+      slots.push({ start, end });
+    }
+    cursor += stepMs;
+  }
+  return { slots };
+}
@@ -0,0 +1,203 @@
+import type { Complaint } from "@shared/schema";
+import { complaintPriorities, type SlaBreachType } from "@shared/workflow";
+import { storage } from "../storage";
+import { isActiveStatus } from "./complaint-workflow";
+import { rankAssignees, getAccusedDepartment } from "./assignment";
+import { createNotification } from "./notifications";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+type Priority = typeof complaintPriorities[number];
+
+export interface SlaTarget {
+  responseHours: number;
+  resolutionHours: number;
+}
+
+export interface SlaPolicy {
+  priorities: Record<Priority, SlaTarget>;
+  // Stricter (or looser) targets for specific complaint categories
+  categories: Record<string, Partial<Record<Priority, SlaTarget>>>;
+}
+
+const DEFAULT_POLICY: SlaPolicy = {
+  priorities: {
+    urgent: { responseHours: 4, resolutionHours: 48 },
+    high: { responseHours: 24, resolutionHours: 120 },
+    medium: { responseHours: 48, resolutionHours: 240 },
+    low: { responseHours: 72, resolutionHours: 480 },
+  },
+  categories: {
+    harassment: {
+      urgent: { responseHours: 2, resolutionHours: 24 },
+      high: { responseHours: 8, resolutionHours: 72 },
+    },
+  },
+};
+
+// SLA_CONFIG may hold a JSON object shaped like SlaPolicy; its entries
+// override the defaults per priority and per category
+function loadPolicy(): SlaPolicy {
+  if (!process.env.SLA_CONFIG) {
+    return DEFAULT_POLICY;
+  }
+  try {
+    const overrides = JSON.parse(process.env.SLA_CONFIG) as Partial<SlaPolicy>;
+    return {
+      priorities: { ...DEFAULT_POLICY.priorities, ...overrides.priorities },
+      categories: { ...DEFAULT_POLICY.categories, ...overrides.categories },
+    };
+  } catch (error) {
+    console.error("Ignoring invalid SLA_CONFIG:", error);
+    return DEFAULT_POLICY;
+  }
+}
+
+export const slaPolicy = loadPolicy();
+
+export function slaTargetFor(complaint: Complaint): SlaTarget {
+  const priority = (complaint.priority in slaPolicy.priorities ? complaint.priority : "medium") as Priority;
+  return slaPolicy.categories[complaint.category]?.[priority] ?? slaPolicy.priorities[priority];
+}
+
+// First staff action on the complaint: leaving "open" or a shared reply
+export async function firstResponseAt(complaint: Complaint): Promise<Date | null> {
+  const history = await storage.getComplaintStatusHistory(complaint.id);
+  const messages = await storage.getComplaintMessages(complaint.id);
+  const candidates = [
+    history.find(entry => entry.fromStatus !== null)?.createdAt,
+    messages.find(message => !message.fromReporter)?.createdAt,
+  ].filter((date): date is Date => !!date);
+
+  if (candidates.length === 0) return null;
+  return new Date(Math.min(...candidates.map(date => new Date(date).getTime())));
+}
+
+export async function resolvedAt(complaint: Complaint): Promise<Date | null> {
+  if (isActiveStatus(complaint.status)) return null;
+  const history = await storage.getComplaintStatusHistory(complaint.id);
+  const resolution = history.filter(entry => entry.toStatus === "resolved").pop();
+  return resolution?.createdAt ? new Date(resolution.createdAt) : null;
+}
+
+export interface SlaStatus {
+  target: SlaTarget;
+  responseDueAt: Date;
+  resolutionDueAt: Date;
+  respondedAt: Date | null;
+  resolvedAt: Date | null;
+  breaches: SlaBreachType[];
+}
+
+export async function evaluateSla(complaint: Complaint, now = new Date()): Promise<SlaStatus> {
+  const target = slaTargetFor(complaint);
+  const createdAt = new Date(complaint.createdAt!).getTime();
+  const responseDueAt = new Date(createdAt + target.responseHours * HOUR_MS);
+  const resolutionDueAt = new Date(createdAt + target.resolutionHours * HOUR_MS);
+  const respondedAt = await firstResponseAt(complaint);
+  const resolved = await resolvedAt(complaint);
+
+  const breaches: SlaBreachType[] = [];
+  if ((respondedAt ?? now) > responseDueAt) breaches.push("response");
+  if ((resolved ?? now) > resolutionDueAt) breaches.push("resolution");
+
+  return { target, responseDueAt, resolutionDueAt, respondedAt, resolvedAt: resolved, breaches };
+}
+
+function bumpPriority(priority: string): string {
+  const index = complaintPriorities.indexOf(priority as Priority);
+  if (index === -1) return "high";
+  return complaintPriorities[Math.min(index + 1, complaintPriorities.length - 1)];
+}
+
+// The best-placed HR manager other than the current assignee. Escalations
+// ignore caseload caps but still respect department conflicts.
+async function pickEscalationManager(complaint: Complaint, accusedDepartment: string | null): Promise<string | null> {
+  const [manager] = await rankAssignees(complaint, accusedDepartment, {
+    roles: ["hr_manager"],
+    excludeUserIds: complaint.assignedTo ? [complaint.assignedTo] : [],
+    ignoreCapacity: true,
+  });
+  return manager?.userId ?? complaint.assignedTo;
+}
+
+export async function escalateComplaint(complaint: Complaint, breachType: SlaBreachType) {
+  const toPriority = bumpPriority(complaint.priority);
+  const accusedDepartment = await getAccusedDepartment(complaint.id);
+  const toAssignee = await pickEscalationManager(complaint, accusedDepartment);
+
+  await storage.updateComplaint(complaint.id, { priority: toPriority, assignedTo: toAssignee });
+  await storage.createComplaintEscalation({
+    complaintId: complaint.id,
+    breachType,
+    fromPriority: complaint.priority,
+    toPriority,
+    fromAssignee: complaint.assignedTo,
+    toAssignee,
+  });
+  if (toAssignee !== complaint.assignedTo) {
+    await storage.createComplaintAssignment({
+      complaintId: complaint.id,
+      assigneeId: toAssignee,
+      method: "escalation",
+      assignedBy: null,
+      accusedDepartment,
+      reason: `${breachType} SLA breached`,
+    });
+  }
+
+  const recipients = Array.from(new Set([toAssignee, complaint.assignedTo].filter((id): id is string => !!id)));
+  for (const userId of recipients) {
+    await createNotification({
+      userId,
+      title: "Complaint escalated",
+      message: `"${complaint.title}" missed its ${breachType} SLA and was escalated to ${toPriority} priority`,
+      type: "sla_breach",
+      relatedEntityId: complaint.id,
+      relatedEntityType: "complaint",
+    });
+  }
+}
+
+// Escalates each active complaint at most once per breach type
+export async function checkSlaBreaches(now = new Date()) {
+  const complaints = await storage.getComplaints();
+  for (const complaint of complaints.filter(c => isActiveStatus(c.status))) {
+    const { breaches } = await evaluateSla(complaint, now);
+    if (breaches.length === 0) continue;
+
+    const escalated = new Set(
+      (await storage.getComplaintEscalations(complaint.id)).map(escalation => escalation.breachType),
+    );
+    const breachType = breaches.find(type => !escalated.has(type));
+    if (breachType) {
+      await escalateComplaint(complaint, breachType);
+    }
+  }
+}
+
+export async function getSlaBreachCounts() {
+  const escalations = await storage.getComplaintEscalations();
+  const response = escalations.filter(escalation => escalation.breachType === "response").length;
+  const resolution = escalations.filter(escalation => escalation.breachType === "resolution").length;
+  return { response, resolution, total: response + resolution };
+}
+
+export function startSlaMonitor(intervalMs = Number(process.env.SLA_CHECK_INTERVAL_MS) || DEFAULT_CHECK_INTERVAL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await checkSlaBreaches();
+    } catch (error) {
+      console.error("SLA check failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
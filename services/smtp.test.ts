@@ -0,0 +1,176 @@
+import net from "net";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { formatMessage, sendMail, SmtpError, type SmtpConfig } from "./smtp";
+
+// A stand-in SMTP server: records the dialogue and answers each command with
+// the reply in `replies` for its verb, or a success code
+
+interface Session {
+  commands: string[];
+  data?: string;
+}
+
+let server: net.Server;
+let sessions: Session[];
+let replies: Record<string, string>;
+let config: SmtpConfig;
+
+const DEFAULT_REPLIES: Record<string, string> = {
+  EHLO: "250-fake.example.com\r\n250-SIZE 1000000\r\n250 AUTH PLAIN",
+  AUTH: "235 Authenticated",
+  MAIL: "250 OK",
+  RCPT: "250 OK",
+  DATA: "354 Go ahead",
+  QUIT: "221 Bye",
+};
+
+beforeAll(async () => {
+  server = net.createServer(socket => {
+    const session: Session = { commands: [] };
+    sessions.push(session);
+    let buffer = "";
+    let inData = false;
+    const reply = (text: string) => socket.write(`${text}\r\n`);
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let end: number;
+      while (inData ? (end = buffer.indexOf("\r\n.\r\n")) !== -1 : (end = buffer.indexOf("\r\n")) !== -1) {
+        if (inData) {
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          reply(replies.message ?? "250 Queued");
+          continue;
+        }
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        session.commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        const answer = replies[verb] ?? "250 OK";
+        if (answer === "hang up") {
+          socket.destroy();
+          return;
+        }
+        if (answer === "ignore") continue;
+        reply(answer);
+        if (verb === "DATA" && answer.startsWith("354")) inData = true;
+        if (verb === "QUIT") socket.end();
+      }
+    });
+    socket.on("error", () => undefined);
+    reply(replies.greeting ?? "220 fake.example.com ESMTP");
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+});
+
+beforeEach(() => {
+  sessions = [];
+  replies = { ...DEFAULT_REPLIES };
+  config = {
+    host: "127.0.0.1",
+    port: (server.address() as AddressInfo).port,
+    secure: false,
+    user: "mailer",
+    pass: "s3cret",
+    from: "HumanAllies <no-reply@humanallies.test>",
+  };
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function decodedBody(data: string): string {
+  const [, body] = data.split("\r\n\r\n");
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+describe("sendMail", () => {
+  it("authenticates and submits the message", async () => {
+    await sendMail(config, { to: "Jo Bloggs <jo@company.com>", subject: "Complaint updated", text: "Hello Jo,\nYour complaint was updated." });
+
+    const [session] = sessions;
+    expect(session.commands).toEqual([
+      "EHLO humanallies.test",
+      `AUTH PLAIN ${Buffer.from("\0mailer\0s3cret").toString("base64")}`,
+      "MAIL FROM:<no-reply@humanallies.test>",
+      "RCPT TO:<jo@company.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(session.data).toMatch(/^From: HumanAllies <no-reply@humanallies.test>\r\nTo: Jo Bloggs <jo@company.com>\r\nSubject: Complaint updated\r\n/);
+    expect(decodedBody(session.data!)).toBe("Hello Jo,\r\nYour complaint was updated.");
+  });
+
+  it("skips AUTH without credentials and STARTTLS when it is not offered", async () => {
+    await sendMail({ ...config, user: undefined }, { to: "jo@company.com", subject: "Hi", text: "Hi" });
+
+    expect(sessions[0].commands.map(command => command.split(" ")[0])).toEqual(["EHLO", "MAIL", "RCPT", "DATA", "QUIT"]);
+  });
+
+  it("fails with the server's reply when a command is refused", async () => {
+    replies.RCPT = "550 5.1.1 No such user";
+
+    const sent = sendMail(config, { to: "nobody@company.com", subject: "Hi", text: "Hi" });
+
+    await expect(sent).rejects.toThrow(new SmtpError("SMTP RCPT failed: 550 5.1.1 No such user"));
+    await expect(sent).rejects.toMatchObject({ code: 550 });
+    expect(sessions[0].commands).not.toContain("DATA");
+  });
+
+  it("reports rejected credentials and rejected messages", async () => {
+    replies.AUTH = "535 5.7.8 Bad credentials";
+    await expect(sendMail(config, { to: "jo@company.com", subject: "Hi", text: "Hi" }))
+      .rejects.toMatchObject({ message: "SMTP AUTH failed: 535 5.7.8 Bad credentials", code: 535 });
+
+    replies = { ...DEFAULT_REPLIES, message: "554 Message rejected" };
+    await expect(sendMail(config, { to: "jo@company.com", subject: "Hi", text: "Hi" }))
+      .rejects.toMatchObject({ message: "SMTP message failed: 554 Message rejected", code: 554 });
+  });
+
+  it("fails when the greeting is not a welcome", async () => {
+    replies.greeting = "554 No service";
+
+    await expect(sendMail(config, { to: "jo@company.com", subject: "Hi", text: "Hi" }))
+      .rejects.toMatchObject({ message: "SMTP greeting failed: 554 No service", code: 554 });
+  });
+
+  it("fails when the server hangs up or stops answering", async () => {
+    replies.MAIL = "hang up";
+    await expect(sendMail(config, { to: "jo@company.com", subject: "Hi", text: "Hi" })).rejects.toThrow("SMTP connection closed");
+
+    replies = { ...DEFAULT_REPLIES, MAIL: "ignore" };
+    await expect(sendMail({ ...config, timeoutMs: 200 }, { to: "jo@company.com", subject: "Hi", text: "Hi" }))
+      .rejects.toThrow("SMTP connection timed out");
+  });
+
+  it("fails when nothing is listening", async () => {
+    const closed = net.createServer();
+    await new Promise<void>(resolve => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+
+    await expect(sendMail({ ...config, port }, { to: "jo@company.com", subject: "Hi", text: "Hi" })).rejects.toMatchObject({ code: "ECONNREFUSED" });
+  });
+});
+
+describe("formatMessage", () => {
+  it("encodes non-ASCII subjects and keeps headers on one line", () => {
+    const message = formatMessage("no-reply@humanallies.test", { to: "jo@company.com", subject: "Réunion\r\nBcc: x@evil.test", text: "Bonjour" });
+
+    const subject = /^Subject: (.*)$/m.exec(message)![1];
+    expect(subject).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(Buffer.from(subject.slice(10, -2), "base64").toString("utf8")).toBe("Réunion Bcc: x@evil.test");
+    expect(message).not.toMatch(/^Bcc:/m);
+  });
+
+  it("wraps the base64 body at 76 characters", () => {
+    const message = formatMessage("no-reply@humanallies.test", { to: "jo@company.com", subject: "Long", text: "x".repeat(200) });
+
+    const body = message.split("\r\n\r\n")[1].split("\r\n");
+    expect(body.slice(0, -1).every(line => line.length === 76)).toBe(true);
+    expect(Buffer.from(body.join(""), "base64").toString("utf8")).toBe("x".repeat(200));
+  });
+});
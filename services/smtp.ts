@@ -0,0 +1,203 @@
+import net from "net";
+import tls from "tls";
+import { randomBytes } from "crypto";
+
+// Minimal SMTP submission client (RFC 5321) for plain-text notification mail:
+// implicit TLS or STARTTLS, AUTH PLAIN, one recipient per message
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // "Name <address>" or a bare address
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+function envelopeAddress(address: string): string {
+  return /<([^>]+)>/.exec(address)?.[1] ?? address.trim();
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+export function formatMessage(from: string, message: MailMessage): string {
+  const domain = envelopeAddress(from).split("@")[1] ?? "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, " "))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private pending: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError("SMTP connection timed out")));
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf8")));
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new SmtpError("SMTP connection closed")));
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pending.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.pending };
+        this.pending = [];
+        if (this.waiter) {
+          const { resolve } = this.waiter;
+          this.waiter = undefined;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expected: number[], step = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply;
+  }
+
+  async startTls(host: string) {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    const secure = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close() {
+    this.socket.end();
+  }
+
+  destroy() {
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const session = new SmtpSession(await connect(config), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    await session.expect([220], "greeting");
+    const hello = `EHLO ${envelopeAddress(config.from).split("@")[1] ?? "localhost"}`;
+    const capabilities = await session.command(hello, [250]);
+
+    if (!config.secure && capabilities.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command("STARTTLS", [220]);
+      await session.startTls(config.host);
+      await session.command(hello, [250]);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`, "utf8").toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250]);
+    await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+    await session.command("DATA", [354]);
+    // Lines starting with a dot are doubled so they are not read as the end marker
+    const data = formatMessage(config.from, message).replace(/^\./gm, "..");
+    await session.command(`${data}\r\n.`, [250], "message");
+    await session.command("QUIT", [221]).catch(() => undefined);
+    session.close();
+  } catch (error) {
+    session.destroy();
+    throw error;
+  }
+}
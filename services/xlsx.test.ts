@@ -0,0 +1,84 @@
+import { inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { buildWorkbook } from "./xlsx";
+
+// Reads a ZIP archive through its central directory, checking each entry's
+// local header agrees with it
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  expect(position + archive.readUInt32LE(end + 12)).toBe(end);
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+
+    expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+    expect(archive.readUInt32LE(offset + 18)).toBe(compressedSize);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(data.length).toBe(size);
+    entries.set(name, data.toString("utf8"));
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("buildWorkbook", () => {
+  it("packages a workbook with one worksheet per sheet", () => {
+    const entries = unzip(buildWorkbook([
+      { name: "Complaints", columns: ["Title"], rows: [["Unpaid overtime"]] },
+      { name: "Trend", columns: ["Period"], rows: [] },
+    ]));
+
+    expect(Array.from(entries.keys())).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(entries.get("xl/workbook.xml")).toContain(`<sheet name="Complaints" sheetId="1" r:id="rId1"/><sheet name="Trend" sheetId="2" r:id="rId2"/>`);
+    expect(entries.get("xl/_rels/workbook.xml.rels")).toContain(`Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles"`);
+    expect(entries.get("[Content_Types].xml")).toContain(`PartName="/xl/worksheets/sheet2.xml"`);
+  });
+
+  it("writes each kind of value as its own cell type", () => {
+    const sheet = unzip(buildWorkbook([{
+      name: "Cells",
+      columns: ["Text", "Number", "Flag", "When", "Empty"],
+      rows: [["Tom & \"Jerry\" <3\x07", -0.4, true, new Date("2025-03-03T12:00:00Z"), null]],
+    }])).get("xl/worksheets/sheet1.xml")!;
+
+    expect(sheet).toContain(`<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Text</t></is></c>`);
+    expect(sheet).toContain(`<c r="A2" t="inlineStr"><is><t xml:space="preserve">Tom &amp; &quot;Jerry&quot; &lt;3</t></is></c>`);
+    expect(sheet).toContain(`<c r="B2"><v>-0.4</v></c>`);
+    expect(sheet).toContain(`<c r="C2" t="b"><v>1</v></c>`);
+    expect(sheet).toContain(`<c r="D2" s="2"><v>45719.5</v></c>`);
+    expect(sheet).not.toContain(`r="E2"`);
+    expect(sheet).toContain(`state="frozen"`);
+  });
+
+  it("names columns past Z and keeps sheet names valid and distinct", () => {
+    const columns = Array.from({ length: 28 }, (_, index) => `C${index}`);
+    const entries = unzip(buildWorkbook([
+      { name: "By department / category: a very long sheet name", columns, rows: [] },
+      { name: "By department / category: a very long sheet name", columns: ["A"], rows: [] },
+      { name: "", columns: ["A"], rows: [] },
+    ]));
+
+    expect(entries.get("xl/worksheets/sheet1.xml")).toContain(`<c r="AB1" s="1"`);
+    const names = Array.from(entries.get("xl/workbook.xml")!.matchAll(/name="([^"]*)"/g), match => match[1]);
+    expect(names).toEqual(["By department   category  a ver", "By department   category  a v 2", "Sheet3"]);
+    expect(names.every(name => name.length <= 31)).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { users } from "./schema";
+
+export const activityEventTypes = [
+  "complaint.filed",
+  "complaint.status_changed",
+  "meeting.scheduled",
+  "user.registered",
+  "scenario.run",
+] as const;
+
+// What happened in the organisation, for the admin dashboard. Rows are
+// written by storage as the underlying records are created.
+export const activityEvents = pgTable("activity_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  // Null when the actor must stay hidden (anonymous complaints)
+  actorId: varchar("actor_id").references(() => users.id),
+  // The filer's department for complaint events, otherwise the actor's
+  department: text("department"),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  summary: text("summary").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertActivityEventSchema = createInsertSchema(activityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const activityQuerySchema = z.object({
+  type: z.enum(activityEventTypes).optional(),
+  // Events performed by this user
+  userId: z.string().optional(),
+  department: z.string().optional(),
+  // Opaque value from the previous page's nextCursor
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ActivityEventType = typeof activityEventTypes[number];
+export type ActivityEvent = typeof activityEvents.$inferSelect;
+export type InsertActivityEvent = z.infer<typeof insertActivityEventSchema>;
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
@@ -0,0 +1,171 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, unique } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { users } from "./schema";
+import { complaintPriorities } from "./workflow";
+
+export const aiProviders = ["openai", "local", "rules"] as const;
+export const aiTasks = ["complaint_analysis", "scenario_analysis", "hr_chat"] as const;
+
+export type AiProviderName = typeof aiProviders[number];
+export type AiTask = typeof aiTasks[number];
+
+// Categories the analysis may file a complaint under
+export const complaintCategories = [
+  "harassment",
+  "discrimination",
+  "workplace_safety",
+  "compensation",
+  "management",
+  "workload",
+  "policy_violation",
+  "other",
+] as const;
+
+export const riskLevels = ["low", "medium", "high"] as const;
+
+// Every provider's output is checked against these before it is used
+export const complaintAnalysisSchema = z.object({
+  category: z.enum(complaintCategories),
+  priority: z.enum(complaintPriorities),
+  summary: z.string().trim().min(1).max(2000),
+  recommendations: z.array(z.string().trim().min(1).max(500)).max(10),
+  // -1 (very negative) to 1 (very positive)
+  sentiment: z.number().min(-1).max(1),
+  confidence: z.number().min(0).max(1),
+});
+
+export const scenarioAnalysisSchema = z.object({
+  response: z.string().trim().min(1).max(8000),
+  recommendedActions: z.array(z.string().trim().min(1).max(500)).max(10),
+  riskLevel: z.enum(riskLevels),
+});
+
+// Citations name the passages the answer rests on ("S1", "S2", ...); none
+// means the passages did not answer the question
+export const hrAnswerSchema = z.object({
+  answer: z.string().trim().min(1).max(8000),
+  citations: z.array(z.string().trim().min(1).max(20)).max(10),
+});
+
+export const aiOutputSchemas = {
+  complaint_analysis: complaintAnalysisSchema,
+  scenario_analysis: scenarioAnalysisSchema,
+  hr_chat: hrAnswerSchema,
+};
+
+export type ComplaintAnalysis = z.infer<typeof complaintAnalysisSchema>;
+export type ScenarioAnalysis = z.infer<typeof scenarioAnalysisSchema>;
+export type HrAnswer = z.infer<typeof hrAnswerSchema>;
+
+// A policy passage offered to the chat task as grounding
+export interface PolicyPassageInput {
+  id: string;
+  document: string;
+  section: string;
+  text: string;
+}
+
+// An earlier question in the same conversation and the answer it got
+export interface ChatExchange {
+  question: string;
+  answer: string;
+}
+
+// A passage an answer rests on, as shown to the person who asked
+export interface PolicyCitation {
+  id: string;
+  documentId: string;
+  title: string;
+  section: string;
+  excerpt: string;
+}
+
+export interface AiTaskInputs {
+  complaint_analysis: { title: string; description: string };
+  scenario_analysis: { scenario: string };
+  // History is oldest first and already trimmed to fit the context window
+  hr_chat: { question: string; passages: PolicyPassageInput[]; history: ChatExchange[] };
+}
+
+export interface AiTaskOutputs {
+  complaint_analysis: ComplaintAnalysis;
+  scenario_analysis: ScenarioAnalysis;
+  hr_chat: HrAnswer;
+}
+
+// Kinds of personal data replaced with placeholders before text reaches a
+// provider
+export const piiCategories = ["person", "email", "phone", "id_number", "medical"] as const;
+export type PiiCategory = typeof piiCategories[number];
+// How many distinct values of each category were replaced
+export type PiiCounts = Partial<Record<PiiCategory, number>>;
+
+export const aiRunStatuses = ["succeeded", "failed"] as const;
+
+// One provider call: which provider and model answered, how long it took and
+// the validated output, or why it failed
+export const aiRuns = pgTable("ai_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: text("task").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  // The record the output was for, if any (chat answers have none)
+  entityType: text("entity_type"),
+  entityId: varchar("entity_id"),
+  status: text("status").notNull(),
+  error: text("error"),
+  latencyMs: integer("latency_ms").notNull(),
+  output: jsonb("output").$type<AiTaskOutputs[AiTask]>(),
+  // Categories of personal data redacted from the input; never the values
+  redactions: jsonb("redactions").$type<PiiCounts>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type AiRun = typeof aiRuns.$inferSelect;
+export type InsertAiRun = typeof aiRuns.$inferInsert;
+
+// The placeholders in a record's stored analysis and the values they stand
+// for, kept apart from the runs so that only authorized viewers see them
+export const aiPiiTokens = pgTable("ai_pii_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  tokens: jsonb("tokens").$type<Record<string, string>>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, table => [unique().on(table.entityType, table.entityId)]);
+
+export type AiPiiTokens = typeof aiPiiTokens.$inferSelect;
+export type InsertAiPiiTokens = typeof aiPiiTokens.$inferInsert;
+
+export const aiJobStatuses = ["pending", "running", "done", "failed"] as const;
+export type AiJobStatus = typeof aiJobStatuses[number];
+
+// A queued analysis of a complaint or scenario. The worker retries failed
+// attempts with exponential backoff until the job is done or gives up.
+export const aiJobs = pgTable("ai_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: text("task").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  // While an attempt runs, when its lease ends and another worker may take
+  // the job over
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  // Staff member who asked for a re-analysis; null when queued on submission
+  requestedBy: varchar("requested_by").references(() => users.id),
+  // Whether a re-analysis may also change the complaint's category and priority
+  retriage: boolean("retriage").notNull().default(false),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const reanalyzeComplaintSchema = z.object({
+  // Also replace the category and priority, which staff may have corrected
+  retriage: z.boolean().optional(),
+});
+
+export type AiJob = typeof aiJobs.$inferSelect;
+export type InsertAiJob = typeof aiJobs.$inferInsert;
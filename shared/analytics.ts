@@ -0,0 +1,72 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, doublePrecision } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// Complaint metrics rolled up per UTC day, department and category. Each
+// event counts on the day it happened: filings and sentiment on the filing
+// day, first responses and resolutions on the day they occurred. Durations
+// are kept as totals so any range of days can be averaged.
+export const complaintDailyStats = pgTable("complaint_daily_stats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // "YYYY-MM-DD"
+  day: text("day").notNull(),
+  // Submitter's department; null when unknown or the complaint is anonymous
+  department: text("department"),
+  category: text("category").notNull(),
+  filed: integer("filed").notNull().default(0),
+  // Transitions into "resolved"; a reopened complaint counts again
+  resolved: integer("resolved").notNull().default(0),
+  firstResponses: integer("first_responses").notNull().default(0),
+  firstResponseHours: doublePrecision("first_response_hours").notNull().default(0),
+  resolutionHours: doublePrecision("resolution_hours").notNull().default(0),
+  sentimentCount: integer("sentiment_count").notNull().default(0),
+  sentimentTotal: doublePrecision("sentiment_total").notNull().default(0),
+  computedAt: timestamp("computed_at").defaultNow(),
+});
+
+export const insertComplaintDailyStatsSchema = createInsertSchema(complaintDailyStats).omit({
+  id: true,
+  computedAt: true,
+});
+
+export const analyticsIntervals = ["day", "week", "month"] as const;
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").refine(
+  value => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)),
+  "Invalid date",
+);
+
+const rangeFields = {
+  // Inclusive UTC days; the last 30 days when omitted
+  from: day.optional(),
+  to: day.optional(),
+  department: z.string().optional(),
+  category: z.string().optional(),
+};
+
+const orderedRange = (range: { from?: string; to?: string }) => !range.from || !range.to || range.from <= range.to;
+
+export const analyticsTrendQuerySchema = z.object({
+  ...rangeFields,
+  interval: z.enum(analyticsIntervals).default("day"),
+}).refine(orderedRange, "from must not be after to");
+
+export const analyticsHotspotQuerySchema = z.object({
+  ...rangeFields,
+  // Department/category pairs with fewer filings are left out
+  minComplaints: z.coerce.number().int().min(2).default(3),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+}).refine(orderedRange, "from must not be after to");
+
+export const analyticsRebuildSchema = z.object({
+  from: day,
+  to: day,
+}).refine(orderedRange, "from must not be after to");
+
+export type AnalyticsInterval = typeof analyticsIntervals[number];
+export type ComplaintDailyStats = typeof complaintDailyStats.$inferSelect;
+export type InsertComplaintDailyStats = z.infer<typeof insertComplaintDailyStatsSchema>;
+export type AnalyticsTrendQuery = z.infer<typeof analyticsTrendQuerySchema>;
+export type AnalyticsHotspotQuery = z.infer<typeof analyticsHotspotQuerySchema>;
+export type AnalyticsRebuild = z.infer<typeof analyticsRebuildSchema>;
@@ -0,0 +1,26 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { complaints, users } from "./schema";
+
+export const complaintAttachments = pgTable("complaint_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  uploaderId: varchar("uploader_id").notNull().references(() => users.id),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  // SHA-256 of the bytes as received, re-checked on every download
+  checksum: text("checksum").notNull(),
+  storageKey: text("storage_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertComplaintAttachmentSchema = createInsertSchema(complaintAttachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ComplaintAttachment = typeof complaintAttachments.$inferSelect;
+export type InsertComplaintAttachment = z.infer<typeof insertComplaintAttachmentSchema>;
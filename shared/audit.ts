@@ -0,0 +1,62 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { users } from "./schema";
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditMetadata {
+  method: string;
+  path: string;
+  statusCode: number;
+  params?: Record<string, string>;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Append-only: entries are never updated or deleted. Each one stores the
+// hash of its predecessor, so editing or removing an entry breaks the chain
+// from that point on (see GET /api/audit/verify).
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Position in the hash chain; unique so two writers cannot fork it
+  sequence: integer("sequence").notNull().unique(),
+  actorId: varchar("actor_id").references(() => users.id),
+  actorRole: text("actor_role"),
+  // e.g. "complaint.view", "meeting.update" or "POST /api/meetings/:id/rsvp"
+  action: text("action").notNull(),
+  entityType: text("entity_type"),
+  entityId: varchar("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  metadata: jsonb("metadata").$type<AuditMetadata>().notNull(),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const auditFilters = {
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+// Oldest first; pass nextCursor back as ?after= for the next page
+export const auditQuerySchema = z.object({
+  ...auditFilters,
+  after: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const auditExportSchema = z.object({
+  ...auditFilters,
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+// Entries are only ever written by the audit service, never from request bodies
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditExport = z.infer<typeof auditExportSchema>;
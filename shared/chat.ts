@@ -0,0 +1,83 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { complaints, users } from "./schema";
+import { complaintCategories, type AiProviderName, type PolicyCitation } from "./ai";
+
+export const chatTurnRoles = ["user", "assistant"] as const;
+export type ChatTurnRole = typeof chatTurnRoles[number];
+
+// A conversation with the HR assistant. Only its owner can read it; it is
+// deleted once expiresAt passes, which moves forward with every exchange.
+export const chatConversations = pgTable("chat_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  // Taken from the first question unless the owner names it
+  title: text("title"),
+  // Set once the conversation has been turned into a formal complaint
+  escalatedComplaintId: varchar("escalated_complaint_id").references(() => complaints.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One question or answer. Answers keep the citations and provider they were
+// given with so the transcript reads the same later.
+export const chatTurns = pgTable("chat_turns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => chatConversations.id),
+  // Order within the conversation
+  position: integer("position").notNull(),
+  role: text("role").$type<ChatTurnRole>().notNull(),
+  content: text("content").notNull(),
+  citations: jsonb("citations").$type<PolicyCitation[]>(),
+  // Whether a policy passage answered the question; null for questions
+  grounded: boolean("grounded"),
+  provider: text("provider").$type<AiProviderName>(),
+  model: text("model"),
+  latencyMs: integer("latency_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Without a row a user's conversations are kept for the default period
+export const chatPreferences = pgTable("chat_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  retentionDays: integer("retention_days").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const conversationTitle = z.string().trim().min(1).max(120);
+
+export const createChatConversationSchema = z.object({
+  title: conversationTitle.optional(),
+});
+
+export const updateChatConversationSchema = z.object({
+  title: conversationTitle,
+}).strict();
+
+export const postChatMessageSchema = z.object({
+  question: z.string().trim().min(1).max(4000),
+});
+
+// Anything left out is filled in from the transcript
+export const escalateChatConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  description: z.string().trim().min(1).max(20000).optional(),
+  category: z.enum(complaintCategories).optional(),
+  isAnonymous: z.boolean().optional(),
+  accusedDepartment: z.string().trim().min(1).optional(),
+});
+
+export const updateChatPreferencesSchema = z.object({
+  retentionDays: z.number().int().min(1).max(365),
+}).strict();
+
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type InsertChatConversation = typeof chatConversations.$inferInsert;
+export type ChatTurn = typeof chatTurns.$inferSelect;
+export type InsertChatTurn = typeof chatTurns.$inferInsert;
+export type ChatPreferences = typeof chatPreferences.$inferSelect;
+export type InsertChatPreferences = typeof chatPreferences.$inferInsert;
+export type EscalateChatConversation = z.infer<typeof escalateChatConversationSchema>;
+export type UpdateChatPreferences = z.infer<typeof updateChatPreferencesSchema>;
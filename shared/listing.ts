@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { complaintPriorities, complaintStatuses } from "./workflow";
+import { meetingStatuses } from "./meetings";
+
+// List endpoints page with keyset cursors over a sort field, the id
+// breaking ties, so rows inserted between requests never shift a page
+export const sortOrders = ["asc", "desc"] as const;
+
+export const complaintSortFields = ["createdAt", "updatedAt", "priority", "title"] as const;
+export const meetingSortFields = ["scheduledDate", "createdAt", "title"] as const;
+export const scenarioSortFields = ["createdAt", "title"] as const;
+export const userSortFields = ["name", "username", "createdAt"] as const;
+
+export type SortOrder = typeof sortOrders[number];
+export type ComplaintSortField = typeof complaintSortFields[number];
+export type MeetingSortField = typeof meetingSortFields[number];
+export type ScenarioSortField = typeof scenarioSortFields[number];
+export type UserSortField = typeof userSortFields[number];
+
+export type SortValue = string | number | Date;
+
+// Priorities sort by severity rather than alphabetically and text ignores
+// case; dates sort as stored
+export function sortValueOf(row: object, field: string): SortValue {
+  const value = (row as Record<string, unknown>)[field];
+  if (field === "priority") {
+    return complaintPriorities.indexOf(value as typeof complaintPriorities[number]);
+  }
+  return typeof value === "string" ? value.toLowerCase() : value as SortValue;
+}
+
+export function compareSortValues(a: SortValue, b: SortValue): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Keyset page over a sort field: "after" is the sort value (as given by
+// sortValueOf) and id of the last item of the previous page. Every match is
+// returned when limit is omitted.
+export interface ListPageOptions<S extends string> {
+  sort: S;
+  order: SortOrder;
+  limit?: number;
+  after?: { value: SortValue; id: string };
+  // Case-insensitive substring of the entity's text fields
+  search?: string;
+}
+
+// Sorts and pages rows held in memory the way the database queries do
+export function pageRows<T extends { id: string }>(rows: T[], options: ListPageOptions<string>): T[] {
+  const direction = options.order === "asc" ? 1 : -1;
+  const compare = (a: SortValue, aId: string, b: SortValue, bId: string) =>
+    direction * (compareSortValues(a, b) || (aId < bId ? -1 : aId > bId ? 1 : 0));
+  const { after } = options;
+  const sorted = rows
+    .map(row => ({ row, value: sortValueOf(row, options.sort) }))
+    .filter(({ row, value }) => !after || compare(value, row.id, after.value, after.id) > 0)
+    .sort((a, b) => compare(a.value, a.row.id, b.value, b.row.id))
+    .map(({ row }) => row);
+  return options.limit === undefined ? sorted : sorted.slice(0, options.limit);
+}
+
+export function matchesSearch(search: string | undefined, ...fields: (string | null | undefined)[]): boolean {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return fields.some(field => !!field && field.toLowerCase().includes(needle));
+}
+
+// Accepts ?status=open,triaged as well as a repeated ?status=open&status=triaged
+function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    value => (typeof value === "string" ? value.split(",").map(part => part.trim()).filter(Boolean) : value),
+    z.array(item).min(1),
+  ).optional();
+}
+
+const pageQuery = {
+  // Opaque value from the previous page's nextCursor
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Text fields default to ascending, dates and priority to descending
+  order: z.enum(sortOrders).optional(),
+  // Case-insensitive substring match
+  search: z.string().trim().min(1).max(200).optional(),
+};
+
+// Date ranges include "from" and exclude "to"
+function inRange(query: { from?: Date; to?: Date }) {
+  return !query.from || !query.to || query.to > query.from;
+}
+
+export const complaintListQuerySchema = z.object({
+  ...pageQuery,
+  status: listOf(z.enum(complaintStatuses)),
+  priority: listOf(z.enum(complaintPriorities)),
+  category: listOf(z.string()),
+  // A staff user id, or "unassigned"
+  assignedTo: z.string().min(1).optional(),
+  // Filing date
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(complaintSortFields).default("createdAt"),
+}).refine(inRange, "'to' must be after 'from'");
+
+// With both from and to, recurring series are expanded into the occurrences
+// that fall in the range, which are then paged in start order
+export const meetingListQuerySchema = z.object({
+  ...pageQuery,
+  status: listOf(z.enum(meetingStatuses)),
+  type: listOf(z.string()),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(meetingSortFields).default("scheduledDate"),
+}).refine(inRange, "'to' must be after 'from'")
+  .refine(
+    query => !query.from || !query.to || query.to.getTime() - query.from.getTime() <= 366 * 24 * 60 * 60 * 1000,
+    "Range cannot exceed a year",
+  );
+
+export const scenarioListQuerySchema = z.object({
+  ...pageQuery,
+  riskLevel: listOf(z.string()),
+  createdBy: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(scenarioSortFields).default("createdAt"),
+}).refine(inRange, "'to' must be after 'from'");
+
+export const userListQuerySchema = z.object({
+  ...pageQuery,
+  role: listOf(z.string()),
+  department: z.string().min(1).optional(),
+  active: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(userSortFields).default("name"),
+});
+
+export type ComplaintListQuery = z.infer<typeof complaintListQuerySchema>;
+export type MeetingListQuery = z.infer<typeof meetingListQuerySchema>;
+export type ScenarioListQuery = z.infer<typeof scenarioListQuerySchema>;
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
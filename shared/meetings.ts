@@ -0,0 +1,190 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { insertMeetingSchema, meetings, users } from "./schema";
+import { formatRecurrenceRule, parseRecurrenceRule } from "./recurrence";
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const freeSlotsQuerySchema = z.object({
+  attendeeIds: z.string().min(1).transform(ids => ids.split(",").map(id => id.trim()).filter(Boolean)),
+  duration: z.coerce.number().int().min(5).max(480).default(30),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export type FreeSlotsQuery = z.infer<typeof freeSlotsQuerySchema>;
+
+export const calendarSources = ["internal", "import"] as const;
+
+// iCalendar identity of a meeting. SEQUENCE goes up whenever attendees
+// need to replace their copy (reschedules, cancellations).
+export const meetingCalendarEntries = pgTable("meeting_calendar_entries", {
+  meetingId: varchar("meeting_id").primaryKey().references(() => meetings.id),
+  uid: text("uid").notNull().unique(),
+  sequence: integer("sequence").notNull().default(0),
+  // Zone the meeting is shown in on exported invites
+  timezone: text("timezone").notNull().default("UTC"),
+  source: text("source").notNull().default("internal"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertMeetingCalendarEntrySchema = createInsertSchema(meetingCalendarEntries).omit({
+  updatedAt: true,
+});
+
+// Secret that lets calendar apps poll a user's feed without a session
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCalendarFeedTokenSchema = createInsertSchema(calendarFeedTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const importCalendarSchema = z.object({
+  ics: z.string().min(1),
+  // Zone for floating times in the file
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  relatedComplaintId: z.string().optional(),
+});
+
+// scheduled -> completed once an outcome is recorded, or -> cancelled
+export const meetingStatuses = ["scheduled", "completed", "cancelled"] as const;
+
+export const rsvpResponses = ["accepted", "declined", "tentative"] as const;
+
+export type RsvpResponse = typeof rsvpResponses[number];
+
+// One answer per attendee; cleared when the meeting is moved
+export const meetingRsvps = pgTable("meeting_rsvps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: varchar("meeting_id").notNull().references(() => meetings.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  response: text("response").notNull(),
+  comment: text("comment"),
+  respondedAt: timestamp("responded_at").defaultNow(),
+}, table => [unique().on(table.meetingId, table.userId)]);
+
+export const insertMeetingRsvpSchema = createInsertSchema(meetingRsvps).omit({
+  id: true,
+  respondedAt: true,
+});
+
+// What was agreed in a meeting; re-recording replaces the previous outcome
+export const meetingOutcomes = pgTable("meeting_outcomes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  meetingId: varchar("meeting_id").notNull().unique().references(() => meetings.id),
+  recordedBy: varchar("recorded_by").notNull().references(() => users.id),
+  minutes: text("minutes").notNull(),
+  agreedActions: text("agreed_actions").array().notNull().default(sql`'{}'::text[]`),
+  followUpDate: timestamp("follow_up_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertMeetingOutcomeSchema = createInsertSchema(meetingOutcomes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Makes the meeting the first occurrence of a series
+export const meetingRecurrences = pgTable("meeting_recurrences", {
+  meetingId: varchar("meeting_id").primaryKey().references(() => meetings.id),
+  // Canonical RRULE text, e.g. FREQ=WEEKLY;BYDAY=MO;COUNT=12
+  rrule: text("rrule").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertMeetingRecurrenceSchema = createInsertSchema(meetingRecurrences).omit({
+  updatedAt: true,
+});
+
+// A single occurrence of a series that was cancelled, or detached into its
+// own meeting row so it can be edited without touching the rest
+export const meetingExceptions = pgTable("meeting_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seriesId: varchar("series_id").notNull().references(() => meetings.id),
+  originalStart: timestamp("original_start").notNull(),
+  meetingId: varchar("meeting_id").references(() => meetings.id),
+  cancelled: boolean("cancelled").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, table => [unique().on(table.seriesId, table.originalStart)]);
+
+export const insertMeetingExceptionSchema = createInsertSchema(meetingExceptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Accepts an RRULE (with or without the "RRULE:" prefix) and normalises it
+export const recurrenceRuleSchema = z.string().transform((value, ctx) => {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid or unsupported recurrence rule" });
+    return z.NEVER;
+  }
+  return formatRecurrenceRule(rule);
+});
+
+// Booking options that are not columns on the meeting itself
+export const scheduleMeetingOptionsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  recurrence: recurrenceRuleSchema.optional(),
+});
+
+// Changing the time, duration, attendees or recurrence counts as a reschedule.
+// recurrence: null turns a series back into a single meeting.
+export const updateMeetingSchema = insertMeetingSchema.pick({
+  title: true,
+  description: true,
+  duration: true,
+  attendeeIds: true,
+  meetingLink: true,
+}).partial().extend({
+  scheduledDate: z.coerce.date().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+}).strict();
+
+export const cancelMeetingSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const meetingRsvpSchema = z.object({
+  response: z.enum(rsvpResponses),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const recordMeetingOutcomeSchema = z.object({
+  minutes: z.string().trim().min(1).max(20000),
+  agreedActions: z.array(z.string().trim().min(1).max(1000)).max(50).default([]),
+  followUpDate: z.coerce.date().nullable().optional(),
+});
+
+export type MeetingCalendarEntry = typeof meetingCalendarEntries.$inferSelect;
+export type InsertMeetingCalendarEntry = z.infer<typeof insertMeetingCalendarEntrySchema>;
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type InsertCalendarFeedToken = z.infer<typeof insertCalendarFeedTokenSchema>;
+export type MeetingRsvp = typeof meetingRsvps.$inferSelect;
+export type InsertMeetingRsvp = z.infer<typeof insertMeetingRsvpSchema>;
+export type MeetingOutcome = typeof meetingOutcomes.$inferSelect;
+export type InsertMeetingOutcome = z.infer<typeof insertMeetingOutcomeSchema>;
+export type UpdateMeeting = z.infer<typeof updateMeetingSchema>;
+export type RecordMeetingOutcome = z.infer<typeof recordMeetingOutcomeSchema>;
+export type MeetingRecurrence = typeof meetingRecurrences.$inferSelect;
+export type InsertMeetingRecurrence = z.infer<typeof insertMeetingRecurrenceSchema>;
+export type MeetingException = typeof meetingExceptions.$inferSelect;
+export type InsertMeetingException = z.infer<typeof insertMeetingExceptionSchema>;
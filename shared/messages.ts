@@ -0,0 +1,38 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, boolean } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { complaints, users } from "./schema";
+
+// shared: visible to the submitter; internal: HR case notes only
+export const messageVisibilities = ["shared", "internal"] as const;
+
+export type MessageVisibility = typeof messageVisibilities[number];
+
+export const complaintMessages = pgTable("complaint_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  // True when the complaint's submitter wrote it, so it can be pseudonymised
+  fromReporter: boolean("from_reporter").notNull().default(false),
+  visibility: text("visibility").notNull().default("shared"),
+  // Reply target within the same complaint; null starts a new thread
+  parentId: varchar("parent_id"),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertComplaintMessageSchema = createInsertSchema(complaintMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const postComplaintMessageSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  visibility: z.enum(messageVisibilities).default("shared"),
+  parentId: z.string().optional(),
+});
+
+export type ComplaintMessage = typeof complaintMessages.$inferSelect;
+export type InsertComplaintMessage = z.infer<typeof insertComplaintMessageSchema>;
+export type PostComplaintMessage = z.infer<typeof postComplaintMessageSchema>;
@@ -0,0 +1,91 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { notifications, users } from "./schema";
+import { isValidTimezone } from "./meetings";
+
+export const notificationListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Opaque value from the previous page's nextCursor
+  cursor: z.string().min(1).optional(),
+  unreadOnly: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+
+// Outbound channels a notification can be copied to besides the in-app list
+export const deliveryChannels = ["email", "sms"] as const;
+
+// pending → sent, or dead once every retry has failed. Deliveries the user
+// opted out of (or has no address for) by send time end up cancelled.
+export const deliveryStatuses = ["pending", "sent", "cancelled", "dead"] as const;
+
+// Without a row a user gets email only, at any hour
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  smsEnabled: boolean("sms_enabled").notNull().default(false),
+  // Notification types that stay in-app only
+  mutedTypes: text("muted_types").array().notNull().default(sql`'{}'::text[]`),
+  // "HH:MM" in the user's timezone; deliveries due inside wait until the end
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").notNull().default("UTC"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  notificationId: varchar("notification_id").notNull().references(() => notifications.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  channel: text("channel").notNull(),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  // Address the message went to, kept for tracing
+  destination: text("destination"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  updatedAt: true,
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+export const updateNotificationPreferencesSchema = z.object({
+  emailEnabled: z.boolean().optional(),
+  smsEnabled: z.boolean().optional(),
+  mutedTypes: z.array(z.string().min(1)).max(50).optional(),
+  quietHoursStart: timeOfDay.nullable().optional(),
+  quietHoursEnd: timeOfDay.nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+}).strict()
+  .refine(
+    prefs => (prefs.quietHoursStart === undefined) === (prefs.quietHoursEnd === undefined) &&
+      (prefs.quietHoursStart === null) === (prefs.quietHoursEnd === null),
+    "Set quietHoursStart and quietHoursEnd together",
+  );
+
+export const deliveryListQuerySchema = z.object({
+  status: z.enum(deliveryStatuses).optional(),
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type DeliveryChannelName = typeof deliveryChannels[number];
+export type DeliveryStatus = typeof deliveryStatuses[number];
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type DeliveryListQuery = z.infer<typeof deliveryListQuerySchema>;
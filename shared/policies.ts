@@ -0,0 +1,48 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { users } from "./schema";
+
+export const policyFormats = ["markdown", "text", "pdf"] as const;
+export type PolicyFormat = typeof policyFormats[number];
+
+// An uploaded handbook or policy. The original file lives in the FileStore
+// under storageKey; its text is split into chunks for retrieval.
+export const policyDocuments = pgTable("policy_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  checksum: text("checksum").notNull(),
+  storageKey: text("storage_key").notNull(),
+  chunkCount: integer("chunk_count").notNull(),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A passage of a document, small enough to quote back as a citation
+export const policyChunks = pgTable("policy_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => policyDocuments.id),
+  // Order within the document
+  position: integer("position").notNull(),
+  // Heading path, e.g. "Leave > Parental leave", with the page for PDFs
+  section: text("section").notNull(),
+  content: text("content").notNull(),
+});
+
+export const uploadPolicySchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+export const policySearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export type PolicyDocument = typeof policyDocuments.$inferSelect;
+export type InsertPolicyDocument = typeof policyDocuments.$inferInsert;
+export type PolicyChunk = typeof policyChunks.$inferSelect;
+export type InsertPolicyChunk = typeof policyChunks.$inferInsert;
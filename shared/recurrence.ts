@@ -0,0 +1,123 @@
+// RFC 5545 RRULE subset used for recurring meetings: FREQ, INTERVAL, COUNT,
+// UNTIL, BYDAY (with ordinals for monthly/yearly rules) and BYMONTHDAY.
+// Weeks start on Monday.
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// Index matches Date#getUTCDay()
+export const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+export interface WeekdayRule {
+  weekday: number;
+  // 2 = second, -1 = last; only for monthly and yearly rules
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+}
+
+function parsePositiveInt(value: string): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 ? n : null;
+}
+
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  // A bare date includes that whole day
+  return hour === undefined
+    ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59))
+    : new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+}
+
+// Returns null for malformed rules and for parts this subset does not
+// implement, rather than expanding them wrongly
+export function parseRecurrenceRule(text: string): RecurrenceRule | null {
+  let freq: RecurrenceFrequency | undefined;
+  const rule: Omit<RecurrenceRule, "freq"> = { interval: 1 };
+
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!value) return null;
+    const upper = value.toUpperCase();
+
+    switch (key.toUpperCase()) {
+      case "FREQ":
+        if (!recurrenceFrequencies.includes(upper as RecurrenceFrequency)) return null;
+        freq = upper as RecurrenceFrequency;
+        break;
+      case "INTERVAL":
+      case "COUNT": {
+        const n = parsePositiveInt(value);
+        if (n === null) return null;
+        if (key.toUpperCase() === "INTERVAL") rule.interval = n;
+        else rule.count = n;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(upper);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case "BYDAY": {
+        const days: WeekdayRule[] = [];
+        for (const item of upper.split(",")) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) return null;
+          days.push({ weekday: weekdayCodes.indexOf(match[2] as typeof weekdayCodes[number]), ordinal });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const days = value.split(",").map(Number);
+        if (days.some(d => !Number.isInteger(d) || d === 0 || Math.abs(d) > 31)) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case "WKST":
+        if (upper !== "MO") return null;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!freq || (rule.count && rule.until)) return null;
+  if (rule.byDay?.some(day => day.ordinal !== undefined) && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  if (rule.byMonthDay && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  return { freq, ...rule };
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+// Canonical text stored with the meeting and written to calendar exports
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const u = rule.until;
+    parts.push(`UNTIL=${pad(u.getUTCFullYear(), 4)}${pad(u.getUTCMonth() + 1)}${pad(u.getUTCDate())}T${pad(u.getUTCHours())}${pad(u.getUTCMinutes())}${pad(u.getUTCSeconds())}Z`);
+  }
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ""}${weekdayCodes[day.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  return parts.join(";");
+}
@@ -0,0 +1,124 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { users } from "./schema";
+import { complaintStatuses, complaintPriorities } from "./workflow";
+import { meetingStatuses } from "./meetings";
+import { analyticsIntervals } from "./analytics";
+
+export const reportKinds = ["complaints", "meetings", "analytics"] as const;
+export const reportFormats = ["csv", "xlsx", "pdf"] as const;
+// Each run covers the period that just ended: the previous UTC day, the
+// previous Monday-to-Sunday week or the previous calendar month
+export const reportFrequencies = ["daily", "weekly", "monthly"] as const;
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+// Filters without the date range, which on-demand requests pass as
+// from/to and scheduled reports derive from their frequency
+export const complaintReportFiltersSchema = z.object({
+  status: z.enum(complaintStatuses).optional(),
+  priority: z.enum(complaintPriorities).optional(),
+  category: z.string().optional(),
+  // Submitter's department; anonymous complaints never match
+  department: z.string().optional(),
+  assignedTo: z.string().optional(),
+}).strict();
+
+export const meetingReportFiltersSchema = z.object({
+  status: z.enum(meetingStatuses).optional(),
+  type: z.string().optional(),
+}).strict();
+
+export const analyticsReportFiltersSchema = z.object({
+  interval: z.enum(analyticsIntervals).default("day"),
+  department: z.string().optional(),
+  category: z.string().optional(),
+}).strict();
+
+export type ComplaintReportFilters = z.infer<typeof complaintReportFiltersSchema>;
+export type MeetingReportFilters = z.infer<typeof meetingReportFiltersSchema>;
+export type AnalyticsReportFilters = z.infer<typeof analyticsReportFiltersSchema>;
+export type ReportFilters = ComplaintReportFilters | MeetingReportFilters | AnalyticsReportFilters;
+
+export const reportFilterSchemas = {
+  complaints: complaintReportFiltersSchema,
+  meetings: meetingReportFiltersSchema,
+  analytics: analyticsReportFiltersSchema,
+};
+
+// Query string of GET /api/reports/:kind, besides the kind's own filters
+export const reportExportQuerySchema = z.object({
+  format: z.enum(reportFormats).default("csv"),
+  // Inclusive UTC days; the last 30 days when omitted
+  from: day.optional(),
+  to: day.optional(),
+}).refine(range => !range.from || !range.to || range.from <= range.to, "from must not be after to");
+
+export const reportSchedules = pgTable("report_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Reports are generated with this user's permissions and redaction
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  kind: text("kind").notNull(),
+  format: text("format").notNull(),
+  frequency: text("frequency").notNull(),
+  filters: jsonb("filters").$type<ReportFilters>().notNull().default({}),
+  active: boolean("active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stored output of a scheduled (or manually triggered) run. The bytes live
+// in the FileStore under storageKey.
+export const generatedReports = pgTable("generated_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").references(() => reportSchedules.id),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  kind: text("kind").notNull(),
+  format: text("format").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  // Inclusive UTC days covered
+  periodStart: text("period_start").notNull(),
+  periodEnd: text("period_end").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertGeneratedReportSchema = createInsertSchema(generatedReports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const createReportScheduleSchema = z.object({
+  name: z.string().min(1).max(200),
+  kind: z.enum(reportKinds),
+  format: z.enum(reportFormats),
+  frequency: z.enum(reportFrequencies),
+  filters: z.record(z.unknown()).default({}),
+}).strict();
+
+export const updateReportScheduleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  format: z.enum(reportFormats).optional(),
+  frequency: z.enum(reportFrequencies).optional(),
+  filters: z.record(z.unknown()).optional(),
+  active: z.boolean().optional(),
+}).strict();
+
+export type ReportKind = typeof reportKinds[number];
+export type ReportFormat = typeof reportFormats[number];
+export type ReportFrequency = typeof reportFrequencies[number];
+export type ReportExportQuery = z.infer<typeof reportExportQuerySchema>;
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+// Schedules are built by the report service from a validated request
+export type InsertReportSchedule = typeof reportSchedules.$inferInsert;
+export type CreateReportSchedule = z.infer<typeof createReportScheduleSchema>;
+export type UpdateReportSchedule = z.infer<typeof updateReportScheduleSchema>;
+export type GeneratedReport = typeof generatedReports.$inferSelect;
+export type InsertGeneratedReport = z.infer<typeof insertGeneratedReportSchema>;
@@ -0,0 +1,59 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { complaints, users } from "./schema";
+
+// Routing attributes for HR managers and counselors
+export const staffProfiles = pgTable("staff_profiles", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  // Complaint categories this person is best placed to handle
+  expertise: text("expertise").array().notNull().default(sql`'{}'::text[]`),
+  maxCaseload: integer("max_caseload").notNull().default(15),
+  isAvailable: boolean("is_available").notNull().default(true),
+  unavailableUntil: timestamp("unavailable_until"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertStaffProfileSchema = createInsertSchema(staffProfiles).omit({
+  updatedAt: true,
+});
+
+export const updateStaffProfileSchema = z.object({
+  expertise: z.array(z.string().min(1)).optional(),
+  maxCaseload: z.number().int().min(0).max(200).optional(),
+  isAvailable: z.boolean().optional(),
+  unavailableUntil: z.coerce.date().nullable().optional(),
+}).strict();
+
+export const assignmentMethods = ["automatic", "manual", "escalation"] as const;
+
+export const complaintAssignments = pgTable("complaint_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  assigneeId: varchar("assignee_id").references(() => users.id),
+  method: text("method").notNull(),
+  // Null for automatic assignments
+  assignedBy: varchar("assigned_by").references(() => users.id),
+  // Department named in the complaint; its staff are never assigned
+  accusedDepartment: text("accused_department"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertComplaintAssignmentSchema = createInsertSchema(complaintAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const assignComplaintSchema = z.object({
+  // Omit to re-run automatic assignment
+  assigneeId: z.string().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export type StaffProfile = typeof staffProfiles.$inferSelect;
+export type InsertStaffProfile = z.infer<typeof insertStaffProfileSchema>;
+export type UpdateStaffProfile = z.infer<typeof updateStaffProfileSchema>;
+export type ComplaintAssignment = typeof complaintAssignments.$inferSelect;
+export type InsertComplaintAssignment = z.infer<typeof insertComplaintAssignmentSchema>;
@@ -0,0 +1,79 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { complaints, users } from "./schema";
+
+export const complaintStatuses = [
+  "open",
+  "triaged",
+  "in_progress",
+  "awaiting_employee",
+  "resolved",
+  "closed",
+] as const;
+
+export type ComplaintStatus = typeof complaintStatuses[number];
+
+export const complaintPriorities = ["low", "medium", "high", "urgent"] as const;
+
+// Allowed moves out of each status. resolved/closed -> open is a reopen.
+export const complaintTransitions: Record<ComplaintStatus, ComplaintStatus[]> = {
+  open: ["triaged"],
+  triaged: ["in_progress"],
+  in_progress: ["awaiting_employee", "resolved"],
+  awaiting_employee: ["in_progress", "resolved"],
+  resolved: ["closed", "open"],
+  closed: ["open"],
+};
+
+export const complaintStatusHistory = pgTable("complaint_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  actorId: varchar("actor_id").notNull().references(() => users.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertComplaintStatusHistorySchema = createInsertSchema(complaintStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const slaBreachTypes = ["response", "resolution"] as const;
+
+export type SlaBreachType = typeof slaBreachTypes[number];
+
+// One row per SLA breach acted on by the escalation scheduler
+export const complaintEscalations = pgTable("complaint_escalations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  breachType: text("breach_type").notNull(),
+  fromPriority: text("from_priority").notNull(),
+  toPriority: text("to_priority").notNull(),
+  fromAssignee: varchar("from_assignee"),
+  toAssignee: varchar("to_assignee"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertComplaintEscalationSchema = createInsertSchema(complaintEscalations).omit({
+  id: true,
+  createdAt: true,
+});
+
+// The only fields staff may change through PATCH /api/complaints/:id
+export const updateComplaintSchema = z.object({
+  status: z.enum(complaintStatuses).optional(),
+  priority: z.enum(complaintPriorities).optional(),
+  category: z.string().min(1).optional(),
+  assignedTo: z.string().nullable().optional(),
+  note: z.string().max(2000).optional(),
+}).strict();
+
+export type ComplaintStatusHistory = typeof complaintStatusHistory.$inferSelect;
+export type InsertComplaintStatusHistory = z.infer<typeof insertComplaintStatusHistorySchema>;
+export type UpdateComplaint = z.infer<typeof updateComplaintSchema>;
+export type ComplaintEscalation = typeof complaintEscalations.$inferSelect;
+export type InsertComplaintEscalation = z.infer<typeof insertComplaintEscalationSchema>;
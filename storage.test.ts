@@ -0,0 +1,329 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import type { InsertComplaint, InsertUser } from "@shared/schema";
+import { sortValueOf } from "@shared/listing";
+import type { IStorage } from "./storage";
+import { testBackends } from "./test-storage";
+
+// The same cases run against the in-memory store and against DbStorage on
+// an embedded Postgres (pglite) with the schema pushed as drizzle-kit would
+
+let sequence = 0;
+
+function userInput(overrides: Partial<InsertUser> = {}): InsertUser {
+  sequence++;
+  return {
+    username: `user${sequence}`,
+    password: "correct horse battery",
+    email: `user${sequence}@company.com`,
+    phone: `+1555000${String(sequence).padStart(4, "0")}`,
+    name: `User ${sequence}`,
+    role: "employee",
+    department: "Engineering",
+    ...overrides,
+  };
+}
+
+function complaintInput(submitterId: string, overrides: Partial<InsertComplaint> = {}): InsertComplaint {
+  return {
+    title: "Broken ladder",
+    description: "The ladder in the warehouse is broken",
+    category: "workplace_safety",
+    priority: "medium",
+    submitterId,
+    ...overrides,
+  };
+}
+
+describe.each(testBackends)("%s", (_name, makeBackend) => {
+  const backend = makeBackend();
+  let storage: IStorage;
+
+  // The first call pushes the schema, which takes a few seconds
+  beforeEach(async () => {
+    storage = await backend.create();
+  }, 60_000);
+
+  afterAll(async () => {
+    await backend.close?.();
+  });
+
+  describe("users", () => {
+    it("stores passwords hashed and finds users by username and phone", async () => {
+      const input = userInput();
+      const user = await storage.createUser(input);
+
+      expect(user.password).not.toBe(input.password);
+      expect(await storage.getUserByUsername(input.username)).toMatchObject({ id: user.id });
+      expect(await storage.getUserByPhone(input.phone)).toMatchObject({ id: user.id });
+      expect(await storage.getUser("missing")).toBeUndefined();
+    });
+
+    it("updates users and returns undefined for unknown ids", async () => {
+      const user = await storage.createUser(userInput());
+
+      const updated = await storage.updateUser(user.id, { department: "Finance", isActive: false });
+
+      expect(updated).toMatchObject({ id: user.id, department: "Finance", isActive: false });
+      expect(await storage.updateUser("missing", { department: "Finance" })).toBeUndefined();
+    });
+
+    it("filters, searches and sorts users", async () => {
+      await storage.createUser(userInput({ name: "Carol Diaz", role: "counselor" }));
+      await storage.createUser(userInput({ name: "alice Brown", role: "counselor" }));
+      await storage.createUser(userInput({ name: "Bob Evans" }));
+
+      const counselors = await storage.searchUsers({ roles: ["counselor"], sort: "name", order: "asc" });
+      const searched = await storage.searchUsers({ search: "EVANS", sort: "name", order: "asc" });
+
+      expect(counselors.map(user => user.name)).toEqual(["alice Brown", "Carol Diaz"]);
+      expect(searched.map(user => user.name)).toEqual(["Bob Evans"]);
+    });
+  });
+
+  describe("complaints", () => {
+    it("creates complaints with defaults and lists them by submitter", async () => {
+      const submitter = await storage.createUser(userInput());
+      const other = await storage.createUser(userInput());
+      const complaint = await storage.createComplaint(complaintInput(submitter.id));
+      await storage.createComplaint(complaintInput(other.id));
+
+      expect(complaint).toMatchObject({ status: "open", assignedTo: null, aiAnalysis: null, isAnonymous: false });
+      expect(complaint.createdAt).toBeInstanceOf(Date);
+      expect((await storage.getComplaintsByUser(submitter.id)).map(c => c.id)).toEqual([complaint.id]);
+    });
+
+    it("updates complaints and moves updatedAt forward", async () => {
+      const submitter = await storage.createUser(userInput());
+      const complaint = await storage.createComplaint(complaintInput(submitter.id));
+
+      const updated = await storage.updateComplaint(complaint.id, { status: "triaged", priority: "high" });
+
+      expect(updated).toMatchObject({ id: complaint.id, status: "triaged", priority: "high", title: complaint.title });
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThanOrEqual(complaint.updatedAt!.getTime());
+      expect(await storage.updateComplaint("missing", { status: "triaged" })).toBeUndefined();
+    });
+
+    it("filters complaints and pages them with a keyset cursor", async () => {
+      const submitter = await storage.createUser(userInput());
+      const staff = await storage.createUser(userInput({ role: "counselor" }));
+      for (const [title, priority] of [["Alpha", "low"], ["Bravo", "urgent"], ["Charlie", "high"], ["Delta", "medium"]]) {
+        await storage.createComplaint(complaintInput(submitter.id, { title, priority }));
+      }
+      const assigned = await storage.createComplaint(complaintInput(submitter.id, { title: "Echo", priority: "low" }));
+      await storage.updateComplaint(assigned.id, { assignedTo: staff.id });
+
+      const byPriority = await storage.searchComplaints({ sort: "priority", order: "desc", assignedTo: null, limit: 2 });
+      const last = byPriority[byPriority.length - 1];
+      const nextPage = await storage.searchComplaints({
+        sort: "priority",
+        order: "desc",
+        assignedTo: null,
+        limit: 2,
+        after: { value: sortValueOf(last, "priority"), id: last.id },
+      });
+      const search = await storage.searchComplaints({ sort: "title", order: "asc", search: "ALPH" });
+      const mine = await storage.searchComplaints({ sort: "title", order: "asc", assignedTo: staff.id });
+
+      expect(byPriority.map(c => c.title)).toEqual(["Bravo", "Charlie"]);
+      expect(nextPage.map(c => c.title)).toEqual(["Delta", "Alpha"]);
+      expect(search.map(c => c.title)).toEqual(["Alpha"]);
+      expect(mine.map(c => c.title)).toEqual(["Echo"]);
+    });
+
+    it("keeps status history oldest first", async () => {
+      const submitter = await storage.createUser(userInput());
+      const complaint = await storage.createComplaint(complaintInput(submitter.id));
+      await storage.createComplaintStatusHistory({ complaintId: complaint.id, fromStatus: null, toStatus: "open", actorId: submitter.id });
+      await storage.createComplaintStatusHistory({ complaintId: complaint.id, fromStatus: "open", toStatus: "triaged", actorId: submitter.id });
+
+      const history = await storage.getComplaintStatusHistory(complaint.id);
+
+      expect(history.map(entry => entry.toStatus)).toEqual(["open", "triaged"]);
+    });
+
+    it("hides internal messages unless asked for", async () => {
+      const submitter = await storage.createUser(userInput());
+      const staff = await storage.createUser(userInput({ role: "hr_manager" }));
+      const complaint = await storage.createComplaint(complaintInput(submitter.id));
+      await storage.createComplaintMessage({ complaintId: complaint.id, authorId: submitter.id, fromReporter: true, body: "Any news?" });
+      await storage.createComplaintMessage({ complaintId: complaint.id, authorId: staff.id, visibility: "internal", body: "Check CCTV" });
+
+      const shared = await storage.getComplaintMessages(complaint.id);
+      const all = await storage.getComplaintMessages(complaint.id, { includeInternal: true });
+
+      expect(shared.map(message => message.body)).toEqual(["Any news?"]);
+      expect(all.map(message => message.body)).toEqual(["Any news?", "Check CCTV"]);
+      expect(shared[0]).toMatchObject({ fromReporter: true, visibility: "shared", parentId: null });
+    });
+  });
+
+  describe("meetings", () => {
+    it("finds meetings a user organises or attends", async () => {
+      const organizer = await storage.createUser(userInput({ role: "counselor" }));
+      const attendee = await storage.createUser(userInput());
+      const outsider = await storage.createUser(userInput());
+      const meeting = await storage.createMeeting({
+        title: "Check-in",
+        scheduledDate: new Date("2030-01-07T10:00:00Z"),
+        duration: 30,
+        organizerId: organizer.id,
+        attendeeIds: [attendee.id],
+        type: "one_on_one",
+      });
+
+      expect((await storage.getMeetingsByUser(organizer.id)).map(m => m.id)).toEqual([meeting.id]);
+      expect((await storage.getMeetingsByUser(attendee.id)).map(m => m.id)).toEqual([meeting.id]);
+      expect(await storage.getMeetingsByUser(outsider.id)).toEqual([]);
+      expect(await storage.getMeeting(meeting.id)).toMatchObject({ status: "scheduled", attendeeIds: [attendee.id] });
+    });
+  });
+
+  describe("notifications", () => {
+    it("counts unread notifications and marks them read", async () => {
+      const user = await storage.createUser(userInput());
+      const first = await storage.createNotification({ userId: user.id, title: "One", message: "First", type: "info" });
+      await storage.createNotification({ userId: user.id, title: "Two", message: "Second", type: "info" });
+      await storage.createNotification({ userId: user.id, title: "Three", message: "Third", type: "info" });
+
+      expect(await storage.countUnreadNotifications(user.id)).toBe(3);
+      expect(await storage.markNotificationRead(first.id)).toBe(true);
+      expect(await storage.markNotificationRead("missing")).toBe(false);
+      expect(await storage.markAllNotificationsRead(user.id)).toBe(2);
+      expect(await storage.countUnreadNotifications(user.id)).toBe(0);
+    });
+
+    it("pages notifications newest first", async () => {
+      const user = await storage.createUser(userInput());
+      for (const title of ["One", "Two", "Three"]) {
+        await storage.createNotification({ userId: user.id, title, message: title, type: "info" });
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+
+      const [newest, second] = await storage.getNotificationsPage(user.id, { limit: 2 });
+      const rest = await storage.getNotificationsPage(user.id, { limit: 2, before: { createdAt: second.createdAt!, id: second.id } });
+
+      expect([newest.title, second.title]).toEqual(["Three", "Two"]);
+      expect(rest.map(notification => notification.title)).toEqual(["One"]);
+    });
+  });
+
+  describe("audit log", () => {
+    it("appends in sequence and rejects a sequence that exists", async () => {
+      const entry = (sequence: number) => ({
+        sequence,
+        action: "complaint.view",
+        metadata: { method: "GET", path: "/api/complaints/1", statusCode: 200 },
+        prevHash: "0".repeat(64),
+        hash: String(sequence).repeat(64).slice(0, 64),
+      });
+      await storage.appendAuditEntry(entry(1));
+      await storage.appendAuditEntry(entry(2));
+
+      await expect(storage.appendAuditEntry(entry(2))).rejects.toThrow();
+      expect((await storage.getLatestAuditEntry())?.sequence).toBe(2);
+      expect((await storage.getAuditEntries({ after: 1, limit: 10 })).map(e => e.sequence)).toEqual([2]);
+    });
+  });
+
+  describe("AI jobs", () => {
+    it("returns due pending jobs oldest first", async () => {
+      const now = new Date("2030-01-01T12:00:00Z");
+      const later = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "b", nextAttemptAt: new Date(now.getTime() - 1000) });
+      const earlier = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "a", nextAttemptAt: new Date(now.getTime() - 5000) });
+      await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "c", nextAttemptAt: new Date(now.getTime() + 1000) });
+      const done = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "d", nextAttemptAt: now });
+      await storage.updateAiJob(done.id, { status: "done" });
+
+      const due = await storage.getDueAiJobs(now, 10);
+
+      expect(due.map(job => job.id)).toEqual([earlier.id, later.id]);
+      expect(due[0]).toMatchObject({ status: "pending", attempts: 0, retriage: false, requestedBy: null });
+    });
+
+    it("lets only one worker claim a job until its lease runs out", async () => {
+      const now = new Date("2030-01-01T12:00:00Z");
+      const leaseUntil = new Date(now.getTime() + 60_000);
+      const job = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "a", nextAttemptAt: now });
+
+      const claims = await Promise.all([storage.claimAiJob(job.id, now, leaseUntil), storage.claimAiJob(job.id, now, leaseUntil)]);
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+      expect(claims.find(Boolean)).toMatchObject({ status: "running", attempts: 1, nextAttemptAt: leaseUntil });
+      expect(await storage.getDueAiJobs(now, 10)).toEqual([]);
+      expect((await storage.getDueAiJobs(leaseUntil, 10)).map(due => due.id)).toEqual([job.id]);
+      expect(await storage.claimAiJob(job.id, leaseUntil, new Date(leaseUntil.getTime() + 60_000)))
+        .toMatchObject({ status: "running", attempts: 2 });
+    });
+
+    it("does not claim jobs that are finished or not yet due", async () => {
+      const now = new Date("2030-01-01T12:00:00Z");
+      const done = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "a", nextAttemptAt: now });
+      await storage.updateAiJob(done.id, { status: "done" });
+      const waiting = await storage.createAiJob({ task: "complaint_analysis", entityType: "complaint", entityId: "b", nextAttemptAt: new Date(now.getTime() + 1000) });
+
+      expect(await storage.claimAiJob(done.id, now, new Date(now.getTime() + 60_000))).toBeUndefined();
+      expect(await storage.claimAiJob(waiting.id, now, new Date(now.getTime() + 60_000))).toBeUndefined();
+    });
+  });
+
+  describe("policy documents", () => {
+    it("stores chunks in order and removes them with their document", async () => {
+      const uploader = await storage.createUser(userInput({ role: "hr_manager" }));
+      const document = await storage.createPolicyDocument({
+        title: "Handbook",
+        fileName: "handbook.md",
+        format: "markdown",
+        contentType: "text/markdown",
+        size: 100,
+        checksum: "abc",
+        storageKey: "policies/handbook",
+        chunkCount: 2,
+        uploadedBy: uploader.id,
+      }, [
+        { position: 0, section: "Leave", content: "Annual leave is 25 days." },
+        { position: 1, section: "Leave > Sick leave", content: "Tell your manager by 10am." },
+      ]);
+
+      expect((await storage.getPolicyChunks(document.id)).map(chunk => chunk.section)).toEqual(["Leave", "Leave > Sick leave"]);
+      expect(await storage.deletePolicyDocument(document.id)).toBe(true);
+      expect(await storage.getPolicyChunks()).toEqual([]);
+      expect(await storage.deletePolicyDocument(document.id)).toBe(false);
+    });
+  });
+
+  describe("chat", () => {
+    it("appends turns after existing ones together with conversation updates", async () => {
+      const user = await storage.createUser(userInput());
+      const conversation = await storage.createChatConversation({ userId: user.id, expiresAt: new Date("2030-01-01") });
+
+      await storage.appendChatTurns(conversation.id, [
+        { role: "user", content: "How much leave do I get?" },
+        { role: "assistant", content: "25 days [S1]", grounded: true, citations: [] },
+      ], { title: "How much leave do I get?" });
+      const appended = await storage.appendChatTurns(conversation.id, [{ role: "user", content: "And part-timers?" }]);
+
+      expect(appended.map(turn => turn.position)).toEqual([2]);
+      expect((await storage.getChatTurns(conversation.id)).map(turn => turn.position)).toEqual([0, 1, 2]);
+      expect(await storage.getChatConversation(conversation.id)).toMatchObject({ title: "How much leave do I get?" });
+    });
+
+    it("deletes expired conversations with their turns", async () => {
+      const user = await storage.createUser(userInput());
+      const expired = await storage.createChatConversation({ userId: user.id, expiresAt: new Date("2020-01-01") });
+      const current = await storage.createChatConversation({ userId: user.id, expiresAt: new Date("2030-01-01") });
+      await storage.appendChatTurns(expired.id, [{ role: "user", content: "Old question" }]);
+
+      expect(await storage.deleteExpiredChatConversations(new Date("2025-01-01"))).toBe(1);
+      expect((await storage.getChatConversations(user.id)).map(c => c.id)).toEqual([current.id]);
+      expect(await storage.getChatTurns(expired.id)).toEqual([]);
+    });
+
+    it("replaces chat preferences on upsert", async () => {
+      const user = await storage.createUser(userInput());
+      await storage.upsertChatPreferences({ userId: user.id, retentionDays: 30 });
+      await storage.upsertChatPreferences({ userId: user.id, retentionDays: 7 });
+
+      expect(await storage.getChatPreferences(user.id)).toMatchObject({ retentionDays: 7 });
+    });
+  });
+});
@@ -8,43 +8,425 @@ import {
   type Scenario,
   type InsertScenario,
   type Notification,
-  type InsertNotification
+  type InsertNotification,
+  users,
+  complaints,
+  meetings,
+  scenarios,
+  notifications
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  passwordResetTokens
+} from "@shared/credentials";
+import {
+  type ComplaintStatusHistory,
+  type InsertComplaintStatusHistory,
+  type ComplaintEscalation,
+  type InsertComplaintEscalation,
+  complaintStatusHistory,
+  complaintEscalations,
+  complaintPriorities
+} from "@shared/workflow";
+import {
+  type ComplaintMessage,
+  type InsertComplaintMessage,
+  complaintMessages
+} from "@shared/messages";
+import {
+  type ComplaintAttachment,
+  type InsertComplaintAttachment,
+  complaintAttachments
+} from "@shared/attachments";
+import {
+  type StaffProfile,
+  type InsertStaffProfile,
+  type ComplaintAssignment,
+  type InsertComplaintAssignment,
+  staffProfiles,
+  complaintAssignments
+} from "@shared/staffing";
+import {
+  type MeetingCalendarEntry,
+  type InsertMeetingCalendarEntry,
+  type CalendarFeedToken,
+  type InsertCalendarFeedToken,
+  type MeetingRsvp,
+  type InsertMeetingRsvp,
+  type MeetingOutcome,
+  type InsertMeetingOutcome,
+  type MeetingRecurrence,
+  type InsertMeetingRecurrence,
+  type MeetingException,
+  type InsertMeetingException,
+  meetingCalendarEntries,
+  calendarFeedTokens,
+  meetingRsvps,
+  meetingOutcomes,
+  meetingRecurrences,
+  meetingExceptions
+} from "@shared/meetings";
+import {
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type DeliveryListQuery,
+  notificationPreferences,
+  notificationDeliveries
+} from "@shared/notifications";
+import {
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditQuery,
+  auditLog
+} from "@shared/audit";
+import {
+  type ActivityEvent,
+  type InsertActivityEvent,
+  type ActivityEventType,
+  activityEvents
+} from "@shared/activity";
+import {
+  type ComplaintDailyStats,
+  type InsertComplaintDailyStats,
+  complaintDailyStats
+} from "@shared/analytics";
+import {
+  type ReportSchedule,
+  type InsertReportSchedule,
+  type GeneratedReport,
+  type InsertGeneratedReport,
+  reportSchedules,
+  generatedReports
+} from "@shared/reports";
+import {
+  type AiRun,
+  type InsertAiRun,
+  type AiJob,
+  type InsertAiJob,
+  type AiPiiTokens,
+  type InsertAiPiiTokens,
+  aiRuns,
+  aiJobs,
+  aiPiiTokens
+} from "@shared/ai";
+import {
+  type PolicyDocument,
+  type InsertPolicyDocument,
+  type PolicyChunk,
+  type InsertPolicyChunk,
+  policyDocuments,
+  policyChunks
+} from "@shared/policies";
+import {
+  type ChatConversation,
+  type InsertChatConversation,
+  type ChatTurn,
+  type InsertChatTurn,
+  type ChatPreferences,
+  type InsertChatPreferences,
+  chatConversations,
+  chatTurns,
+  chatPreferences
+} from "@shared/chat";
+import {
+  type ListPageOptions,
+  type ComplaintSortField,
+  type MeetingSortField,
+  type ScenarioSortField,
+  type UserSortField,
+  pageRows,
+  matchesSearch
+} from "@shared/listing";
+import { randomUUID, randomBytes } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { eq, ne, or, and, lt, lte, gt, gte, asc, desc, sql, inArray, isNull, ilike, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { Pool } from "@neondatabase/serverless";
+import { createDatabase, type Database } from "./db";
+import { hashPassword } from "./services/password";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+// Policy chunks inserted per statement
+const POLICY_CHUNK_BATCH = 500;
+
+const DEFAULT_HR_MANAGER: Omit<InsertUser, "password"> = {
+  username: "sarah.johnson",
+  email: "sarah.johnson@company.com",
+  phone: "+1234567890",
+  name: "Sarah Johnson",
+  role: "hr_manager",
+  department: "Human Resources",
+};
+
+function getSeedPassword(): string {
+  if (process.env.SEED_HR_PASSWORD) {
+    return process.env.SEED_HR_PASSWORD;
+  }
+  const generated = randomBytes(12).toString("base64url");
+  console.log(`Seeded ${DEFAULT_HR_MANAGER.username} with generated password: ${generated} (set SEED_HR_PASSWORD to choose one)`);
+  return generated;
+}
+
+// Waiting for its next attempt, or running on a lease that has run out
+function isAiJobDue(job: AiJob, now: Date): boolean {
+  return (job.status === "pending" || job.status === "running") && new Date(job.nextAttemptAt) <= now;
+}
+
+// Newest first; "before" is the last item of the previous page
+export interface NotificationPageOptions {
+  limit: number;
+  before?: { createdAt: Date; id: string };
+  unreadOnly?: boolean;
+}
+
+// Newest first; "before" is the last item of the previous page
+export interface ActivityPageOptions {
+  limit: number;
+  before?: { createdAt: Date; id: string };
+  type?: ActivityEventType;
+  actorId?: string;
+  department?: string;
+}
+
+// Searches behind the list endpoints. Search matches complaint and meeting
+// titles and descriptions, scenario titles and text, and user names,
+// usernames and emails.
+export interface ComplaintSearchOptions extends ListPageOptions<ComplaintSortField> {
+  statuses?: string[];
+  priorities?: string[];
+  categories?: string[];
+  // null for unassigned complaints
+  assignedTo?: string | null;
+  submitterId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface MeetingSearchOptions extends ListPageOptions<MeetingSortField> {
+  statuses?: string[];
+  types?: string[];
+  // Organizer or attendee
+  participantId?: string;
+  scheduledFrom?: Date;
+  scheduledTo?: Date;
+}
+
+export interface ScenarioSearchOptions extends ListPageOptions<ScenarioSortField> {
+  riskLevels?: string[];
+  createdBy?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface UserSearchOptions extends ListPageOptions<UserSortField> {
+  roles?: string[];
+  department?: string;
+  isActive?: boolean;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
+  searchUsers(options: UserSearchOptions): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByPhone(phone: string): Promise<User | undefined>;
+  // Both take a plaintext password and store it hashed
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+
+  // Staff routing profiles
+  getStaffProfiles(): Promise<StaffProfile[]>;
+  getStaffProfile(userId: string): Promise<StaffProfile | undefined>;
+  upsertStaffProfile(profile: InsertStaffProfile): Promise<StaffProfile>;
+
+  // Password reset tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<boolean>;
   
   // Complaints
   getComplaints(): Promise<Complaint[]>;
+  searchComplaints(options: ComplaintSearchOptions): Promise<Complaint[]>;
   getComplaint(id: string): Promise<Complaint | undefined>;
   createComplaint(complaint: InsertComplaint): Promise<Complaint>;
   updateComplaint(id: string, updates: Partial<Complaint>): Promise<Complaint | undefined>;
   getComplaintsByUser(userId: string): Promise<Complaint[]>;
+
+  // Complaint status history (oldest first)
+  getComplaintStatusHistory(complaintId: string): Promise<ComplaintStatusHistory[]>;
+  createComplaintStatusHistory(entry: InsertComplaintStatusHistory): Promise<ComplaintStatusHistory>;
+
+  // SLA escalations; all complaints when no id is given
+  getComplaintEscalations(complaintId?: string): Promise<ComplaintEscalation[]>;
+  createComplaintEscalation(escalation: InsertComplaintEscalation): Promise<ComplaintEscalation>;
+
+  // Complaint assignment log (oldest first)
+  getComplaintAssignments(complaintId: string): Promise<ComplaintAssignment[]>;
+  createComplaintAssignment(assignment: InsertComplaintAssignment): Promise<ComplaintAssignment>;
+
+  // Complaint messages (oldest first); internal HR notes only when asked for
+  getComplaintMessages(complaintId: string, options?: { includeInternal?: boolean }): Promise<ComplaintMessage[]>;
+  getComplaintMessage(id: string): Promise<ComplaintMessage | undefined>;
+  createComplaintMessage(message: InsertComplaintMessage): Promise<ComplaintMessage>;
+
+  // Complaint attachments (metadata only; bytes live in the FileStore)
+  getComplaintAttachments(complaintId: string): Promise<ComplaintAttachment[]>;
+  getComplaintAttachment(id: string): Promise<ComplaintAttachment | undefined>;
+  createComplaintAttachment(attachment: InsertComplaintAttachment): Promise<ComplaintAttachment>;
   
   // Meetings
   getMeetings(): Promise<Meeting[]>;
+  searchMeetings(options: MeetingSearchOptions): Promise<Meeting[]>;
   getMeeting(id: string): Promise<Meeting | undefined>;
   createMeeting(meeting: InsertMeeting): Promise<Meeting>;
   updateMeeting(id: string, updates: Partial<Meeting>): Promise<Meeting | undefined>;
   getMeetingsByUser(userId: string): Promise<Meeting[]>;
+
+  // iCalendar identity of meetings
+  getMeetingCalendarEntry(meetingId: string): Promise<MeetingCalendarEntry | undefined>;
+  getMeetingCalendarEntryByUid(uid: string): Promise<MeetingCalendarEntry | undefined>;
+  upsertMeetingCalendarEntry(entry: InsertMeetingCalendarEntry): Promise<MeetingCalendarEntry>;
+
+  // Calendar feed tokens; setting one replaces the user's previous token
+  getCalendarFeedToken(tokenHash: string): Promise<CalendarFeedToken | undefined>;
+  setCalendarFeedToken(token: InsertCalendarFeedToken): Promise<CalendarFeedToken>;
+
+  // Meeting RSVPs; answering again replaces the attendee's earlier answer
+  getMeetingRsvps(meetingId: string): Promise<MeetingRsvp[]>;
+  upsertMeetingRsvp(rsvp: InsertMeetingRsvp): Promise<MeetingRsvp>;
+  clearMeetingRsvps(meetingId: string): Promise<void>;
+
+  // Meeting outcomes, one per meeting
+  getMeetingOutcome(meetingId: string): Promise<MeetingOutcome | undefined>;
+  upsertMeetingOutcome(outcome: InsertMeetingOutcome): Promise<MeetingOutcome>;
+
+  // Recurring series and their per-occurrence exceptions
+  getMeetingRecurrence(meetingId: string): Promise<MeetingRecurrence | undefined>;
+  upsertMeetingRecurrence(recurrence: InsertMeetingRecurrence): Promise<MeetingRecurrence>;
+  deleteMeetingRecurrence(meetingId: string): Promise<boolean>;
+  getMeetingExceptions(seriesId: string): Promise<MeetingException[]>;
+  upsertMeetingException(exception: InsertMeetingException): Promise<MeetingException>;
   
   // Scenarios
   getScenarios(): Promise<Scenario[]>;
+  searchScenarios(options: ScenarioSearchOptions): Promise<Scenario[]>;
   getScenario(id: string): Promise<Scenario | undefined>;
   createScenario(scenario: InsertScenario): Promise<Scenario>;
   updateScenario(id: string, updates: Partial<Scenario>): Promise<Scenario | undefined>;
   
   // Notifications
   getNotifications(userId: string): Promise<Notification[]>;
+  getNotificationsPage(userId: string, options: NotificationPageOptions): Promise<Notification[]>;
+  getNotification(id: string): Promise<Notification | undefined>;
+  countUnreadNotifications(userId: string): Promise<number>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationRead(id: string): Promise<boolean>;
+  // Returns how many were unread
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // Outbound (email/SMS) delivery preferences and queue
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined>;
+  // Newest first
+  getNotificationDeliveries(filter: DeliveryListQuery): Promise<NotificationDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]>;
+  updateNotificationDelivery(id: string, updates: Partial<NotificationDelivery>): Promise<NotificationDelivery | undefined>;
+
+  // Audit log: append-only, ordered by sequence. Appending a sequence that
+  // already exists fails.
+  getLatestAuditEntry(): Promise<AuditEntry | undefined>;
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  // Entries after query.after (a sequence number), oldest first
+  getAuditEntries(query: AuditQuery): Promise<AuditEntry[]>;
+
+  // Activity feed
+  createActivityEvent(event: InsertActivityEvent): Promise<ActivityEvent>;
+  getActivityEvents(options: ActivityPageOptions): Promise<ActivityEvent[]>;
+
+  // Analytics: raw records created in [from, to), oldest first
+  getComplaintsCreatedBetween(from: Date, to: Date): Promise<Complaint[]>;
+  getComplaintStatusHistoryBetween(from: Date, to: Date): Promise<ComplaintStatusHistory[]>;
+  getComplaintMessagesBetween(from: Date, to: Date): Promise<ComplaintMessage[]>;
+  // Daily rollups for the inclusive day range ("YYYY-MM-DD"). Replacing
+  // deletes every row in the range before inserting the new ones.
+  getComplaintDailyStats(fromDay: string, toDay: string): Promise<ComplaintDailyStats[]>;
+  replaceComplaintDailyStats(fromDay: string, toDay: string, rows: InsertComplaintDailyStats[]): Promise<void>;
+  getLatestComplaintStatsDay(): Promise<string | undefined>;
+
+  // Report schedules and the reports they produced (newest first)
+  createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  getReportSchedule(id: string): Promise<ReportSchedule | undefined>;
+  getReportSchedules(ownerId: string): Promise<ReportSchedule[]>;
+  // Active schedules whose next run is due, oldest first
+  getDueReportSchedules(now: Date): Promise<ReportSchedule[]>;
+  updateReportSchedule(id: string, updates: Partial<ReportSchedule>): Promise<ReportSchedule | undefined>;
+  createGeneratedReport(report: InsertGeneratedReport): Promise<GeneratedReport>;
+  getGeneratedReport(id: string): Promise<GeneratedReport | undefined>;
+  getGeneratedReports(ownerId: string): Promise<GeneratedReport[]>;
+
+  // AI provider calls, newest first
+  createAiRun(run: InsertAiRun): Promise<AiRun>;
+  getAiRuns(entityType: string, entityId: string): Promise<AiRun[]>;
+
+  // Background analysis queue
+  createAiJob(job: InsertAiJob): Promise<AiJob>;
+  getAiJob(id: string): Promise<AiJob | undefined>;
+  // Newest first
+  getAiJobs(entityType: string, entityId: string): Promise<AiJob[]>;
+  // Pending jobs whose next attempt is due, and running jobs whose lease has
+  // run out because their worker stopped part way, oldest first
+  getDueAiJobs(now: Date, limit: number): Promise<AiJob[]>;
+  // Takes a due job for one attempt, marking it running until leaseUntil and
+  // counting the attempt; undefined when another worker claimed it first
+  claimAiJob(id: string, now: Date, leaseUntil: Date): Promise<AiJob | undefined>;
+  updateAiJob(id: string, updates: Partial<AiJob>): Promise<AiJob | undefined>;
+
+  // Placeholder values behind a record's stored analysis, one set per record
+  getAiPiiTokens(entityType: string, entityId: string): Promise<AiPiiTokens | undefined>;
+  upsertAiPiiTokens(tokens: InsertAiPiiTokens): Promise<AiPiiTokens>;
+
+  // Policy knowledge base. A document is stored together with its chunks and
+  // deleting it removes them.
+  createPolicyDocument(document: InsertPolicyDocument, chunks: Omit<InsertPolicyChunk, "documentId">[]): Promise<PolicyDocument>;
+  getPolicyDocument(id: string): Promise<PolicyDocument | undefined>;
+  // Newest first
+  getPolicyDocuments(): Promise<PolicyDocument[]>;
+  deletePolicyDocument(id: string): Promise<boolean>;
+  // Every document's chunks, or one document's, in document order
+  getPolicyChunks(documentId?: string): Promise<PolicyChunk[]>;
+
+  // HR assistant conversations. Turns are appended in the order given, after
+  // the conversation's existing ones, together with any conversation
+  // updates; deleting a conversation removes its turns.
+  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  // Most recently active first
+  getChatConversations(userId: string): Promise<ChatConversation[]>;
+  updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined>;
+  deleteChatConversation(id: string): Promise<boolean>;
+  // Oldest first
+  getChatTurns(conversationId: string): Promise<ChatTurn[]>;
+  appendChatTurns(
+    conversationId: string,
+    turns: Omit<InsertChatTurn, "conversationId" | "position">[],
+    updates?: Partial<ChatConversation>,
+  ): Promise<ChatTurn[]>;
+  // Deletes conversations that expired before the given time; returns how many
+  deleteExpiredChatConversations(now: Date): Promise<number>;
+  getChatPreferences(userId: string): Promise<ChatPreferences | undefined>;
+  upsertChatPreferences(preferences: InsertChatPreferences): Promise<ChatPreferences>;
 }
 
 export class MemStorage implements IStorage {
@@ -53,6 +435,35 @@ export class MemStorage implements IStorage {
   private meetings: Map<string, Meeting>;
   private scenarios: Map<string, Scenario>;
   private notifications: Map<string, Notification>;
+  private passwordResetTokens: Map<string, PasswordResetToken>;
+  private complaintStatusHistory: Map<string, ComplaintStatusHistory>;
+  private complaintEscalations: Map<string, ComplaintEscalation>;
+  private complaintMessages: Map<string, ComplaintMessage>;
+  private complaintAttachments: Map<string, ComplaintAttachment>;
+  private staffProfiles: Map<string, StaffProfile>;
+  private complaintAssignments: Map<string, ComplaintAssignment>;
+  private meetingCalendarEntries: Map<string, MeetingCalendarEntry>;
+  private calendarFeedTokens: Map<string, CalendarFeedToken>;
+  private meetingRsvps: Map<string, MeetingRsvp>;
+  private meetingOutcomes: Map<string, MeetingOutcome>;
+  private meetingRecurrences: Map<string, MeetingRecurrence>;
+  private meetingExceptions: Map<string, MeetingException>;
+  private notificationPreferences: Map<string, NotificationPreferences>;
+  private notificationDeliveries: Map<string, NotificationDelivery>;
+  private auditLog: AuditEntry[];
+  private activityEvents: Map<string, ActivityEvent>;
+  private complaintDailyStats: ComplaintDailyStats[];
+  private reportSchedules: Map<string, ReportSchedule>;
+  private generatedReports: Map<string, GeneratedReport>;
+  private aiRuns: Map<string, AiRun>;
+  private aiJobs: Map<string, AiJob>;
+  private aiPiiTokens: Map<string, AiPiiTokens>;
+  private policyDocuments: Map<string, PolicyDocument>;
+  private policyChunks: PolicyChunk[];
+  private chatConversations: Map<string, ChatConversation>;
+  private chatTurns: ChatTurn[];
+  private chatPreferences: Map<string, ChatPreferences>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
@@ -60,21 +471,44 @@ export class MemStorage implements IStorage {
     this.meetings = new Map();
     this.scenarios = new Map();
     this.notifications = new Map();
+    this.passwordResetTokens = new Map();
+    this.complaintStatusHistory = new Map();
+    this.complaintEscalations = new Map();
+    this.complaintMessages = new Map();
+    this.complaintAttachments = new Map();
+    this.staffProfiles = new Map();
+    this.complaintAssignments = new Map();
+    this.meetingCalendarEntries = new Map();
+    this.calendarFeedTokens = new Map();
+    this.meetingRsvps = new Map();
+    this.meetingOutcomes = new Map();
+    this.meetingRecurrences = new Map();
+    this.meetingExceptions = new Map();
+    this.notificationPreferences = new Map();
+    this.notificationDeliveries = new Map();
+    this.auditLog = [];
+    this.activityEvents = new Map();
+    this.complaintDailyStats = [];
+    this.reportSchedules = new Map();
+    this.generatedReports = new Map();
+    this.aiRuns = new Map();
+    this.aiJobs = new Map();
+    this.aiPiiTokens = new Map();
+    this.policyDocuments = new Map();
+    this.policyChunks = [];
+    this.chatConversations = new Map();
+    this.chatTurns = [];
+    this.chatPreferences = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     
     // Initialize with default HR manager
     this.initializeDefaults();
   }
 
   private async initializeDefaults() {
-    const hrManager = await this.createUser({
-      username: "sarah.johnson",
-      password: "password123",
-      email: "sarah.johnson@company.com",
-      phone: "+1234567890",
-      name: "Sarah Johnson",
-      role: "hr_manager",
-      department: "Human Resources",
-    });
+    await this.createUser({ ...DEFAULT_HR_MANAGER, password: getSeedPassword() });
   }
 
   // Users
@@ -92,6 +526,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async searchUsers(options: UserSearchOptions): Promise<User[]> {
+    const users = Array.from(this.users.values()).filter(user =>
+      (!options.roles || options.roles.includes(user.role)) &&
+      (!options.department || user.department === options.department) &&
+      (options.isActive === undefined || (user.isActive ?? true) === options.isActive) &&
+      matchesSearch(options.search, user.name, user.username, user.email));
+    return pageRows(users, options);
+  }
+
   async getUserByPhone(phone: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.phone === phone,
@@ -103,6 +546,7 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
+      password: await hashPassword(insertUser.password),
       role: insertUser.role || "employee",
       department: insertUser.department || null,
       isActive: insertUser.isActive ?? true,
@@ -118,10 +562,64 @@ export class MemStorage implements IStorage {
     if (!user) return undefined;
     
     const updated = { ...user, ...updates };
+    if (updates.password) {
+      updated.password = await hashPassword(updates.password);
+    }
     this.users.set(id, updated);
     return updated;
   }
 
+  // Staff routing profiles
+  async getStaffProfiles(): Promise<StaffProfile[]> {
+    return Array.from(this.staffProfiles.values());
+  }
+
+  async getStaffProfile(userId: string): Promise<StaffProfile | undefined> {
+    return this.staffProfiles.get(userId);
+  }
+
+  async upsertStaffProfile(insertProfile: InsertStaffProfile): Promise<StaffProfile> {
+    const existing = this.staffProfiles.get(insertProfile.userId);
+    const profile: StaffProfile = {
+      expertise: [],
+      maxCaseload: 15,
+      isAvailable: true,
+      unavailableUntil: null,
+      ...existing,
+      ...insertProfile,
+      updatedAt: new Date(),
+    };
+    this.staffProfiles.set(profile.userId, profile);
+    return profile;
+  }
+
+  // Password reset tokens
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = randomUUID();
+    const token: PasswordResetToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash,
+    );
+  }
+
+  async markPasswordResetTokenUsed(id: string): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token) return false;
+
+    token.usedAt = new Date();
+    return true;
+  }
+
   // Complaints
   async getComplaints(): Promise<Complaint[]> {
     return Array.from(this.complaints.values()).sort(
@@ -129,6 +627,19 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async searchComplaints(options: ComplaintSearchOptions): Promise<Complaint[]> {
+    const complaints = Array.from(this.complaints.values()).filter(complaint =>
+      (!options.statuses || options.statuses.includes(complaint.status)) &&
+      (!options.priorities || options.priorities.includes(complaint.priority)) &&
+      (!options.categories || options.categories.includes(complaint.category)) &&
+      (options.assignedTo === undefined || complaint.assignedTo === options.assignedTo) &&
+      (!options.submitterId || complaint.submitterId === options.submitterId) &&
+      (!options.createdFrom || complaint.createdAt! >= options.createdFrom) &&
+      (!options.createdTo || complaint.createdAt! < options.createdTo) &&
+      matchesSearch(options.search, complaint.title, complaint.description));
+    return pageRows(complaints, options);
+  }
+
   async getComplaint(id: string): Promise<Complaint | undefined> {
     return this.complaints.get(id);
   }
@@ -168,6 +679,116 @@ export class MemStorage implements IStorage {
     );
   }
 
+  // Complaint status history
+  async getComplaintStatusHistory(complaintId: string): Promise<ComplaintStatusHistory[]> {
+    return Array.from(this.complaintStatusHistory.values())
+      .filter(entry => entry.complaintId === complaintId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async createComplaintStatusHistory(insertEntry: InsertComplaintStatusHistory): Promise<ComplaintStatusHistory> {
+    const id = randomUUID();
+    const entry: ComplaintStatusHistory = {
+      ...insertEntry,
+      id,
+      fromStatus: insertEntry.fromStatus ?? null,
+      note: insertEntry.note ?? null,
+      createdAt: new Date(),
+    };
+    this.complaintStatusHistory.set(id, entry);
+    return entry;
+  }
+
+  // SLA escalations
+  async getComplaintEscalations(complaintId?: string): Promise<ComplaintEscalation[]> {
+    return Array.from(this.complaintEscalations.values())
+      .filter(escalation => !complaintId || escalation.complaintId === complaintId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async createComplaintEscalation(insertEscalation: InsertComplaintEscalation): Promise<ComplaintEscalation> {
+    const id = randomUUID();
+    const escalation: ComplaintEscalation = {
+      ...insertEscalation,
+      id,
+      fromAssignee: insertEscalation.fromAssignee ?? null,
+      toAssignee: insertEscalation.toAssignee ?? null,
+      createdAt: new Date(),
+    };
+    this.complaintEscalations.set(id, escalation);
+    return escalation;
+  }
+
+  // Complaint assignment log
+  async getComplaintAssignments(complaintId: string): Promise<ComplaintAssignment[]> {
+    return Array.from(this.complaintAssignments.values())
+      .filter(assignment => assignment.complaintId === complaintId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async createComplaintAssignment(insertAssignment: InsertComplaintAssignment): Promise<ComplaintAssignment> {
+    const id = randomUUID();
+    const assignment: ComplaintAssignment = {
+      ...insertAssignment,
+      id,
+      assigneeId: insertAssignment.assigneeId ?? null,
+      assignedBy: insertAssignment.assignedBy ?? null,
+      accusedDepartment: insertAssignment.accusedDepartment ?? null,
+      reason: insertAssignment.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.complaintAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  // Complaint messages
+  async getComplaintMessages(complaintId: string, options: { includeInternal?: boolean } = {}): Promise<ComplaintMessage[]> {
+    return Array.from(this.complaintMessages.values())
+      .filter(message => message.complaintId === complaintId &&
+        (options.includeInternal || message.visibility !== "internal"))
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async getComplaintMessage(id: string): Promise<ComplaintMessage | undefined> {
+    return this.complaintMessages.get(id);
+  }
+
+  async createComplaintMessage(insertMessage: InsertComplaintMessage): Promise<ComplaintMessage> {
+    const id = randomUUID();
+    const message: ComplaintMessage = {
+      ...insertMessage,
+      id,
+      fromReporter: insertMessage.fromReporter ?? false,
+      visibility: insertMessage.visibility || "shared",
+      parentId: insertMessage.parentId || null,
+      createdAt: new Date(),
+    };
+    this.complaintMessages.set(id, message);
+    return message;
+  }
+
+  // Complaint attachments
+  async getComplaintAttachments(complaintId: string): Promise<ComplaintAttachment[]> {
+    return Array.from(this.complaintAttachments.values())
+      .filter(attachment => attachment.complaintId === complaintId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async getComplaintAttachment(id: string): Promise<ComplaintAttachment | undefined> {
+    return this.complaintAttachments.get(id);
+  }
+
+  async createComplaintAttachment(insertAttachment: InsertComplaintAttachment): Promise<ComplaintAttachment> {
+    const id = randomUUID();
+    const attachment: ComplaintAttachment = {
+      ...insertAttachment,
+      id,
+      createdAt: new Date(),
+    };
+    this.complaintAttachments.set(id, attachment);
+    return attachment;
+  }
+
   // Meetings
   async getMeetings(): Promise<Meeting[]> {
     return Array.from(this.meetings.values()).sort(
@@ -175,6 +796,18 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async searchMeetings(options: MeetingSearchOptions): Promise<Meeting[]> {
+    const meetings = Array.from(this.meetings.values()).filter(meeting =>
+      (!options.statuses || options.statuses.includes(meeting.status)) &&
+      (!options.types || options.types.includes(meeting.type)) &&
+      (!options.participantId || meeting.organizerId === options.participantId ||
+        !!meeting.attendeeIds?.includes(options.participantId)) &&
+      (!options.scheduledFrom || meeting.scheduledDate >= options.scheduledFrom) &&
+      (!options.scheduledTo || meeting.scheduledDate < options.scheduledTo) &&
+      matchesSearch(options.search, meeting.title, meeting.description));
+    return pageRows(meetings, options);
+  }
+
   async getMeeting(id: string): Promise<Meeting | undefined> {
     return this.meetings.get(id);
   }
@@ -212,6 +845,118 @@ export class MemStorage implements IStorage {
     );
   }
 
+  // iCalendar identity of meetings
+  async getMeetingCalendarEntry(meetingId: string): Promise<MeetingCalendarEntry | undefined> {
+    return this.meetingCalendarEntries.get(meetingId);
+  }
+
+  async getMeetingCalendarEntryByUid(uid: string): Promise<MeetingCalendarEntry | undefined> {
+    return Array.from(this.meetingCalendarEntries.values()).find(entry => entry.uid === uid);
+  }
+
+  async upsertMeetingCalendarEntry(insertEntry: InsertMeetingCalendarEntry): Promise<MeetingCalendarEntry> {
+    const existing = this.meetingCalendarEntries.get(insertEntry.meetingId);
+    const entry: MeetingCalendarEntry = {
+      sequence: 0,
+      timezone: "UTC",
+      source: "internal",
+      ...existing,
+      ...insertEntry,
+      updatedAt: new Date(),
+    };
+    this.meetingCalendarEntries.set(entry.meetingId, entry);
+    return entry;
+  }
+
+  // Calendar feed tokens
+  async getCalendarFeedToken(tokenHash: string): Promise<CalendarFeedToken | undefined> {
+    return Array.from(this.calendarFeedTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async setCalendarFeedToken(insertToken: InsertCalendarFeedToken): Promise<CalendarFeedToken> {
+    const token: CalendarFeedToken = {
+      ...insertToken,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.calendarFeedTokens.set(token.userId, token);
+    return token;
+  }
+
+  // Meeting RSVPs
+  async getMeetingRsvps(meetingId: string): Promise<MeetingRsvp[]> {
+    return Array.from(this.meetingRsvps.values()).filter(rsvp => rsvp.meetingId === meetingId);
+  }
+
+  async upsertMeetingRsvp(insertRsvp: InsertMeetingRsvp): Promise<MeetingRsvp> {
+    const key = `${insertRsvp.meetingId}:${insertRsvp.userId}`;
+    const rsvp: MeetingRsvp = {
+      id: this.meetingRsvps.get(key)?.id ?? randomUUID(),
+      ...insertRsvp,
+      comment: insertRsvp.comment ?? null,
+      respondedAt: new Date(),
+    };
+    this.meetingRsvps.set(key, rsvp);
+    return rsvp;
+  }
+
+  async clearMeetingRsvps(meetingId: string): Promise<void> {
+    this.meetingRsvps.forEach((rsvp, key) => {
+      if (rsvp.meetingId === meetingId) this.meetingRsvps.delete(key);
+    });
+  }
+
+  // Meeting outcomes
+  async getMeetingOutcome(meetingId: string): Promise<MeetingOutcome | undefined> {
+    return this.meetingOutcomes.get(meetingId);
+  }
+
+  async upsertMeetingOutcome(insertOutcome: InsertMeetingOutcome): Promise<MeetingOutcome> {
+    const outcome: MeetingOutcome = {
+      id: this.meetingOutcomes.get(insertOutcome.meetingId)?.id ?? randomUUID(),
+      ...insertOutcome,
+      agreedActions: insertOutcome.agreedActions ?? [],
+      followUpDate: insertOutcome.followUpDate ?? null,
+      createdAt: new Date(),
+    };
+    this.meetingOutcomes.set(outcome.meetingId, outcome);
+    return outcome;
+  }
+
+  // Recurring series
+  async getMeetingRecurrence(meetingId: string): Promise<MeetingRecurrence | undefined> {
+    return this.meetingRecurrences.get(meetingId);
+  }
+
+  async upsertMeetingRecurrence(insertRecurrence: InsertMeetingRecurrence): Promise<MeetingRecurrence> {
+    const recurrence: MeetingRecurrence = { ...insertRecurrence, updatedAt: new Date() };
+    this.meetingRecurrences.set(recurrence.meetingId, recurrence);
+    return recurrence;
+  }
+
+  async deleteMeetingRecurrence(meetingId: string): Promise<boolean> {
+    return this.meetingRecurrences.delete(meetingId);
+  }
+
+  async getMeetingExceptions(seriesId: string): Promise<MeetingException[]> {
+    return Array.from(this.meetingExceptions.values())
+      .filter(exception => exception.seriesId === seriesId)
+      .sort((a, b) => new Date(a.originalStart).getTime() - new Date(b.originalStart).getTime());
+  }
+
+  async upsertMeetingException(insertException: InsertMeetingException): Promise<MeetingException> {
+    const key = `${insertException.seriesId}:${new Date(insertException.originalStart).getTime()}`;
+    const exception: MeetingException = {
+      id: this.meetingExceptions.get(key)?.id ?? randomUUID(),
+      ...insertException,
+      meetingId: insertException.meetingId ?? null,
+      cancelled: insertException.cancelled ?? false,
+      createdAt: new Date(),
+    };
+    this.meetingExceptions.set(key, exception);
+    return exception;
+  }
+
   // Scenarios
   async getScenarios(): Promise<Scenario[]> {
     return Array.from(this.scenarios.values()).sort(
@@ -219,6 +964,16 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async searchScenarios(options: ScenarioSearchOptions): Promise<Scenario[]> {
+    const scenarios = Array.from(this.scenarios.values()).filter(scenario =>
+      (!options.riskLevels || (!!scenario.riskLevel && options.riskLevels.includes(scenario.riskLevel))) &&
+      (!options.createdBy || scenario.createdBy === options.createdBy) &&
+      (!options.createdFrom || scenario.createdAt! >= options.createdFrom) &&
+      (!options.createdTo || scenario.createdAt! < options.createdTo) &&
+      matchesSearch(options.search, scenario.title, scenario.scenario));
+    return pageRows(scenarios, options);
+  }
+
   async getScenario(id: string): Promise<Scenario | undefined> {
     return this.scenarios.get(id);
   }
@@ -253,6 +1008,30 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
   }
 
+  async getNotificationsPage(userId: string, options: NotificationPageOptions): Promise<Notification[]> {
+    const { before } = options;
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && (!options.unreadOnly || !notification.isRead))
+      .sort((a, b) =>
+        new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime() || b.id.localeCompare(a.id))
+      .filter(notification => {
+        if (!before) return true;
+        const createdAt = new Date(notification.createdAt!).getTime();
+        return createdAt < before.createdAt.getTime() ||
+          (createdAt === before.createdAt.getTime() && notification.id < before.id);
+      })
+      .slice(0, options.limit);
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.isRead).length;
+  }
+
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
     const id = randomUUID();
     const notification: Notification = {
@@ -274,6 +1053,1655 @@ export class MemStorage implements IStorage {
     notification.isRead = true;
     return true;
   }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    let marked = 0;
+    this.notifications.forEach(notification => {
+      if (notification.userId === userId && !notification.isRead) {
+        notification.isRead = true;
+        marked++;
+      }
+    });
+    return marked;
+  }
+
+  // Outbound delivery
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    return this.notificationPreferences.get(userId);
+  }
+
+  async upsertNotificationPreferences(insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const existing = this.notificationPreferences.get(insertPreferences.userId);
+    const preferences: NotificationPreferences = {
+      emailEnabled: true,
+      smsEnabled: false,
+      mutedTypes: [],
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timezone: "UTC",
+      ...existing,
+      ...insertPreferences,
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(preferences.userId, preferences);
+    return preferences;
+  }
+
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const id = randomUUID();
+    const delivery: NotificationDelivery = {
+      ...insertDelivery,
+      id,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      lastError: insertDelivery.lastError ?? null,
+      destination: insertDelivery.destination ?? null,
+      sentAt: insertDelivery.sentAt ?? null,
+      createdAt: new Date(),
+    };
+    this.notificationDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    return this.notificationDeliveries.get(id);
+  }
+
+  async getNotificationDeliveries(filter: DeliveryListQuery): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .filter(delivery => (!filter.status || delivery.status === filter.status) &&
+        (!filter.userId || delivery.userId === filter.userId))
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(0, filter.limit);
+  }
+
+  async getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && new Date(delivery.nextAttemptAt) <= now)
+      .sort((a, b) => new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime())
+      .slice(0, limit);
+  }
+
+  async updateNotificationDelivery(id: string, updates: Partial<NotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const delivery = this.notificationDeliveries.get(id);
+    if (!delivery) return undefined;
+    const updated = { ...delivery, ...updates, id };
+    this.notificationDeliveries.set(id, updated);
+    return updated;
+  }
+
+  // Audit log
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    return this.auditLog[this.auditLog.length - 1];
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const latest = await this.getLatestAuditEntry();
+    if (latest && insertEntry.sequence <= latest.sequence) {
+      throw new Error(`Audit sequence ${insertEntry.sequence} already exists`);
+    }
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id: randomUUID(),
+      actorId: insertEntry.actorId ?? null,
+      actorRole: insertEntry.actorRole ?? null,
+      entityType: insertEntry.entityType ?? null,
+      entityId: insertEntry.entityId ?? null,
+      changes: insertEntry.changes ?? null,
+      createdAt: insertEntry.createdAt ?? new Date(),
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.auditLog
+      .filter(entry =>
+        (query.after === undefined || entry.sequence > query.after) &&
+        (!query.actorId || entry.actorId === query.actorId) &&
+        (!query.action || entry.action === query.action) &&
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt < query.to))
+      .slice(0, query.limit);
+  }
+
+  // Activity feed
+  async createActivityEvent(insertEvent: InsertActivityEvent): Promise<ActivityEvent> {
+    const id = randomUUID();
+    const event: ActivityEvent = {
+      ...insertEvent,
+      id,
+      actorId: insertEvent.actorId ?? null,
+      department: insertEvent.department ?? null,
+      createdAt: new Date(),
+    };
+    this.activityEvents.set(id, event);
+    return event;
+  }
+
+  async getActivityEvents(options: ActivityPageOptions): Promise<ActivityEvent[]> {
+    const { before } = options;
+    return Array.from(this.activityEvents.values())
+      .filter(event =>
+        (!options.type || event.type === options.type) &&
+        (!options.actorId || event.actorId === options.actorId) &&
+        (!options.department || event.department === options.department))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id))
+      .filter(event => {
+        if (!before) return true;
+        const createdAt = event.createdAt.getTime();
+        return createdAt < before.createdAt.getTime() ||
+          (createdAt === before.createdAt.getTime() && event.id < before.id);
+      })
+      .slice(0, options.limit);
+  }
+
+  // Analytics
+  async getComplaintsCreatedBetween(from: Date, to: Date): Promise<Complaint[]> {
+    return Array.from(this.complaints.values())
+      .filter(complaint => complaint.createdAt! >= from && complaint.createdAt! < to)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async getComplaintStatusHistoryBetween(from: Date, to: Date): Promise<ComplaintStatusHistory[]> {
+    return Array.from(this.complaintStatusHistory.values())
+      .filter(entry => entry.createdAt! >= from && entry.createdAt! < to)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async getComplaintMessagesBetween(from: Date, to: Date): Promise<ComplaintMessage[]> {
+    return Array.from(this.complaintMessages.values())
+      .filter(message => message.createdAt! >= from && message.createdAt! < to)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async getComplaintDailyStats(fromDay: string, toDay: string): Promise<ComplaintDailyStats[]> {
+    return this.complaintDailyStats
+      .filter(row => row.day >= fromDay && row.day <= toDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  async replaceComplaintDailyStats(fromDay: string, toDay: string, rows: InsertComplaintDailyStats[]): Promise<void> {
+    const computedAt = new Date();
+    this.complaintDailyStats = [
+      ...this.complaintDailyStats.filter(row => row.day < fromDay || row.day > toDay),
+      ...rows.map(row => ({
+        filed: 0,
+        resolved: 0,
+        firstResponses: 0,
+        firstResponseHours: 0,
+        resolutionHours: 0,
+        sentimentCount: 0,
+        sentimentTotal: 0,
+        ...row,
+        id: randomUUID(),
+        department: row.department ?? null,
+        computedAt,
+      })),
+    ];
+  }
+
+  async getLatestComplaintStatsDay(): Promise<string | undefined> {
+    return this.complaintDailyStats.reduce<string | undefined>(
+      (latest, row) => (!latest || row.day > latest ? row.day : latest),
+      undefined,
+    );
+  }
+
+  // Report schedules
+  async createReportSchedule(insertSchedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const id = randomUUID();
+    const schedule: ReportSchedule = {
+      ...insertSchedule,
+      id,
+      filters: insertSchedule.filters ?? {},
+      active: insertSchedule.active ?? true,
+      lastRunAt: insertSchedule.lastRunAt ?? null,
+      lastError: insertSchedule.lastError ?? null,
+      createdAt: new Date(),
+    };
+    this.reportSchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async getReportSchedule(id: string): Promise<ReportSchedule | undefined> {
+    return this.reportSchedules.get(id);
+  }
+
+  async getReportSchedules(ownerId: string): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values())
+      .filter(schedule => schedule.ownerId === ownerId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values())
+      .filter(schedule => schedule.active && schedule.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+  }
+
+  async updateReportSchedule(id: string, updates: Partial<ReportSchedule>): Promise<ReportSchedule | undefined> {
+    const schedule = this.reportSchedules.get(id);
+    if (!schedule) return undefined;
+    const updated = { ...schedule, ...updates, id };
+    this.reportSchedules.set(id, updated);
+    return updated;
+  }
+
+  async createGeneratedReport(insertReport: InsertGeneratedReport): Promise<GeneratedReport> {
+    const id = randomUUID();
+    const report: GeneratedReport = {
+      ...insertReport,
+      id,
+      scheduleId: insertReport.scheduleId ?? null,
+      createdAt: new Date(),
+    };
+    this.generatedReports.set(id, report);
+    return report;
+  }
+
+  async getGeneratedReport(id: string): Promise<GeneratedReport | undefined> {
+    return this.generatedReports.get(id);
+  }
+
+  async getGeneratedReports(ownerId: string): Promise<GeneratedReport[]> {
+    return Array.from(this.generatedReports.values())
+      .filter(report => report.ownerId === ownerId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  // AI runs
+  async createAiRun(insertRun: InsertAiRun): Promise<AiRun> {
+    const id = randomUUID();
+    const run: AiRun = {
+      ...insertRun,
+      id,
+      entityType: insertRun.entityType ?? null,
+      entityId: insertRun.entityId ?? null,
+      error: insertRun.error ?? null,
+      output: insertRun.output ?? null,
+      redactions: insertRun.redactions ?? null,
+      createdAt: new Date(),
+    };
+    this.aiRuns.set(id, run);
+    return run;
+  }
+
+  async getAiRuns(entityType: string, entityId: string): Promise<AiRun[]> {
+    return Array.from(this.aiRuns.values())
+      .filter(run => run.entityType === entityType && run.entityId === entityId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  // AI jobs
+  async createAiJob(insertJob: InsertAiJob): Promise<AiJob> {
+    const id = randomUUID();
+    const job: AiJob = {
+      ...insertJob,
+      id,
+      status: insertJob.status ?? "pending",
+      attempts: insertJob.attempts ?? 0,
+      lastError: insertJob.lastError ?? null,
+      requestedBy: insertJob.requestedBy ?? null,
+      retriage: insertJob.retriage ?? false,
+      completedAt: insertJob.completedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.aiJobs.set(id, job);
+    return job;
+  }
+
+  async getAiJob(id: string): Promise<AiJob | undefined> {
+    return this.aiJobs.get(id);
+  }
+
+  async getAiJobs(entityType: string, entityId: string): Promise<AiJob[]> {
+    return Array.from(this.aiJobs.values())
+      .filter(job => job.entityType === entityType && job.entityId === entityId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getDueAiJobs(now: Date, limit: number): Promise<AiJob[]> {
+    return Array.from(this.aiJobs.values())
+      .filter(job => isAiJobDue(job, now))
+      .sort((a, b) => new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime())
+      .slice(0, limit);
+  }
+
+  async claimAiJob(id: string, now: Date, leaseUntil: Date): Promise<AiJob | undefined> {
+    const job = this.aiJobs.get(id);
+    if (!job || !isAiJobDue(job, now)) return undefined;
+    const claimed = { ...job, status: "running", attempts: job.attempts + 1, nextAttemptAt: leaseUntil };
+    this.aiJobs.set(id, claimed);
+    return claimed;
+  }
+
+  async updateAiJob(id: string, updates: Partial<AiJob>): Promise<AiJob | undefined> {
+    const job = this.aiJobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...updates, id };
+    this.aiJobs.set(id, updated);
+    return updated;
+  }
+
+  // AI PII tokens
+  async getAiPiiTokens(entityType: string, entityId: string): Promise<AiPiiTokens | undefined> {
+    return this.aiPiiTokens.get(`${entityType}:${entityId}`);
+  }
+
+  async upsertAiPiiTokens(insertTokens: InsertAiPiiTokens): Promise<AiPiiTokens> {
+    const key = `${insertTokens.entityType}:${insertTokens.entityId}`;
+    const tokens: AiPiiTokens = {
+      id: this.aiPiiTokens.get(key)?.id ?? randomUUID(),
+      ...insertTokens,
+      updatedAt: new Date(),
+    };
+    this.aiPiiTokens.set(key, tokens);
+    return tokens;
+  }
+
+  // Policy documents
+  async createPolicyDocument(
+    insertDocument: InsertPolicyDocument,
+    chunks: Omit<InsertPolicyChunk, "documentId">[],
+  ): Promise<PolicyDocument> {
+    const id = insertDocument.id ?? randomUUID();
+    const document: PolicyDocument = { ...insertDocument, id, createdAt: new Date() };
+    this.policyDocuments.set(id, document);
+    this.policyChunks.push(...chunks.map(chunk => ({ ...chunk, id: randomUUID(), documentId: id })));
+    return document;
+  }
+
+  async getPolicyDocument(id: string): Promise<PolicyDocument | undefined> {
+    return this.policyDocuments.get(id);
+  }
+
+  async getPolicyDocuments(): Promise<PolicyDocument[]> {
+    return Array.from(this.policyDocuments.values())
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async deletePolicyDocument(id: string): Promise<boolean> {
+    this.policyChunks = this.policyChunks.filter(chunk => chunk.documentId !== id);
+    return this.policyDocuments.delete(id);
+  }
+
+  async getPolicyChunks(documentId?: string): Promise<PolicyChunk[]> {
+    return this.policyChunks
+      .filter(chunk => !documentId || chunk.documentId === documentId)
+      .sort((a, b) => a.documentId.localeCompare(b.documentId) || a.position - b.position);
+  }
+
+  // Chat conversations
+  async createChatConversation(insertConversation: InsertChatConversation): Promise<ChatConversation> {
+    const id = randomUUID();
+    const now = new Date();
+    const conversation: ChatConversation = {
+      ...insertConversation,
+      id,
+      title: insertConversation.title ?? null,
+      escalatedComplaintId: insertConversation.escalatedComplaintId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.chatConversations.set(id, conversation);
+    return conversation;
+  }
+
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    return this.chatConversations.get(id);
+  }
+
+  async getChatConversations(userId: string): Promise<ChatConversation[]> {
+    return Array.from(this.chatConversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => b.updatedAt!.getTime() - a.updatedAt!.getTime());
+  }
+
+  async updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined> {
+    const conversation = this.chatConversations.get(id);
+    if (!conversation) return undefined;
+    const updated = { ...conversation, ...updates, id };
+    this.chatConversations.set(id, updated);
+    return updated;
+  }
+
+  async deleteChatConversation(id: string): Promise<boolean> {
+    this.chatTurns = this.chatTurns.filter(turn => turn.conversationId !== id);
+    return this.chatConversations.delete(id);
+  }
+
+  async getChatTurns(conversationId: string): Promise<ChatTurn[]> {
+    return this.chatTurns
+      .filter(turn => turn.conversationId === conversationId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async appendChatTurns(
+    conversationId: string,
+    turns: Omit<InsertChatTurn, "conversationId" | "position">[],
+    updates: Partial<ChatConversation> = {},
+  ): Promise<ChatTurn[]> {
+    const start = this.chatTurns.filter(turn => turn.conversationId === conversationId).length;
+    const appended: ChatTurn[] = turns.map((turn, index) => ({
+      ...turn,
+      id: randomUUID(),
+      conversationId,
+      position: start + index,
+      citations: turn.citations ?? null,
+      grounded: turn.grounded ?? null,
+      provider: turn.provider ?? null,
+      model: turn.model ?? null,
+      latencyMs: turn.latencyMs ?? null,
+      createdAt: new Date(),
+    }));
+    this.chatTurns.push(...appended);
+    await this.updateChatConversation(conversationId, updates);
+    return appended;
+  }
+
+  async deleteExpiredChatConversations(now: Date): Promise<number> {
+    const expired = Array.from(this.chatConversations.values())
+      .filter(conversation => new Date(conversation.expiresAt) < now);
+    for (const conversation of expired) {
+      await this.deleteChatConversation(conversation.id);
+    }
+    return expired.length;
+  }
+
+  async getChatPreferences(userId: string): Promise<ChatPreferences | undefined> {
+    return this.chatPreferences.get(userId);
+  }
+
+  async upsertChatPreferences(insertPreferences: InsertChatPreferences): Promise<ChatPreferences> {
+    const preferences: ChatPreferences = { ...insertPreferences, updatedAt: new Date() };
+    this.chatPreferences.set(preferences.userId, preferences);
+    return preferences;
+  }
+}
+
+// Cursors carry JavaScript dates, so timestamps sort and compare at
+// millisecond precision
+function truncatedToMs(column: AnyPgColumn): SQL {
+  return sql`date_trunc('milliseconds', ${column})`;
+}
+
+// Text sorts ignore case, matching sortValueOf
+function lowercased(column: AnyPgColumn): SQL {
+  return sql`lower(${column})`;
+}
+
+// Orders by the sort expression with the id breaking ties, starting after
+// the previous page's last row
+function keysetPage(expression: SQL | AnyPgColumn, id: AnyPgColumn, options: ListPageOptions<string>) {
+  const direction = options.order === "asc" ? asc : desc;
+  const { after } = options;
+  return {
+    after: after
+      ? sql`(${expression}, ${id}) ${options.order === "asc" ? sql`>` : sql`<`} (${after.value}, ${after.id})`
+      : undefined,
+    orderBy: [direction(expression), direction(id)],
+  };
+}
+
+// ILIKE pattern matching the text anywhere, with its wildcards escaped
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  // Creates the default HR manager on an empty database
+  async initializeDefaults() {
+    const existing = await this.getUserByUsername(DEFAULT_HR_MANAGER.username);
+    if (!existing) {
+      await this.createUser({ ...DEFAULT_HR_MANAGER, password: getSeedPassword() });
+    }
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.createdAt));
+  }
+
+  async searchUsers(options: UserSearchOptions): Promise<User[]> {
+    const sortBy: Record<UserSortField, SQL | AnyPgColumn> = {
+      name: lowercased(users.name),
+      username: lowercased(users.username),
+      createdAt: truncatedToMs(users.createdAt),
+    };
+    const page = keysetPage(sortBy[options.sort], users.id, options);
+    const pattern = options.search && containsPattern(options.search);
+    const query = this.db
+      .select()
+      .from(users)
+      .where(and(
+        options.roles ? inArray(users.role, options.roles) : undefined,
+        options.department ? eq(users.department, options.department) : undefined,
+        options.isActive === undefined
+          ? undefined
+          : options.isActive ? or(eq(users.isActive, true), isNull(users.isActive)) : eq(users.isActive, false),
+        pattern ? or(ilike(users.name, pattern), ilike(users.username, pattern), ilike(users.email, pattern)) : undefined,
+        page.after,
+      ))
+      .orderBy(...page.orderBy);
+    return options.limit === undefined ? await query : await query.limit(options.limit);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.phone, phone));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, password: await hashPassword(insertUser.password) })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    if (values.password) {
+      values.password = await hashPassword(values.password);
+    }
+    const [user] = await this.db.update(users).set(values).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Staff routing profiles
+  async getStaffProfiles(): Promise<StaffProfile[]> {
+    return this.db.select().from(staffProfiles);
+  }
+
+  async getStaffProfile(userId: string): Promise<StaffProfile | undefined> {
+    const [profile] = await this.db.select().from(staffProfiles).where(eq(staffProfiles.userId, userId));
+    return profile;
+  }
+
+  async upsertStaffProfile(insertProfile: InsertStaffProfile): Promise<StaffProfile> {
+    const [profile] = await this.db
+      .insert(staffProfiles)
+      .values(insertProfile)
+      .onConflictDoUpdate({
+        target: staffProfiles.userId,
+        set: { ...insertProfile, updatedAt: new Date() },
+      })
+      .returning();
+    return profile;
+  }
+
+  // Password reset tokens
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await this.db.insert(passwordResetTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async markPasswordResetTokenUsed(id: string): Promise<boolean> {
+    const updated = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(eq(passwordResetTokens.id, id))
+      .returning({ id: passwordResetTokens.id });
+    return updated.length > 0;
+  }
+
+  // Complaints
+  async getComplaints(): Promise<Complaint[]> {
+    return this.db.select().from(complaints).orderBy(desc(complaints.createdAt));
+  }
+
+  async searchComplaints(options: ComplaintSearchOptions): Promise<Complaint[]> {
+    const sortBy: Record<ComplaintSortField, SQL | AnyPgColumn> = {
+      createdAt: truncatedToMs(complaints.createdAt),
+      updatedAt: truncatedToMs(complaints.updatedAt),
+      // Severity rank, matching sortValueOf (array_position counts from 1)
+      priority: sql`array_position(ARRAY[${sql.join(complaintPriorities.map(priority => sql`${priority}`), sql`, `)}]::text[], ${complaints.priority}) - 1`,
+      title: lowercased(complaints.title),
+    };
+    const page = keysetPage(sortBy[options.sort], complaints.id, options);
+    const pattern = options.search && containsPattern(options.search);
+    const query = this.db
+      .select()
+      .from(complaints)
+      .where(and(
+        options.statuses ? inArray(complaints.status, options.statuses) : undefined,
+        options.priorities ? inArray(complaints.priority, options.priorities) : undefined,
+        options.categories ? inArray(complaints.category, options.categories) : undefined,
+        options.assignedTo === null
+          ? isNull(complaints.assignedTo)
+          : options.assignedTo ? eq(complaints.assignedTo, options.assignedTo) : undefined,
+        options.submitterId ? eq(complaints.submitterId, options.submitterId) : undefined,
+        options.createdFrom ? gte(complaints.createdAt, options.createdFrom) : undefined,
+        options.createdTo ? lt(complaints.createdAt, options.createdTo) : undefined,
+        pattern ? or(ilike(complaints.title, pattern), ilike(complaints.description, pattern)) : undefined,
+        page.after,
+      ))
+      .orderBy(...page.orderBy);
+    return options.limit === undefined ? await query : await query.limit(options.limit);
+  }
+
+  async getComplaint(id: string): Promise<Complaint | undefined> {
+    const [complaint] = await this.db.select().from(complaints).where(eq(complaints.id, id));
+    return complaint;
+  }
+
+  async createComplaint(insertComplaint: InsertComplaint): Promise<Complaint> {
+    const [complaint] = await this.db.insert(complaints).values(insertComplaint).returning();
+    return complaint;
+  }
+
+  async updateComplaint(id: string, updates: Partial<Complaint>): Promise<Complaint | undefined> {
+    const values = { ...updates, updatedAt: new Date() };
+    delete values.id;
+    const [complaint] = await this.db
+      .update(complaints)
+      .set(values)
+      .where(eq(complaints.id, id))
+      .returning();
+    return complaint;
+  }
+
+  async getComplaintsByUser(userId: string): Promise<Complaint[]> {
+    return this.db
+      .select()
+      .from(complaints)
+      .where(eq(complaints.submitterId, userId))
+      .orderBy(asc(complaints.createdAt));
+  }
+
+  // Complaint status history
+  async getComplaintStatusHistory(complaintId: string): Promise<ComplaintStatusHistory[]> {
+    return this.db
+      .select()
+      .from(complaintStatusHistory)
+      .where(eq(complaintStatusHistory.complaintId, complaintId))
+      .orderBy(asc(complaintStatusHistory.createdAt));
+  }
+
+  async createComplaintStatusHistory(insertEntry: InsertComplaintStatusHistory): Promise<ComplaintStatusHistory> {
+    const [entry] = await this.db.insert(complaintStatusHistory).values(insertEntry).returning();
+    return entry;
+  }
+
+  // SLA escalations
+  async getComplaintEscalations(complaintId?: string): Promise<ComplaintEscalation[]> {
+    return this.db
+      .select()
+      .from(complaintEscalations)
+      .where(complaintId ? eq(complaintEscalations.complaintId, complaintId) : undefined)
+      .orderBy(asc(complaintEscalations.createdAt));
+  }
+
+  async createComplaintEscalation(insertEscalation: InsertComplaintEscalation): Promise<ComplaintEscalation> {
+    const [escalation] = await this.db.insert(complaintEscalations).values(insertEscalation).returning();
+    return escalation;
+  }
+
+  // Complaint assignment log
+  async getComplaintAssignments(complaintId: string): Promise<ComplaintAssignment[]> {
+    return this.db
+      .select()
+      .from(complaintAssignments)
+      .where(eq(complaintAssignments.complaintId, complaintId))
+      .orderBy(asc(complaintAssignments.createdAt));
+  }
+
+  async createComplaintAssignment(insertAssignment: InsertComplaintAssignment): Promise<ComplaintAssignment> {
+    const [assignment] = await this.db.insert(complaintAssignments).values(insertAssignment).returning();
+    return assignment;
+  }
+
+  // Complaint messages
+  async getComplaintMessages(complaintId: string, options: { includeInternal?: boolean } = {}): Promise<ComplaintMessage[]> {
+    return this.db
+      .select()
+      .from(complaintMessages)
+      .where(and(
+        eq(complaintMessages.complaintId, complaintId),
+        options.includeInternal ? undefined : ne(complaintMessages.visibility, "internal"),
+      ))
+      .orderBy(asc(complaintMessages.createdAt));
+  }
+
+  async getComplaintMessage(id: string): Promise<ComplaintMessage | undefined> {
+    const [message] = await this.db.select().from(complaintMessages).where(eq(complaintMessages.id, id));
+    return message;
+  }
+
+  async createComplaintMessage(insertMessage: InsertComplaintMessage): Promise<ComplaintMessage> {
+    const [message] = await this.db.insert(complaintMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  // Complaint attachments
+  async getComplaintAttachments(complaintId: string): Promise<ComplaintAttachment[]> {
+    return this.db
+      .select()
+      .from(complaintAttachments)
+      .where(eq(complaintAttachments.complaintId, complaintId))
+      .orderBy(asc(complaintAttachments.createdAt));
+  }
+
+  async getComplaintAttachment(id: string): Promise<ComplaintAttachment | undefined> {
+    const [attachment] = await this.db
+      .select()
+      .from(complaintAttachments)
+      .where(eq(complaintAttachments.id, id));
+    return attachment;
+  }
+
+  async createComplaintAttachment(insertAttachment: InsertComplaintAttachment): Promise<ComplaintAttachment> {
+    const [attachment] = await this.db.insert(complaintAttachments).values(insertAttachment).returning();
+    return attachment;
+  }
+
+  // Meetings
+  async getMeetings(): Promise<Meeting[]> {
+    return this.db.select().from(meetings).orderBy(asc(meetings.scheduledDate));
+  }
+
+  async searchMeetings(options: MeetingSearchOptions): Promise<Meeting[]> {
+    const sortBy: Record<MeetingSortField, SQL | AnyPgColumn> = {
+      scheduledDate: truncatedToMs(meetings.scheduledDate),
+      createdAt: truncatedToMs(meetings.createdAt),
+      title: lowercased(meetings.title),
+    };
+    const page = keysetPage(sortBy[options.sort], meetings.id, options);
+    const pattern = options.search && containsPattern(options.search);
+    const query = this.db
+      .select()
+      .from(meetings)
+      .where(and(
+        options.statuses ? inArray(meetings.status, options.statuses) : undefined,
+        options.types ? inArray(meetings.type, options.types) : undefined,
+        options.participantId
+          ? or(eq(meetings.organizerId, options.participantId), sql`${options.participantId} = ANY(${meetings.attendeeIds})`)
+          : undefined,
+        options.scheduledFrom ? gte(meetings.scheduledDate, options.scheduledFrom) : undefined,
+        options.scheduledTo ? lt(meetings.scheduledDate, options.scheduledTo) : undefined,
+        pattern ? or(ilike(meetings.title, pattern), ilike(meetings.description, pattern)) : undefined,
+        page.after,
+      ))
+      .orderBy(...page.orderBy);
+    return options.limit === undefined ? await query : await query.limit(options.limit);
+  }
+
+  async getMeeting(id: string): Promise<Meeting | undefined> {
+    const [meeting] = await this.db.select().from(meetings).where(eq(meetings.id, id));
+    return meeting;
+  }
+
+  async createMeeting(insertMeeting: InsertMeeting): Promise<Meeting> {
+    const [meeting] = await this.db.insert(meetings).values(insertMeeting).returning();
+    return meeting;
+  }
+
+  async updateMeeting(id: string, updates: Partial<Meeting>): Promise<Meeting | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [meeting] = await this.db
+      .update(meetings)
+      .set(values)
+      .where(eq(meetings.id, id))
+      .returning();
+    return meeting;
+  }
+
+  async getMeetingsByUser(userId: string): Promise<Meeting[]> {
+    return this.db
+      .select()
+      .from(meetings)
+      .where(or(
+        eq(meetings.organizerId, userId),
+        sql`${userId} = ANY(${meetings.attendeeIds})`,
+      ))
+      .orderBy(asc(meetings.createdAt));
+  }
+
+  // iCalendar identity of meetings
+  async getMeetingCalendarEntry(meetingId: string): Promise<MeetingCalendarEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(meetingCalendarEntries)
+      .where(eq(meetingCalendarEntries.meetingId, meetingId));
+    return entry;
+  }
+
+  async getMeetingCalendarEntryByUid(uid: string): Promise<MeetingCalendarEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(meetingCalendarEntries)
+      .where(eq(meetingCalendarEntries.uid, uid));
+    return entry;
+  }
+
+  async upsertMeetingCalendarEntry(insertEntry: InsertMeetingCalendarEntry): Promise<MeetingCalendarEntry> {
+    const [entry] = await this.db
+      .insert(meetingCalendarEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: meetingCalendarEntries.meetingId,
+        set: { ...insertEntry, updatedAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
+
+  // Calendar feed tokens
+  async getCalendarFeedToken(tokenHash: string): Promise<CalendarFeedToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async setCalendarFeedToken(insertToken: InsertCalendarFeedToken): Promise<CalendarFeedToken> {
+    const [token] = await this.db
+      .insert(calendarFeedTokens)
+      .values(insertToken)
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        set: { tokenHash: insertToken.tokenHash, createdAt: new Date() },
+      })
+      .returning();
+    return token;
+  }
+
+  // Meeting RSVPs
+  async getMeetingRsvps(meetingId: string): Promise<MeetingRsvp[]> {
+    return this.db.select().from(meetingRsvps).where(eq(meetingRsvps.meetingId, meetingId));
+  }
+
+  async upsertMeetingRsvp(insertRsvp: InsertMeetingRsvp): Promise<MeetingRsvp> {
+    const [rsvp] = await this.db
+      .insert(meetingRsvps)
+      .values(insertRsvp)
+      .onConflictDoUpdate({
+        target: [meetingRsvps.meetingId, meetingRsvps.userId],
+        set: { response: insertRsvp.response, comment: insertRsvp.comment ?? null, respondedAt: new Date() },
+      })
+      .returning();
+    return rsvp;
+  }
+
+  async clearMeetingRsvps(meetingId: string): Promise<void> {
+    await this.db.delete(meetingRsvps).where(eq(meetingRsvps.meetingId, meetingId));
+  }
+
+  // Meeting outcomes
+  async getMeetingOutcome(meetingId: string): Promise<MeetingOutcome | undefined> {
+    const [outcome] = await this.db.select().from(meetingOutcomes).where(eq(meetingOutcomes.meetingId, meetingId));
+    return outcome;
+  }
+
+  async upsertMeetingOutcome(insertOutcome: InsertMeetingOutcome): Promise<MeetingOutcome> {
+    const [outcome] = await this.db
+      .insert(meetingOutcomes)
+      .values(insertOutcome)
+      .onConflictDoUpdate({
+        target: meetingOutcomes.meetingId,
+        set: { ...insertOutcome, createdAt: new Date() },
+      })
+      .returning();
+    return outcome;
+  }
+
+  // Recurring series
+  async getMeetingRecurrence(meetingId: string): Promise<MeetingRecurrence | undefined> {
+    const [recurrence] = await this.db
+      .select()
+      .from(meetingRecurrences)
+      .where(eq(meetingRecurrences.meetingId, meetingId));
+    return recurrence;
+  }
+
+  async upsertMeetingRecurrence(insertRecurrence: InsertMeetingRecurrence): Promise<MeetingRecurrence> {
+    const [recurrence] = await this.db
+      .insert(meetingRecurrences)
+      .values(insertRecurrence)
+      .onConflictDoUpdate({
+        target: meetingRecurrences.meetingId,
+        set: { rrule: insertRecurrence.rrule, updatedAt: new Date() },
+      })
+      .returning();
+    return recurrence;
+  }
+
+  async deleteMeetingRecurrence(meetingId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(meetingRecurrences)
+      .where(eq(meetingRecurrences.meetingId, meetingId))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getMeetingExceptions(seriesId: string): Promise<MeetingException[]> {
+    return this.db
+      .select()
+      .from(meetingExceptions)
+      .where(eq(meetingExceptions.seriesId, seriesId))
+      .orderBy(asc(meetingExceptions.originalStart));
+  }
+
+  async upsertMeetingException(insertException: InsertMeetingException): Promise<MeetingException> {
+    const [exception] = await this.db
+      .insert(meetingExceptions)
+      .values(insertException)
+      .onConflictDoUpdate({
+        target: [meetingExceptions.seriesId, meetingExceptions.originalStart],
+        set: { meetingId: insertException.meetingId ?? null, cancelled: insertException.cancelled ?? false },
+      })
+      .returning();
+    return exception;
+  }
+
+  // Scenarios
+  async getScenarios(): Promise<Scenario[]> {
+    return this.db.select().from(scenarios).orderBy(desc(scenarios.createdAt));
+  }
+
+  async searchScenarios(options: ScenarioSearchOptions): Promise<Scenario[]> {
+    const sortBy: Record<ScenarioSortField, SQL | AnyPgColumn> = {
+      createdAt: truncatedToMs(scenarios.createdAt),
+      title: lowercased(scenarios.title),
+    };
+    const page = keysetPage(sortBy[options.sort], scenarios.id, options);
+    const pattern = options.search && containsPattern(options.search);
+    const query = this.db
+      .select()
+      .from(scenarios)
+      .where(and(
+        options.riskLevels ? inArray(scenarios.riskLevel, options.riskLevels) : undefined,
+        options.createdBy ? eq(scenarios.createdBy, options.createdBy) : undefined,
+        options.createdFrom ? gte(scenarios.createdAt, options.createdFrom) : undefined,
+        options.createdTo ? lt(scenarios.createdAt, options.createdTo) : undefined,
+        pattern ? or(ilike(scenarios.title, pattern), ilike(scenarios.scenario, pattern)) : undefined,
+        page.after,
+      ))
+      .orderBy(...page.orderBy);
+    return options.limit === undefined ? await query : await query.limit(options.limit);
+  }
+
+  async getScenario(id: string): Promise<Scenario | undefined> {
+    const [scenario] = await this.db.select().from(scenarios).where(eq(scenarios.id, id));
+    return scenario;
+  }
+
+  async createScenario(insertScenario: InsertScenario): Promise<Scenario> {
+    const [scenario] = await this.db.insert(scenarios).values(insertScenario).returning();
+    return scenario;
+  }
+
+  async updateScenario(id: string, updates: Partial<Scenario>): Promise<Scenario | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [scenario] = await this.db
+      .update(scenarios)
+      .set(values)
+      .where(eq(scenarios.id, id))
+      .returning();
+    return scenario;
+  }
+
+  // Notifications
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async getNotificationsPage(userId: string, options: NotificationPageOptions): Promise<Notification[]> {
+    const { before } = options;
+    // Cursors carry JavaScript dates, so compare at millisecond precision
+    const createdAt = sql`date_trunc('milliseconds', ${notifications.createdAt})`;
+    return this.db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? eq(notifications.isRead, false) : undefined,
+        before
+          ? sql`(${createdAt}, ${notifications.id}) < (${before.createdAt}, ${before.id})`
+          : undefined,
+      ))
+      .orderBy(desc(createdAt), desc(notifications.id))
+      .limit(options.limit);
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return row?.count ?? 0;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async markNotificationRead(id: string): Promise<boolean> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning({ id: notifications.id });
+    return updated.length > 0;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Outbound delivery
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async upsertNotificationPreferences(insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const [preferences] = await this.db
+      .insert(notificationPreferences)
+      .values(insertPreferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...insertPreferences, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  }
+
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [delivery] = await this.db.insert(notificationDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, id));
+    return delivery;
+  }
+
+  async getNotificationDeliveries(filter: DeliveryListQuery): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(
+        filter.status ? eq(notificationDeliveries.status, filter.status) : undefined,
+        filter.userId ? eq(notificationDeliveries.userId, filter.userId) : undefined,
+      ))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(filter.limit);
+  }
+
+  async getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(eq(notificationDeliveries.status, "pending"), lte(notificationDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(notificationDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateNotificationDelivery(id: string, updates: Partial<NotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [delivery] = await this.db
+      .update(notificationDeliveries)
+      .set(values)
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  // Audit log
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    const [entry] = await this.db.select().from(auditLog).orderBy(desc(auditLog.sequence)).limit(1);
+    return entry;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db.insert(auditLog).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(and(
+        query.after !== undefined ? gt(auditLog.sequence, query.after) : undefined,
+        query.actorId ? eq(auditLog.actorId, query.actorId) : undefined,
+        query.action ? eq(auditLog.action, query.action) : undefined,
+        query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+        query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+        query.from ? gte(auditLog.createdAt, query.from) : undefined,
+        query.to ? lt(auditLog.createdAt, query.to) : undefined,
+      ))
+      .orderBy(asc(auditLog.sequence))
+      .limit(query.limit);
+  }
+
+  // Activity feed
+  async createActivityEvent(insertEvent: InsertActivityEvent): Promise<ActivityEvent> {
+    const [event] = await this.db.insert(activityEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getActivityEvents(options: ActivityPageOptions): Promise<ActivityEvent[]> {
+    const { before } = options;
+    // Cursors carry JavaScript dates, so compare at millisecond precision
+    const createdAt = sql`date_trunc('milliseconds', ${activityEvents.createdAt})`;
+    return this.db
+      .select()
+      .from(activityEvents)
+      .where(and(
+        options.type ? eq(activityEvents.type, options.type) : undefined,
+        options.actorId ? eq(activityEvents.actorId, options.actorId) : undefined,
+        options.department ? eq(activityEvents.department, options.department) : undefined,
+        before
+          ? sql`(${createdAt}, ${activityEvents.id}) < (${before.createdAt}, ${before.id})`
+          : undefined,
+      ))
+      .orderBy(desc(createdAt), desc(activityEvents.id))
+      .limit(options.limit);
+  }
+
+  // Analytics
+  async getComplaintsCreatedBetween(from: Date, to: Date): Promise<Complaint[]> {
+    return this.db
+      .select()
+      .from(complaints)
+      .where(and(gte(complaints.createdAt, from), lt(complaints.createdAt, to)))
+      .orderBy(asc(complaints.createdAt));
+  }
+
+  async getComplaintStatusHistoryBetween(from: Date, to: Date): Promise<ComplaintStatusHistory[]> {
+    return this.db
+      .select()
+      .from(complaintStatusHistory)
+      .where(and(gte(complaintStatusHistory.createdAt, from), lt(complaintStatusHistory.createdAt, to)))
+      .orderBy(asc(complaintStatusHistory.createdAt));
+  }
+
+  async getComplaintMessagesBetween(from: Date, to: Date): Promise<ComplaintMessage[]> {
+    return this.db
+      .select()
+      .from(complaintMessages)
+      .where(and(gte(complaintMessages.createdAt, from), lt(complaintMessages.createdAt, to)))
+      .orderBy(asc(complaintMessages.createdAt));
+  }
+
+  async getComplaintDailyStats(fromDay: string, toDay: string): Promise<ComplaintDailyStats[]> {
+    return this.db
+      .select()
+      .from(complaintDailyStats)
+      .where(and(gte(complaintDailyStats.day, fromDay), lte(complaintDailyStats.day, toDay)))
+      .orderBy(asc(complaintDailyStats.day));
+  }
+
+  async replaceComplaintDailyStats(fromDay: string, toDay: string, rows: InsertComplaintDailyStats[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(complaintDailyStats)
+        .where(and(gte(complaintDailyStats.day, fromDay), lte(complaintDailyStats.day, toDay)));
+      if (rows.length > 0) {
+        await tx.insert(complaintDailyStats).values(rows);
+      }
+    });
+  }
+
+  async getLatestComplaintStatsDay(): Promise<string | undefined> {
+    const [row] = await this.db
+      .select({ day: complaintDailyStats.day })
+      .from(complaintDailyStats)
+      .orderBy(desc(complaintDailyStats.day))
+      .limit(1);
+    return row?.day;
+  }
+
+  // Report schedules
+  async createReportSchedule(insertSchedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const [schedule] = await this.db.insert(reportSchedules).values(insertSchedule).returning();
+    return schedule;
+  }
+
+  async getReportSchedule(id: string): Promise<ReportSchedule | undefined> {
+    const [schedule] = await this.db.select().from(reportSchedules).where(eq(reportSchedules.id, id));
+    return schedule;
+  }
+
+  async getReportSchedules(ownerId: string): Promise<ReportSchedule[]> {
+    return this.db
+      .select()
+      .from(reportSchedules)
+      .where(eq(reportSchedules.ownerId, ownerId))
+      .orderBy(desc(reportSchedules.createdAt));
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return this.db
+      .select()
+      .from(reportSchedules)
+      .where(and(eq(reportSchedules.active, true), lte(reportSchedules.nextRunAt, now)))
+      .orderBy(asc(reportSchedules.nextRunAt));
+  }
+
+  async updateReportSchedule(id: string, updates: Partial<ReportSchedule>): Promise<ReportSchedule | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [schedule] = await this.db
+      .update(reportSchedules)
+      .set(values)
+      .where(eq(reportSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async createGeneratedReport(insertReport: InsertGeneratedReport): Promise<GeneratedReport> {
+    const [report] = await this.db.insert(generatedReports).values(insertReport).returning();
+    return report;
+  }
+
+  async getGeneratedReport(id: string): Promise<GeneratedReport | undefined> {
+    const [report] = await this.db.select().from(generatedReports).where(eq(generatedReports.id, id));
+    return report;
+  }
+
+  async getGeneratedReports(ownerId: string): Promise<GeneratedReport[]> {
+    return this.db
+      .select()
+      .from(generatedReports)
+      .where(eq(generatedReports.ownerId, ownerId))
+      .orderBy(desc(generatedReports.createdAt));
+  }
+
+  // AI runs
+  async createAiRun(insertRun: InsertAiRun): Promise<AiRun> {
+    const [run] = await this.db.insert(aiRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async getAiRuns(entityType: string, entityId: string): Promise<AiRun[]> {
+    return this.db
+      .select()
+      .from(aiRuns)
+      .where(and(eq(aiRuns.entityType, entityType), eq(aiRuns.entityId, entityId)))
+      .orderBy(desc(aiRuns.createdAt));
+  }
+
+  // AI jobs
+  async createAiJob(insertJob: InsertAiJob): Promise<AiJob> {
+    const [job] = await this.db.insert(aiJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getAiJob(id: string): Promise<AiJob | undefined> {
+    const [job] = await this.db.select().from(aiJobs).where(eq(aiJobs.id, id));
+    return job;
+  }
+
+  async getAiJobs(entityType: string, entityId: string): Promise<AiJob[]> {
+    return this.db
+      .select()
+      .from(aiJobs)
+      .where(and(eq(aiJobs.entityType, entityType), eq(aiJobs.entityId, entityId)))
+      .orderBy(desc(aiJobs.createdAt));
+  }
+
+  async getDueAiJobs(now: Date, limit: number): Promise<AiJob[]> {
+    return this.db
+      .select()
+      .from(aiJobs)
+      .where(and(inArray(aiJobs.status, ["pending", "running"]), lte(aiJobs.nextAttemptAt, now)))
+      .orderBy(asc(aiJobs.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async claimAiJob(id: string, now: Date, leaseUntil: Date): Promise<AiJob | undefined> {
+    // One conditional update, so of two workers racing only one matches
+    const [job] = await this.db
+      .update(aiJobs)
+      .set({ status: "running", attempts: sql`${aiJobs.attempts} + 1`, nextAttemptAt: leaseUntil })
+      .where(and(eq(aiJobs.id, id), inArray(aiJobs.status, ["pending", "running"]), lte(aiJobs.nextAttemptAt, now)))
+      .returning();
+    return job;
+  }
+
+  async updateAiJob(id: string, updates: Partial<AiJob>): Promise<AiJob | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [job] = await this.db
+      .update(aiJobs)
+      .set(values)
+      .where(eq(aiJobs.id, id))
+      .returning();
+    return job;
+  }
+  // AI PII tokens
+  async getAiPiiTokens(entityType: string, entityId: string): Promise<AiPiiTokens | undefined> {
+    const [tokens] = await this.db
+      .select()
+      .from(aiPiiTokens)
+      .where(and(eq(aiPiiTokens.entityType, entityType), eq(aiPiiTokens.entityId, entityId)));
+    return tokens;
+  }
+
+  async upsertAiPiiTokens(insertTokens: InsertAiPiiTokens): Promise<AiPiiTokens> {
+    const [tokens] = await this.db
+      .insert(aiPiiTokens)
+      .values(insertTokens)
+      .onConflictDoUpdate({
+        target: [aiPiiTokens.entityType, aiPiiTokens.entityId],
+        set: { tokens: insertTokens.tokens, updatedAt: new Date() },
+      })
+      .returning();
+    return tokens;
+  }
+
+  // Policy documents
+  async createPolicyDocument(
+    insertDocument: InsertPolicyDocument,
+    chunks: Omit<InsertPolicyChunk, "documentId">[],
+  ): Promise<PolicyDocument> {
+    return this.db.transaction(async (tx) => {
+      const [document] = await tx.insert(policyDocuments).values(insertDocument).returning();
+      // Batched to stay under the bind parameter limit for long handbooks
+      for (let start = 0; start < chunks.length; start += POLICY_CHUNK_BATCH) {
+        await tx.insert(policyChunks).values(chunks
+          .slice(start, start + POLICY_CHUNK_BATCH)
+          .map(chunk => ({ ...chunk, documentId: document.id })));
+      }
+      return document;
+    });
+  }
+
+  async getPolicyDocument(id: string): Promise<PolicyDocument | undefined> {
+    const [document] = await this.db.select().from(policyDocuments).where(eq(policyDocuments.id, id));
+    return document;
+  }
+
+  async getPolicyDocuments(): Promise<PolicyDocument[]> {
+    return this.db.select().from(policyDocuments).orderBy(desc(policyDocuments.createdAt));
+  }
+
+  async deletePolicyDocument(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(policyChunks).where(eq(policyChunks.documentId, id));
+      const deleted = await tx.delete(policyDocuments).where(eq(policyDocuments.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getPolicyChunks(documentId?: string): Promise<PolicyChunk[]> {
+    return this.db
+      .select()
+      .from(policyChunks)
+      .where(documentId ? eq(policyChunks.documentId, documentId) : undefined)
+      .orderBy(asc(policyChunks.documentId), asc(policyChunks.position));
+  }
+
+  // Chat conversations
+  async createChatConversation(insertConversation: InsertChatConversation): Promise<ChatConversation> {
+    const [conversation] = await this.db.insert(chatConversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await this.db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation;
+  }
+
+  async getChatConversations(userId: string): Promise<ChatConversation[]> {
+    return this.db
+      .select()
+      .from(chatConversations)
+      .where(eq(chatConversations.userId, userId))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
+
+  async updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined> {
+    const values = { ...updates };
+    delete values.id;
+    const [conversation] = await this.db
+      .update(chatConversations)
+      .set(values)
+      .where(eq(chatConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteChatConversation(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(chatTurns).where(eq(chatTurns.conversationId, id));
+      const deleted = await tx.delete(chatConversations).where(eq(chatConversations.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getChatTurns(conversationId: string): Promise<ChatTurn[]> {
+    return this.db
+      .select()
+      .from(chatTurns)
+      .where(eq(chatTurns.conversationId, conversationId))
+      .orderBy(asc(chatTurns.position));
+  }
+
+  async appendChatTurns(
+    conversationId: string,
+    turns: Omit<InsertChatTurn, "conversationId" | "position">[],
+    updates: Partial<ChatConversation> = {},
+  ): Promise<ChatTurn[]> {
+    return this.db.transaction(async (tx) => {
+      // Locking the conversation keeps two exchanges from taking the same positions
+      await tx
+        .select({ id: chatConversations.id })
+        .from(chatConversations)
+        .where(eq(chatConversations.id, conversationId))
+        .for("update");
+      const [{ next }] = await tx
+        .select({ next: sql<number>`coalesce(max(${chatTurns.position}) + 1, 0)::int` })
+        .from(chatTurns)
+        .where(eq(chatTurns.conversationId, conversationId));
+      const appended = turns.length === 0 ? [] : await tx
+        .insert(chatTurns)
+        .values(turns.map((turn, index) => ({ ...turn, conversationId, position: next + index })))
+        .returning();
+      const values = { ...updates };
+      delete values.id;
+      if (Object.keys(values).length > 0) {
+        await tx.update(chatConversations).set(values).where(eq(chatConversations.id, conversationId));
+      }
+      return appended.sort((a, b) => a.position - b.position);
+    });
+  }
+
+  async deleteExpiredChatConversations(now: Date): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const expired = tx
+        .select({ id: chatConversations.id })
+        .from(chatConversations)
+        .where(lt(chatConversations.expiresAt, now));
+      await tx.delete(chatTurns).where(inArray(chatTurns.conversationId, expired));
+      const deleted = await tx
+        .delete(chatConversations)
+        .where(lt(chatConversations.expiresAt, now))
+        .returning({ id: chatConversations.id });
+      return deleted.length;
+    });
+  }
+
+  async getChatPreferences(userId: string): Promise<ChatPreferences | undefined> {
+    const [preferences] = await this.db
+      .select()
+      .from(chatPreferences)
+      .where(eq(chatPreferences.userId, userId));
+    return preferences;
+  }
+
+  async upsertChatPreferences(insertPreferences: InsertChatPreferences): Promise<ChatPreferences> {
+    const [preferences] = await this.db
+      .insert(chatPreferences)
+      .values(insertPreferences)
+      .onConflictDoUpdate({
+        target: chatPreferences.userId,
+        set: { ...insertPreferences, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  }
+}
+
+function humanize(value: string): string {
+  return value.replace(/_/g, " ");
+}
+
+// Records an activity feed event after each write the admin dashboard
+// reports on, whichever backend is in use. Failing to record an event is
+// logged and never fails the write itself.
+export function withActivityEvents<T extends IStorage>(target: T): T {
+  const record = async (event: InsertActivityEvent) => {
+    try {
+      await target.createActivityEvent(event);
+    } catch (error) {
+      console.error("Failed to record activity event:", error);
+    }
+  };
+  const departmentOf = async (userId: string) => (await target.getUser(userId))?.department ?? null;
+  // Anonymous filers stay hidden, including which department they are in
+  const complaintDepartment = async (complaint?: Complaint) =>
+    complaint && !complaint.isAnonymous ? departmentOf(complaint.submitterId) : null;
+
+  const { createUser, createComplaint, createComplaintStatusHistory, createMeeting, createScenario } = target;
+
+  target.createUser = async (insertUser) => {
+    const user = await createUser.call(target, insertUser);
+    await record({
+      type: "user.registered",
+      actorId: user.id,
+      department: user.department,
+      entityType: "user",
+      entityId: user.id,
+      summary: `${user.name} joined as ${humanize(user.role)}`,
+    });
+    return user;
+  };
+
+  target.createComplaint = async (insertComplaint) => {
+    const complaint = await createComplaint.call(target, insertComplaint);
+    await record({
+      type: "complaint.filed",
+      actorId: complaint.isAnonymous ? null : complaint.submitterId,
+      department: await complaintDepartment(complaint),
+      entityType: "complaint",
+      entityId: complaint.id,
+      summary: `"${complaint.title}" filed under ${complaint.category}`,
+    });
+    return complaint;
+  };
+
+  target.createComplaintStatusHistory = async (insertEntry) => {
+    const entry = await createComplaintStatusHistory.call(target, insertEntry);
+    // The first entry is the filing itself, already recorded above
+    if (entry.fromStatus) {
+      const complaint = await target.getComplaint(entry.complaintId);
+      await record({
+        type: "complaint.status_changed",
+        actorId: entry.actorId,
+        department: await complaintDepartment(complaint),
+        entityType: "complaint",
+        entityId: entry.complaintId,
+        summary: `"${complaint?.title ?? "Complaint"}" moved from ${humanize(entry.fromStatus)} to ${humanize(entry.toStatus)}`,
+      });
+    }
+    return entry;
+  };
+
+  target.createMeeting = async (insertMeeting) => {
+    const meeting = await createMeeting.call(target, insertMeeting);
+    await record({
+      type: "meeting.scheduled",
+      actorId: meeting.organizerId,
+      department: await departmentOf(meeting.organizerId),
+      entityType: "meeting",
+      entityId: meeting.id,
+      summary: `"${meeting.title}" (${humanize(meeting.type)})`,
+    });
+    return meeting;
+  };
+
+  target.createScenario = async (insertScenario) => {
+    const scenario = await createScenario.call(target, insertScenario);
+    await record({
+      type: "scenario.run",
+      actorId: scenario.createdBy,
+      department: await departmentOf(scenario.createdBy),
+      entityType: "scenario",
+      entityId: scenario.id,
+      summary: `"${scenario.title}"`,
+    });
+    return scenario;
+  };
+
+  return target;
+}
+
+// Postgres when DATABASE_URL is provisioned, otherwise the in-memory store
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    return withActivityEvents(new MemStorage());
+  }
+
+  const { db, pool } = createDatabase(process.env.DATABASE_URL);
+  const dbStorage = withActivityEvents(new DbStorage(db, pool));
+  dbStorage.initializeDefaults().catch((error) => {
+    console.error("Failed to seed default users:", error);
+  });
+  return dbStorage;
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,50 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import type { Pool } from "@neondatabase/serverless";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { tables, type Database } from "./db";
+
+// Fresh stores for the test suites: the in-memory store, and DbStorage on an
+// embedded Postgres (pglite) with the schema pushed as drizzle-kit would
+
+// drizzle-kit's ESM build cannot load its own CommonJS dependencies
+const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+export interface TestBackend {
+  // An empty store; the first DbStorage call pushes the schema, which takes
+  // a few seconds
+  create(): Promise<IStorage>;
+  close?(): Promise<void>;
+}
+
+export function memBackend(): TestBackend {
+  return { create: async () => new MemStorage() };
+}
+
+export function dbBackend(): TestBackend {
+  const client = new PGlite();
+  const db = drizzle(client);
+  const names = Object.values(tables).filter(value => is(value, PgTable)).map(table => `"${getTableName(table as PgTable)}"`);
+  let pushed = false;
+  return {
+    async create() {
+      if (!pushed) {
+        const { apply } = await pushSchema(tables, db);
+        await apply();
+        pushed = true;
+      }
+      await client.exec(`TRUNCATE ${names.join(", ")} CASCADE`);
+      // The session store is never touched, so the client stands in for the pool
+      return new DbStorage(db as unknown as Database, client as unknown as Pool);
+    },
+    close: () => client.close(),
+  };
+}
+
+export const testBackends: [string, () => TestBackend][] = [
+  ["MemStorage", memBackend],
+  ["DbStorage", dbBackend],
+];
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    // Keeps the in-memory store from generating and logging a password
+    env: { SEED_HR_PASSWORD: "test-password" },
+    // Password hashing is deliberately slow, and the suites share one CPU
+    // in CI, so a test that creates users can run past the default 5 seconds
+    testTimeout: 30_000,
+  },
+});